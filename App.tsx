@@ -1,23 +1,60 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import Login from './components/Login';
 import Dashboard from './components/Dashboard';
+import { AuthSession } from './types';
+import { restoreSession, logout } from './services/authService';
+import { clearSavedSnapshots } from './services/sheetStore';
+import { startPushUpdates, stopPushUpdates } from './services/pushChannel';
+import { LoadingIcon } from './components/icons';
 
 const App: React.FC = () => {
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [isRestoring, setIsRestoring] = useState(true);
 
-  const handleLoginSuccess = useCallback(() => {
-    setIsAuthenticated(true);
+  // Pick up the session from a previous visit so a reload doesn't sign the DJ out.
+  useEffect(() => {
+    restoreSession()
+      .then(setSession)
+      .finally(() => setIsRestoring(false));
+  }, []);
+
+  // Listen for pushed updates only while someone is signed in.
+  const isSignedIn = session !== null;
+  useEffect(() => {
+    if (!isSignedIn) return;
+    startPushUpdates();
+    return stopPushUpdates;
+  }, [isSignedIn]);
+
+  const handleLoginSuccess = useCallback((newSession: AuthSession) => {
+    setSession(newSession);
   }, []);
   
   const handleLogout = useCallback(() => {
-    setIsAuthenticated(false);
+    setSession(null);
+    logout();
+    clearSavedSnapshots();
   }, []);
 
+  const handleSessionChange = useCallback((updated: AuthSession) => {
+    setSession(updated);
+  }, []);
+
+  if (isRestoring) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+        <LoadingIcon />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-100 text-gray-800">
-      {isAuthenticated ? <Dashboard onLogout={handleLogout} /> : <Login onLoginSuccess={handleLoginSuccess} />}
+      {session
+        ? <Dashboard session={session} onLogout={handleLogout} onSessionChange={handleSessionChange} />
+        : <Login onLoginSuccess={handleLoginSuccess} />}
     </div>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
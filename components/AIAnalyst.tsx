@@ -1,12 +1,13 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { ChatMessage } from '../types';
 import { getComplexResponse, getSimpleResponse } from '../services/geminiService';
-import { fetchData } from '../services/googleSheetService';
+import { readSheet } from '../services/sheetStore';
 import { SendIcon } from './icons';
+import { getSheetName, getStationConfig } from '../services/stationConfig';
 
 const AIAnalyst: React.FC = () => {
   const [messages, setMessages] = useState<ChatMessage[]>([
-    { sender: 'bot', text: 'Hi! I am Eden FM Buddy. How can I help you analyze the station data today? Ask me about top songs, user registrations by area, or request trends.' }
+    { sender: 'bot', text: `Hi! I am ${getStationConfig().assistantName}. How can I help you analyze the station data today? Ask me about top songs, user registrations by area, or request trends.` }
   ]);
   const [input, setInput] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -33,10 +34,10 @@ const AIAnalyst: React.FC = () => {
         let botResponseText: string;
         if (isDataQuery(input)) {
             const [requests, registrations, announcements, schedule] = await Promise.all([
-                fetchData('Listeners Choice'),
-                fetchData('Registered Users'),
-                fetchData('Announcements'),
-                fetchData('TimeSlots')
+                readSheet(getSheetName('requests')),
+                readSheet(getSheetName('registrations')),
+                readSheet(getSheetName('announcements')),
+                readSheet(getSheetName('schedule'))
             ]);
             const context = { requests, registrations, announcements, schedule };
             botResponseText = await getComplexResponse(input, context);
@@ -0,0 +1,15 @@
+import React from 'react';
+
+interface AccessDeniedProps {
+  message?: string;
+}
+
+/** Shown in place of a section the signed-in role is not allowed to use. */
+const AccessDenied: React.FC<AccessDeniedProps> = ({ message = 'Your role does not have access to this section.' }) => (
+  <div className="text-center p-8 bg-white rounded-lg border border-gray-200 shadow-sm">
+    <h3 className="text-lg font-semibold text-gray-800">Access Restricted</h3>
+    <p className="text-gray-500 mt-2">{message}</p>
+  </div>
+);
+
+export default AccessDenied;
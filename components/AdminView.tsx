@@ -1,16 +1,36 @@
 import React, { useState } from 'react';
 import WhatsApp from './WhatsApp';
 import WhatsAppAgent from './WhatsAppAgent';
+import AgentScenarios from './AgentScenarios';
 import ShowManagement from './ShowManagement';
+import UserAccounts from './UserAccounts';
+import AuditLog from './AuditLog';
+import DataMaintenance from './DataMaintenance';
+import StationSettings from './StationSettings';
+import AiUsage from './AiUsage';
+import AccessDenied from './AccessDenied';
+import { can } from '../services/authService';
+
+const allTabs = [
+  { id: 'live-chat', label: 'WhatsApp Live Chat', permission: 'chat:reply' },
+  { id: 'agent', label: 'WhatsApp Agent', permission: 'agent:configure' },
+  { id: 'agent-scenarios', label: 'Agent Scenarios', permission: 'agent:configure' },
+  { id: 'shows', label: 'Show Management', permission: 'shows:edit' },
+  { id: 'users', label: 'User Accounts', permission: 'users:manage' },
+  { id: 'audit', label: 'Audit Log', permission: 'audit:view' },
+  { id: 'maintenance', label: 'Data Maintenance', permission: 'data:maintain' },
+  { id: 'ai-usage', label: 'AI Usage', permission: 'ai:view-usage' },
+  { id: 'settings', label: 'Station Settings', permission: 'settings:edit' },
+] as const;
 
 const AdminView: React.FC = () => {
-  const [activeTab, setActiveTab] = useState('live-chat');
+  // Producers see only the tabs their role allows; station admins see them all.
+  const tabs = allTabs.filter(tab => can(tab.permission));
+  const [activeTab, setActiveTab] = useState<string>(tabs[0]?.id ?? '');
 
-  const tabs = [
-    { id: 'live-chat', label: 'WhatsApp Live Chat' },
-    { id: 'agent', label: 'WhatsApp Agent' },
-    { id: 'shows', label: 'Show Management' },
-  ];
+  if (!can('view:admin')) {
+    return <div className="p-8"><AccessDenied /></div>;
+  }
 
   return (
     <div className="p-8">
@@ -35,7 +55,13 @@ const AdminView: React.FC = () => {
       <div className="mt-6">
         {activeTab === 'live-chat' && <WhatsApp />}
         {activeTab === 'agent' && <WhatsAppAgent />}
+        {activeTab === 'agent-scenarios' && <AgentScenarios />}
         {activeTab === 'shows' && <ShowManagement />}
+        {activeTab === 'users' && <UserAccounts />}
+        {activeTab === 'audit' && <AuditLog />}
+        {activeTab === 'maintenance' && <DataMaintenance />}
+        {activeTab === 'ai-usage' && <AiUsage />}
+        {activeTab === 'settings' && <StationSettings />}
       </div>
     </div>
   );
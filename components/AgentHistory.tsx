@@ -0,0 +1,68 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AgentSession, describeAgentAction, fetchListenerHistory } from '../services/agentService';
+import { describeError } from '../services/errors';
+import { LISTENER_LANGUAGES } from '../services/stationConfig';
+import { LoadingIcon } from './icons';
+
+interface AgentHistoryProps {
+  /** The listener's number, or a tester's ID. */
+  conversationId: string;
+}
+
+/** Every session the WhatsApp agent has had with one listener, newest first, with what each reply did. */
+const AgentHistory: React.FC<AgentHistoryProps> = ({ conversationId }) => {
+  const [sessions, setSessions] = useState<AgentSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      setSessions(await fetchListenerHistory(conversationId));
+      setError(null);
+    } catch (err) {
+      setError(describeError(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [conversationId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (loading) return <div className="p-4 flex justify-center"><LoadingIcon /></div>;
+  if (error) return <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded-md text-sm" role="alert">Failed to load the agent's history. {error}</div>;
+  if (sessions.length === 0) return <p className="p-4 text-sm text-gray-500 text-center">The agent has not spoken with {conversationId}.</p>;
+
+  return (
+    <div className="space-y-6">
+      {sessions.map(session => (
+        <section key={session.sessionId}>
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">
+            {new Date(session.startedAt).toLocaleString()}
+            {` · ${LISTENER_LANGUAGES[session.language]}`}
+            {session.ended && ' · ended by an admin'}
+          </h4>
+          <div className="space-y-2">
+            {session.messages.map((message, index) => (
+              <div key={index} className={`flex ${message.role === 'listener' ? 'justify-start' : 'justify-end'}`}>
+                <div className={`px-3 py-2 rounded-2xl max-w-lg text-sm shadow-sm ${message.role === 'listener' ? 'bg-white text-gray-800 rounded-bl-none' : 'bg-green-100 text-gray-800 rounded-br-none'}`}>
+                  <p>{message.text}</p>
+                  {message.actions.map((action, actionIndex) => (
+                    <p key={actionIndex} className={`mt-1 text-xs ${action.failed ? 'text-red-600' : 'text-gray-500'}`}>
+                      {action.failed ? '⚠' : '✓'} {describeAgentAction(action)}
+                    </p>
+                  ))}
+                  <p className="text-xs opacity-60 mt-1 text-right">{new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default AgentHistory;
@@ -0,0 +1,137 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AgentScenario, AgentScenarioResult, describeAgentAction, fetchAgentScenarios, runAgentScenario } from '../services/agentService';
+import { can } from '../services/authService';
+import { describeError } from '../services/errors';
+import { LISTENER_LANGUAGES } from '../services/stationConfig';
+import AccessDenied from './AccessDenied';
+
+type RunState = { status: 'running' } | { status: 'done'; result: AgentScenarioResult } | { status: 'error'; message: string };
+
+const describeExpectations = (scenario: AgentScenario): string => {
+  const calls = (scenario.expect.toolCalls ?? []).map(call => {
+    const args = Object.entries(call.args ?? {}).map(([key, value]) => (value === true ? key : `${key} ~ "${value}"`));
+    return args.length > 0 ? `${call.name} (${args.join(', ')})` : call.name;
+  });
+  const forbidden = scenario.expect.forbiddenTools ?? [];
+  const language = scenario.expect.language && `answers in ${LISTENER_LANGUAGES[scenario.expect.language]}`;
+  return [calls.length > 0 && `Calls ${calls.join(', then ')}`, forbidden.length > 0 && `never ${forbidden.join(', ')}`, language].filter(Boolean).join('; ') || 'No expectations';
+};
+
+/**
+ * Plays the scripted agent conversations against the companion server's agent and
+ * shows which pass, so a prompt change that breaks a flow is noticed before listeners do.
+ */
+const AgentScenarios: React.FC = () => {
+  const [scenarios, setScenarios] = useState<AgentScenario[]>([]);
+  const [runs, setRuns] = useState<Record<string, RunState>>({});
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [runningAll, setRunningAll] = useState(false);
+
+  useEffect(() => {
+    fetchAgentScenarios()
+      .then(setScenarios)
+      .catch(err => setError(describeError(err)))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const run = useCallback(async (id: string) => {
+    setRuns(current => ({ ...current, [id]: { status: 'running' } }));
+    try {
+      const result = await runAgentScenario(id);
+      setRuns(current => ({ ...current, [id]: { status: 'done', result } }));
+    } catch (err) {
+      setRuns(current => ({ ...current, [id]: { status: 'error', message: describeError(err) } }));
+    }
+  }, []);
+
+  // One at a time: each scenario is several model calls, and they count against the AI limits.
+  const runAll = async () => {
+    setRunningAll(true);
+    for (const scenario of scenarios) await run(scenario.id);
+    setRunningAll(false);
+  };
+
+  if (!can('agent:configure')) return <AccessDenied />;
+
+  const finished = scenarios.map(scenario => runs[scenario.id]).filter((state): state is Extract<RunState, { status: 'done' }> => state?.status === 'done');
+  const passed = finished.filter(state => state.result.passed).length;
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8 bg-white rounded-lg shadow border border-gray-200">
+      <div className="flex justify-between items-start">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Agent Scenarios</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Scripted listener conversations, played against the WhatsApp agent with its saved prompt. The requests and registrations they make are not saved.
+          </p>
+        </div>
+        <button onClick={runAll} disabled={runningAll || scenarios.length === 0} className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-400">
+          {runningAll ? 'Running…' : 'Run all'}
+        </button>
+      </div>
+
+      {error && <div className="my-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded-md text-sm" role="alert">Failed to load the scenarios. {error}</div>}
+      {!error && !loading && scenarios.length === 0 && <p className="mt-6 text-sm text-gray-500">The server has no scenarios.</p>}
+      {finished.length > 0 && <p className="mt-4 text-sm font-medium text-gray-700">{passed} of {finished.length} passed.</p>}
+
+      <ul className="mt-4 divide-y divide-gray-200">
+        {scenarios.map(scenario => {
+          const state = runs[scenario.id];
+          const result = state?.status === 'done' ? state.result : null;
+          return (
+            <li key={scenario.id} className="py-3">
+              <div className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900">{scenario.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {scenario.persona.name}, {scenario.messages.length} message{scenario.messages.length === 1 ? '' : 's'}. {describeExpectations(scenario)}.
+                  </p>
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  {state?.status === 'running' && <span className="text-xs text-gray-500">Running…</span>}
+                  {result && (
+                    <button
+                      onClick={() => setExpanded(expanded === scenario.id ? null : scenario.id)}
+                      className={`px-2 py-0.5 text-xs font-semibold rounded-full ${result.passed ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}
+                    >
+                      {result.passed ? 'Pass' : 'Fail'}
+                    </button>
+                  )}
+                  {state?.status === 'error' && <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">Error</span>}
+                  <button onClick={() => run(scenario.id)} disabled={state?.status === 'running' || runningAll} className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300 disabled:opacity-50">
+                    Run
+                  </button>
+                </div>
+              </div>
+              {state?.status === 'error' && <p className="mt-2 text-sm text-red-600">{state.message}</p>}
+              {result && !result.passed && (
+                <ul className="mt-2 text-sm text-red-700 list-disc list-inside">
+                  {result.failures.map((failure, index) => <li key={index}>{failure}</li>)}
+                </ul>
+              )}
+              {result && expanded === scenario.id && (
+                <div className="mt-3 p-3 bg-gray-50 rounded-md border border-gray-200 space-y-2 text-sm">
+                  {result.turns.map((turn, index) => (
+                    <div key={index}>
+                      <p className="text-gray-900"><span className="font-semibold">{scenario.persona.name}:</span> {turn.message}</p>
+                      {turn.actions.map((action, actionIndex) => (
+                        <p key={actionIndex} className={`ml-4 text-xs ${action.failed ? 'text-red-600' : 'text-gray-500'}`}>
+                          {action.failed ? '⚠' : '✓'} {describeAgentAction(action)} {JSON.stringify(action.args)}
+                        </p>
+                      ))}
+                      <p className="text-gray-700"><span className="font-semibold">Agent:</span> {turn.reply}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default AgentScenarios;
@@ -0,0 +1,94 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AiUsageRow, fetchAiUsage } from '../services/geminiService';
+import { can } from '../services/authService';
+import { describeError } from '../services/errors';
+import AccessDenied from './AccessDenied';
+
+const OPERATION_LABELS: Record<string, string> = {
+  complex: 'AI Analyst (data)',
+  simple: 'AI Analyst (chat)',
+  speech: 'Text to speech',
+  transcription: 'Transcription',
+  news: 'Local News',
+  agent: 'WhatsApp Agent',
+  'agent-scenarios': 'Agent scenarios',
+};
+
+/** AI requests and tokens per day, user and feature, as counted by the companion server. */
+const AiUsage: React.FC = () => {
+  const [rows, setRows] = useState<AiUsageRow[]>([]);
+  const [since, setSince] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const report = await fetchAiUsage();
+      setRows(report.rows);
+      setSince(report.since);
+      setError(null);
+    } catch (err) {
+      setError(describeError(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (!can('ai:view-usage')) return <AccessDenied />;
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8 bg-white rounded-lg shadow border border-gray-200">
+      <div className="flex justify-between items-start">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">AI Usage</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Gemini requests made through the dashboard{since && `, counted since ${new Date(since).toLocaleString()}`}.
+          </p>
+        </div>
+        <button onClick={load} disabled={loading} className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 disabled:opacity-50">
+          {loading ? 'Loading…' : 'Refresh'}
+        </button>
+      </div>
+
+      {error && <div className="my-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded-md text-sm" role="alert">Failed to load AI usage. {error}</div>}
+
+      {!error && !loading && rows.length === 0 && <p className="mt-6 text-sm text-gray-500">No AI requests yet.</p>}
+
+      {rows.length > 0 && (
+        <table className="mt-6 min-w-full divide-y divide-gray-200 text-sm">
+          <thead>
+            <tr className="text-left text-gray-900">
+              <th scope="col" className="py-3 pr-3 font-semibold">Day</th>
+              <th scope="col" className="px-3 py-3 font-semibold">User</th>
+              <th scope="col" className="px-3 py-3 font-semibold">Feature</th>
+              <th scope="col" className="px-3 py-3 font-semibold text-right">Requests</th>
+              <th scope="col" className="px-3 py-3 font-semibold text-right">Failed</th>
+              <th scope="col" className="px-3 py-3 font-semibold text-right">Tokens in / out</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {rows.map(row => (
+              <tr key={`${row.day}|${row.username}|${row.operation}`}>
+                <td className="py-2 pr-3 text-gray-600 whitespace-nowrap">{row.day}</td>
+                <td className="px-3 py-2 font-medium text-gray-900">{row.username}</td>
+                <td className="px-3 py-2 text-gray-700">{OPERATION_LABELS[row.operation] ?? row.operation}</td>
+                <td className="px-3 py-2 text-right">{row.requests}</td>
+                <td className="px-3 py-2 text-right">{row.failures}</td>
+                <td className="px-3 py-2 text-right text-gray-600">
+                  {row.promptTokens.toLocaleString()} / {row.outputTokens.toLocaleString()}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default AiUsage;
@@ -4,8 +4,9 @@ import { EditIcon, DeleteIcon } from './icons';
 
 interface AnnouncementCardProps {
     announcement: NewsItem;
-    onEdit: (item: NewsItem) => void;
-    onDelete: (rowIndex: number) => void;
+    // Omitted when the signed-in role may not edit or delete announcements
+    onEdit?: (item: NewsItem) => void;
+    onDelete?: (item: NewsItem) => void;
 }
 
 const getMediaType = (url: string): 'image' | 'audio' | 'document' | 'unknown' => {
@@ -36,8 +37,8 @@ const AnnouncementCard: React.FC<AnnouncementCardProps> = ({ announcement, onEdi
                     <p className="text-xs text-gray-600 bg-gray-200 inline-block px-2 py-1 rounded mt-1">{announcement.Category}</p>
                 </div>
                  <div className="flex-shrink-0 flex items-center">
-                    <button onClick={() => onEdit(announcement)} className="p-2 text-gray-500 hover:text-blue-600" title="Edit"><EditIcon /></button>
-                    <button onClick={() => onDelete(announcement.rowIndex)} className="p-2 text-gray-500 hover:text-red-600" title="Delete"><DeleteIcon /></button>
+                    {onEdit && <button onClick={() => onEdit(announcement)} className="p-2 text-gray-500 hover:text-blue-600" title="Edit"><EditIcon /></button>}
+                    {onDelete && <button onClick={() => onDelete(announcement)} className="p-2 text-gray-500 hover:text-red-600" title="Delete"><DeleteIcon /></button>}
                 </div>
             </div>
             
@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { textToSpeech, transcribeAudio } from '../services/geminiService';
 import { PlayIcon, MicIcon, StopIcon, LoadingIcon, DownloadIcon } from './icons';
+import { getStationConfig } from '../services/stationConfig';
 
 // Audio decoding/encoding functions (as per guidelines)
 function encode(bytes: Uint8Array): string {
@@ -36,7 +37,7 @@ async function decodeAudioData(data: Uint8Array, ctx: AudioContext, sampleRate:
 
 const AudioFeatures: React.FC = () => {
     // TTS State
-    const [ttsText, setTtsText] = useState('Hello from Eden FM! This is an example of text-to-speech.');
+    const [ttsText, setTtsText] = useState(`Hello from ${getStationConfig().stationName}! This is an example of text-to-speech.`);
     const [isSpeaking, setIsSpeaking] = useState(false);
     const [voice, setVoice] = useState('Kore');
 
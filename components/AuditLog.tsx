@@ -0,0 +1,165 @@
+import React, { useState, useMemo } from 'react';
+import { AuditEntry, AuditAction } from '../types';
+import { useSheetData } from '../hooks/useSheetData';
+import { AUDIT_SHEET, parseAuditRow } from '../services/auditService';
+import { can } from '../services/authService';
+import { getRowKey } from '../services/rowIds';
+import AccessDenied from './AccessDenied';
+import { describeError } from '../services/errors';
+
+const actionStyles: Record<AuditAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+  message: 'bg-purple-100 text-purple-800',
+};
+
+const formatValue = (value: unknown): string => (value == null || value === '' ? '—' : String(value));
+
+/** Lists the fields that differ between the before and after values of an entry. */
+const AuditChanges: React.FC<{ entry: AuditEntry }> = ({ entry }) => {
+  if (entry.Action === 'message') {
+    return (
+      <div className="text-sm text-gray-700">
+        <span className="font-semibold">To {entry.Recipient}:</span>{' '}
+        <span className="whitespace-pre-wrap">{entry.Message}</span>
+      </div>
+    );
+  }
+
+  const before = parseAuditRow(entry.Before) ?? {};
+  const after = parseAuditRow(entry.After) ?? {};
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(field => entry.Action !== 'update' || formatValue(before[field]) !== formatValue(after[field]));
+
+  if (fields.length === 0) return <p className="text-sm text-gray-500">No field values were recorded.</p>;
+
+  return (
+    <table className="min-w-full text-sm">
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="pr-4 font-medium">Field</th>
+          {entry.Action !== 'create' && <th className="pr-4 font-medium">Before</th>}
+          {entry.Action !== 'delete' && <th className="font-medium">After</th>}
+        </tr>
+      </thead>
+      <tbody>
+        {fields.map(field => (
+          <tr key={field} className="align-top">
+            <td className="pr-4 py-1 font-medium text-gray-700">{field}</td>
+            {entry.Action !== 'create' && <td className="pr-4 py-1 text-red-700 break-all">{formatValue(before[field])}</td>}
+            {entry.Action !== 'delete' && <td className="py-1 text-green-700 break-all">{formatValue(after[field])}</td>}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+const AuditLog: React.FC = () => {
+  const { rows, loading, error: loadError } = useSheetData<AuditEntry>(AUDIT_SHEET);
+  const [userFilter, setUserFilter] = useState('all');
+  const [actionFilter, setActionFilter] = useState('all');
+  const [sheetFilter, setSheetFilter] = useState('all');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [expandedRow, setExpandedRow] = useState<string | null>(null);
+
+  const entries = useMemo(
+    () => [...rows].sort((a, b) => new Date(b.Timestamp).getTime() - new Date(a.Timestamp).getTime()),
+    [rows]
+  );
+  const users = useMemo(() => Array.from(new Set(entries.map(e => e.Username).filter(Boolean))).sort(), [entries]);
+  const sheets = useMemo(() => Array.from(new Set(entries.map(e => e.Sheet).filter(Boolean))).sort(), [entries]);
+
+  const filteredEntries = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return entries.filter(entry =>
+      (userFilter === 'all' || entry.Username === userFilter) &&
+      (actionFilter === 'all' || entry.Action === actionFilter) &&
+      (sheetFilter === 'all' || entry.Sheet === sheetFilter) &&
+      (!query || [entry.RowId, entry.Before, entry.After, entry.Recipient, entry.Message]
+        .some(value => String(value ?? '').toLowerCase().includes(query)))
+    );
+  }, [entries, userFilter, actionFilter, sheetFilter, searchQuery]);
+
+  if (!can('audit:view')) return <AccessDenied />;
+  if (loading) return <div className="p-8 text-center">Loading audit log...</div>;
+  if (loadError) return <div className="p-8 text-center text-red-500">Failed to load the audit log. {describeError(loadError)}</div>;
+
+  const selectClassName = "px-3 py-1.5 text-sm text-gray-800 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8 bg-white rounded-lg shadow border border-gray-200">
+      <h2 className="text-2xl font-bold text-gray-900">Audit Log</h2>
+      <p className="text-sm text-gray-500 mt-1">Every change made through the dashboard and every WhatsApp message sent from it. Entries cannot be edited or removed.</p>
+
+      <div className="my-4 p-4 bg-gray-50 border border-gray-200 rounded-lg flex flex-wrap items-center gap-x-6 gap-y-4">
+        <span className="font-semibold text-gray-700">Filter by:</span>
+        <select value={userFilter} onChange={e => setUserFilter(e.target.value)} className={selectClassName} aria-label="User">
+          <option value="all">All users</option>
+          {users.map(user => <option key={user} value={user}>{user}</option>)}
+        </select>
+        <select value={actionFilter} onChange={e => setActionFilter(e.target.value)} className={selectClassName} aria-label="Action">
+          <option value="all">All actions</option>
+          <option value="create">Created</option>
+          <option value="update">Updated</option>
+          <option value="delete">Deleted</option>
+          <option value="message">WhatsApp message</option>
+        </select>
+        <select value={sheetFilter} onChange={e => setSheetFilter(e.target.value)} className={selectClassName} aria-label="Sheet">
+          <option value="all">All sheets</option>
+          {sheets.map(sheet => <option key={sheet} value={sheet}>{sheet}</option>)}
+        </select>
+        <input
+          type="text"
+          placeholder="Search row IDs, values or messages..."
+          value={searchQuery}
+          onChange={e => setSearchQuery(e.target.value)}
+          className={selectClassName}
+        />
+      </div>
+
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead>
+          <tr>
+            <th scope="col" className="py-3.5 pr-3 text-left text-sm font-semibold text-gray-900">When</th>
+            <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">User</th>
+            <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Action</th>
+            <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Target</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {filteredEntries.map(entry => (
+            <React.Fragment key={getRowKey(entry)}>
+              <tr
+                onClick={() => setExpandedRow(expandedRow === getRowKey(entry) ? null : getRowKey(entry))}
+                className="cursor-pointer hover:bg-gray-50"
+              >
+                <td className="whitespace-nowrap py-3 pr-3 text-sm text-gray-600">{new Date(entry.Timestamp).toLocaleString()}</td>
+                <td className="whitespace-nowrap px-3 py-3 text-sm font-medium text-gray-900">{entry.Username}</td>
+                <td className="whitespace-nowrap px-3 py-3 text-sm">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${actionStyles[entry.Action] ?? 'bg-gray-100 text-gray-800'}`}>{entry.Action}</span>
+                </td>
+                <td className="whitespace-nowrap px-3 py-3 text-sm text-gray-600">
+                  {entry.Action === 'message' ? `WhatsApp ${entry.Recipient}` : `${entry.Sheet}${entry.RowIndex ? `, row ${entry.RowIndex}` : ''}`}
+                </td>
+              </tr>
+              {expandedRow === getRowKey(entry) && (
+                <tr>
+                  <td colSpan={4} className="bg-gray-50 px-4 py-3">
+                    <AuditChanges entry={entry} />
+                  </td>
+                </tr>
+              )}
+            </React.Fragment>
+          ))}
+        </tbody>
+      </table>
+      {filteredEntries.length === 0 && (
+        <p className="text-center text-gray-500 py-8">No audit entries match these filters.</p>
+      )}
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { changePassword } from '../services/authService';
+import { CloseIcon, LoadingIcon } from './icons';
+
+interface ChangePasswordModalProps {
+  onClose: () => void;
+  onChanged: () => void;
+  // After an admin reset the user must choose a new password before continuing.
+  isRequired?: boolean;
+}
+
+const inputClassName = "w-full px-3 py-2 mt-1 text-gray-800 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const ChangePasswordModal: React.FC<ChangePasswordModalProps> = ({ onClose, onChanged, isRequired = false }) => {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (newPassword !== confirmPassword) {
+      setError('New passwords do not match.');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await changePassword(currentPassword, newPassword);
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change password.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-8 w-full max-w-sm relative">
+        {!isRequired && (
+          <button onClick={onClose} className="absolute top-4 right-4 text-gray-500 hover:text-gray-800" disabled={isSaving}>
+            <CloseIcon />
+          </button>
+        )}
+        <h2 className="text-xl font-bold mb-4 text-center text-gray-800">Change Password</h2>
+        {isRequired && (
+          <p className="text-sm text-gray-500 mb-6 text-center">Your password was reset by an admin. Please choose a new one to continue.</p>
+        )}
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="current-password" className="text-sm font-medium text-gray-600">{isRequired ? 'Temporary Password' : 'Current Password'}</label>
+            <input id="current-password" type="password" autoComplete="current-password" required value={currentPassword} onChange={(e) => setCurrentPassword(e.target.value)} className={inputClassName} />
+          </div>
+          <div>
+            <label htmlFor="new-password" className="text-sm font-medium text-gray-600">New Password</label>
+            <input id="new-password" type="password" autoComplete="new-password" required value={newPassword} onChange={(e) => setNewPassword(e.target.value)} className={inputClassName} />
+          </div>
+          <div>
+            <label htmlFor="confirm-new-password" className="text-sm font-medium text-gray-600">Confirm New Password</label>
+            <input id="confirm-new-password" type="password" autoComplete="new-password" required value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} className={inputClassName} />
+          </div>
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          <button type="submit" disabled={isSaving} className="w-full mt-2 flex justify-center px-4 py-2 font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-blue-400 transition duration-300">
+            {isSaving ? <LoadingIcon /> : 'Update Password'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ChangePasswordModal;
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { SheetRow, DataTableColumn } from '../types';
+import { LoadingIcon } from './icons';
+
+interface ConflictDialogProps<T extends SheetRow> {
+  columns: DataTableColumn<T>[];
+  /** The row as it was when the user started editing. */
+  original: Partial<T>;
+  /** The user's unsaved edit. */
+  mine: Partial<T>;
+  /** The row now stored at that index, or null if it no longer exists. */
+  current: T | null;
+  isSaving: boolean;
+  error: string | null;
+  onSaveMerged: (merged: T) => void;
+  onSaveAsNew: (row: Partial<T>) => void;
+  onDiscard: () => void;
+}
+
+const asText = (value: unknown) => (value == null ? '' : String(value));
+
+/**
+ * Shown when saving an edit fails with a ConflictError. Lists every column that
+ * differs between the user's edit and the stored row and lets them pick a value
+ * for each. Fields the user changed default to their edit; the rest default to the stored value.
+ */
+const ConflictDialog = <T extends SheetRow,>({
+  columns,
+  original,
+  mine,
+  current,
+  isSaving,
+  error,
+  onSaveMerged,
+  onSaveAsNew,
+  onDiscard,
+}: ConflictDialogProps<T>) => {
+  const conflicting = current
+    ? columns.filter(col => asText(mine[col.key]) !== asText(current[col.key]))
+    : [];
+
+  const [choices, setChoices] = useState<Record<string, 'mine' | 'theirs'>>(() =>
+    Object.fromEntries(
+      conflicting.map(col => [
+        String(col.key),
+        asText(mine[col.key]) !== asText(original[col.key]) ? 'mine' : 'theirs',
+      ])
+    )
+  );
+
+  const handleSaveMerged = () => {
+    if (!current) return;
+    const merged = { ...current };
+    conflicting.forEach(col => {
+      if (choices[String(col.key)] === 'mine') merged[col.key] = mine[col.key] as T[keyof T];
+    });
+    onSaveMerged(merged);
+  };
+
+  const handleSaveAsNew = () => {
+    const { rowIndex, Version, ...values } = mine;
+    onSaveAsNew(values as Partial<T>);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-8 w-full max-w-3xl">
+        <h2 className="text-xl font-bold mb-2 text-gray-900">This row changed while you were editing</h2>
+        {current ? (
+          <p className="text-sm text-gray-500 mb-4">
+            Someone else saved this row, or a delete moved a different row into its place. Choose which value to keep for each field that differs.
+          </p>
+        ) : (
+          <p className="text-sm text-gray-500 mb-4">
+            The row no longer exists; it was deleted or moved. You can save your edit as a new row or discard it.
+          </p>
+        )}
+
+        {error && (
+          <div className="my-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded-md text-sm" role="alert">
+            {error}
+          </div>
+        )}
+
+        {current && (
+          conflicting.length > 0 ? (
+            <div className="max-h-[50vh] overflow-y-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead>
+                  <tr className="text-left text-gray-900">
+                    <th className="py-2 pr-3 font-semibold">Field</th>
+                    <th className="px-3 py-2 font-semibold">Your edit</th>
+                    <th className="px-3 py-2 font-semibold">Saved now</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {conflicting.map(col => {
+                    const key = String(col.key);
+                    return (
+                      <tr key={key} className="align-top">
+                        <td className="py-2 pr-3 font-medium text-gray-700">{col.label}</td>
+                        {(['mine', 'theirs'] as const).map(side => (
+                          <td key={side} className="px-3 py-2">
+                            <label className="flex items-start gap-2 cursor-pointer">
+                              <input
+                                type="radio"
+                                name={`conflict-${key}`}
+                                checked={choices[key] === side}
+                                onChange={() => setChoices(prev => ({ ...prev, [key]: side }))}
+                                className="mt-1"
+                              />
+                              <span className="text-gray-800 break-all">
+                                {asText(side === 'mine' ? mine[col.key] : current[col.key]) || <em className="text-gray-400">empty</em>}
+                              </span>
+                            </label>
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-700">The saved row already matches your edit.</p>
+          )
+        )}
+
+        <div className="mt-6 flex justify-end space-x-4">
+          <button onClick={onDiscard} className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 disabled:opacity-50" disabled={isSaving}>
+            Discard my edit
+          </button>
+          {current ? (
+            <button onClick={handleSaveMerged} className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-blue-400 flex items-center justify-center min-w-[8rem]" disabled={isSaving}>
+              {isSaving ? <LoadingIcon /> : 'Save merged row'}
+            </button>
+          ) : (
+            <button onClick={handleSaveAsNew} className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-blue-400 flex items-center justify-center min-w-[8rem]" disabled={isSaving}>
+              {isSaving ? <LoadingIcon /> : 'Save as new row'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictDialog;
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { backfillRowIds, BackfillResult, ROW_ID_SHEETS } from '../services/migrations';
+import { can } from '../services/authService';
+import AccessDenied from './AccessDenied';
+import DataQualityReport from './DataQualityReport';
+import { LoadingIcon } from './icons';
+
+const DataMaintenance: React.FC = () => {
+  const [isRunning, setIsRunning] = useState(false);
+  const [results, setResults] = useState<BackfillResult[]>([]);
+
+  const handleBackfill = async () => {
+    setIsRunning(true);
+    setResults([]);
+    try {
+      await backfillRowIds(ROW_ID_SHEETS, result => setResults(prev => [...prev, result]));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  if (!can('data:maintain')) return <AccessDenied />;
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8 bg-white rounded-lg shadow border border-gray-200">
+      <h2 className="text-2xl font-bold text-gray-900">Data Maintenance</h2>
+
+      <div className="mt-6">
+        <h3 className="text-lg font-semibold text-gray-800">Assign row IDs</h3>
+        <p className="text-sm text-gray-500 mt-1 max-w-2xl">
+          New rows get a permanent ID when they are created. Rows added before IDs existed need one assigned
+          before edits, read state and dismissals can follow them when other rows are deleted.
+          Rows that already have an ID are not touched, so this is safe to run more than once.
+        </p>
+        <button
+          onClick={handleBackfill}
+          disabled={isRunning}
+          className="mt-4 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-blue-400 flex items-center justify-center min-w-[10rem]"
+        >
+          {isRunning ? <LoadingIcon /> : 'Assign missing IDs'}
+        </button>
+
+        {results.length > 0 && (
+          <table className="mt-6 min-w-full divide-y divide-gray-200 text-sm">
+            <thead>
+              <tr className="text-left text-gray-900">
+                <th className="py-2 pr-3 font-semibold">Sheet</th>
+                <th className="px-3 py-2 font-semibold">Rows</th>
+                <th className="px-3 py-2 font-semibold">IDs assigned</th>
+                <th className="px-3 py-2 font-semibold">Result</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {results.map(result => (
+                <tr key={result.sheetName}>
+                  <td className="py-2 pr-3 font-medium text-gray-800">{result.sheetName}</td>
+                  <td className="px-3 py-2 text-gray-600">{result.totalRows}</td>
+                  <td className="px-3 py-2 text-gray-600">{result.assigned}</td>
+                  <td className="px-3 py-2">
+                    {result.error ? (
+                      <span className="text-red-600">{result.error}</span>
+                    ) : result.skipped > 0 ? (
+                      <span className="text-yellow-700">{result.skipped} rows changed during the run; run it again.</span>
+                    ) : (
+                      <span className="text-green-700">Done</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="mt-10">
+        <h3 className="text-lg font-semibold text-gray-800">Data quality</h3>
+        <p className="text-sm text-gray-500 mt-1 mb-4 max-w-2xl">
+          Values that do not match what the dashboard expects, such as a request time it cannot read or a
+          malformed phone number. These rows still appear in their views but may be missing from analytics
+          until they are corrected in the Google Sheet.
+        </p>
+        <DataQualityReport />
+      </div>
+    </div>
+  );
+};
+
+export default DataMaintenance;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { useSheetData } from '../hooks/useSheetData';
+import { SCHEMA_SHEETS, getSheetSchema } from '../services/sheetSchemas';
+import { LoadingIcon } from './icons';
+
+const formatValue = (value: unknown): string => (value == null || value === '' ? '(empty)' : String(value));
+
+const SheetQuality: React.FC<{ sheetName: string }> = ({ sheetName }) => {
+  const { rows, loading, error, issues } = useSheetData(sheetName);
+  const rowLabel = getSheetSchema(sheetName)?.rowLabel ?? 'row';
+  const affectedRows = new Set(issues.map(issue => issue.rowId || issue.rowIndex)).size;
+
+  return (
+    <div className="border border-gray-200 rounded-lg">
+      <div className="flex justify-between items-center px-4 py-3 bg-gray-50 rounded-t-lg">
+        <span className="font-semibold text-gray-800">{sheetName}</span>
+        {loading ? (
+          <LoadingIcon />
+        ) : error ? (
+          <span className="text-sm text-red-600">Could not load this sheet.</span>
+        ) : affectedRows === 0 ? (
+          <span className="text-sm text-green-700">All {rows.length} rows look fine</span>
+        ) : (
+          <span className="text-sm text-yellow-700">
+            {affectedRows} of {rows.length} {rowLabel}s need attention
+          </span>
+        )}
+      </div>
+      {issues.length > 0 && (
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead>
+            <tr className="text-left text-gray-900">
+              <th className="px-4 py-2 font-semibold">Row</th>
+              <th className="px-3 py-2 font-semibold">Column</th>
+              <th className="px-3 py-2 font-semibold">Value</th>
+              <th className="px-3 py-2 font-semibold">Problem</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {issues.map((issue, i) => (
+              <tr key={`${issue.rowId || issue.rowIndex}-${issue.column}-${i}`}>
+                <td className="px-4 py-2 text-gray-600">{issue.rowIndex || 'Queued'}</td>
+                <td className="px-3 py-2 font-medium text-gray-800">{issue.column}</td>
+                <td className="px-3 py-2 text-gray-600 break-all">{formatValue(issue.value)}</td>
+                <td className="px-3 py-2 text-red-700">{issue.message}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Lists every value in the dashboard's sheets that does not fit its schema
+ * (see services/sheetSchemas.ts). Such rows are still shown in their views, but
+ * may be left out of analytics, so they are collected here to be fixed in the sheet.
+ */
+const DataQualityReport: React.FC = () => (
+  <div className="space-y-4">
+    {SCHEMA_SHEETS.map(sheetName => (
+      <SheetQuality key={sheetName} sheetName={sheetName} />
+    ))}
+  </div>
+);
+
+export default DataQualityReport;
@@ -1,8 +1,15 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { SheetRow, FilterConfig, DataTableColumn } from '../types';
-import { fetchData, updateRow, createRow, deleteRow } from '../services/googleSheetService';
+import { createSheetRow, updateSheetRow, deleteSheetRow, applySheetBatch } from '../services/sheetStore';
+import { useSheetData } from '../hooks/useSheetData';
+import { can } from '../services/authService';
+import { Permission } from '../services/permissions';
 import { EditIcon, DeleteIcon, PlusIcon, LoadingIcon } from './icons';
 import DaysOfWeekSelector from './DaysOfWeekSelector';
+import ConflictDialog from './ConflictDialog';
+import { getRowKey } from '../services/rowIds';
+import { getSheetName } from '../services/stationConfig';
+import { BatchError, ConflictError, describeError } from '../services/errors';
 
 interface DataTableProps<T extends SheetRow> {
   sheetName: string;
@@ -10,70 +17,22 @@ interface DataTableProps<T extends SheetRow> {
   title: string;
   filters?: FilterConfig<T>[];
   initialFilter?: { column: string; value: string };
+  /** Permission needed to add or edit rows. Deleting always needs 'rows:delete'. */
+  editPermission: Permission;
+  /**
+   * Turns the row entered in the Add dialog into the rows to create, e.g. one show
+   * per selected day. Several rows are created together in one batch.
+   */
+  expandNewRow?: (row: Partial<T>) => Partial<T>[];
 }
 
-// Helper maps for expanding compact formats (Mon–Wed) into full names, for old data.
-const shortDayToFull: { [key: string]: string } = {
-  Mon: 'Monday',
-  Tue: 'Tuesday',
-  Wed: 'Wednesday',
-  Thu: 'Thursday',
-  Fri: 'Friday',
-  Sat: 'Saturday',
-  Sun: 'Sunday',
-};
-const dayOrderArray = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
-const fullDaysOfWeek = [
-  'Monday',
-  'Tuesday',
-  'Wednesday',
-  'Thursday',
-  'Friday',
-  'Saturday',
-  'Sunday',
-];
-
-/**
- * Takes whatever is in the row for the days column and returns *full* day names
- * for the selector:
- *   - If it’s already "Monday, Tuesday..." => returns as-is.
- *   - If it looks like "Mon-Wed,Fri" => expands to "Monday, Tuesday, Wednesday, Friday".
- */
-const normaliseDaysForSelector = (raw: string): string => {
-  if (!raw || typeof raw !== 'string') return '';
-  const trimmed = raw.trim();
-  if (!trimmed) return '';
-
-  // If it doesn't contain any short tokens or '-', assume it's already full names.
-  const looksCompressed = /(Mon|Tue|Wed|Thu|Fri|Sat|Sun|-)/i.test(trimmed);
-  if (!looksCompressed) return trimmed;
-
-  const fullDays = new Set<string>();
-  const parts = trimmed.split(',').map(p => p.trim()).filter(Boolean);
-
-  for (const part of parts) {
-    if (part.includes('-')) {
-      const [startShort, endShort] = part.split('-');
-      const startIndex = dayOrderArray.indexOf(startShort);
-      const endIndex = dayOrderArray.indexOf(endShort);
-      if (startIndex > -1 && endIndex > -1 && startIndex <= endIndex) {
-        for (let i = startIndex; i <= endIndex; i++) {
-          const dayName = shortDayToFull[dayOrderArray[i]];
-          if (dayName) fullDays.add(dayName);
-        }
-      }
-    } else {
-      const dayName = shortDayToFull[part];
-      if (dayName) {
-        fullDays.add(dayName);
-      } else if (fullDaysOfWeek.includes(part)) {
-        fullDays.add(part);
-      }
-    }
-  }
+const inputClassName = "mt-1 block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 text-gray-900 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm";
 
-  const sortedFullDays = fullDaysOfWeek.filter(day => fullDays.has(day));
-  return sortedFullDays.join(', ');
+const describeBatchFailure = (err: unknown, action: string) => {
+  if (err instanceof BatchError && Array.from(err.failures.values()).some(failure => failure instanceof ConflictError)) {
+    return `Some of the selected rows were changed or moved by someone else, so nothing was ${action}. The table has been refreshed; please check it and try again.`;
+  }
+  return err instanceof BatchError ? describeError(err) : `Nothing was ${action}. ${describeError(err)}`;
 };
 
 const DataTable = <T extends SheetRow,>({
@@ -82,40 +41,31 @@ const DataTable = <T extends SheetRow,>({
   title,
   filters: filterConfigs,
   initialFilter,
+  editPermission,
+  expandNewRow,
 }: DataTableProps<T>) => {
-  const [data, setData] = useState<T[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const canEdit = can(editPermission);
+  const canDelete = can('rows:delete');
+  const { rows: data, loading, error: loadError } = useSheetData<T>(sheetName);
+  const error = loadError ? `Failed to load data. ${describeError(loadError)}` : null;
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [currentRow, setCurrentRow] = useState<Partial<T> | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [modalError, setModalError] = useState<string | null>(null);
+  // The row as loaded when editing began, so a conflict can tell which fields the user changed.
+  const [editOriginal, setEditOriginal] = useState<Partial<T> | null>(null);
+  const [conflict, setConflict] = useState<{ mine: Partial<T>; current: T | null } | null>(null);
+  const [conflictError, setConflictError] = useState<string | null>(null);
+  // Rows ticked for bulk edit or delete, by row key so the selection survives refreshes.
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  // Values for a bulk edit; a blank field leaves that column as it is.
+  const [bulkValues, setBulkValues] = useState<Partial<T> | null>(null);
+  const [bulkError, setBulkError] = useState<string | null>(null);
 
   const [filterValues, setFilterValues] = useState<Record<string, string>>(
     initialFilter ? { [initialFilter.column]: initialFilter.value } : {}
   );
 
-  const loadData = useCallback(async () => {
-    setLoading(true);
-    setError(null);
-    try {
-      const result = await fetchData<T>(sheetName);
-      if (sheetName === 'TimeSlots') {
-        console.log(`Data loaded for sheet "${sheetName}":`, result);
-      }
-      setData(result);
-    } catch (err) {
-      setError('Failed to load data. Please check the Google Sheet setup and script URL.');
-      console.error(err);
-    } finally {
-      setLoading(false);
-    }
-  }, [sheetName]);
-
-  useEffect(() => {
-    loadData();
-  }, [loadData]);
-
   useEffect(() => {
     if (initialFilter) {
       setFilterValues({ [initialFilter.column]: initialFilter.value });
@@ -148,13 +98,44 @@ const DataTable = <T extends SheetRow,>({
     );
   }, [data, filterValues]);
 
+  const selectedRows = useMemo(() => data.filter(row => selectedKeys.has(getRowKey(row))), [data, selectedKeys]);
+  const canSelect = canEdit || canDelete;
+  const allVisibleSelected = filteredData.length > 0 && filteredData.every(row => selectedKeys.has(getRowKey(row)));
+
+  const toggleSelected = (row: T) => {
+    setSelectedKeys(prev => {
+      const next = new Set(prev);
+      const key = getRowKey(row);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const toggleAllVisible = () => {
+    setSelectedKeys(allVisibleSelected ? new Set() : new Set(filteredData.map(getRowKey)));
+  };
+
+  // 🔑 SPECIAL CASE: TimeSlots sends "Day" (the schema expands it to full names).
+  // Do NOT send compact field from frontend – backend owns it.
+  const toPayload = (row: Partial<T>): any => {
+    const payload: any = { ...row };
+    if (sheetName === getSheetName('schedule')) {
+      delete payload['Day(s) of Week'];
+    }
+    return payload;
+  };
+
   const handleEdit = (row: T) => {
+    if (!canEdit) return;
     setCurrentRow(row);
+    setEditOriginal(row);
     setModalError(null);
     setIsModalOpen(true);
   };
 
   const handleAdd = () => {
+    if (!canEdit) return;
     const newRow: Partial<T> = columns.reduce(
       (acc, col) => ({ ...acc, [col.key]: '' }),
       {}
@@ -164,18 +145,23 @@ const DataTable = <T extends SheetRow,>({
     setIsModalOpen(true);
   };
 
-  const handleDelete = async (rowIndex: number) => {
+  const handleDelete = async (row: T) => {
+    if (!canDelete) return;
     if (!window.confirm('Are you sure you want to delete this row?')) return;
 
-    console.log(`Attempting to delete row ${rowIndex} from sheet: ${sheetName}`);
+    const rowKey = getRowKey(row);
+    console.log(`Attempting to delete row ${rowKey} from sheet: ${sheetName}`);
     try {
-      await deleteRow(sheetName, rowIndex);
-      console.log(`Successfully deleted row ${rowIndex} from sheet: ${sheetName}`);
-      loadData();
+      await deleteSheetRow(sheetName, row);
+      console.log(`Successfully deleted row ${rowKey} from sheet: ${sheetName}`);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : String(err);
-      console.error(`Failed to delete row ${rowIndex} from sheet: ${sheetName}`, err);
-      alert(`Failed to delete row. Reason: ${errorMessage}`);
+      const errorMessage = describeError(err);
+      console.error(`Failed to delete row ${rowKey} from sheet: ${sheetName}`, err);
+      if (err instanceof ConflictError) {
+        alert('This row was changed or moved by someone else, so it was not deleted. The table has been refreshed; please check it and try again.');
+      } else {
+        alert(`Failed to delete row. Reason: ${errorMessage}`);
+      }
     }
   };
 
@@ -185,39 +171,34 @@ const DataTable = <T extends SheetRow,>({
     setIsSaving(true);
     setModalError(null);
 
-    const payload: any = { ...currentRow };
-
-    // 🔑 SPECIAL CASE: TimeSlots must send "Day" (full names) to backend.
-    if (sheetName === 'TimeSlots') {
-      const rawDay =
-        (payload.Day as string | undefined) ??
-        (payload['Day(s) of Week'] as string | undefined) ??
-        '';
-
-      if (rawDay) {
-        // Ensure full, comma-separated names before sending.
-        payload.Day = normaliseDaysForSelector(String(rawDay));
-      }
-
-      // Do NOT send compact field from frontend – backend owns it.
-      delete payload['Day(s) of Week'];
-    }
+    const payload = toPayload(currentRow);
 
     try {
       if ('rowIndex' in payload && payload.rowIndex) {
         console.log(`Attempting to update row in sheet: ${sheetName}`, { payload });
-        await updateRow(sheetName, payload as T);
+        await updateSheetRow(sheetName, payload as T);
         console.log(`Successfully updated row in sheet: ${sheetName}`);
       } else {
-        console.log(`Attempting to create row in sheet: ${sheetName}`, { payload });
-        await createRow(sheetName, payload);
-        console.log(`Successfully created row in sheet: ${sheetName}`);
+        const newRows = expandNewRow ? expandNewRow(payload).map(toPayload) : [payload];
+        console.log(`Attempting to create ${newRows.length} row(s) in sheet: ${sheetName}`, { newRows });
+        if (newRows.length > 1) {
+          await applySheetBatch(newRows.map(row => ({ kind: 'create' as const, sheetName, row })));
+        } else {
+          await createSheetRow(sheetName, newRows[0]);
+        }
+        console.log(`Successfully created row(s) in sheet: ${sheetName}`);
       }
       setIsModalOpen(false);
       setCurrentRow(null);
-      loadData();
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : String(err);
+      if (err instanceof ConflictError) {
+        // Hand over to the merge dialog instead of showing a dead-end error.
+        setIsModalOpen(false);
+        setConflictError(null);
+        setConflict({ mine: payload, current: err.current as T | null });
+        return;
+      }
+      const errorMessage = describeError(err);
       console.error(`Failed to save data to sheet: ${sheetName}`, {
         error: err,
         payload: currentRow,
@@ -228,6 +209,71 @@ const DataTable = <T extends SheetRow,>({
     }
   };
 
+  const handleBulkEdit = () => {
+    if (!canEdit) return;
+    setBulkValues({});
+    setBulkError(null);
+  };
+
+  const handleBulkSave = async () => {
+    if (!bulkValues) return;
+    const changes = Object.fromEntries(Object.entries(bulkValues).filter(([, value]) => String(value ?? '').trim() !== ''));
+    if (Object.keys(changes).length === 0) {
+      setBulkError('Fill in at least one field to change.');
+      return;
+    }
+
+    setIsSaving(true);
+    setBulkError(null);
+    try {
+      await applySheetBatch(selectedRows.map(row => ({ kind: 'update' as const, sheetName, row: toPayload({ ...row, ...changes }) })));
+      setBulkValues(null);
+      setSelectedKeys(new Set());
+    } catch (err) {
+      console.error(`Failed to bulk edit ${selectedRows.length} rows in sheet: ${sheetName}`, err);
+      setBulkError(describeBatchFailure(err, 'saved'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleBulkDelete = async () => {
+    if (!canDelete) return;
+    if (!window.confirm(`Are you sure you want to delete ${selectedRows.length} rows?`)) return;
+    try {
+      await applySheetBatch(selectedRows.map(row => ({ kind: 'delete' as const, sheetName, row })));
+      setSelectedKeys(new Set());
+    } catch (err) {
+      console.error(`Failed to bulk delete ${selectedRows.length} rows from sheet: ${sheetName}`, err);
+      alert(describeBatchFailure(err, 'deleted'));
+    }
+  };
+
+  const closeConflict = () => {
+    setConflict(null);
+    setCurrentRow(null);
+    setEditOriginal(null);
+  };
+
+  const resolveConflict = async (write: () => Promise<unknown>) => {
+    setIsSaving(true);
+    setConflictError(null);
+    try {
+      await write();
+      closeConflict();
+    } catch (err) {
+      if (err instanceof ConflictError) {
+        // It changed again while the dialog was open; show the newer values.
+        setConflict(prev => (prev ? { ...prev, current: err.current as T | null } : null));
+        setConflictError('The row changed again. Please review the latest values.');
+      } else {
+        setConflictError(`Failed to save data. Reason: ${describeError(err)}`);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const handleModalInputChange = (value: string, key: keyof T) => {
     setCurrentRow(prev => (prev ? { ...prev, [key]: value } : null));
   };
@@ -239,12 +285,14 @@ const DataTable = <T extends SheetRow,>({
     <div className="p-4 sm:p-6 lg:p-8 bg-white rounded-lg shadow border border-gray-200">
       <div className="sm:flex sm:items-center justify-between">
         <h1 className="text-2xl font-bold text-gray-900">{title}</h1>
-        <button
-          onClick={handleAdd}
-          className="mt-4 sm:mt-0 flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors duration-200"
-        >
-          <PlusIcon /> Add New
-        </button>
+        {canEdit && (
+          <button
+            onClick={handleAdd}
+            className="mt-4 sm:mt-0 flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors duration-200"
+          >
+            <PlusIcon /> Add New
+          </button>
+        )}
       </div>
 
       {filterConfigs && filterConfigs.length > 0 && (
@@ -286,12 +334,42 @@ const DataTable = <T extends SheetRow,>({
         </div>
       )}
 
+      {canSelect && selectedRows.length > 0 && (
+        <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg flex flex-wrap items-center gap-3 text-sm">
+          <span className="font-medium text-blue-900">{selectedRows.length} selected</span>
+          {canEdit && (
+            <button onClick={handleBulkEdit} className="flex items-center gap-1 px-3 py-1.5 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700">
+              <EditIcon /> Edit selected
+            </button>
+          )}
+          {canDelete && (
+            <button onClick={handleBulkDelete} className="flex items-center gap-1 px-3 py-1.5 font-medium text-white bg-red-600 rounded-md hover:bg-red-700">
+              <DeleteIcon /> Delete selected
+            </button>
+          )}
+          <button onClick={() => setSelectedKeys(new Set())} className="px-3 py-1.5 font-medium text-gray-700 hover:text-gray-900">
+            Clear selection
+          </button>
+        </div>
+      )}
+
       <div className="mt-8 flow-root">
         <div className="-mx-4 -my-2 overflow-x-auto sm:-mx-6 lg:-mx-8">
           <div className="inline-block min-w-full py-2 align-middle sm:px-6 lg:px-8">
             <table className="min-w-full divide-y divide-gray-200">
               <thead>
                 <tr>
+                  {canSelect && (
+                    <th scope="col" className="py-3.5 pl-4 pr-3 sm:pl-0 w-8">
+                      <input
+                        type="checkbox"
+                        aria-label="Select all rows"
+                        checked={allVisibleSelected}
+                        onChange={toggleAllVisible}
+                        className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                    </th>
+                  )}
                   {columns.map((col, index) => (
                     <th
                       key={index}
@@ -308,7 +386,18 @@ const DataTable = <T extends SheetRow,>({
               </thead>
               <tbody className="divide-y divide-gray-200">
                 {filteredData.map(row => (
-                  <tr key={row.rowIndex}>
+                  <tr key={getRowKey(row)} className={selectedKeys.has(getRowKey(row)) ? 'bg-blue-50' : undefined}>
+                    {canSelect && (
+                      <td className="py-4 pl-4 pr-3 sm:pl-0">
+                        <input
+                          type="checkbox"
+                          aria-label="Select row"
+                          checked={selectedKeys.has(getRowKey(row))}
+                          onChange={() => toggleSelected(row)}
+                          className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                      </td>
+                    )}
                     {columns.map((col, index) => (
                       <td
                         key={index}
@@ -318,18 +407,22 @@ const DataTable = <T extends SheetRow,>({
                       </td>
                     ))}
                     <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-0">
-                      <button
-                        onClick={() => handleEdit(row)}
-                        className="text-blue-600 hover:text-blue-800 p-2"
-                      >
-                        <EditIcon />
-                      </button>
-                      <button
-                        onClick={() => handleDelete(row.rowIndex)}
-                        className="text-red-600 hover:text-red-800 p-2 ml-2"
-                      >
-                        <DeleteIcon />
-                      </button>
+                      {canEdit && (
+                        <button
+                          onClick={() => handleEdit(row)}
+                          className="text-blue-600 hover:text-blue-800 p-2"
+                        >
+                          <EditIcon />
+                        </button>
+                      )}
+                      {canDelete && (
+                        <button
+                          onClick={() => handleDelete(row)}
+                          className="text-red-600 hover:text-red-800 p-2 ml-2"
+                        >
+                          <DeleteIcon />
+                        </button>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -363,14 +456,8 @@ const DataTable = <T extends SheetRow,>({
                   </label>
                   {col.inputType === 'daysOfWeek' ? (
                     <DaysOfWeekSelector
-                      // Use "Day" if present, otherwise fall back to "Day(s) of Week", normalised to full names.
-                      value={normaliseDaysForSelector(
-                        String(
-                          (currentRow as any).Day ??
-                            (currentRow as any)['Day(s) of Week'] ??
-                            ''
-                        )
-                      )}
+                      // The TimeSlots schema fills "Day" from "Day(s) of Week" on read.
+                      value={String(currentRow.Day ?? '')}
                       onChange={newValue => handleModalInputChange(newValue, col.key)}
                     />
                   ) : (
@@ -378,7 +465,7 @@ const DataTable = <T extends SheetRow,>({
                       type="text"
                       value={String(currentRow[col.key] ?? '')}
                       onChange={e => handleModalInputChange(e.target.value, col.key)}
-                      className="mt-1 block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 text-gray-900 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      className={inputClassName}
                     />
                   )}
                 </div>
@@ -404,6 +491,77 @@ const DataTable = <T extends SheetRow,>({
           </div>
         </div>
       )}
+
+      {bulkValues && (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl p-8 w-full max-w-lg">
+            <h2 className="text-xl font-bold mb-1 text-gray-900">Edit {selectedRows.length} Entries</h2>
+            <p className="text-sm text-gray-500 mb-4">Fields left blank keep each row's current value.</p>
+
+            {bulkError && (
+              <div className="my-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded-md text-sm" role="alert">
+                {bulkError}
+              </div>
+            )}
+
+            <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-2">
+              {columns.map((col, i) => (
+                <div key={i}>
+                  <label className="block text-sm font-medium text-gray-600">{String(col.label)}</label>
+                  {col.inputType === 'daysOfWeek' ? (
+                    <DaysOfWeekSelector
+                      value={String(bulkValues[col.key] ?? '')}
+                      onChange={newValue => setBulkValues(prev => (prev ? { ...prev, [col.key]: newValue } : null))}
+                    />
+                  ) : (
+                    <input
+                      type="text"
+                      value={String(bulkValues[col.key] ?? '')}
+                      placeholder="(unchanged)"
+                      onChange={e => setBulkValues(prev => (prev ? { ...prev, [col.key]: e.target.value } : null))}
+                      className={inputClassName}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="mt-6 flex justify-end space-x-4">
+              <button
+                onClick={() => setBulkValues(null)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 disabled:opacity-50"
+                disabled={isSaving}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleBulkSave}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-blue-400 flex items-center justify-center min-w-[5rem]"
+                disabled={isSaving}
+              >
+                {isSaving ? <LoadingIcon /> : `Save ${selectedRows.length}`}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {conflict && (
+        // Keyed by Version so the field choices reset when newer values arrive.
+        <React.Fragment key={conflict.current?.Version ?? 'missing'}>
+          <ConflictDialog<T>
+            columns={columns}
+            original={editOriginal ?? {}}
+            mine={conflict.mine}
+            current={conflict.current}
+            isSaving={isSaving}
+            error={conflictError}
+            onSaveMerged={merged => resolveConflict(() => updateSheetRow(sheetName, merged))}
+            onSaveAsNew={row => resolveConflict(() => createSheetRow(sheetName, row))}
+            onDiscard={closeConflict}
+          />
+        </React.Fragment>
+      )}
     </div>
   );
 };
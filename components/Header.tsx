@@ -1,26 +1,53 @@
 import React from 'react';
 import { LogoutIcon } from './icons';
+import SyncStatus from './SyncStatus';
+import StationSwitcher from './StationSwitcher';
+import { getStationConfig } from '../services/stationConfig';
+import { usePushStatus } from '../hooks/usePushStatus';
 
 interface HeaderProps {
+    displayName: string;
     onLogout: () => void;
+    onChangePassword: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ onLogout }) => {
+const Header: React.FC<HeaderProps> = ({ displayName, onLogout, onChangePassword }) => {
+  const pushStatus = usePushStatus();
+
   return (
     <header className="h-20 bg-white/80 backdrop-blur-sm border-b border-gray-200 flex items-center justify-between px-8">
       <div>
-        <h1 className="text-xl font-semibold text-gray-800">Welcome, DJ!</h1>
-        <p className="text-sm text-gray-500">Here's what's happening on Eden FM.</p>
+        <h1 className="text-xl font-semibold text-gray-800">Welcome, {displayName}!</h1>
+        <p className="text-sm text-gray-500">Here's what's happening on {getStationConfig().stationName}.</p>
+      </div>
+      <div className="flex items-center space-x-3">
+        {pushStatus !== 'off' && (
+          <span
+            title={pushStatus === 'live' ? 'New requests and messages appear as they arrive.' : 'Reconnecting to live updates…'}
+            className="flex items-center text-xs font-medium text-gray-500"
+          >
+            <span className={`w-2 h-2 rounded-full mr-1.5 ${pushStatus === 'live' ? 'bg-green-500' : 'bg-yellow-400 animate-pulse'}`} />
+            {pushStatus === 'live' ? 'Live' : 'Reconnecting'}
+          </span>
+        )}
+        <SyncStatus />
+        <StationSwitcher />
+        <button
+          onClick={onChangePassword}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition-colors duration-200"
+        >
+          Change Password
+        </button>
+        <button
+          onClick={onLogout}
+          className="flex items-center px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 transition-colors duration-200"
+        >
+          <LogoutIcon />
+          <span className="ml-2">Logout</span>
+        </button>
       </div>
-      <button 
-        onClick={onLogout}
-        className="flex items-center px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 transition-colors duration-200"
-      >
-        <LogoutIcon />
-        <span className="ml-2">Logout</span>
-      </button>
     </header>
   );
 };
 
-export default Header;
\ No newline at end of file
+export default Header;
@@ -1,6 +1,76 @@
-import React from 'react';
+import React, { useState } from 'react';
 import DataTable from './DataTable';
 import { KnowledgeBaseItem, DataTableColumn } from '../types';
+import { can } from '../services/authService';
+import AccessDenied from './AccessDenied';
+import { getSheetName } from '../services/stationConfig';
+import { useSheetData } from '../hooks/useSheetData';
+import { retrieveKnowledge } from '../services/agentService';
+import { RetrievedEntry } from '../services/geminiService';
+import { describeError } from '../services/errors';
+
+/** Shows which entries the agent would be given for a message, so admins can check the knowledge base covers it. */
+const RetrievalTester: React.FC = () => {
+  const { rows: knowledgeBase } = useSheetData<KnowledgeBaseItem>(getSheetName('knowledgeBase'));
+  const [message, setMessage] = useState('');
+  const [results, setResults] = useState<RetrievedEntry[] | null>(null);
+  const [testing, setTesting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runTest = async () => {
+    if (!message.trim() || testing) return;
+    setTesting(true);
+    try {
+      setResults(await retrieveKnowledge(message.trim(), knowledgeBase));
+      setError(null);
+    } catch (err) {
+      setError(describeError(err));
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 p-4 bg-gray-50 rounded-lg border border-gray-200">
+      <h3 className="text-base font-semibold text-gray-900">Test retrieval</h3>
+      <p className="text-sm text-gray-500 mt-1">
+        The agent only sees the few entries most relevant to each message. Type a message a listener might send to see which ones it would get.
+      </p>
+      <div className="mt-3 flex gap-2">
+        <input
+          type="text"
+          value={message}
+          onChange={e => setMessage(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && runTest()}
+          placeholder="e.g. What time is the breakfast show?"
+          className="flex-1 px-3 py-1.5 text-sm text-gray-800 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          onClick={runTest}
+          disabled={testing || !message.trim()}
+          className="px-4 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          {testing ? 'Testing…' : 'Test'}
+        </button>
+      </div>
+      {error && <p className="mt-3 text-sm text-red-600" role="alert">{error}</p>}
+      {results && results.length === 0 && <p className="mt-3 text-sm text-gray-500">No entries match this message. The agent would say it doesn't know.</p>}
+      {results && results.length > 0 && (
+        <ol className="mt-3 space-y-2 text-sm">
+          {results.map(entry => (
+            <li key={entry.id} className="p-2 bg-white rounded border border-gray-200">
+              <div className="flex justify-between gap-2">
+                <span className="font-medium text-gray-900">{entry.topic || '(no topic)'}</span>
+                <span className="text-xs text-gray-500">score {entry.score}</span>
+              </div>
+              <p className="mt-1 text-gray-600 line-clamp-2">{entry.information}</p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
 
 const KnowledgeBase: React.FC = () => {
   const columns: DataTableColumn<KnowledgeBaseItem>[] = [
@@ -8,20 +78,24 @@ const KnowledgeBase: React.FC = () => {
     { key: 'Information', label: 'Information' },
   ];
 
+  if (!can('agent:configure')) return <AccessDenied />;
+
   return (
     <div>
       <h2 className="text-xl font-semibold text-gray-900 mb-2">Agent Knowledge Base</h2>
       <p className="text-sm text-gray-500 mb-6">
-        Add or edit information here to train the WhatsApp agent. The agent will use this data to answer user questions.
-        Keep topics clear and information concise for best results.
+        Add or edit information here to train the WhatsApp agent. For each message, the agent is given the entries most relevant to it.
+        Keep topics clear and give each entry one subject for best results.
       </p>
       <DataTable<KnowledgeBaseItem>
-        sheetName="KnowledgeBase"
+        sheetName={getSheetName('knowledgeBase')}
         columns={columns}
         title="Knowledge Base Entries"
+        editPermission="agent:configure"
       />
+      <RetrievalTester />
     </div>
   );
 };
 
-export default KnowledgeBase;
\ No newline at end of file
+export default KnowledgeBase;
@@ -1,21 +1,11 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { getGroundedNews } from '../services/geminiService';
 import { GroundingChunk } from '../types';
+import { getStationConfig, stationScopedKey } from '../services/stationConfig';
 import { LoadingIcon, MapPinIcon, AlertTriangleIcon } from './icons';
 
-const locations = [
-    'Eden District',
-    'George',
-    'Mossel Bay',
-    'Oudtshoorn',
-    'Knysna',
-    'Riversdale',
-    'Sedgefield',
-    'Ladismith',
-    'De Rust',
-    'Plettenberg Bay',
-    'Uniondale',
-];
+const locations = getStationConfig().news.locations;
+const SOURCES_STORAGE_KEY = stationScopedKey('edenFmNewsSources');
 
 const LocalNews: React.FC = () => {
     const [selectedLocation, setSelectedLocation] = useState<string>(locations[0]);
@@ -28,7 +18,7 @@ const LocalNews: React.FC = () => {
     const [customSourcesInput, setCustomSourcesInput] = useState('');
 
     useEffect(() => {
-        const savedSources = localStorage.getItem('edenFmNewsSources');
+        const savedSources = localStorage.getItem(SOURCES_STORAGE_KEY);
         if (savedSources) {
             setCustomSourcesInput(savedSources);
         }
@@ -63,7 +53,7 @@ const LocalNews: React.FC = () => {
     }, [selectedLocation, fetchNews, activeTab]);
     
     const handleSaveSettings = () => {
-        localStorage.setItem('edenFmNewsSources', customSourcesInput);
+        localStorage.setItem(SOURCES_STORAGE_KEY, customSourcesInput);
         alert('Settings saved! The news feed will now prioritize your custom sources.');
         setActiveTab('feed');
     };
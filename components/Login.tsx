@@ -1,23 +1,51 @@
-import React, { useState } from 'react';
-import { EdenFMLogo } from './icons';
+import React, { useState, useEffect } from 'react';
+import { LoadingIcon } from './icons';
+import StationLogo from './StationLogo';
+import StationSwitcher from './StationSwitcher';
+import { AuthSession } from '../types';
+import { login, hasAnyUsers, createFirstAdmin } from '../services/authService';
 
 interface LoginProps {
-  onLoginSuccess: () => void;
+  onLoginSuccess: (session: AuthSession) => void;
 }
 
+const inputClassName = "w-full px-3 py-2 mt-1 text-gray-800 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+
 const Login: React.FC<LoginProps> = ({ onLoginSuccess }) => {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
   const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // On a fresh install there are no accounts yet, so the form creates the first admin instead.
+  const [isFirstRun, setIsFirstRun] = useState(false);
+
+  useEffect(() => {
+    hasAnyUsers()
+      .then(hasUsers => setIsFirstRun(!hasUsers))
+      .catch(err => console.error('Failed to check for existing accounts:', err));
+  }, []);
 
-  const handleLogin = (e: React.FormEvent) => {
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    // Hardcoded credentials
-    if (username === 'dj' && password === 'edenfm') {
-      setError('');
-      onLoginSuccess();
-    } else {
-      setError('Invalid username or password.');
+    setError('');
+
+    if (isFirstRun && password !== confirmPassword) {
+      setError('Passwords do not match.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const session = isFirstRun
+        ? await createFirstAdmin(username, displayName, password)
+        : await login(username, password);
+      onLoginSuccess(session);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign in failed. Please try again.');
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
@@ -25,9 +53,13 @@ const Login: React.FC<LoginProps> = ({ onLoginSuccess }) => {
     <div className="flex items-center justify-center min-h-screen bg-gray-100">
       <div className="w-full max-w-md p-8 space-y-8 bg-white rounded-2xl shadow-lg border border-gray-200">
         <div className="flex justify-center">
-            <EdenFMLogo className="w-48"/>
+            <StationLogo className="w-48"/>
         </div>
-        <h2 className="text-2xl font-bold text-center text-gray-800">DJ Dashboard Login</h2>
+        <StationSwitcher className="w-full" />
+        <h2 className="text-2xl font-bold text-center text-gray-800">{isFirstRun ? 'Create Admin Account' : 'DJ Dashboard Login'}</h2>
+        {isFirstRun && (
+          <p className="text-sm text-gray-500 text-center">No accounts exist yet. The account you create now will be the station admin.</p>
+        )}
         <form className="space-y-6" onSubmit={handleLogin}>
           <div>
             <label htmlFor="username" className="text-sm font-medium text-gray-600">
@@ -37,13 +69,28 @@ const Login: React.FC<LoginProps> = ({ onLoginSuccess }) => {
               id="username"
               name="username"
               type="text"
+              autoComplete="username"
               required
               value={username}
               onChange={(e) => setUsername(e.target.value)}
-              className="w-full px-3 py-2 mt-1 text-gray-800 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              placeholder="dj"
+              className={inputClassName}
             />
           </div>
+          {isFirstRun && (
+            <div>
+              <label htmlFor="displayName" className="text-sm font-medium text-gray-600">
+                Display Name
+              </label>
+              <input
+                id="displayName"
+                name="displayName"
+                type="text"
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+          )}
           <div>
             <label htmlFor="password" className="text-sm font-medium text-gray-600">
               Password
@@ -52,20 +99,38 @@ const Login: React.FC<LoginProps> = ({ onLoginSuccess }) => {
               id="password"
               name="password"
               type="password"
+              autoComplete={isFirstRun ? 'new-password' : 'current-password'}
               required
               value={password}
               onChange={(e) => setPassword(e.target.value)}
-              className="w-full px-3 py-2 mt-1 text-gray-800 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              placeholder="edenfm"
+              className={inputClassName}
             />
           </div>
+          {isFirstRun && (
+            <div>
+              <label htmlFor="confirmPassword" className="text-sm font-medium text-gray-600">
+                Confirm Password
+              </label>
+              <input
+                id="confirmPassword"
+                name="confirmPassword"
+                type="password"
+                autoComplete="new-password"
+                required
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+          )}
           {error && <p className="text-sm text-red-500">{error}</p>}
           <div>
             <button
               type="submit"
-              className="w-full px-4 py-2 font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white focus:ring-blue-500 transition duration-300"
+              disabled={isSubmitting}
+              className="w-full flex justify-center px-4 py-2 font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-blue-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white focus:ring-blue-500 transition duration-300"
             >
-              Sign In
+              {isSubmitting ? <LoadingIcon /> : isFirstRun ? 'Create Account' : 'Sign In'}
             </button>
           </div>
         </form>
@@ -74,4 +139,4 @@ const Login: React.FC<LoginProps> = ({ onLoginSuccess }) => {
   );
 };
 
-export default Login;
\ No newline at end of file
+export default Login;
@@ -1,8 +1,14 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useMemo } from 'react';
 import { NewsItem } from '../types';
-import { fetchData, createRow, updateRow, deleteRow, uploadFile } from '../services/googleSheetService';
+import { uploadFile } from '../services/googleSheetService';
+import { createSheetRow, updateSheetRow, deleteSheetRow } from '../services/sheetStore';
+import { useSheetData } from '../hooks/useSheetData';
+import { can } from '../services/authService';
+import { getRowKey } from '../services/rowIds';
 import AnnouncementCard from './AnnouncementCard';
 import { PlusIcon, LoadingIcon, CloseIcon } from './icons';
+import { getSheetName } from '../services/stationConfig';
+import { describeError } from '../services/errors';
 
 // Helper to convert file to Base64
 const fileToBase64 = (file: File): Promise<string> =>
@@ -15,34 +21,23 @@ const fileToBase64 = (file: File): Promise<string> =>
 
 
 const NewsFeed: React.FC = () => {
-  const [news, setNews] = useState<NewsItem[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [currentItem, setCurrentItem] = useState<Partial<NewsItem> | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [fileToUpload, setFileToUpload] = useState<File | null>(null);
   const [modalError, setModalError] = useState<string | null>(null);
   
-  const sheetName = 'Announcements';
+  const sheetName = getSheetName('announcements');
+  const newsSheet = useSheetData<NewsItem>(sheetName);
 
-  const loadNews = useCallback(async () => {
-    setLoading(true);
-    setError(null);
-    try {
-      const result = await fetchData<NewsItem>(sheetName);
-      setNews(result.sort((a, b) => new Date(b.Date).getTime() - new Date(a.Date).getTime()));
-    } catch (err) {
-      setError('Failed to load news. Please check sheet configuration.');
-      console.error(err);
-    } finally {
-      setLoading(false);
-    }
-  }, []);
-
-  useEffect(() => {
-    loadNews();
-  }, [loadNews]);
+  const news = useMemo(
+    () => [...newsSheet.rows].sort((a, b) => new Date(b.Date).getTime() - new Date(a.Date).getTime()),
+    [newsSheet.rows]
+  );
+  const loading = newsSheet.loading;
+  const error = newsSheet.error ? `Failed to load news. ${describeError(newsSheet.error)}` : null;
+  const canEdit = can('announcements:edit');
+  const canDelete = can('rows:delete');
 
   const handleAdd = () => {
     setCurrentItem({
@@ -64,23 +59,24 @@ const NewsFeed: React.FC = () => {
     setIsModalOpen(true);
   };
 
-  const handleDelete = async (rowIndex: number) => {
+  const handleDelete = async (item: NewsItem) => {
+    if (!canDelete) return;
     if (window.confirm('Are you sure you want to delete this announcement?')) {
-        console.log(`Attempting to delete row ${rowIndex} from sheet: ${sheetName}`);
+        const rowKey = getRowKey(item);
+        console.log(`Attempting to delete row ${rowKey} from sheet: ${sheetName}`);
         try {
-            await deleteRow(sheetName, rowIndex);
-            console.log(`Successfully deleted row ${rowIndex} from sheet: ${sheetName}`);
-            await loadNews();
+            await deleteSheetRow(sheetName, item);
+            console.log(`Successfully deleted row ${rowKey} from sheet: ${sheetName}`);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : String(err);
-            console.error(`Failed to delete row ${rowIndex} from sheet: ${sheetName}`, err);
+            const errorMessage = describeError(err);
+            console.error(`Failed to delete row ${rowKey} from sheet: ${sheetName}`, err);
             alert(`Failed to delete announcement. Reason: ${errorMessage}`);
         }
     }
   };
 
   const handleSave = async () => {
-    if (!currentItem) return;
+    if (!currentItem || !canEdit) return;
     setIsSaving(true);
     setModalError(null);
 
@@ -96,20 +92,19 @@ const NewsFeed: React.FC = () => {
 
         if ('rowIndex' in finalItem && finalItem.rowIndex) {
             console.log(`Attempting to update row in sheet: ${sheetName}`, { payload: finalItem });
-            await updateRow(sheetName, finalItem as NewsItem);
+            await updateSheetRow(sheetName, finalItem as NewsItem);
             console.log(`Successfully updated row in sheet: ${sheetName}`);
         } else {
             console.log(`Attempting to create row in sheet: ${sheetName}`, { payload: finalItem });
-            await createRow(sheetName, finalItem);
+            await createSheetRow(sheetName, finalItem);
             console.log(`Successfully created row in sheet: ${sheetName}`);
         }
         
         setIsModalOpen(false);
         setCurrentItem(null);
         setFileToUpload(null);
-        await loadNews();
     } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : String(err);
+        const errorMessage = describeError(err);
         console.error(`Failed to save data to sheet: ${sheetName}`, { error: err, payload: currentItem });
         setModalError(`Failed to save announcement. Reason: ${errorMessage}`);
     } finally {
@@ -141,18 +136,25 @@ const NewsFeed: React.FC = () => {
   return (
     <div className="p-8">
       <div className="flex justify-between items-center mb-6">
-        <h1 className="text-3xl font-bold text-gray-900">Manage News & Announcements</h1>
-        <button onClick={handleAdd} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors duration-200">
-          <PlusIcon /> Add Announcement
-        </button>
+        <h1 className="text-3xl font-bold text-gray-900">{canEdit ? 'Manage News & Announcements' : 'News & Announcements'}</h1>
+        {canEdit && (
+          <button onClick={handleAdd} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors duration-200">
+            <PlusIcon /> Add Announcement
+          </button>
+        )}
       </div>
 
       <div className="space-y-6">
         {news.length > 0 ? news.map((item) => (
-          <AnnouncementCard key={item.rowIndex} announcement={item} onEdit={handleEdit} onDelete={handleDelete} />
+          <AnnouncementCard
+            key={getRowKey(item)}
+            announcement={item}
+            onEdit={canEdit ? handleEdit : undefined}
+            onDelete={canDelete ? handleDelete : undefined}
+          />
         )) : (
             <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200 text-center">
-                <p className="text-gray-500">No news items found. Click 'Add Announcement' to create one.</p>
+                <p className="text-gray-500">No news items found.{canEdit && " Click 'Add Announcement' to create one."}</p>
             </div>
         )}
       </div>
@@ -1,8 +1,11 @@
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { fetchData } from '../services/googleSheetService';
+import React, { useMemo, useCallback } from 'react';
+import { useSheetData } from '../hooks/useSheetData';
 import { Registration, SongRequest } from '../types';
 import { PeopleIcon, MusicNoteIcon, ShareIcon, TrendingUpIcon, AlertTriangleIcon } from './icons';
 import { ViewPayload } from './Dashboard';
+import { can } from '../services/authService';
+import { getSheetName } from '../services/stationConfig';
+import { describeError } from '../services/errors';
 
 interface StatCardProps {
     title: string;
@@ -27,32 +30,18 @@ interface OverviewProps {
 }
 
 const Overview: React.FC<OverviewProps> = ({ setActiveView }) => {
-    const [registrations, setRegistrations] = useState<Registration[]>([]);
-    const [requests, setRequests] = useState<SongRequest[]>([]);
-    const [loading, setLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
-
-    const loadData = useCallback(async () => {
-        setLoading(true);
-        setError(null);
-        try {
-            const [regData, reqData] = await Promise.all([
-                fetchData<Registration>('Registered Users'),
-                fetchData<SongRequest>('Listeners Choice'),
-            ]);
-            setRegistrations(regData);
-            setRequests(reqData);
-        } catch (err: any) {
-            setError(err.message || 'Failed to load dashboard data. Please check your sheet names and permissions.');
-            console.error(err);
-        } finally {
-            setLoading(false);
-        }
-    }, []);
-
-    useEffect(() => {
-        loadData();
-    }, [loadData]);
+    const registrationsSheet = useSheetData<Registration>(getSheetName('registrations'));
+    const requestsSheet = useSheetData<SongRequest>(getSheetName('requests'));
+    const registrations = registrationsSheet.rows;
+    const requests = requestsSheet.rows;
+    const loading = registrationsSheet.loading || requestsSheet.loading;
+    const sheetError = registrationsSheet.error || requestsSheet.error;
+    const error = sheetError ? `Failed to load dashboard data. ${describeError(sheetError)}` : null;
+
+    const loadData = useCallback(() => {
+        Promise.all([registrationsSheet.refresh(), requestsSheet.refresh()])
+            .catch(err => console.error(err));
+    }, [registrationsSheet.refresh, requestsSheet.refresh]);
 
     const analytics = useMemo(() => {
         const totalUsers = registrations.length;
@@ -86,8 +75,9 @@ const Overview: React.FC<OverviewProps> = ({ setActiveView }) => {
         return { totalUsers, totalRequests, totalReferrals, priorities, topReferrers };
     }, [registrations, requests]);
 
+    const canOpenRegistrantList = can('registrations:view-pii');
     const handleReferrerClick = (referrerCode: string) => {
-        setActiveView('registrations', { filter: { column: 'ReferredByCode', value: referrerCode } });
+        setActiveView('registrations-list', { filter: { column: 'ReferredByCode', value: referrerCode } });
     };
 
     if (loading) return <div className="p-8 text-center">Calculating insights...</div>;
@@ -151,9 +141,13 @@ const Overview: React.FC<OverviewProps> = ({ setActiveView }) => {
                         <ul className="space-y-3">
                             {analytics.topReferrers.map(([name, count]) => (
                                 <li key={name} className="flex justify-between items-center bg-gray-50 p-3 rounded-md border border-gray-200">
-                                    <button onClick={() => handleReferrerClick(name)} className="font-medium text-gray-700 hover:text-blue-600 hover:underline">
-                                        {name}
-                                    </button>
+                                    {canOpenRegistrantList ? (
+                                        <button onClick={() => handleReferrerClick(name)} className="font-medium text-gray-700 hover:text-blue-600 hover:underline">
+                                            {name}
+                                        </button>
+                                    ) : (
+                                        <span className="font-medium text-gray-700">{name}</span>
+                                    )}
                                     <span className="font-bold text-blue-600">{count} referrals</span>
                                 </li>
                             ))}
@@ -1,5 +1,6 @@
 import React, { useMemo } from 'react';
 import { SongRequest } from '../types';
+import { getRowKey } from '../services/rowIds';
 
 interface ReadRequestsLogProps {
     requests: SongRequest[];
@@ -36,7 +37,7 @@ const ReadRequestsLog: React.FC<ReadRequestsLogProps> = ({ requests }) => {
                         </thead>
                         <tbody className="divide-y divide-gray-200">
                             {readRequests.map((req) => (
-                                <tr key={req.rowIndex}>
+                                <tr key={getRowKey(req)}>
                                     <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-gray-900 sm:pl-0">{req['Song requested']}</td>
                                     <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-600">{req['Requester Name']}</td>
                                     <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-600">{new Date(req.Date).toLocaleDateString()}</td>
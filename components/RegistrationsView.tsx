@@ -3,17 +3,20 @@ import DataTable from './DataTable';
 import { Registration, FilterConfig, DataTableColumn } from '../types';
 import RegistrationDashboard from './RegistrationDashboard';
 import { ViewPayload } from './Dashboard';
+import { can } from '../services/authService';
+import { getSheetName } from '../services/stationConfig';
 
 
 interface RegistrationsViewProps {
-    isAdminUnlocked: boolean;
-    onLockRequest: () => void;
+    setActiveView: (view: string, payload?: ViewPayload) => void;
     initialFilter?: { column: string; value: string; };
 }
 
-const RegistrationsView: React.FC<RegistrationsViewProps> = ({ isAdminUnlocked, onLockRequest, initialFilter }) => {
+const RegistrationsView: React.FC<RegistrationsViewProps> = ({ setActiveView, initialFilter }) => {
+    // The list exposes registrants' names and emails, so only roles allowed to see PII get it.
+    const canViewList = can('registrations:view-pii');
     // Start on the list tab if a filter is passed, otherwise dashboard
-    const [activeTab, setActiveTab] = useState<'dashboard' | 'list'>(initialFilter ? 'list' : 'dashboard');
+    const [activeTab, setActiveTab] = useState<'dashboard' | 'list'>(initialFilter && canViewList ? 'list' : 'dashboard');
     
     const registrationColumns: DataTableColumn<Registration>[] = [
         { key: 'Name', label: 'Name' },
@@ -35,24 +38,12 @@ const RegistrationsView: React.FC<RegistrationsViewProps> = ({ isAdminUnlocked,
       },
     ];
 
-    const handleTabClick = (tab: 'dashboard' | 'list') => {
-        if (tab === 'list' && !isAdminUnlocked) {
-            onLockRequest(); // Ask dashboard to show the global modal
-        } else {
-            setActiveTab(tab);
-        }
-    };
-    
-    // If admin becomes unlocked (e.g. from modal), switch to list view
+    // A drill-down from the dashboard tab (e.g. clicking an area) arrives as a new filter.
     useEffect(() => {
-        if(isAdminUnlocked && activeTab !== 'list') {
-            // Check if the user intended to go to the list
-            const urlParams = new URLSearchParams(window.location.search);
-            if(urlParams.get('view') === 'registrations-list'){
-                 setActiveTab('list');
-            }
+        if (initialFilter && canViewList) {
+            setActiveTab('list');
         }
-    }, [isAdminUnlocked, activeTab]);
+    }, [initialFilter, canViewList]);
 
     return (
         <div className="p-8">
@@ -60,35 +51,32 @@ const RegistrationsView: React.FC<RegistrationsViewProps> = ({ isAdminUnlocked,
             
             <div className="border-b border-gray-200">
                 <nav className="-mb-px flex space-x-8" aria-label="Tabs">
-                    <button onClick={() => handleTabClick('dashboard')} className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'dashboard' ? 'border-blue-500 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}>
+                    <button onClick={() => setActiveTab('dashboard')} className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'dashboard' ? 'border-blue-500 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}>
                         Dashboard
                     </button>
-                    <button onClick={() => handleTabClick('list')} className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'list' ? 'border-blue-500 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}>
-                        Registered Users List
-                    </button>
+                    {canViewList && (
+                        <button onClick={() => setActiveTab('list')} className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'list' ? 'border-blue-500 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}>
+                            Registered Users List
+                        </button>
+                    )}
                 </nav>
             </div>
             
             <div className="mt-6">
-                {activeTab === 'dashboard' && <RegistrationDashboard setActiveView={onLockRequest} />}
-                {activeTab === 'list' && isAdminUnlocked && (
+                {activeTab === 'dashboard' && <RegistrationDashboard setActiveView={setActiveView} />}
+                {activeTab === 'list' && canViewList && (
                      <DataTable<Registration> 
-                        sheetName="Registered Users" 
+                        sheetName={getSheetName('registrations')}
                         columns={registrationColumns} 
                         title="Registered Users" 
                         filters={registrationFilters} 
                         initialFilter={initialFilter}
+                        editPermission="registrations:edit"
                     />
                 )}
-                 {activeTab === 'list' && !isAdminUnlocked && (
-                    <div className="text-center p-8 bg-white rounded-lg border border-gray-200 shadow-sm">
-                        <h3 className="text-lg font-semibold text-gray-800">Content Locked</h3>
-                        <p className="text-gray-500 mt-2">Please unlock admin access to view the registered users list.</p>
-                    </div>
-                )}
             </div>
         </div>
     );
 };
 
-export default RegistrationsView;
\ No newline at end of file
+export default RegistrationsView;
@@ -1,127 +1,26 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useMemo } from 'react';
 import { SongRequest, RadioShow } from '../types';
-import { fetchData } from '../services/googleSheetService';
+import { useSheetData } from '../hooks/useSheetData';
 import { LoadingIcon, MusicNoteIcon, TrendingUpIcon } from './icons';
-
-// ADDED: Helper constants for parsing formatted day strings (e.g., "Mon-Wed").
-const shortDayToFull: { [key: string]: string } = {
-    'Mon': 'Monday', 'Tue': 'Tuesday', 'Wed': 'Wednesday', 'Thu': 'Thursday', 'Fri': 'Friday', 'Sat': 'Saturday', 'Sun': 'Sunday'
-};
-const dayOrderArray = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
-const fullDaysOfWeek = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']; // NEW: For robust parsing
-
-// Maps JS Date's getDay() index to a full day name.
-const dayFullNameMap: { [key: number]: string } = { 0: 'Sunday', 1: 'Monday', 2: 'Tuesday', 3: 'Wednesday', 4: 'Thursday', 5: 'Friday', 6: 'Saturday' };
-
-/**
- * FIXED: Determines if a show is on air at a specific date and time.
- * This function now correctly parses day formats like "Mon-Wed, Fri" and handles
- * shows that cross midnight (e.g., 22:00 - 02:00) to accurately match requests to shows.
- * @param show - The RadioShow object.
- * @param date - The Date object of the request.
- * @returns boolean - True if the show is on air.
- */
-const isShowOnAir = (show: RadioShow, date: Date): boolean => {
-  // FIX: Use the backend-provided 'Day' field first, which has expanded day names, for accurate matching.
-  const formattedDayString = String(
-    (show as any).Day ?? show['Day(s) of Week'] ?? ''
-  );
-  const startTimeValue = show['Start'];
-  const endTimeValue = show['End'];
-
-  if (!formattedDayString || !startTimeValue || !endTimeValue) return false;
-
-  const scheduledDays = new Set<string>();
-  const parts = formattedDayString.split(',').map(p => p.trim()).filter(Boolean);
-
-  for (const part of parts) {
-      if (part.includes('-')) {
-          const [startShort, endShort] = part.split('-');
-          const startIndex = dayOrderArray.indexOf(startShort);
-          const endIndex = dayOrderArray.indexOf(endShort);
-          if (startIndex > -1 && endIndex > -1 && startIndex <= endIndex) {
-              for (let i = startIndex; i <= endIndex; i++) {
-                  const dayName = shortDayToFull[dayOrderArray[i]];
-                  if (dayName) scheduledDays.add(dayName);
-              }
-          }
-      } else {
-          const dayName = shortDayToFull[part];
-          if (dayName) {
-              scheduledDays.add(dayName);
-          } else if (fullDaysOfWeek.includes(part)) {
-              scheduledDays.add(part);
-          }
-      }
-  }
-
-  const currentDayName = dayFullNameMap[date.getDay()];
-  const previousDayName = dayFullNameMap[(date.getDay() + 6) % 7]; // The day before the event's date
-
-  const startTimeStr = String(startTimeValue).replace('h', ':');
-  const [startH, startM] = startTimeStr.split(':').map(Number);
-  if (isNaN(startH) || isNaN(startM)) return false;
-  const startTime = startH * 60 + startM;
-
-  const endTimeStr = String(endTimeValue).replace('h', ':');
-  const [endH, endM] = endTimeStr.split(':').map(Number);
-  if (isNaN(endH) || isNaN(endM)) return false;
-  const endTime = endH * 60 + endM;
-  
-  const currentTime = date.getHours() * 60 + date.getMinutes();
-
-  const crossesMidnight = endTime < startTime;
-
-  if (crossesMidnight) {
-    // For an overnight show (e.g., Fri 22:00 - Sat 02:00):
-    // Match if it's the start day (Fri) AND the time is after the start time.
-    const isAfterStartTimeOnStartDay = scheduledDays.has(currentDayName) && currentTime >= startTime;
-    // OR match if it's the day after the start day (Sat) AND the time is before the end time.
-    // We check `scheduledDays` for the *previous* day name because the schedule lists the start day.
-    const isBeforeEndTimeOnNextDay = scheduledDays.has(previousDayName) && currentTime < endTime;
-    
-    return isAfterStartTimeOnStartDay || isBeforeEndTimeOnNextDay;
-  } else {
-    // For a same-day show (e.g., Mon 09:00 - Mon 12:00):
-    // Match if it's the correct day AND the time is within the start/end bounds.
-    return scheduledDays.has(currentDayName) && currentTime >= startTime && currentTime < endTime;
-  }
-};
+import { getSheetName, languageName } from '../services/stationConfig';
+import { describeError } from '../services/errors';
+import { findShowOnAir } from '../services/schedule';
 
 const RequestAnalytics: React.FC = () => {
-    const [requests, setRequests] = useState<SongRequest[]>([]);
-    const [schedule, setSchedule] = useState<RadioShow[]>([]);
-    const [loading, setLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
-
-    const loadData = useCallback(async () => {
-        setLoading(true);
-        setError(null);
-        try {
-            const [reqResult, scheduleResult] = await Promise.all([
-                fetchData<SongRequest>('Listeners Choice'),
-                fetchData<RadioShow>('TimeSlots')
-            ]);
-            setRequests(reqResult);
-            setSchedule(scheduleResult);
-        } catch (err) {
-            setError('Failed to load analytics data.');
-        } finally {
-            setLoading(false);
-        }
-    }, []);
-
-    useEffect(() => {
-        loadData();
-        const interval = setInterval(loadData, 5 * 60 * 1000); // Poll every 5 minutes
-        return () => clearInterval(interval);
-    }, [loadData]);
+    const requestsSheet = useSheetData<SongRequest>(getSheetName('requests'));
+    const scheduleSheet = useSheetData<RadioShow>(getSheetName('schedule'));
+    const requests = requestsSheet.rows;
+    const schedule = scheduleSheet.rows;
+    const loading = requestsSheet.loading || scheduleSheet.loading;
+    const loadError = requestsSheet.error || scheduleSheet.error;
+    const error = loadError ? `Failed to load analytics data. ${describeError(loadError)}` : null;
 
     const analytics = useMemo(() => {
         const total = requests.length;
         const priorities = { high: 0, medium: 0, low: 0 };
         const songCounts: { [song: string]: number } = {};
         const occasionCounts: { [occasion: string]: number } = {};
+        const languageCounts: { [language: string]: number } = {};
         
         requests.forEach(req => {
             const occasion = req.Occasion?.toLowerCase() || '';
@@ -136,49 +35,34 @@ const RequestAnalytics: React.FC = () => {
             if (occasionType) {
                 occasionCounts[occasionType] = (occasionCounts[occasionType] || 0) + 1;
             }
+
+            const language = req.Language?.trim();
+            if (language) languageCounts[language] = (languageCounts[language] || 0) + 1;
         });
         
         const topSongs = Object.entries(songCounts).sort(([,a],[,b]) => b-a).slice(0, 5);
         const topOccasions = Object.entries(occasionCounts).sort(([,a],[,b]) => b-a).slice(0, 5);
+        const languages = Object.entries(languageCounts).sort(([,a],[,b]) => b-a);
 
         const reqsPerShow: { [show: string]: number } = {};
         if (schedule.length > 0) {
             requests.forEach(req => {
                 if (!req.Date || !req.Time) return;
-                try {
-                    // Robust handling of both plain and ISO-like date/time values
-                    let rawDate = String(req.Date);
-                    let rawTime = String(req.Time);
-
-                    // If Date looks like "2025-11-16T00:00:00.000Z", keep only "2025-11-16"
-                    const datePart = rawDate.includes('T') ? rawDate.split('T')[0] : rawDate;
-
-                    // If Time came from a Time column as ISO, or text with spaces, extract HH:MM:SS
-                    let timePart = rawTime;
-                    if (timePart.includes('T')) {
-                        // e.g. "1970-01-01T14:30:00.000Z" -> "14:30:00"
-                        timePart = timePart.split('T')[1].slice(0, 8);
-                    } else {
-                        // e.g. "14:30:00 GMT+2" or "14:30:00"
-                        timePart = timePart.split(' ')[0].slice(0, 8);
-                    }
+                // Date and Time are normalized by the sheet schema; rows it could not parse are
+                // listed in the data-quality report and skipped here.
+                const reqDate = new Date(`${req.Date}T${req.Time}`);
+                if (isNaN(reqDate.getTime())) return;
 
-                    const reqDate = new Date(`${datePart}T${timePart}`);
-                    if (isNaN(reqDate.getTime())) return;
+                const matchedShow = findShowOnAir(schedule, reqDate);
 
-                    const matchedShow = schedule.find(show => isShowOnAir(show, reqDate));
-
-                    if (matchedShow) {
-                        reqsPerShow[matchedShow.Show] = (reqsPerShow[matchedShow.Show] || 0) + 1;
-                    }
-                } catch (e) {
-                    // ignore invalid rows
+                if (matchedShow) {
+                    reqsPerShow[matchedShow.Show] = (reqsPerShow[matchedShow.Show] || 0) + 1;
                 }
             });
         }
         const topShows = Object.entries(reqsPerShow).sort(([,a],[,b]) => b-a).slice(0, 5);
 
-        return { total, priorities, topSongs, topOccasions, topShows };
+        return { total, priorities, topSongs, topOccasions, topShows, languages };
     }, [requests, schedule]);
 
     if (loading) return <div className="mt-8 flex justify-center"><LoadingIcon /></div>;
@@ -252,6 +136,21 @@ const RequestAnalytics: React.FC = () => {
                     <p className="text-gray-500">Not enough data to link requests to shows.</p>
                 )}
             </div>
+            <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm">
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">Requests by Language</h2>
+                 {analytics.languages.length > 0 ? (
+                    <ul className="space-y-3">
+                        {analytics.languages.map(([language, count]) => (
+                            <li key={language} className="flex justify-between items-center bg-gray-50 p-3 rounded-md border border-gray-200">
+                                <span className="font-medium text-gray-700">{languageName(language)}</span>
+                                <span className="font-bold text-blue-600">{count} requests</span>
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="text-gray-500">No requests from the WhatsApp Agent yet; only those record a language.</p>
+                )}
+            </div>
         </div>
     );
 };
@@ -4,8 +4,9 @@ import { SongRequest } from '../types';
 interface RequestCardProps {
     request: SongRequest;
     priority: 'High' | 'Medium' | 'Low';
-    onToggleRead: (request: SongRequest) => void;
-    onDismiss: (rowIndex: number) => void;
+    // Omitted when the signed-in role may not manage requests
+    onToggleRead?: (request: SongRequest) => void;
+    onDismiss?: (request: SongRequest) => void;
 }
 
 const priorityStyles = {
@@ -76,20 +77,26 @@ const RequestCard: React.FC<RequestCardProps> = ({ request, priority, onToggleRe
                 </div>
             )}
 
-            <div className="mt-4 flex justify-end items-center space-x-2">
-                <button
-                    onClick={() => onDismiss(request.rowIndex)}
-                    className="px-3 py-1 text-xs font-semibold rounded-full bg-gray-200 text-gray-700 hover:bg-red-600 hover:text-white transition-colors"
-                >
-                    Dismiss
-                </button>
-                <button 
-                    onClick={() => onToggleRead(request)}
-                    className={`px-3 py-1 text-xs font-semibold rounded-full transition-colors ${request.readAt ? 'bg-gray-200 text-gray-700 hover:bg-yellow-400 hover:text-black' : 'bg-green-600 text-white hover:bg-green-500'}`}
-                >
-                    {request.readAt ? 'Mark as Unread' : 'Mark as Read'}
-                </button>
-            </div>
+            {(onDismiss || onToggleRead) && (
+                <div className="mt-4 flex justify-end items-center space-x-2">
+                    {onDismiss && (
+                        <button
+                            onClick={() => onDismiss(request)}
+                            className="px-3 py-1 text-xs font-semibold rounded-full bg-gray-200 text-gray-700 hover:bg-red-600 hover:text-white transition-colors"
+                        >
+                            Dismiss
+                        </button>
+                    )}
+                    {onToggleRead && (
+                        <button 
+                            onClick={() => onToggleRead(request)}
+                            className={`px-3 py-1 text-xs font-semibold rounded-full transition-colors ${request.readAt ? 'bg-gray-200 text-gray-700 hover:bg-yellow-400 hover:text-black' : 'bg-green-600 text-white hover:bg-green-500'}`}
+                        >
+                            {request.readAt ? 'Mark as Unread' : 'Mark as Read'}
+                        </button>
+                    )}
+                </div>
+            )}
         </div>
     );
 };
@@ -1,21 +1,30 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { SongRequest, RadioShow } from '../types';
-import { fetchData } from '../services/googleSheetService';
+import { useSheetData } from '../hooks/useSheetData';
+import { updateSheetRow } from '../services/sheetStore';
 import { sendMessage } from '../services/twoChatService';
+import { can } from '../services/authService';
+import { getRowKey } from '../services/rowIds';
 import RequestCard from './RequestCard';
 import RequestAnalytics from './RequestAnalytics';
 import ReadRequestsLog from './ReadRequestsLog';
 import { LoadingIcon, CloseIcon } from './icons';
+import { autoReplyTemplateFor, fillTemplate, getSheetName, getStationConfig } from '../services/stationConfig';
+import { describeError } from '../services/errors';
 
 type Priority = 'High' | 'Medium' | 'Low';
 
 const RequestsView: React.FC = () => {
     const [activeTab, setActiveTab] = useState<'list' | 'analytics' | 'read'>('list');
-    const [requests, setRequests] = useState<SongRequest[]>([]);
-    const [schedule, setSchedule] = useState<RadioShow[]>([]);
-    const [dismissedRows, setDismissedRows] = useState<Set<number>>(new Set());
-    const [loading, setLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
+    const sheetName = getSheetName('requests');
+    const { stationName } = getStationConfig();
+    const requestsSheet = useSheetData<SongRequest>(sheetName);
+    const scheduleSheet = useSheetData<RadioShow>(getSheetName('schedule'));
+    const schedule = scheduleSheet.rows;
+    const [actionError, setActionError] = useState<string | null>(null);
+    const loading = requestsSheet.loading || scheduleSheet.loading;
+    const loadError = requestsSheet.error || scheduleSheet.error;
+    const error = loadError ? `Failed to load song requests or schedule. ${describeError(loadError)}` : null;
     const [autoReply, setAutoReply] = useState(false);
 
     // NEW: State for filters and modal
@@ -27,41 +36,16 @@ const RequestsView: React.FC = () => {
     const [isSending, setIsSending] = useState(false);
     const [modalError, setModalError] = useState<string | null>(null);
     
-    const sheetName = 'Listeners Choice';
+    const requests = useMemo(() => {
+        return Array.from(
+            requestsSheet.rows.reduce((map, req) => {
+                const key = `${req.Date}|${req['Requester Name']?.toLowerCase().trim()}|${req['Song requested']?.toLowerCase().trim()}`;
+                if (!map.has(key) || map.get(key)!.rowIndex < req.rowIndex) map.set(key, req);
+                return map;
+            }, new Map<string, SongRequest>()).values()
+        );
+    }, [requestsSheet.rows]);
 
-    const loadData = useCallback(async (isInitialLoad = false) => {
-        if (isInitialLoad) setLoading(true);
-        setError(null);
-        try {
-            const [reqResult, scheduleResult] = await Promise.all([
-                fetchData<SongRequest>(sheetName),
-                fetchData<RadioShow>('TimeSlots') // FIX: Corrected sheet name for consistency
-            ]);
-            
-            const uniqueRequests = Array.from(
-                reqResult.reduce((map, req) => {
-                    const key = `${req.Date}|${req['Requester Name']?.toLowerCase().trim()}|${req['Song requested']?.toLowerCase().trim()}`;
-                    if (!map.has(key) || map.get(key)!.rowIndex < req.rowIndex) map.set(key, req);
-                    return map;
-                }, new Map<string, SongRequest>()).values()
-            );
-
-            setRequests(prev => uniqueRequests.map(newReq => ({ ...newReq, readAt: prev.find(r => r.rowIndex === newReq.rowIndex)?.readAt })));
-            setSchedule(scheduleResult);
-        } catch (err) {
-            setError('Failed to load song requests or schedule.');
-            console.error(err);
-        } finally {
-            if (isInitialLoad) setLoading(false);
-        }
-    }, []);
-
-    useEffect(() => {
-        loadData(true);
-        const intervalId = setInterval(() => loadData(false), 5 * 60 * 1000);
-        return () => clearInterval(intervalId);
-    }, [loadData]);
-    
     const getPriority = useCallback((req: SongRequest): Priority => {
         const occasion = req.Occasion?.toLowerCase() || '';
         if (occasion.includes('birthday') || occasion.includes('anniversary')) return 'High';
@@ -71,7 +55,7 @@ const RequestsView: React.FC = () => {
 
     const filteredRequests = useMemo(() => {
         return requests
-            .filter(req => !dismissedRows.has(req.rowIndex))
+            .filter(req => !req.DismissedAt)
             .filter(req => showFilter === 'all' || req.Show === showFilter)
             .filter(req => priorityFilter === 'all' || getPriority(req) === priorityFilter)
             .filter(req => {
@@ -80,7 +64,9 @@ const RequestsView: React.FC = () => {
                 return req['Requester Name']?.toLowerCase().includes(query) || req['Song requested']?.toLowerCase().includes(query);
             })
             .sort((a, b) => new Date(b.Date).getTime() - new Date(a.Date).getTime());
-    }, [requests, dismissedRows, showFilter, priorityFilter, searchQuery, getPriority]);
+    }, [requests, showFilter, priorityFilter, searchQuery, getPriority]);
+
+    const canManage = can('requests:manage');
 
     const handleMarkAsRead = (request: SongRequest) => {
         if (autoReply && !request.readAt) {
@@ -88,16 +74,41 @@ const RequestsView: React.FC = () => {
             setModalError(null);
             setShowConfirmModal(true);
         } else {
-            toggleReadState(request.rowIndex);
+            toggleReadState(request);
         }
     };
 
-    const toggleReadState = (rowIndex: number) => {
-        setRequests(prev => prev.map(r => 
-            r.rowIndex === rowIndex ? { ...r, readAt: r.readAt ? undefined : new Date().toISOString() } : r
-        ));
+    /**
+     * Writes read state back to the sheet. The store applies the change immediately
+     * and rolls it back if the write fails, so the card never lies about what was saved.
+     */
+    const saveRequestState = async (request: SongRequest, changes: Partial<SongRequest>, failureMessage: string) => {
+        if (!canManage) return;
+        setActionError(null);
+        try {
+            await updateSheetRow(sheetName, { ...request, ...changes });
+        } catch (err) {
+            console.error(failureMessage, err);
+            const errorMessage = describeError(err);
+            setActionError(`${failureMessage} Reason: ${errorMessage}`);
+        }
+    };
+
+    const toggleReadState = (request: SongRequest) => {
+        const changes = request.readAt
+            ? { Done: '', readAt: '' }
+            : { Done: 'Yes', readAt: new Date().toISOString() };
+        return saveRequestState(request, changes, 'Failed to update read state.');
     };
 
+    // In the language the listener wrote to the agent in, when the agent took the request.
+    const autoReplyFor = (request: SongRequest) =>
+        fillTemplate(autoReplyTemplateFor(request.Language), {
+            name: request['Requester Name'],
+            song: request['Song requested'],
+            station: stationName,
+        });
+
     const handleConfirmSend = async () => {
         if (!requestToConfirm) return;
 
@@ -107,31 +118,30 @@ const RequestsView: React.FC = () => {
         const whatsappNumber = requestToConfirm.Whatsapp;
         if (whatsappNumber) {
             try {
-                const replyMessage = `Hi ${requestToConfirm['Requester Name']}! Your song request for "${requestToConfirm['Song requested']}" has been seen by the DJ at Eden FM. Thanks for tuning in!`;
-                await sendMessage(whatsappNumber, replyMessage);
+                await sendMessage(whatsappNumber, autoReplyFor(requestToConfirm));
                 
                 // Success: mark as read and close modal
-                toggleReadState(requestToConfirm.rowIndex);
+                toggleReadState(requestToConfirm);
                 setShowConfirmModal(false);
                 setRequestToConfirm(null);
             } catch (error) {
                 console.error("Failed to send auto-reply:", error);
-                const errorMessage = error instanceof Error ? error.message : String(error);
+                const errorMessage = describeError(error);
                 setModalError(`Failed to send auto-reply. Reason: ${errorMessage}`);
             } finally {
                 setIsSending(false);
             }
         } else {
             // No number, just mark as read and close
-            toggleReadState(requestToConfirm.rowIndex);
+            toggleReadState(requestToConfirm);
             setShowConfirmModal(false);
             setRequestToConfirm(null);
             setIsSending(false);
         }
     };
 
-    const handleDismiss = (rowIndex: number) => {
-        setDismissedRows(prev => new Set(prev).add(rowIndex));
+    const handleDismiss = (request: SongRequest) => {
+        saveRequestState(request, { DismissedAt: new Date().toISOString() }, 'Failed to dismiss request.');
     };
     
     return (
@@ -166,6 +176,12 @@ const RequestsView: React.FC = () => {
             
             {loading && <div className="mt-8 flex justify-center"><LoadingIcon /></div>}
             {error && <div className="mt-8 text-center text-red-500">{error}</div>}
+            {actionError && (
+                <div className="mt-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded-md text-sm flex justify-between items-center" role="alert">
+                    <span>{actionError}</span>
+                    <button onClick={() => setActionError(null)} className="ml-4 text-red-700 hover:text-red-900"><CloseIcon /></button>
+                </div>
+            )}
             
             {!loading && !error && activeTab === 'list' && (
                 <>
@@ -183,7 +199,7 @@ const RequestsView: React.FC = () => {
                      </select>
                 </div>
                 <div className="mt-6 space-y-4 max-h-[65vh] overflow-y-auto pr-2">
-                    {filteredRequests.length > 0 ? filteredRequests.map(req => <RequestCard key={req.rowIndex} request={req} priority={getPriority(req)} onToggleRead={handleMarkAsRead} onDismiss={handleDismiss} />)
+                    {filteredRequests.length > 0 ? filteredRequests.map(req => <RequestCard key={getRowKey(req)} request={req} priority={getPriority(req)} onToggleRead={canManage ? handleMarkAsRead : undefined} onDismiss={canManage ? handleDismiss : undefined} />)
                     : <div className="text-center text-gray-500 p-8">No requests match the current filters.</div>}
                 </div>
                 </>
@@ -212,7 +228,7 @@ const RequestsView: React.FC = () => {
 
                         <p className="text-sm text-gray-600 mb-2">You are about to send the following WhatsApp message:</p>
                         <div className="p-3 bg-gray-100 border border-gray-200 rounded-md text-sm text-gray-700 mb-6">
-                           Hi {requestToConfirm['Requester Name']}! Your song request for "{requestToConfirm['Song requested']}" has been seen by the DJ at Eden FM. Thanks for tuning in!
+                           {autoReplyFor(requestToConfirm)}
                         </div>
                         <p className="text-sm text-gray-600 mb-6">To: <span className="font-medium">{requestToConfirm.Whatsapp}</span></p>
                          <div className="flex justify-end space-x-4">
@@ -1,6 +1,15 @@
 import React from 'react';
 import DataTable from './DataTable';
 import { RadioShow, DataTableColumn } from '../types';
+import { can } from '../services/authService';
+import AccessDenied from './AccessDenied';
+import { getSheetName } from '../services/stationConfig';
+
+// One schedule entry per selected day, so each day's slot can later be moved or dropped on its own.
+const expandByDay = (show: Partial<RadioShow>): Partial<RadioShow>[] => {
+  const days = String(show.Day ?? '').split(',').map(day => day.trim()).filter(Boolean);
+  return days.length > 1 ? days.map(day => ({ ...show, Day: day })) : [show];
+};
 
 const ShowManagement: React.FC = () => {
   const columns: DataTableColumn<RadioShow>[] = [
@@ -12,17 +21,21 @@ const ShowManagement: React.FC = () => {
     { key: 'Aliases', label: 'Aliases (Optional)' },
   ];
 
+  if (!can('shows:edit')) return <AccessDenied />;
+
   return (
     <div>
       <h2 className="text-xl font-semibold text-gray-900 mb-2">Show Schedule Management</h2>
       <p className="text-sm text-gray-500 mb-6">
-        Manage the weekly radio show schedule here. To add a show for multiple days, select the days in the modal. A separate entry will be created for each selected day.
+        Manage the weekly radio show schedule here. To add a show for multiple days, select the days in the modal. A separate entry will be created for each selected day, all saved together. Tick several shows to edit or delete them in one go.
       </p>
       
       <DataTable<RadioShow>
-        sheetName="TimeSlots"
+        sheetName={getSheetName('schedule')}
         columns={columns}
         title="Radio Shows"
+        editPermission="shows:edit"
+        expandNewRow={expandByDay}
       />
     </div>
   );
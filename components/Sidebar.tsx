@@ -1,13 +1,17 @@
 import React from 'react';
-import { EdenFMLogo, HomeIcon, MusicNoteIcon, PeopleIcon, NewspaperIcon, MicIcon, AdminIcon, MapPinIcon, AnalystIcon } from './icons';
+import { HomeIcon, MusicNoteIcon, PeopleIcon, NewspaperIcon, MicIcon, AdminIcon, MapPinIcon, AnalystIcon } from './icons';
+import StationLogo from './StationLogo';
+import { Role } from '../types';
+import { canOpenView } from '../services/permissions';
 
 interface SidebarProps {
   setActiveView: (view: string) => void;
   activeView: string;
+  role: Role;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ setActiveView, activeView }) => {
-  const navItems = [
+const Sidebar: React.FC<SidebarProps> = ({ setActiveView, activeView, role }) => {
+  const allNavItems = [
     { id: 'overview', label: 'Overview', icon: <HomeIcon /> },
     { id: 'requests', label: 'Requests', icon: <MusicNoteIcon /> },
     { id: 'registrations', label: 'Registrations', icon: <PeopleIcon /> },
@@ -17,11 +21,12 @@ const Sidebar: React.FC<SidebarProps> = ({ setActiveView, activeView }) => {
     { id: 'voice-tools', label: 'Voice Tools', icon: <MicIcon /> },
     { id: 'ai-analyst', label: 'AI Analyst', icon: <AnalystIcon /> },
   ];
+  const navItems = allNavItems.filter(item => canOpenView(role, item.id));
 
   return (
     <div className="w-64 bg-white border-r border-gray-200 flex flex-col shadow-md">
       <div className="h-20 flex items-center justify-center px-4 border-b border-gray-200">
-        <EdenFMLogo className="w-32" />
+        <StationLogo className="w-32" />
       </div>
       <nav className="flex-1 px-4 py-4 space-y-2">
         {navItems.map((item) => (
@@ -0,0 +1,13 @@
+import React from 'react';
+import { DEFAULT_STATION_ID, getStationConfig } from '../services/stationConfig';
+import { EdenFMLogo } from './icons';
+
+/** The active station's logo: its configured image, the built-in Eden FM logo, or the station name. */
+const StationLogo: React.FC<{ className?: string }> = ({ className }) => {
+  const { id, logoUrl, stationName } = getStationConfig();
+  if (logoUrl) return <img src={logoUrl} alt={stationName} className={className} />;
+  if (id === DEFAULT_STATION_ID) return <EdenFMLogo className={className} />;
+  return <span className={`${className ?? ''} text-2xl font-bold text-blue-600 text-center`}>{stationName}</span>;
+};
+
+export default StationLogo;
@@ -0,0 +1,284 @@
+import React, { useState } from 'react';
+import {
+  DEFAULT_STATION_CONFIG,
+  LISTENER_LANGUAGES,
+  ListenerLanguage,
+  SHEET_LABELS,
+  SheetKey,
+  StationConfig,
+  getStationConfig,
+  getBuiltInStation,
+  listStations,
+  resetStationConfig,
+  saveStationConfig,
+  validateStationConfig,
+} from '../services/stationConfig';
+import { getSchemaColumns } from '../services/sheetSchemas';
+import { can } from '../services/authService';
+import AccessDenied from './AccessDenied';
+
+const inputClassName = "mt-1 block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 text-gray-900 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm";
+
+const sheetKeys = Object.keys(SHEET_LABELS) as SheetKey[];
+
+// English is the main auto-reply; these are its translations.
+const TRANSLATED_LANGUAGES = (Object.keys(LISTENER_LANGUAGES) as ListenerLanguage[]).filter(language => language !== 'en');
+
+const NEW_STATION = '';
+
+// "Radio Knysna" → "radio-knysna"
+const toStationId = (name: string) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+/**
+ * Edits the stations this browser can switch between: each one's Apps Script URL,
+ * which spreadsheet tab holds each kind of data, any columns its sheets head
+ * differently, and its branding and messages. Changes are saved in this browser
+ * and take effect after a reload.
+ */
+const StationSettings: React.FC = () => {
+  const [stations, setStations] = useState(listStations);
+  const [editingId, setEditingId] = useState(() => getStationConfig().id);
+  const [config, setConfig] = useState<StationConfig>(getStationConfig);
+  const [expandedSheet, setExpandedSheet] = useState<SheetKey | null>(null);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [isSaved, setIsSaved] = useState(false);
+  const isNew = editingId === NEW_STATION;
+  const builtIn = isNew ? undefined : getBuiltInStation(editingId);
+
+  const selectStation = (id: string) => {
+    setEditingId(id);
+    setConfig(id === NEW_STATION
+      ? { ...DEFAULT_STATION_CONFIG, id: '', stationName: '', logoUrl: '', backendUrl: '', serverUrl: DEFAULT_STATION_CONFIG.serverUrl, whatsappNumber: '' }
+      : stations.find(station => station.id === id) ?? getStationConfig());
+    setExpandedSheet(null);
+    setProblems([]);
+    setIsSaved(false);
+  };
+
+  const update = (changes: Partial<StationConfig>) => {
+    setConfig(prev => ({ ...prev, ...changes }));
+    setIsSaved(false);
+  };
+
+  const setSheetName = (key: SheetKey, name: string) => update({ sheets: { ...config.sheets, [key]: name } });
+
+  const setColumnHeader = (key: SheetKey, column: string, header: string) =>
+    update({ columns: { ...config.columns, [key]: { ...config.columns[key], [column]: header } } });
+
+  const handleSave = () => {
+    const toSave = {
+      ...config,
+      id: isNew ? toStationId(config.stationName) : config.id,
+      news: { ...config.news, locations: config.news.locations.map(town => town.trim()).filter(Boolean) },
+    };
+    const found = validateStationConfig(toSave);
+    if (isNew && stations.some(station => station.id === toSave.id)) found.push('A station with this name already exists.');
+    setProblems(found);
+    if (found.length > 0) return;
+    try {
+      saveStationConfig(toSave);
+      setStations(prev => [...prev.filter(station => station.id !== toSave.id), toSave]);
+      setEditingId(toSave.id);
+      setConfig(toSave);
+      setIsSaved(true);
+    } catch (error) {
+      setProblems([error instanceof Error ? error.message : String(error)]);
+    }
+  };
+
+  const handleReset = () => {
+    const question = builtIn
+      ? `Go back to the built-in settings for ${config.stationName} in this browser?`
+      : `Remove ${config.stationName} from this browser?`;
+    if (!window.confirm(question)) return;
+    try {
+      resetStationConfig(editingId);
+    } catch (error) {
+      setProblems([error instanceof Error ? error.message : String(error)]);
+      return;
+    }
+    if (builtIn) {
+      setConfig(builtIn);
+    } else {
+      const remaining = stations.filter(station => station.id !== editingId);
+      setStations(remaining);
+      setEditingId(remaining[0].id);
+      setConfig(remaining[0]);
+    }
+    setProblems([]);
+    setIsSaved(true);
+  };
+
+  if (!can('settings:edit')) return <AccessDenied />;
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8 bg-white rounded-lg shadow border border-gray-200 max-w-4xl">
+      <h2 className="text-2xl font-bold text-gray-900">Station Settings</h2>
+      <p className="text-sm text-gray-500 mt-1">
+        Point the dashboard at a station's own spreadsheet. Settings are stored in this browser and apply after a reload.
+      </p>
+
+      <label className="mt-6 block text-sm font-medium text-gray-600 max-w-sm">
+        Station
+        <select value={editingId} onChange={e => selectStation(e.target.value)} className={inputClassName}>
+          {stations.map(station => (
+            <option key={station.id} value={station.id}>{station.stationName}</option>
+          ))}
+          <option value={NEW_STATION}>+ Add a station…</option>
+        </select>
+      </label>
+
+      {problems.length > 0 && (
+        <div className="my-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded-md text-sm" role="alert">
+          <ul className="list-disc list-inside">
+            {problems.map(problem => <li key={problem}>{problem}</li>)}
+          </ul>
+        </div>
+      )}
+      {isSaved && (
+        <div className="my-4 p-3 bg-green-100 border border-green-400 text-green-800 rounded-md text-sm flex justify-between items-center">
+          <span>Settings saved. Reload the dashboard to use them.</span>
+          <button onClick={() => window.location.reload()} className="font-medium underline">Reload now</button>
+        </div>
+      )}
+
+      <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="block text-sm font-medium text-gray-600">
+          Station name
+          <input type="text" value={config.stationName} onChange={e => update({ stationName: e.target.value })} className={inputClassName} />
+        </label>
+        <label className="block text-sm font-medium text-gray-600">
+          WhatsApp number in 2Chat
+          <input
+            type="tel"
+            value={config.whatsappNumber}
+            placeholder="27441234567"
+            onChange={e => update({ whatsappNumber: e.target.value.trim() })}
+            className={inputClassName}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-600 md:col-span-2">
+          Apps Script web app URL
+          <input type="url" value={config.backendUrl} onChange={e => update({ backendUrl: e.target.value })} className={inputClassName} />
+        </label>
+        <label className="block text-sm font-medium text-gray-600 md:col-span-2">
+          Companion server URL
+          <span className="block text-xs text-gray-400">Runs the AI features and announces new requests and messages as they arrive.</span>
+          <input type="text" value={config.serverUrl} onChange={e => update({ serverUrl: e.target.value.trim() })} className={inputClassName} />
+        </label>
+      </div>
+
+      <h3 className="mt-8 text-lg font-semibold text-gray-800">Branding &amp; messages</h3>
+      <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="block text-sm font-medium text-gray-600">
+          Logo image URL
+          <input type="url" value={config.logoUrl} onChange={e => update({ logoUrl: e.target.value })} className={inputClassName} />
+        </label>
+        <label className="block text-sm font-medium text-gray-600">
+          AI assistant name
+          <input type="text" value={config.assistantName} onChange={e => update({ assistantName: e.target.value })} className={inputClassName} />
+        </label>
+        <label className="block text-sm font-medium text-gray-600 md:col-span-2">
+          Request auto-reply (English)
+          <span className="block text-xs text-gray-400">{'{name}'}, {'{song}'} and {'{station}'} are filled in from the request.</span>
+          <textarea
+            rows={2}
+            value={config.autoReplyTemplate}
+            onChange={e => update({ autoReplyTemplate: e.target.value })}
+            className={inputClassName}
+          />
+        </label>
+        {TRANSLATED_LANGUAGES.map(language => (
+          <label key={language} className="block text-sm font-medium text-gray-600 md:col-span-2">
+            Request auto-reply in {LISTENER_LANGUAGES[language]}
+            <span className="block text-xs text-gray-400">For requests the WhatsApp Agent took in {LISTENER_LANGUAGES[language]}. Leave empty to send the one above.</span>
+            <textarea
+              rows={2}
+              value={config.autoReplyTemplates[language] ?? ''}
+              onChange={e => update({ autoReplyTemplates: { ...config.autoReplyTemplates, [language]: e.target.value } })}
+              className={inputClassName}
+            />
+          </label>
+        ))}
+        <label className="block text-sm font-medium text-gray-600 md:col-span-2">
+          WhatsApp Agent instructions
+          <textarea rows={4} value={config.agentPrompt} onChange={e => update({ agentPrompt: e.target.value })} className={inputClassName} />
+        </label>
+        <label className="block text-sm font-medium text-gray-600">
+          News region
+          <input
+            type="text"
+            value={config.news.region}
+            onChange={e => update({ news: { ...config.news, region: e.target.value } })}
+            className={inputClassName}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-600">
+          Local News towns (one per line)
+          <textarea
+            rows={4}
+            value={config.news.locations.join('\n')}
+            onChange={e => update({ news: { ...config.news, locations: e.target.value.split('\n') } })}
+            className={inputClassName}
+          />
+        </label>
+      </div>
+
+      <h3 className="mt-8 text-lg font-semibold text-gray-800">Sheets</h3>
+      <p className="text-sm text-gray-500 mt-1">The tab name in the spreadsheet for each kind of data, and the header of any column named differently.</p>
+      <div className="mt-4 divide-y divide-gray-200 border border-gray-200 rounded-lg">
+        {sheetKeys.map(key => {
+          const columns = getSchemaColumns(key);
+          const renamed = Object.values(config.columns[key] ?? {}).filter(Boolean).length;
+          return (
+            <div key={key} className="p-4">
+              <div className="flex items-end gap-4">
+                <label className="block text-sm font-medium text-gray-600 flex-1">
+                  {SHEET_LABELS[key]}
+                  <input type="text" value={config.sheets[key]} onChange={e => setSheetName(key, e.target.value)} className={inputClassName} />
+                </label>
+                {columns.length > 0 && (
+                  <button
+                    onClick={() => setExpandedSheet(expandedSheet === key ? null : key)}
+                    className="px-3 py-2 text-sm font-medium text-blue-600 hover:text-blue-800 whitespace-nowrap"
+                  >
+                    Columns{renamed > 0 && ` (${renamed} renamed)`}
+                  </button>
+                )}
+              </div>
+              {expandedSheet === key && (
+                <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-3 bg-gray-50 p-3 rounded-md">
+                  {columns.map(column => (
+                    <label key={column} className="block text-xs font-medium text-gray-600">
+                      {column}
+                      <input
+                        type="text"
+                        value={config.columns[key]?.[column] ?? ''}
+                        placeholder={column}
+                        onChange={e => setColumnHeader(key, column, e.target.value)}
+                        className={inputClassName}
+                      />
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-6 flex justify-end space-x-4">
+        {!isNew && (
+          <button onClick={handleReset} className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300">
+            {builtIn ? 'Restore defaults' : 'Remove station'}
+          </button>
+        )}
+        <button onClick={handleSave} className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700">
+          Save settings
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StationSettings;
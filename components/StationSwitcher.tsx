@@ -0,0 +1,39 @@
+import React from 'react';
+import { getStationConfig, listStations, switchStation } from '../services/stationConfig';
+import { hasQueuedWrites } from '../services/outbox';
+
+/**
+ * Lets someone who works for more than one station move between them. Each station
+ * has its own accounts and offline data, so switching reloads the dashboard and may
+ * ask them to sign in. Renders nothing when only one station is configured.
+ */
+const StationSwitcher: React.FC<{ className?: string }> = ({ className }) => {
+  const stations = listStations();
+  if (stations.length < 2) return null;
+
+  const handleChange = (id: string) => {
+    if (
+      hasQueuedWrites() &&
+      !window.confirm('Some changes are still waiting to be sent. They will be sent when you come back to this station. Switch anyway?')
+    ) {
+      return;
+    }
+    switchStation(id);
+    window.location.reload();
+  };
+
+  return (
+    <select
+      aria-label="Station"
+      value={getStationConfig().id}
+      onChange={e => handleChange(e.target.value)}
+      className={`bg-white border border-gray-300 rounded-lg py-2 px-3 text-sm text-gray-700 focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${className ?? ''}`}
+    >
+      {stations.map(station => (
+        <option key={station.id} value={station.id}>{station.stationName}</option>
+      ))}
+    </select>
+  );
+};
+
+export default StationSwitcher;
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { OutboxEntry, discardEntry, retryEntry } from '../services/outbox';
+import { useOutbox } from '../hooks/useOutbox';
+import { AlertTriangleIcon, LoadingIcon } from './icons';
+
+const describeEntry = (entry: OutboxEntry): string => {
+  if (entry.kind === 'message') return `WhatsApp to ${entry.to}`;
+  if (entry.kind === 'batch') {
+    const sheets = Array.from(new Set(entry.operations?.map(op => op.sheetName)));
+    return `${entry.operations?.length ?? 0} changes together in ${sheets.join(', ')}`;
+  }
+  const verb = { create: 'Add', update: 'Edit', delete: 'Delete' }[entry.kind];
+  return `${verb} row in ${entry.sheetName}`;
+};
+
+/**
+ * Header badge for the offline outbox. Shows when the dashboard is offline, how many
+ * changes are waiting to be sent, and lets the user retry or discard any the backend rejected.
+ */
+const SyncStatus: React.FC = () => {
+  const { entries, isOnline, isReplaying } = useOutbox();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const failed = entries.filter(entry => entry.failed);
+  const pendingCount = entries.length - failed.length;
+
+  if (isOnline && entries.length === 0) return null;
+
+  let label = 'Offline';
+  if (isOnline) label = isReplaying ? 'Syncing…' : `${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting`;
+  else if (pendingCount > 0) label = `Offline · ${pendingCount} queued`;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`flex items-center px-3 py-2 text-sm font-medium rounded-lg ${failed.length > 0 ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'}`}
+      >
+        {isReplaying ? <LoadingIcon /> : failed.length > 0 && <AlertTriangleIcon />}
+        <span className="ml-2">{label}{failed.length > 0 && ` · ${failed.length} failed`}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 bg-white border border-gray-200 rounded-lg shadow-xl z-50 p-4">
+          <p className="text-sm text-gray-600 mb-3">
+            {isOnline
+              ? 'Queued changes are sent in the order they were made.'
+              : 'You are offline. Changes are saved on this computer and sent when the connection returns.'}
+          </p>
+          {entries.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing is waiting to be sent.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 max-h-80 overflow-y-auto">
+              {entries.map(entry => (
+                <li key={entry.id} className="py-2 text-sm">
+                  <div className="flex justify-between items-start gap-2">
+                    <div>
+                      <p className="font-medium text-gray-800">{describeEntry(entry)}</p>
+                      <p className="text-xs text-gray-500">
+                        {entry.queuedBy}, {new Date(entry.queuedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                        {entry.attempts > 0 && !entry.failed && ` · retrying (attempt ${entry.attempts + 1})`}
+                      </p>
+                      {entry.failed && <p className="text-xs text-red-600 mt-1">{entry.lastError}</p>}
+                    </div>
+                    {entry.failed && entry.id != null && (
+                      <div className="flex space-x-2 flex-shrink-0">
+                        <button onClick={() => retryEntry(entry.id!)} className="text-xs font-medium text-blue-600 hover:text-blue-800">Retry</button>
+                        <button onClick={() => discardEntry(entry.id!)} className="text-xs font-medium text-red-600 hover:text-red-800">Discard</button>
+                      </div>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncStatus;
@@ -0,0 +1,175 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { listUsers, createUser, resetPassword, UserSummary } from '../services/authService';
+import { PlusIcon, LoadingIcon, CloseIcon } from './icons';
+import { Role } from '../types';
+import { ROLES } from '../services/permissions';
+import { can } from '../services/authService';
+import AccessDenied from './AccessDenied';
+import { describeError } from '../services/errors';
+
+const emptyForm: { username: string; displayName: string; password: string; role: Role } = { username: '', displayName: '', password: '', role: 'presenter' };
+
+const UserAccounts: React.FC = () => {
+  const [users, setUsers] = useState<UserSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [modalError, setModalError] = useState<string | null>(null);
+  // The temporary password is shown once, right after a reset, and never stored in the UI.
+  const [resetResult, setResetResult] = useState<{ username: string; password: string } | null>(null);
+
+  const loadUsers = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setUsers(await listUsers());
+    } catch (err) {
+      setError(`Failed to load user accounts. ${describeError(err)}`);
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    setModalError(null);
+    try {
+      await createUser(form.username, form.displayName, form.password, form.role);
+      setIsModalOpen(false);
+      setForm(emptyForm);
+      await loadUsers();
+    } catch (err) {
+      setModalError(describeError(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async (username: string) => {
+    if (!window.confirm(`Reset the password for "${username}"? They will have to choose a new one when they next sign in.`)) return;
+    try {
+      const password = await resetPassword(username);
+      setResetResult({ username, password });
+      await loadUsers();
+    } catch (err) {
+      const errorMessage = describeError(err);
+      alert(`Failed to reset password. Reason: ${errorMessage}`);
+    }
+  };
+
+  if (!can('users:manage')) return <AccessDenied />;
+
+  if (loading) return <div className="p-8 text-center">Loading accounts...</div>;
+  if (error) return <div className="p-8 text-center text-red-500">{error}</div>;
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8 bg-white rounded-lg shadow border border-gray-200">
+      <div className="sm:flex sm:items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-900">User Accounts</h2>
+        <button
+          onClick={() => { setForm(emptyForm); setModalError(null); setIsModalOpen(true); }}
+          className="mt-4 sm:mt-0 flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors duration-200"
+        >
+          <PlusIcon /> Add User
+        </button>
+      </div>
+
+      {resetResult && (
+        <div className="my-4 p-4 bg-yellow-50 border border-yellow-300 rounded-md text-sm text-gray-800 flex justify-between items-start">
+          <p>
+            Temporary password for <span className="font-semibold">{resetResult.username}</span>:{' '}
+            <span className="font-mono bg-white px-2 py-0.5 rounded border border-gray-200">{resetResult.password}</span>
+            <br />Share it privately. It will not be shown again.
+          </p>
+          <button onClick={() => setResetResult(null)} className="text-gray-500 hover:text-gray-800"><CloseIcon /></button>
+        </div>
+      )}
+
+      <table className="mt-6 min-w-full divide-y divide-gray-200">
+        <thead>
+          <tr>
+            <th scope="col" className="py-3.5 pr-3 text-left text-sm font-semibold text-gray-900">Username</th>
+            <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Display Name</th>
+            <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Role</th>
+            <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Status</th>
+            <th scope="col" className="relative py-3.5 pl-3"><span className="sr-only">Actions</span></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {users.map(user => (
+            <tr key={user.username}>
+              <td className="whitespace-nowrap py-4 pr-3 text-sm font-medium text-gray-900">{user.username}</td>
+              <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-600">{user.displayName}</td>
+              <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-600">{ROLES.find(r => r.id === user.role)?.label ?? user.role}</td>
+              <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-600">
+                {user.disabled ? 'Disabled' : user.mustChangePassword ? 'Must change password' : 'Active'}
+              </td>
+              <td className="whitespace-nowrap py-4 pl-3 text-right text-sm">
+                <button onClick={() => handleReset(user.username)} className="text-blue-600 hover:text-blue-800">Reset Password</button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl p-8 w-full max-w-lg">
+            <h2 className="text-xl font-bold mb-4 text-gray-900">Add User</h2>
+            {modalError && (
+              <div className="my-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded-md text-sm" role="alert">
+                {modalError}
+              </div>
+            )}
+            <div className="space-y-4">
+              {([
+                ['username', 'Username', 'text'],
+                ['displayName', 'Display Name', 'text'],
+                ['password', 'Initial Password', 'password'],
+              ] as const).map(([key, label, type]) => (
+                <div key={key}>
+                  <label className="block text-sm font-medium text-gray-600">{label}</label>
+                  <input
+                    type={type}
+                    value={form[key]}
+                    onChange={e => setForm(prev => ({ ...prev, [key]: e.target.value }))}
+                    className="mt-1 block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 text-gray-900 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  />
+                </div>
+              ))}
+              <div>
+                <label className="block text-sm font-medium text-gray-600">Role</label>
+                <select
+                  value={form.role}
+                  onChange={e => setForm(prev => ({ ...prev, role: e.target.value as Role }))}
+                  className="mt-1 block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 text-gray-900 sm:text-sm"
+                >
+                  {ROLES.map(role => (
+                    <option key={role.id} value={role.id}>{role.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="mt-6 flex justify-end space-x-4">
+              <button onClick={() => setIsModalOpen(false)} className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 disabled:opacity-50" disabled={isSaving}>
+                Cancel
+              </button>
+              <button onClick={handleCreate} className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-blue-400 flex items-center justify-center min-w-[5rem]" disabled={isSaving}>
+                {isSaving ? <LoadingIcon /> : 'Create'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UserAccounts;
@@ -1,7 +1,19 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { TCConversation, TCMessage } from '../types';
-import { fetchConversations, fetchMessages, sendMessage } from '../services/twoChatService';
+import { fetchConversations, fetchMessages, sendMessage, isQueuedMessage, optedOutNumbers } from '../services/twoChatService';
 import { SendIcon, LoadingIcon } from './icons';
+import AccessDenied from './AccessDenied';
+import { can } from '../services/authService';
+import { describeError } from '../services/errors';
+import { AgentHandoff, agentConversationId, fetchHandoffs, resolveHandoff } from '../services/agentService';
+import AgentHistory from './AgentHistory';
+import { subscribeToPushEvents } from '../services/pushChannel';
+import { usePushStatus } from '../hooks/usePushStatus';
+import { useSheetData } from '../hooks/useSheetData';
+import { getSheetName } from '../services/stationConfig';
+
+const POLL_INTERVAL_MS = 10_000;
+const LIVE_POLL_INTERVAL_MS = 60_000;
 
 const WhatsApp: React.FC = () => {
     const [conversations, setConversations] = useState<TCConversation[]>([]);
@@ -12,8 +24,13 @@ const WhatsApp: React.FC = () => {
     const [error, setError] = useState<string | null>(null);
     const [messageInput, setMessageInput] = useState('');
     const [isSending, setIsSending] = useState(false);
+    const [handoffs, setHandoffs] = useState<Map<string, AgentHandoff>>(new Map());
+    const { rows: optOutRows } = useSheetData(getSheetName('optOuts'));
+    const optedOut = useMemo(() => optedOutNumbers(optOutRows), [optOutRows]);
+    const [showAgentHistory, setShowAgentHistory] = useState(false);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const pollingIntervalRef = useRef<number | null>(null);
+    const pushStatus = usePushStatus();
 
     const loadConversations = useCallback(async () => {
         try {
@@ -24,45 +41,70 @@ const WhatsApp: React.FC = () => {
             );
             setConversations(sorted);
         } catch (err) {
-            setError('Failed to load WhatsApp conversations. Check API key and device phone number.');
+            setError(`Failed to load WhatsApp conversations. ${describeError(err)}`);
             console.error(err);
         } finally {
             setLoading(false);
         }
     }, []);
 
-    useEffect(() => {
+    // Conversations the WhatsApp agent handed over. Without the companion server there are none to show.
+    const loadHandoffs = useCallback(async () => {
+        try {
+            const flagged = await fetchHandoffs();
+            setHandoffs(new Map(flagged.map(handoff => [handoff.conversationId, handoff])));
+        } catch (err) {
+            console.error('Failed to load agent handoffs:', err);
+        }
+    }, []);
+
+    const refreshList = useCallback(() => {
         loadConversations();
+        loadHandoffs();
+    }, [loadConversations, loadHandoffs]);
+
+    // With push updates live, new messages arrive as events and the poll is only a safety net.
+    const pollIntervalMs = pushStatus === 'live' ? LIVE_POLL_INTERVAL_MS : POLL_INTERVAL_MS;
+
+    useEffect(() => {
+        refreshList();
         // Clear previous interval if it exists
         if (pollingIntervalRef.current) {
             clearInterval(pollingIntervalRef.current);
         }
-        // Poll for new conversations/updates every 10 seconds
-        pollingIntervalRef.current = window.setInterval(loadConversations, 10000);
+        pollingIntervalRef.current = window.setInterval(refreshList, pollIntervalMs);
         
         return () => {
             if (pollingIntervalRef.current) {
                 clearInterval(pollingIntervalRef.current);
             }
         };
-    }, [loadConversations]);
+    }, [refreshList, pollIntervalMs]);
+
+    // `quiet` skips the loading overlay, for refreshes the user did not ask for.
+    const loadMessages = useCallback(async (conversationId: string, quiet = false) => {
+        if (!quiet) setLoadingMessages(true);
+        try {
+            const fetchedMessages = await fetchMessages(conversationId);
+            setMessages(fetchedMessages);
+        } catch (err) {
+            setError(`Failed to load messages for ${conversationId}. ${describeError(err)}`);
+            console.error(err);
+        } finally {
+            if (!quiet) setLoadingMessages(false);
+        }
+    }, []);
 
     useEffect(() => {
-        const loadMessages = async () => {
-            if (!selectedConversationId) return;
-            setLoadingMessages(true);
-            try {
-                const fetchedMessages = await fetchMessages(selectedConversationId);
-                setMessages(fetchedMessages);
-            } catch (err) {
-                setError(`Failed to load messages for ${selectedConversationId}.`);
-                console.error(err);
-            } finally {
-                setLoadingMessages(false);
-            }
-        };
-        loadMessages();
-    }, [selectedConversationId]);
+        if (selectedConversationId) loadMessages(selectedConversationId);
+    }, [selectedConversationId, loadMessages]);
+
+    useEffect(() => subscribeToPushEvents(event => {
+        if (event.type === 'sheet') return;
+        refreshList();
+        // Events do not say which conversation changed, so the open one is refetched.
+        if (selectedConversationId) loadMessages(selectedConversationId, true);
+    }), [refreshList, loadMessages, selectedConversationId]);
 
     useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -76,10 +118,10 @@ const WhatsApp: React.FC = () => {
             const sentMessage = await sendMessage(selectedConversationId, messageInput);
             setMessages(prev => [...prev, sentMessage]);
             setMessageInput('');
-            // Refresh conversation list to show updated last message
-            await loadConversations();
+            // Refresh conversation list to show updated last message (a queued message has not been sent yet)
+            if (!isQueuedMessage(sentMessage)) await loadConversations();
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : String(err);
+            const errorMessage = describeError(err);
             console.error('Failed to send WhatsApp message:', err);
             alert(`Failed to send message. Reason: ${errorMessage}`);
         } finally {
@@ -87,10 +129,24 @@ const WhatsApp: React.FC = () => {
         }
     };
     
+    const handleMarkHandled = async (conversationId: string) => {
+        try {
+            await resolveHandoff(conversationId);
+            setHandoffs(prev => {
+                const next = new Map(prev);
+                next.delete(conversationId);
+                return next;
+            });
+        } catch (err) {
+            alert(`Could not mark the conversation as handled. ${describeError(err)}`);
+        }
+    };
+
     const selectedConversation = useMemo(() => {
         return conversations.find(c => c.id === selectedConversationId);
     }, [conversations, selectedConversationId]);
 
+    if (!can('chat:reply')) return <AccessDenied />;
     if (loading) return <div className="p-8 text-center">Loading conversations...</div>;
     if (error) return <div className="p-8 text-center text-red-500">{error}</div>;
 
@@ -106,7 +162,15 @@ const WhatsApp: React.FC = () => {
                         <li key={conv.id} onClick={() => setSelectedConversationId(conv.id)}
                             className={`p-4 border-b border-gray-200 cursor-pointer hover:bg-blue-50 ${selectedConversationId === conv.id ? 'bg-blue-100' : ''}`}>
                             <div className="flex justify-between">
-                                <span className="font-bold text-gray-800">{conv.name || conv.id}</span>
+                                <span className="font-bold text-gray-800">
+                                    {conv.name || conv.id}
+                                    {handoffs.has(agentConversationId(conv.id)) && (
+                                        <span className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-amber-100 text-amber-800">Needs a DJ</span>
+                                    )}
+                                    {optedOut.has(agentConversationId(conv.id)) && (
+                                        <span className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-gray-200 text-gray-700">Opted out</span>
+                                    )}
+                                </span>
                                 <span className="text-xs text-gray-500">{new Date(conv.last_message_at).toLocaleTimeString()}</span>
                             </div>
                             <p className="text-sm text-gray-600 truncate">{conv.last_message_text}</p>
@@ -121,27 +185,51 @@ const WhatsApp: React.FC = () => {
                     <>
                         <header className="p-4 border-b border-gray-200 flex justify-between items-center bg-gray-50">
                             <h3 className="text-lg font-semibold text-gray-800">{selectedConversation.name || selectedConversation.id}</h3>
+                            <button onClick={() => setShowAgentHistory(!showAgentHistory)} className="px-3 py-1 text-xs font-semibold rounded-full bg-gray-200 text-gray-700 hover:bg-gray-300">
+                                {showAgentHistory ? 'Back to chat' : 'Agent history'}
+                            </button>
                         </header>
+                        {handoffs.has(agentConversationId(selectedConversation.id)) && (
+                            <div className="px-4 py-2 flex justify-between items-center gap-4 bg-amber-50 border-b border-amber-200 text-sm text-amber-900">
+                                <span>The agent handed this conversation to a DJ: {handoffs.get(agentConversationId(selectedConversation.id))!.reason}</span>
+                                <button onClick={() => handleMarkHandled(agentConversationId(selectedConversation.id))} className="shrink-0 px-3 py-1 text-xs font-semibold rounded-full bg-amber-200 hover:bg-amber-300">
+                                    Mark handled
+                                </button>
+                            </div>
+                        )}
+                        {optedOut.has(agentConversationId(selectedConversation.id)) && (
+                            <div className="px-4 py-2 bg-gray-100 border-b border-gray-200 text-sm text-gray-700">
+                                This listener replied STOP. Nothing can be sent to them until they reply START.
+                            </div>
+                        )}
                         
-                        <div className="flex-1 p-4 overflow-y-auto space-y-4 bg-gray-100 relative">
-                            {loadingMessages && (
-                                <div className="absolute inset-0 bg-gray-100 bg-opacity-80 flex justify-center items-center z-10">
-                                    <LoadingIcon />
-                                </div>
-                            )}
-                            {messages.map(msg => (
-                                <div key={msg.id} className={`flex ${!msg.from_me ? 'justify-start' : 'justify-end'}`}>
-                                    <div className={`p-3 rounded-2xl max-w-lg shadow-sm ${!msg.from_me ? 'bg-white text-gray-800 rounded-bl-none' : 'bg-blue-600 text-white rounded-br-none'}`}>
-                                        {msg.type === 'image' && msg.media_url && (
-                                            <img src={msg.media_url} alt="WhatsApp media" className="mb-2 rounded-lg max-w-xs cursor-pointer" onClick={() => window.open(msg.media_url, '_blank')} />
-                                        )}
-                                        <p>{msg.text}</p>
-                                        <p className="text-xs opacity-70 mt-1 text-right">{new Date(msg.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</p>
+                        {showAgentHistory ? (
+                            <div className="flex-1 p-4 overflow-y-auto bg-gray-100">
+                                <AgentHistory key={selectedConversation.id} conversationId={agentConversationId(selectedConversation.id)} />
+                            </div>
+                        ) : (
+                            <div className="flex-1 p-4 overflow-y-auto space-y-4 bg-gray-100 relative">
+                                {loadingMessages && (
+                                    <div className="absolute inset-0 bg-gray-100 bg-opacity-80 flex justify-center items-center z-10">
+                                        <LoadingIcon />
+                                    </div>
+                                )}
+                                {messages.map(msg => (
+                                    <div key={msg.id} className={`flex ${!msg.from_me ? 'justify-start' : 'justify-end'}`}>
+                                        <div className={`p-3 rounded-2xl max-w-lg shadow-sm ${!msg.from_me ? 'bg-white text-gray-800 rounded-bl-none' : 'bg-blue-600 text-white rounded-br-none'}`}>
+                                            {msg.type === 'image' && msg.media_url && (
+                                                <img src={msg.media_url} alt="WhatsApp media" className="mb-2 rounded-lg max-w-xs cursor-pointer" onClick={() => window.open(msg.media_url, '_blank')} />
+                                            )}
+                                            <p>{msg.text}</p>
+                                            <p className="text-xs opacity-70 mt-1 text-right">
+                                                {isQueuedMessage(msg) ? 'Queued, sends when back online' : new Date(msg.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                            </p>
+                                        </div>
                                     </div>
-                                </div>
-                            ))}
-                            <div ref={messagesEndRef} />
-                        </div>
+                                ))}
+                                <div ref={messagesEndRef} />
+                            </div>
+                        )}
 
                         <footer className="p-4 border-t border-gray-200 flex items-center bg-white">
                             <input
@@ -151,9 +239,9 @@ const WhatsApp: React.FC = () => {
                                 onKeyPress={(e) => e.key === 'Enter' && !isSending && handleSendMessage()}
                                 placeholder="Type your message..."
                                 className="flex-1 bg-gray-100 text-gray-800 px-4 py-2 rounded-full focus:outline-none focus:ring-2 focus:ring-blue-500 border border-gray-300"
-                                disabled={isSending}
+                                disabled={isSending || optedOut.has(agentConversationId(selectedConversation.id))}
                             />
-                            <button onClick={handleSendMessage} disabled={isSending || !messageInput.trim()} className="ml-3 bg-blue-600 text-white p-3 rounded-full hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed">
+                            <button onClick={handleSendMessage} disabled={isSending || !messageInput.trim() || optedOut.has(agentConversationId(selectedConversation.id))} className="ml-3 bg-blue-600 text-white p-3 rounded-full hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed">
                                 {isSending ? <LoadingIcon /> : <SendIcon />}
                             </button>
                         </footer>
@@ -1,143 +1,150 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import KnowledgeBase from './KnowledgeBase';
-import { AgentSession, GeminiChatTurn, KnowledgeBaseItem } from '../types';
-import { getWhatsappAgentResponse } from '../services/geminiService';
-import { fetchData } from '../services/googleSheetService';
+import AgentHistory from './AgentHistory';
+import { KnowledgeBaseItem } from '../types';
+import { RetrievedEntry, getWhatsappAgentResponse } from '../services/geminiService';
+import { useSheetData } from '../hooks/useSheetData';
 import { LoadingIcon, SendIcon, ClockIcon, DeleteIcon } from './icons';
+import { can } from '../services/authService';
+import AccessDenied from './AccessDenied';
+import { LISTENER_LANGUAGES, getSheetName, getStationConfig } from '../services/stationConfig';
+import {
+  AgentSession,
+  BusinessHours,
+  PromptVersion,
+  agentConversationId,
+  describeAgentAction,
+  endAgentSession,
+  fetchActiveSessions,
+  fetchAgentSettings,
+  fetchPromptVersions,
+  saveAgentSettings,
+  testerConversationId,
+} from '../services/agentService';
+import { describeError } from '../services/errors';
 
-const SESSION_TIMEOUT_MS = 15 * 60 * 1000; // 15 minutes
-const MAX_HISTORY_TURNS = 10; // 5 user, 5 model
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DEFAULT_BUSINESS_HOURS: BusinessHours = { days: [1, 2, 3, 4, 5], start: '08:00', end: '17:00' };
 
 const WhatsAppAgent: React.FC = () => {
   // Agent configuration state
   const [isAgentEnabled, setIsAgentEnabled] = useState(false);
-  const [systemPrompt, setSystemPrompt] = useState(
-    "You are Eden FM Buddy, a friendly and helpful AI assistant for our listeners on WhatsApp. Your goal is to assist with song requests, user registrations, and answer questions based on your knowledge base. Be conversational and engaging. If you cannot handle a request, politely inform the user that you will forward their message to a human DJ."
-  );
+  const [systemPrompt, setSystemPrompt] = useState(getStationConfig().agentPrompt);
+  const [businessHours, setBusinessHours] = useState<BusinessHours | null>(null);
+  const [sessionTimeoutMinutes, setSessionTimeoutMinutes] = useState(15);
+  const [maxHistoryTurns, setMaxHistoryTurns] = useState(10);
+  const [promptVersions, setPromptVersions] = useState<PromptVersion[]>([]);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
+  const [settingsError, setSettingsError] = useState<string | null>(null);
   
-  // Session management and tester state
-  const [sessionMemory, setSessionMemory] = useState<Map<string, AgentSession>>(new Map());
+  // Sessions are kept by the companion server, in the station's AgentMessages sheet.
+  const [activeSessions, setActiveSessions] = useState<AgentSession[]>([]);
   const [activeTestUserId, setActiveTestUserId] = useState<string>('user-123');
   const [testUserInput, setTestUserInput] = useState<string>('');
+  const [pendingMessage, setPendingMessage] = useState<string | null>(null);
+  const [testError, setTestError] = useState<string | null>(null);
+  const [lastRetrieved, setLastRetrieved] = useState<RetrievedEntry[] | null>(null);
   const [isThinking, setIsThinking] = useState(false);
-  const [knowledgeBase, setKnowledgeBase] = useState<KnowledgeBaseItem[]>([]);
+  const [historyNumber, setHistoryNumber] = useState('');
+  const [shownHistory, setShownHistory] = useState<string | null>(null);
+  const { rows: knowledgeBase } = useSheetData<KnowledgeBaseItem>(getSheetName('knowledgeBase'));
   const chatEndRef = useRef<HTMLDivElement>(null);
 
-  // Load knowledge base data on mount
-  useEffect(() => {
-    const loadKB = async () => {
-      try {
-        const data = await fetchData<KnowledgeBaseItem>('KnowledgeBase');
-        setKnowledgeBase(data);
-      } catch (error) {
-        console.error("Failed to load Knowledge Base:", error);
-      }
-    };
-    loadKB();
+  const loadSessions = useCallback(async () => {
+    try {
+      setActiveSessions(await fetchActiveSessions());
+    } catch (error) {
+      console.error('Failed to load agent sessions:', error);
+    }
   }, []);
 
-  // Effect for automatic session cleanup
+  // Sessions end by going quiet, so the list is refreshed now and then.
   useEffect(() => {
-    const intervalId = setInterval(() => {
-      const now = Date.now();
-      setSessionMemory(prev => {
-        const newMemory = new Map(prev);
-        let changed = false;
-        for (const [userId, session] of newMemory.entries()) {
-          if (now - (session as AgentSession).lastActive > SESSION_TIMEOUT_MS) {
-            newMemory.delete(userId);
-            changed = true;
-          }
-        }
-        return changed ? newMemory : prev;
-      });
-    }, 60 * 1000);
-
+    loadSessions();
+    const intervalId = setInterval(loadSessions, 60 * 1000);
     return () => clearInterval(intervalId);
-  }, []);
+  }, [loadSessions]);
 
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [sessionMemory, activeTestUserId]);
+  }, [activeSessions, activeTestUserId, pendingMessage]);
   
-  const handleSaveSettings = () => {
+  // The settings live on the companion server, which answers inbound WhatsApp messages with them.
+  useEffect(() => {
+    fetchAgentSettings()
+      .then(settings => {
+        setIsAgentEnabled(settings.enabled);
+        if (settings.systemPrompt) setSystemPrompt(settings.systemPrompt);
+        setBusinessHours(settings.businessHours);
+        setSessionTimeoutMinutes(settings.sessionTimeoutMinutes);
+        setMaxHistoryTurns(settings.maxHistoryTurns);
+      })
+      .catch(error => setSettingsError(`Could not load the agent's settings. ${describeError(error)}`));
+    fetchPromptVersions()
+      .then(setPromptVersions)
+      .catch(error => console.error('Failed to load earlier prompts:', error));
+  }, []);
+
+  const handleSaveSettings = async () => {
     setSaveStatus('saving');
-    // Simulate API call
-    setTimeout(() => {
-        setSaveStatus('saved');
-        setTimeout(() => setSaveStatus('idle'), 2000);
-    }, 1000);
+    try {
+      await saveAgentSettings({ enabled: isAgentEnabled, systemPrompt, businessHours, sessionTimeoutMinutes, maxHistoryTurns });
+      setSettingsError(null);
+      fetchPromptVersions().then(setPromptVersions).catch(() => undefined);
+      setSaveStatus('saved');
+      setTimeout(() => setSaveStatus('idle'), 2000);
+    } catch (error) {
+      setSettingsError(`Could not save the agent's settings. ${describeError(error)}`);
+      setSaveStatus('idle');
+    }
+  };
+
+  const toggleBusinessDay = (day: number) => {
+    if (!businessHours) return;
+    const days = businessHours.days.includes(day) ? businessHours.days.filter(d => d !== day) : [...businessHours.days, day].sort();
+    setBusinessHours({ ...businessHours, days });
   };
 
   const handleSendMessage = useCallback(async () => {
-    if (!testUserInput.trim() || isThinking) return;
+    const message = testUserInput.trim();
+    if (!message || isThinking) return;
 
-    const userTurn: GeminiChatTurn = { role: 'user', parts: [{ text: testUserInput }] };
     setIsThinking(true);
     setTestUserInput('');
-
-    const currentSession = sessionMemory.get(activeTestUserId) || { history: [], lastActive: 0 };
-    const updatedHistory = [...currentSession.history, userTurn];
-    
-    if (updatedHistory.length > MAX_HISTORY_TURNS) {
-      updatedHistory.splice(0, updatedHistory.length - MAX_HISTORY_TURNS);
-    }
-
-    const updatedSession: AgentSession = { history: updatedHistory, lastActive: Date.now() };
-    setSessionMemory(prev => new Map(prev).set(activeTestUserId, updatedSession));
-    
+    setPendingMessage(message);
+    setTestError(null);
     try {
-        const agentResponseText = await getWhatsappAgentResponse(testUserInput, updatedHistory, knowledgeBase, systemPrompt);
-        const modelTurn: GeminiChatTurn = { role: 'model', parts: [{ text: agentResponseText }] };
-
-        setSessionMemory(prev => {
-            const finalSession = prev.get(activeTestUserId);
-            if(finalSession){
-                return new Map(prev).set(activeTestUserId, {
-                    ...finalSession,
-                    history: [...finalSession.history, modelTurn],
-                    lastActive: Date.now()
-                });
-            }
-            return prev;
-        });
-
+      const { retrieved } = await getWhatsappAgentResponse(message, knowledgeBase, systemPrompt, activeTestUserId);
+      setLastRetrieved(retrieved);
+      await loadSessions();
     } catch (error) {
-        console.error("Agent response error:", error);
-        const errorTurn: GeminiChatTurn = { role: 'model', parts: [{ text: "Sorry, an error occurred while getting a response." }] };
-        setSessionMemory(prev => {
-            const finalSession = prev.get(activeTestUserId);
-             if(finalSession){
-                return new Map(prev).set(activeTestUserId, {
-                    ...finalSession,
-                    history: [...finalSession.history, errorTurn],
-                    lastActive: Date.now()
-                });
-            }
-            return prev;
-        });
+      console.error("Agent response error:", error);
+      setTestError(`Sorry, an error occurred while getting a response. ${describeError(error)}`);
     } finally {
-        setIsThinking(false);
+      setPendingMessage(null);
+      setIsThinking(false);
     }
-  }, [testUserInput, isThinking, activeTestUserId, sessionMemory, knowledgeBase, systemPrompt]);
+  }, [testUserInput, isThinking, activeTestUserId, knowledgeBase, systemPrompt, loadSessions]);
 
-  const handleExpireSession = (userId: string) => {
-    setSessionMemory(prev => {
-      const newMemory = new Map(prev);
-      newMemory.delete(userId);
-      return newMemory;
-    });
+  const handleExpireSession = async (conversationId: string) => {
+    try {
+      await endAgentSession(conversationId);
+      await loadSessions();
+    } catch (error) {
+      alert(`Could not end the session. ${describeError(error)}`);
+    }
   };
 
   const handleResetActiveSession = () => {
     if (activeTestUserId) {
-        handleExpireSession(activeTestUserId);
+        handleExpireSession(testerConversationId(activeTestUserId));
     }
   };
 
-  const activeUserHistory = sessionMemory.get(activeTestUserId)?.history || [];
-  const activeSessions = Array.from(sessionMemory.entries());
+  const activeUserSession = activeSessions.find(session => session.conversationId === testerConversationId(activeTestUserId));
+  const activeUserMessages = activeUserSession?.messages || [];
+
+  if (!can('agent:configure')) return <AccessDenied />;
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -148,7 +155,7 @@ const WhatsAppAgent: React.FC = () => {
             <div className="flex items-center justify-between">
               <div>
                 <h3 className="font-medium text-gray-800">Enable WhatsApp Agent</h3>
-                <p className="text-sm text-gray-500">When enabled, the agent will automatically respond.</p>
+                <p className="text-sm text-gray-500">When enabled, the agent answers incoming WhatsApp messages by itself.</p>
               </div>
               <label htmlFor="agentToggle" className="flex items-center cursor-pointer">
                 <div className="relative">
@@ -158,9 +165,59 @@ const WhatsAppAgent: React.FC = () => {
                 </div>
               </label>
             </div>
+            <div>
+              <label className="flex items-center gap-2 font-medium text-gray-800">
+                <input type="checkbox" checked={businessHours !== null} onChange={(e) => setBusinessHours(e.target.checked ? DEFAULT_BUSINESS_HOURS : null)} />
+                Only answer during business hours
+              </label>
+              {businessHours && (
+                <div className="mt-3 space-y-3">
+                  <div className="flex flex-wrap gap-1">
+                    {DAY_LABELS.map((label, day) => (
+                      <button key={label} type="button" onClick={() => toggleBusinessDay(day)}
+                        className={`px-2 py-1 text-xs font-semibold rounded-full ${businessHours.days.includes(day) ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700'}`}>
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-2 text-sm text-gray-700">
+                    <input type="time" value={businessHours.start} onChange={(e) => setBusinessHours({ ...businessHours, start: e.target.value })} className="px-2 py-1 border border-gray-300 rounded-md" />
+                    to
+                    <input type="time" value={businessHours.end} onChange={(e) => setBusinessHours({ ...businessHours, end: e.target.value })} className="px-2 py-1 border border-gray-300 rounded-md" />
+                  </div>
+                  <p className="text-xs text-gray-500">Outside these hours messages wait for a DJ in the live chat.</p>
+                </div>
+              )}
+            </div>
             <div>
               <h3 className="font-medium text-gray-800 mb-2">Agent Personality (System Prompt)</h3>
               <textarea value={systemPrompt} onChange={(e) => setSystemPrompt(e.target.value)} className="w-full bg-gray-50 text-gray-800 p-3 rounded-md h-32 text-sm border border-gray-300 focus:ring-2 focus:ring-blue-500" />
+              {promptVersions.length > 1 && (
+                <details className="mt-2 text-sm">
+                  <summary className="cursor-pointer text-gray-600">Earlier prompts ({promptVersions.length - 1})</summary>
+                  <ul className="mt-2 space-y-2 max-h-60 overflow-y-auto">
+                    {promptVersions.slice(1).map(version => (
+                      <li key={version.savedAt} className="p-2 bg-gray-50 rounded-md border border-gray-200">
+                        <div className="flex justify-between items-center text-xs text-gray-500">
+                          <span>{new Date(version.savedAt).toLocaleString()} by {version.savedBy}</span>
+                          <button onClick={() => setSystemPrompt(version.systemPrompt)} className="font-semibold text-blue-600 hover:underline">Use this</button>
+                        </div>
+                        <p className="mt-1 text-gray-700 line-clamp-3">{version.systemPrompt || '(station default)'}</p>
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <label className="text-sm font-medium text-gray-800">
+                Session timeout (minutes)
+                <input type="number" min={1} value={sessionTimeoutMinutes} onChange={(e) => setSessionTimeoutMinutes(Number(e.target.value))} className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md" />
+              </label>
+              <label className="text-sm font-medium text-gray-800">
+                History length (turns)
+                <input type="number" min={2} max={50} value={maxHistoryTurns} onChange={(e) => setMaxHistoryTurns(Number(e.target.value))} className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md" />
+              </label>
             </div>
             <div>
               <button onClick={handleSaveSettings} className="px-4 py-2 w-32 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-400" disabled={saveStatus !== 'idle'}>
@@ -168,22 +225,22 @@ const WhatsAppAgent: React.FC = () => {
                 {saveStatus === 'saving' && <LoadingIcon />}
                 {saveStatus === 'saved' && 'Saved!'}
               </button>
-              <p className="text-xs text-gray-400 mt-2">Note: Saving requires backend changes.</p>
+              {settingsError && <p className="text-xs text-red-600 mt-2" role="alert">{settingsError}</p>}
             </div>
           </div>
         </div>
 
         <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm">
             <h2 className="text-xl font-semibold text-gray-900 mb-4">Active Sessions ({activeSessions.length})</h2>
-            <p className="text-xs text-gray-400 mb-4">Sessions expire after 15 minutes of inactivity.</p>
+            <p className="text-xs text-gray-400 mb-4">Sessions expire after {sessionTimeoutMinutes} minutes of inactivity.</p>
             <div className="space-y-3 max-h-60 overflow-y-auto pr-2">
-                {activeSessions.length > 0 ? activeSessions.map(([userId, session]) => (
-                    <div key={userId} className="flex justify-between items-center bg-gray-50 p-3 rounded-md border border-gray-200">
+                {activeSessions.length > 0 ? activeSessions.map(session => (
+                    <div key={session.sessionId} className="flex justify-between items-center bg-gray-50 p-3 rounded-md border border-gray-200">
                         <div>
-                            <p className="font-medium text-gray-800 text-sm">{userId}</p>
-                            <p className="text-xs text-gray-500 flex items-center gap-1.5"><ClockIcon/> Last active: {new Date(session.lastActive).toLocaleTimeString()}</p>
+                            <p className="font-medium text-gray-800 text-sm">{session.conversationId}</p>
+                            <p className="text-xs text-gray-500 flex items-center gap-1.5"><ClockIcon/> Last active: {new Date(session.lastActive).toLocaleTimeString()} · {LISTENER_LANGUAGES[session.language]}</p>
                         </div>
-                        <button onClick={() => handleExpireSession(userId)} className="p-2 text-gray-500 hover:text-red-600" title="End Session">
+                        <button onClick={() => handleExpireSession(session.conversationId)} className="p-2 text-gray-500 hover:text-red-600" title="End Session">
                             <DeleteIcon />
                         </button>
                     </div>
@@ -192,13 +249,32 @@ const WhatsAppAgent: React.FC = () => {
                 )}
             </div>
         </div>
+
+        <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Listener History</h2>
+            <form className="flex gap-2" onSubmit={(e) => { e.preventDefault(); setShownHistory(historyNumber.trim() || null); }}>
+                <input
+                    type="text"
+                    value={historyNumber}
+                    onChange={(e) => setHistoryNumber(e.target.value)}
+                    placeholder="WhatsApp number, e.g. 27821234567"
+                    className="flex-1 px-3 py-1.5 text-sm text-gray-800 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button type="submit" className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300">Show</button>
+            </form>
+            {shownHistory && (
+                <div className="mt-4 max-h-96 overflow-y-auto bg-gray-50 rounded-lg p-3 border border-gray-200">
+                    <AgentHistory key={shownHistory} conversationId={agentConversationId(shownHistory)} />
+                </div>
+            )}
+        </div>
       </div>
 
       <div className="lg:col-span-2 space-y-8">
         <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm">
             <div className="flex justify-between items-center mb-4">
                 <h2 className="text-xl font-semibold text-gray-900">Agent Tester</h2>
-                 <button onClick={handleResetActiveSession} className="px-3 py-1 text-xs font-semibold rounded-full bg-gray-200 text-gray-700 hover:bg-red-600 hover:text-white transition-colors" disabled={!activeTestUserId || activeUserHistory.length === 0}>
+                 <button onClick={handleResetActiveSession} className="px-3 py-1 text-xs font-semibold rounded-full bg-gray-200 text-gray-700 hover:bg-red-600 hover:text-white transition-colors" disabled={!activeTestUserId || activeUserMessages.length === 0}>
                     Reset Session
                 </button>
             </div>
@@ -211,17 +287,33 @@ const WhatsAppAgent: React.FC = () => {
                     onChange={(e) => setActiveTestUserId(e.target.value)}
                     className="flex-1 w-full sm:w-auto px-3 py-1.5 text-sm text-gray-800 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                 />
+                {activeUserSession && <span className="text-xs text-gray-500">Answering in {LISTENER_LANGUAGES[activeUserSession.language]}</span>}
             </div>
             
             <div className="h-96 bg-gray-50 rounded-lg flex flex-col p-4 border border-gray-200">
                 <div className="flex-1 overflow-y-auto space-y-4 pr-2">
-                    {activeUserHistory.map((turn, index) => (
-                        <div key={index} className={`flex ${turn.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                            <div className={`px-4 py-2 rounded-2xl max-w-lg shadow-sm ${turn.role === 'user' ? 'bg-blue-600 text-white rounded-br-none' : 'bg-gray-200 text-gray-800 rounded-bl-none'}`}>
-                                {turn.parts[0].text}
+                    {activeUserMessages.map((message, index) => (
+                        <div key={index} className={`flex ${message.role === 'listener' ? 'justify-end' : 'justify-start'}`}>
+                            <div className={`px-4 py-2 rounded-2xl max-w-lg shadow-sm ${message.role === 'listener' ? 'bg-blue-600 text-white rounded-br-none' : 'bg-gray-200 text-gray-800 rounded-bl-none'}`}>
+                                {message.text}
+                                {message.actions.map((action, actionIndex) => (
+                                    <p key={actionIndex} className={`mt-1 text-xs ${action.failed ? 'text-red-600' : 'text-gray-500'}`}>
+                                        {action.failed ? '⚠' : '✓'} {describeAgentAction(action)}
+                                    </p>
+                                ))}
                             </div>
                         </div>
                     ))}
+                    {pendingMessage && (
+                        <div className="flex justify-end">
+                            <div className="px-4 py-2 rounded-2xl max-w-lg shadow-sm bg-blue-600 text-white rounded-br-none opacity-70">{pendingMessage}</div>
+                        </div>
+                    )}
+                    {testError && (
+                        <div className="flex justify-start">
+                            <div className="px-4 py-2 rounded-2xl max-w-lg shadow-sm bg-red-100 text-red-700 rounded-bl-none">{testError}</div>
+                        </div>
+                    )}
                     {isThinking && (
                          <div className="flex justify-start">
                              <div className="px-4 py-2 rounded-2xl max-w-lg bg-gray-200 text-gray-800 rounded-bl-none">
@@ -250,6 +342,11 @@ const WhatsAppAgent: React.FC = () => {
                     </button>
                 </div>
             </div>
+            {lastRetrieved && (
+                <p className="mt-2 text-xs text-gray-500">
+                    Knowledge base entries used for the last reply: {lastRetrieved.length > 0 ? lastRetrieved.map(entry => entry.topic || '(no topic)').join(', ') : 'none matched'}
+                </p>
+            )}
         </div>
         
         <KnowledgeBase />
@@ -0,0 +1,784 @@
+/**
+ * The dashboard's backend: a Google Apps Script web app bound to the station spreadsheet.
+ *
+ * To deploy it, open the spreadsheet's Extensions → Apps Script, replace Code.gs with this
+ * file, and deploy it as a web app that executes as you and that anyone can access. Run
+ * setUp() once from the editor to install its triggers, then give the web app URL to the
+ * dashboard (SCRIPT_URL, or Admin Panel → Station Settings). Deploy a new version after
+ * every change to this file.
+ *
+ * Optional script properties (Project Settings → Script properties):
+ *   TWOCHAT_API_KEY   the 2Chat API key, for the WhatsApp live chat
+ *   WHATSAPP_NUMBER   the station's 2Chat number, for requests that do not name one
+ *   UPLOAD_FOLDER_ID  the Drive folder for uploaded media (default: the owner's My Drive)
+ *   SERVER_URL        the companion server, e.g. https://dashboard.example.org/api
+ *   RELAY_SECRET      the companion server's RELAY_SECRET
+ *   STATION_ID        the station's ID in the dashboard (default: eden-fm)
+ *
+ * Reads are GETs and everything else is a POST with a JSON body (sent as text/plain, which
+ * needs no CORS preflight). Every answer is `{ status, data, message }`. The protocol is
+ * described from the dashboard's side in services/appsScriptBackend.ts.
+ */
+
+const USERS_SHEET = 'Users';
+const SESSIONS_SHEET = 'Sessions';
+const AUDIT_SHEET = 'AuditLog';
+const ACCOUNT_SHEETS = [USERS_SHEET, SESSIONS_SHEET];
+const USER_COLUMNS = ['ID', 'Username', 'DisplayName', 'PasswordHash', 'PasswordSalt', 'Role', 'MustChangePassword', 'Disabled'];
+const SESSION_COLUMNS = ['TokenHash', 'Username', 'CreatedAt', 'ExpiresAt', 'RevokedAt'];
+// Never sent to the dashboard, not even in the audit log.
+const SECRET_COLUMNS = ['PasswordHash', 'PasswordSalt', 'TokenHash'];
+
+// Added to every sheet the script writes: the row's identity, its Version for conflict
+// checks, and when it last changed, for delta reads.
+const BOOKKEEPING_COLUMNS = ['ID', 'Version', 'LastModified'];
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const LOGIN_ATTEMPTS = 5;
+const LOGIN_LOCKOUT_SECONDS = 5 * 60;
+const LOCK_TIMEOUT_MS = 30 * 1000;
+// A delta read also returns rows stamped this long before its cursor, so a write that was
+// still being saved when the previous read took its cursor is not missed.
+const DELTA_OVERLAP_MS = 10 * 1000;
+const TWOCHAT_API_URL = 'https://api.p.2chat.io';
+
+/** A stale update or delete. Answered as `conflict`, with the row as it is now. */
+class Conflict extends Error {
+  constructor(message, current) {
+    super(message);
+    this.current = current || null;
+  }
+}
+
+/** A batch that was not applied. Answered as `batchFailed`, with every failing operation. */
+class BatchFailed extends Error {
+  constructor(failures) {
+    super(`${failures.length} of the batch's changes failed, so none were saved.`);
+    this.failures = failures;
+  }
+}
+
+/**
+ * A refusal meant for the person at the keyboard, such as a wrong password. Answered as
+ * `{ refused: message }` in a success, so the dashboard shows the message as it is.
+ */
+class Refusal extends Error {}
+
+const prop = name => PropertiesService.getScriptProperties().getProperty(name) || '';
+const spreadsheet = () => SpreadsheetApp.getActiveSpreadsheet();
+const nowIso = () => new Date().toISOString();
+const newVersion = () => Utilities.getUuid();
+
+function doGet(e) {
+  return respond(() => {
+    const params = e.parameter || {};
+    if (params.action !== 'read') throw new Error(`Unknown action "${params.action}".`);
+    return params.delta ? readChanges(params.sheetName, params.since) : readRows(findDataSheet(params.sheetName));
+  });
+}
+
+function doPost(e) {
+  return respond(() => {
+    // 2Chat's webhook, pointed at this web app with ?source=2chat: tell open dashboards.
+    if ((e.parameter || {}).source === '2chat') {
+      notifyLater({ type: 'message' });
+      return null;
+    }
+    const body = JSON.parse(e.postData ? e.postData.contents : '{}');
+    const handler = POST_ACTIONS[body.action];
+    if (!handler) throw new Error(`Unknown action "${body.action}".`);
+    return handler(body);
+  });
+}
+
+const POST_ACTIONS = {
+  create: body => withLock(() => createRow(body.sheetName, body.payload || {})),
+  update: body => withLock(() => updateRow(body.sheetName, body.payload || {}, body.id, body.expectedVersion)),
+  delete: body => withLock(() => deleteRow(body.sheetName, body.payload || {}, body.id, body.expectedVersion)),
+  batch: body => withLock(() => applyBatch(body.operations)),
+  uploadFile: body => uploadFile(body.payload),
+  '2chat': body => twoChat(body.subAction, body.payload || {}, body.fromNumber),
+  hasUsers: () => readUsers().length > 0,
+  passwordSalt: body => passwordSalt(body.username),
+  login: body => withLock(() => login(body.username, body.passwordHash)),
+  session: body => validateSession(body.token),
+  logout: body => withLock(() => logout(body.token)),
+  changePassword: body => withLock(() => changePassword(body)),
+  resetPassword: body => withLock(() => resetPassword(body)),
+  createUser: body => withLock(() => createUser(body)),
+  listUsers: body => listUsers(body.token),
+};
+
+const respond = handler => {
+  let body;
+  try {
+    body = { status: 'success', data: handler() };
+  } catch (error) {
+    body = toFailure(error);
+  }
+  sendNotifications();
+  return ContentService.createTextOutput(JSON.stringify(body)).setMimeType(ContentService.MimeType.JSON);
+};
+
+const toFailure = error => {
+  if (error instanceof Refusal) return { status: 'success', data: { refused: error.message } };
+  if (error instanceof Conflict) return { status: 'conflict', message: error.message, current: error.current };
+  if (error instanceof BatchFailed) return { status: 'batchFailed', message: error.message, failures: error.failures };
+  console.error(error);
+  return { status: 'error', message: error instanceof Error ? error.message : String(error) };
+};
+
+/** Runs `work` holding the spreadsheet's lock, so writes from several dashboards never interleave. */
+const withLock = work => {
+  const lock = LockService.getDocumentLock();
+  lock.waitLock(LOCK_TIMEOUT_MS);
+  try {
+    return work();
+  } finally {
+    SpreadsheetApp.flush();
+    lock.releaseLock();
+  }
+};
+
+// --- Sheets ---
+
+/** A sheet the generic actions may use, or null if there is no such tab. Users and Sessions are refused. */
+const findDataSheet = sheetName => {
+  if (!sheetName) throw new Error('A sheetName is required.');
+  if (ACCOUNT_SHEETS.indexOf(sheetName) >= 0) throw new Error(`"${sheetName}" can only be changed through the account actions.`);
+  return spreadsheet().getSheetByName(sheetName);
+};
+
+const requireDataSheet = sheetName => {
+  const sheet = findDataSheet(sheetName);
+  if (!sheet) throw new Error(`Sheet "${sheetName}" not found.`);
+  return sheet;
+};
+
+const headersOf = sheet =>
+  sheet.getLastColumn() > 0 ? sheet.getRange(1, 1, 1, sheet.getLastColumn()).getDisplayValues()[0] : [];
+
+/** Adds the columns in `columns` that the sheet has no header for, after its last one. Returns every header. */
+const ensureColumns = (sheet, columns) => {
+  const headers = headersOf(sheet);
+  const missing = columns.filter((column, index) => column && headers.indexOf(column) < 0 && columns.indexOf(column) === index);
+  if (missing.length) sheet.getRange(1, headers.length + 1, 1, missing.length).setValues([missing]);
+  return headers.concat(missing);
+};
+
+const toRow = (headers, cells, rowIndex) => {
+  const row = { rowIndex };
+  headers.forEach((header, column) => {
+    if (header) row[header] = cells[column];
+  });
+  return row;
+};
+
+/**
+ * Every row that is not blank, as `{ rowIndex, ...columns }` with the values as the sheet
+ * shows them. A missing sheet reads as empty, like a tab that has just been added.
+ */
+const readRows = sheet => {
+  if (!sheet || sheet.getLastRow() < 2) return [];
+  const values = sheet.getDataRange().getDisplayValues();
+  const rows = [];
+  for (let index = 1; index < values.length; index++) {
+    if (values[index].some(cell => cell !== '')) rows.push(toRow(values[0], values[index], index + 1));
+  }
+  return rows;
+};
+
+const readRow = (sheet, headers, rowIndex) =>
+  toRow(headers, sheet.getRange(rowIndex, 1, 1, headers.length).getDisplayValues()[0], rowIndex);
+
+// Strings are written as text, so Sheets keeps a phone number's leading zero and never
+// runs a listener's message as a formula.
+const toCell = value => (typeof value === 'string' && value !== '' ? `'${value}` : value == null ? '' : value);
+
+const appendValues = (sheet, headers, values) => {
+  sheet.appendRow(headers.map(header => toCell(values[header])));
+  return sheet.getLastRow();
+};
+
+/** Writes the columns in `values` to the row, skipping unchanged cells so formulas elsewhere survive. */
+const writeCells = (sheet, headers, current, values) => {
+  headers.forEach((header, column) => {
+    if (!header || !(header in values)) return;
+    const value = values[header] == null ? '' : values[header];
+    if (String(value) !== current[header]) sheet.getRange(current.rowIndex, column + 1).setValue(toCell(value));
+  });
+};
+
+/** The cells of a row, formulas included, so it can be put back as it was. */
+const snapshotRow = (sheet, rowIndex) => {
+  const range = sheet.getRange(rowIndex, 1, 1, Math.max(sheet.getLastColumn(), 1));
+  const formulas = range.getFormulas()[0];
+  return [range.getValues()[0].map((value, column) => formulas[column] || value)];
+};
+
+// --- Delta reads ---
+// Each write stamps LastModified, so a read with `since` returns only the rows stamped after
+// it. Deletes move the rows below them, which a delta cannot describe, so after one the next
+// read of that sheet is a full one.
+
+const markRowsMoved = sheetName => PropertiesService.getScriptProperties().setProperty(`rowsMovedAt:${sheetName}`, String(Date.now()));
+
+const rowsMovedSince = (sheetName, sinceMs) =>
+  [`rowsMovedAt:${sheetName}`, 'rowsMovedAt:*'].some(key => Number(prop(key)) > sinceMs);
+
+const readChanges = (sheetName, since) => {
+  const sheet = findDataSheet(sheetName);
+  // Taken before reading, so a row written during the read is sent again rather than missed.
+  const cursor = String(Date.now());
+  const rows = readRows(sheet);
+  const sinceMs = Number(since) - DELTA_OVERLAP_MS;
+  if (!since || !isFinite(sinceMs) || rowsMovedSince(sheetName, sinceMs)) return { rows, cursor, full: true };
+  return { rows: rows.filter(row => (Date.parse(row.LastModified) || 0) > sinceMs), cursor, full: false };
+};
+
+// --- Writes ---
+
+const findRowById = (sheet, headers, id) => {
+  const column = headers.indexOf('ID');
+  if (!id || column < 0 || sheet.getLastRow() < 2) return null;
+  const match = sheet.getRange(2, column + 1, sheet.getLastRow() - 1, 1)
+    .createTextFinder(String(id))
+    .matchEntireCell(true)
+    .findNext();
+  return match ? match.getRow() : null;
+};
+
+/**
+ * The row an update or delete is for: the row with its ID, wherever it has moved to. When no
+ * row has that ID, the row at rowIndex, but only if that row has no ID yet (rows that predate
+ * IDs, which is how the dashboard's backfill gives them one). Throws when neither is there,
+ * and when the row's Version is not the one the dashboard last saw.
+ */
+const requireRow = (sheet, headers, id, rowIndex, expectedVersion) => {
+  const idColumn = headers.indexOf('ID');
+  let found = findRowById(sheet, headers, id);
+  if (!found) {
+    const index = Number(rowIndex);
+    const inRange = Number.isInteger(index) && index >= 2 && index <= sheet.getLastRow();
+    if (inRange && !(id && idColumn >= 0 && sheet.getRange(index, idColumn + 1).getDisplayValue())) found = index;
+  }
+  if (!found) {
+    const message = `Row ${id || rowIndex} in "${sheet.getName()}" no longer exists.`;
+    throw id || expectedVersion ? new Conflict(message, null) : new Error(message);
+  }
+  const current = readRow(sheet, headers, found);
+  // Rows written before versioning have no Version and are not checked.
+  if (expectedVersion && current.Version && current.Version !== String(expectedVersion)) {
+    throw new Conflict(`Row ${found} in "${sheet.getName()}" was changed by someone else.`, current);
+  }
+  return current;
+};
+
+const withoutRowIndex = payload => {
+  const values = Object.assign({}, payload);
+  delete values.rowIndex;
+  return values;
+};
+
+/**
+ * Appends a row. Columns the sheet lacks are added, and a new tab is made for an unknown
+ * sheet. A row whose ID is already in the sheet is not added again: the answer is that
+ * row's, so a create the dashboard replays from its outbox is only applied once.
+ */
+const createRow = (sheetName, payload, undo) => {
+  const values = withoutRowIndex(payload);
+  const sheet = findDataSheet(sheetName) || spreadsheet().insertSheet(sheetName);
+  const headers = ensureColumns(sheet, Object.keys(values).concat(BOOKKEEPING_COLUMNS));
+  const existing = findRowById(sheet, headers, values.ID);
+  if (existing) {
+    const row = readRow(sheet, headers, existing);
+    return { rowIndex: existing, ID: row.ID, Version: row.Version };
+  }
+  values.ID = values.ID || Utilities.getUuid();
+  values.Version = newVersion();
+  values.LastModified = nowIso();
+  const rowIndex = appendValues(sheet, headers, values);
+  if (undo) undo.push(() => sheet.deleteRow(rowIndex));
+  notifyLater({ type: 'sheet', sheet: sheetName });
+  return { rowIndex, ID: values.ID, Version: values.Version };
+};
+
+const updateRow = (sheetName, payload, id, expectedVersion, undo) => {
+  const sheet = requireDataSheet(sheetName);
+  const values = withoutRowIndex(payload);
+  const headers = ensureColumns(sheet, Object.keys(values).concat(BOOKKEEPING_COLUMNS));
+  const current = requireRow(sheet, headers, id, payload.rowIndex, expectedVersion);
+  if (undo) {
+    const cells = snapshotRow(sheet, current.rowIndex);
+    undo.push(() => sheet.getRange(current.rowIndex, 1, 1, cells[0].length).setValues(cells));
+  }
+  values.ID = current.ID || id || Utilities.getUuid();
+  values.Version = newVersion();
+  values.LastModified = nowIso();
+  writeCells(sheet, headers, current, values);
+  notifyLater({ type: 'sheet', sheet: sheetName });
+  return { rowIndex: current.rowIndex, ID: values.ID, Version: values.Version };
+};
+
+/** Deletes a row and answers with the Version it had. */
+const deleteRow = (sheetName, payload, id, expectedVersion, undo) => {
+  const sheet = requireDataSheet(sheetName);
+  const current = requireRow(sheet, headersOf(sheet), id, payload.rowIndex, expectedVersion);
+  if (undo) {
+    const cells = snapshotRow(sheet, current.rowIndex);
+    undo.push(() => {
+      sheet.insertRowAfter(current.rowIndex - 1);
+      sheet.getRange(current.rowIndex, 1, 1, cells[0].length).setValues(cells);
+    });
+  }
+  sheet.deleteRow(current.rowIndex);
+  markRowsMoved(sheetName);
+  notifyLater({ type: 'sheet', sheet: sheetName });
+  return { rowIndex: current.rowIndex, ID: current.ID, Version: current.Version };
+};
+
+// --- Batches ---
+
+const toBatchFailure = (index, error) =>
+  error instanceof Conflict
+    ? { index, status: 'conflict', message: error.message, current: error.current }
+    : { index, status: 'error', message: error instanceof Error ? error.message : String(error) };
+
+const checkOperation = ({ action, sheetName, payload, id, expectedVersion }) => {
+  if (action === 'create') {
+    findDataSheet(sheetName);
+    return;
+  }
+  if (action !== 'update' && action !== 'delete') throw new Error(`Unknown batch action "${action}".`);
+  const sheet = requireDataSheet(sheetName);
+  requireRow(sheet, headersOf(sheet), id, (payload || {}).rowIndex, expectedVersion);
+};
+
+/**
+ * Applies every operation or none. All of them are checked before anything is written, so
+ * each stale or invalid one is reported; if a write still fails, what the batch had written
+ * is put back. Runs under the lock, so no one else writes in between.
+ */
+const applyBatch = operations => {
+  if (!Array.isArray(operations)) throw new Error('A batch needs a list of operations.');
+  const failures = [];
+  operations.forEach((operation, index) => {
+    try {
+      checkOperation(operation);
+    } catch (error) {
+      failures.push(toBatchFailure(index, error));
+    }
+  });
+  if (failures.length) throw new BatchFailed(failures);
+
+  const undo = [];
+  const results = [];
+  // Rows without an ID are found by rowIndex, which the batch's own deletes move up.
+  const deletedRows = {};
+  try {
+    operations.forEach(({ action, sheetName, payload, id, expectedVersion }) => {
+      const target = Object.assign({}, payload);
+      const deleted = deletedRows[sheetName] || (deletedRows[sheetName] = []);
+      if (target.rowIndex) target.rowIndex -= deleted.filter(row => row < target.rowIndex).length;
+      if (action === 'create') {
+        results.push(createRow(sheetName, target, undo));
+      } else if (action === 'update') {
+        results.push(updateRow(sheetName, target, id, expectedVersion, undo));
+      } else {
+        const result = deleteRow(sheetName, target, id, expectedVersion, undo);
+        deleted.push(result.rowIndex);
+        results.push(result);
+      }
+    });
+  } catch (error) {
+    undo.reverse().forEach(step => step());
+    throw new BatchFailed([toBatchFailure(results.length, error)]);
+  }
+  return { results };
+};
+
+// --- Triggers ---
+
+/** Run once from the editor after deploying: installs the triggers below. Safe to run again. */
+function setUp() {
+  ScriptApp.getProjectTriggers()
+    .filter(trigger => ['handleEdit', 'handleChange'].indexOf(trigger.getHandlerFunction()) >= 0)
+    .forEach(trigger => ScriptApp.deleteTrigger(trigger));
+  ScriptApp.newTrigger('handleEdit').forSpreadsheet(spreadsheet()).onEdit().create();
+  ScriptApp.newTrigger('handleChange').forSpreadsheet(spreadsheet()).onChange().create();
+}
+
+/**
+ * Edits made by hand in the spreadsheet. Edited rows get a new Version and LastModified, so
+ * delta reads pick them up and an edit the dashboard made from the old values conflicts; rows
+ * typed in get an ID. Setting Disabled to Yes in Users signs that person out everywhere.
+ */
+function handleEdit(e) {
+  const sheet = e.range.getSheet();
+  const sheetName = sheet.getName();
+  const firstRow = Math.max(e.range.getRow(), 2);
+  const lastRow = e.range.getLastRow();
+  if (lastRow < firstRow || sheetName === SESSIONS_SHEET) return;
+
+  withLock(() => {
+    if (sheetName === USERS_SHEET) {
+      readRows(sheet)
+        .filter(user => user.rowIndex >= firstRow && user.rowIndex <= lastRow && user.Disabled === 'Yes')
+        .forEach(user => revokeSessions(user.Username, null));
+      return;
+    }
+    const headers = ensureColumns(sheet, BOOKKEEPING_COLUMNS);
+    const bookkeeping = BOOKKEEPING_COLUMNS.map(column => headers.indexOf(column));
+    const rows = sheet.getRange(firstRow, 1, lastRow - firstRow + 1, headers.length).getDisplayValues();
+    const stamp = nowIso();
+    // A row cleared by hand is gone as far as the dashboard is concerned.
+    const isCleared = cells => cells.every((cell, column) => cell === '' || bookkeeping.indexOf(column) >= 0);
+    const stamped = rows.map(cells =>
+      isCleared(cells) ? ['', '', ''] : [cells[bookkeeping[0]] || Utilities.getUuid(), newVersion(), stamp]
+    );
+    bookkeeping.forEach((column, position) => {
+      sheet.getRange(firstRow, column + 1, stamped.length, 1).setValues(stamped.map(values => [toCell(values[position])]));
+    });
+    if (rows.some(isCleared)) markRowsMoved(sheetName);
+    notifyLater({ type: 'sheet', sheet: sheetName });
+  });
+  sendNotifications();
+}
+
+/** Rows inserted, removed or sorted by hand move other rows, so every sheet's next delta read is a full one. */
+function handleChange(e) {
+  if (e.changeType === 'EDIT' || e.changeType === 'FORMAT') return;
+  PropertiesService.getScriptProperties().setProperty('rowsMovedAt:*', String(Date.now()));
+}
+
+// --- Accounts ---
+// Staff accounts are in Users and sign-in sessions in Sessions. Only the actions below use
+// them, so password hashes and session tokens never reach the dashboard. The dashboard hashes
+// the password itself (PBKDF2, see services/passwordHashing.ts), which is too slow to run here,
+// with the salt `passwordSalt` gives it; the sheet keeps a SHA-256 of that hash, so what is in
+// the sheet cannot be sent back as a sign-in. Sessions are stored by the SHA-256 of the token.
+
+const normaliseUsername = username => String(username || '').trim().toLowerCase();
+
+const toHex = bytes => bytes.map(byte => ((byte + 256) % 256).toString(16).padStart(2, '0')).join('');
+
+const sha256 = text => toHex(Utilities.computeDigest(Utilities.DigestAlgorithm.SHA_256, String(text), Utilities.Charset.UTF_8));
+
+// Compares every character so the time taken does not reveal how much of the hash matched.
+const constantTimeEquals = (a, b) => {
+  if (a.length !== b.length) return false;
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return mismatch === 0;
+};
+
+/** Maps the Role cell to a known role, as normalizeRole in services/permissions.ts does. */
+const normalizeRole = value => {
+  const role = String(value || '').trim().toLowerCase();
+  return role === 'admin' || role === 'producer' ? role : 'presenter';
+};
+
+const accountSheet = (sheetName, columns) => {
+  const sheet = spreadsheet().getSheetByName(sheetName) || spreadsheet().insertSheet(sheetName);
+  ensureColumns(sheet, columns);
+  return sheet;
+};
+
+const readUsers = () => readRows(accountSheet(USERS_SHEET, USER_COLUMNS));
+const readSessions = () => readRows(accountSheet(SESSIONS_SHEET, SESSION_COLUMNS));
+
+const findUser = username =>
+  readUsers().filter(user => normaliseUsername(user.Username) === normaliseUsername(username))[0] || null;
+
+const matchesPassword = (user, passwordHash) =>
+  !!user && !!passwordHash && constantTimeEquals(sha256(passwordHash), String(user.PasswordHash));
+
+const isActive = session => !session.RevokedAt && Date.parse(session.ExpiresAt) > Date.now();
+
+const toAuthSession = (token, user, expiresAt) => ({
+  token,
+  username: user.Username,
+  displayName: user.DisplayName || user.Username,
+  role: normalizeRole(user.Role),
+  expiresAt,
+  mustChangePassword: user.MustChangePassword === 'Yes',
+});
+
+/** The unexpired, unrevoked session for a token and its enabled user, or null. */
+const findSession = token => {
+  if (!token) return null;
+  const tokenHash = sha256(token);
+  const session = readSessions().filter(record => record.TokenHash === tokenHash)[0];
+  if (!session || !isActive(session)) return null;
+  const user = findUser(session.Username);
+  return user && user.Disabled !== 'Yes' ? { session, user } : null;
+};
+
+const requireSession = token => {
+  const found = findSession(token);
+  if (!found) throw new Refusal('Your session has expired. Sign in again.');
+  return found;
+};
+
+const requireAdmin = token => {
+  const found = requireSession(token);
+  if (normalizeRole(found.user.Role) !== 'admin') throw new Refusal('Only station admins can manage accounts.');
+  return found;
+};
+
+// Unknown usernames get a salt too, the same one every time, so the answer does not reveal
+// which accounts exist.
+const passwordSalt = username => {
+  const user = findUser(username);
+  if (user) return { salt: user.PasswordSalt };
+  let key = prop('SALT_KEY');
+  if (!key) {
+    key = Utilities.getUuid();
+    PropertiesService.getScriptProperties().setProperty('SALT_KEY', key);
+  }
+  return { salt: toHex(Utilities.computeHmacSha256Signature(normaliseUsername(username), key)).slice(0, 32) };
+};
+
+const login = (username, passwordHash) => {
+  const cache = CacheService.getScriptCache();
+  const failuresKey = `loginFailures:${normaliseUsername(username)}`;
+  const failures = Number(cache.get(failuresKey) || 0);
+  if (failures >= LOGIN_ATTEMPTS) throw new Refusal('Too many sign-in attempts. Wait a few minutes and try again.');
+
+  const user = findUser(username);
+  if (!user || user.Disabled === 'Yes' || !matchesPassword(user, passwordHash)) {
+    cache.put(failuresKey, String(failures + 1), LOGIN_LOCKOUT_SECONDS);
+    // Same message for unknown users and wrong passwords, so accounts cannot be probed.
+    throw new Refusal('Invalid username or password.');
+  }
+  cache.remove(failuresKey);
+
+  const token = (Utilities.getUuid() + Utilities.getUuid()).replace(/-/g, '');
+  const session = {
+    TokenHash: sha256(token),
+    Username: user.Username,
+    CreatedAt: nowIso(),
+    ExpiresAt: new Date(Date.now() + SESSION_TTL_MS).toISOString(),
+    RevokedAt: '',
+  };
+  const sheet = accountSheet(SESSIONS_SHEET, SESSION_COLUMNS);
+  const rowIndex = appendValues(sheet, headersOf(sheet), session);
+  audit(user.Username, 'create', SESSIONS_SHEET, { rowIndex, after: session });
+  return toAuthSession(token, user, session.ExpiresAt);
+};
+
+const validateSession = token => {
+  const found = findSession(token);
+  return found ? toAuthSession(token, found.user, found.session.ExpiresAt) : null;
+};
+
+const logout = token => {
+  const found = findSession(token);
+  if (!found) return null;
+  const sheet = accountSheet(SESSIONS_SHEET, SESSION_COLUMNS);
+  const changes = { RevokedAt: nowIso() };
+  writeCells(sheet, headersOf(sheet), found.session, changes);
+  audit(found.user.Username, 'update', SESSIONS_SHEET, {
+    rowIndex: found.session.rowIndex,
+    before: found.session,
+    after: Object.assign({}, found.session, changes),
+  });
+  return null;
+};
+
+/** Revokes every active session of `username` except the one with `keepTokenHash`, and tells the companion server. */
+const revokeSessions = (username, keepTokenHash) => {
+  const sheet = accountSheet(SESSIONS_SHEET, SESSION_COLUMNS);
+  const headers = headersOf(sheet);
+  const revokedAt = nowIso();
+  readRows(sheet)
+    .filter(session => normaliseUsername(session.Username) === normaliseUsername(username))
+    .filter(session => isActive(session) && session.TokenHash !== keepTokenHash)
+    .forEach(session => writeCells(sheet, headers, session, { RevokedAt: revokedAt }));
+  notifyLater({ type: 'revoked', username });
+};
+
+const setPassword = (actor, user, salt, passwordHash, mustChangePassword) => {
+  if (!salt || !passwordHash) throw new Error('A password salt and hash are required.');
+  const sheet = accountSheet(USERS_SHEET, USER_COLUMNS);
+  const changes = { PasswordSalt: salt, PasswordHash: sha256(passwordHash), MustChangePassword: mustChangePassword ? 'Yes' : '' };
+  writeCells(sheet, headersOf(sheet), user, changes);
+  audit(actor, 'update', USERS_SHEET, {
+    rowId: user.ID,
+    rowIndex: user.rowIndex,
+    before: user,
+    after: Object.assign({}, user, changes, { Password: '(changed)' }),
+  });
+};
+
+/** Changes the signed-in user's password and signs them out everywhere else. */
+const changePassword = ({ token, currentPasswordHash, salt, passwordHash }) => {
+  const { session, user } = requireSession(token);
+  if (!matchesPassword(user, currentPasswordHash)) throw new Refusal('Current password is incorrect.');
+  setPassword(user.Username, user, salt, passwordHash, false);
+  revokeSessions(user.Username, session.TokenHash);
+  return null;
+};
+
+/** An admin sets a temporary password, which must be changed at the next sign-in, and signs the user out everywhere. */
+const resetPassword = ({ token, username, salt, passwordHash }) => {
+  const admin = requireAdmin(token).user;
+  const user = findUser(username);
+  if (!user) throw new Refusal(`No account named "${username}".`);
+  setPassword(admin.Username, user, salt, passwordHash, true);
+  revokeSessions(user.Username, null);
+  return null;
+};
+
+/** Admins add accounts. On a fresh install anyone may create the first one, which is always an admin. */
+const createUser = ({ token, username, displayName, salt, passwordHash, role }) => {
+  const users = readUsers();
+  const actor = users.length > 0 ? requireAdmin(token).user.Username : null;
+  const cleanUsername = String(username || '').trim();
+  if (!cleanUsername) throw new Refusal('Username is required.');
+  if (users.some(user => normaliseUsername(user.Username) === normaliseUsername(cleanUsername))) {
+    throw new Refusal(`The username "${cleanUsername}" is already taken.`);
+  }
+  if (!salt || !passwordHash) throw new Error('A password salt and hash are required.');
+  const user = {
+    ID: Utilities.getUuid(),
+    Username: cleanUsername,
+    DisplayName: String(displayName || '').trim() || cleanUsername,
+    PasswordHash: sha256(passwordHash),
+    PasswordSalt: salt,
+    Role: actor ? normalizeRole(role) : 'admin',
+    MustChangePassword: '',
+    Disabled: '',
+  };
+  const sheet = accountSheet(USERS_SHEET, USER_COLUMNS);
+  const rowIndex = appendValues(sheet, headersOf(sheet), user);
+  audit(actor || cleanUsername, 'create', USERS_SHEET, { rowId: user.ID, rowIndex, after: user });
+  return null;
+};
+
+const listUsers = token => {
+  requireAdmin(token);
+  return readUsers().map(user => ({
+    username: user.Username,
+    displayName: user.DisplayName || user.Username,
+    role: normalizeRole(user.Role),
+    disabled: user.Disabled === 'Yes',
+    mustChangePassword: user.MustChangePassword === 'Yes',
+  }));
+};
+
+// --- Audit log ---
+
+const withoutSecrets = row => {
+  const values = withoutRowIndex(row);
+  SECRET_COLUMNS.forEach(column => delete values[column]);
+  return JSON.stringify(values);
+};
+
+/** Appends an AuditLog row for an account change, in the shape of the dashboard's own entries (services/auditService.ts). */
+const audit = (username, action, sheetName, details) => {
+  createRow(AUDIT_SHEET, {
+    Timestamp: nowIso(),
+    Username: username,
+    Action: action,
+    Sheet: sheetName,
+    RowId: details.rowId || '',
+    RowIndex: details.rowIndex ? String(details.rowIndex) : '',
+    Before: details.before ? withoutSecrets(details.before) : '',
+    After: details.after ? withoutSecrets(details.after) : '',
+    Recipient: '',
+    Message: '',
+  });
+};
+
+// --- Companion server ---
+// With SERVER_URL and RELAY_SECRET set, every change is announced to the companion server,
+// which pushes it to open dashboards (see server/index.ts), and so is every revocation of a
+// user's sessions, so the server stops accepting them at once. A notification that cannot be
+// delivered is only logged: the dashboards' polling picks the change up anyway, and the
+// server checks sessions again after a minute.
+
+const pendingNotifications = [];
+
+const notifyLater = event => {
+  const key = JSON.stringify(event);
+  if (!pendingNotifications.some(pending => JSON.stringify(pending) === key)) pendingNotifications.push(event);
+};
+
+const sendNotifications = () => {
+  const serverUrl = prop('SERVER_URL');
+  const secret = prop('RELAY_SECRET');
+  const events = pendingNotifications.splice(0);
+  if (!serverUrl || !secret) return;
+  events.forEach(event => {
+    try {
+      UrlFetchApp.fetch(`${serverUrl.replace(/\/+$/, '')}/notify`, {
+        method: 'post',
+        contentType: 'application/json',
+        headers: { Authorization: `Bearer ${secret}` },
+        payload: JSON.stringify(Object.assign({ station: prop('STATION_ID') || 'eden-fm' }, event)),
+        muteHttpExceptions: true,
+      });
+    } catch (error) {
+      console.warn(`Could not notify the companion server of ${event.type}:`, error);
+    }
+  });
+};
+
+// --- Uploads ---
+
+const uploadFile = ({ fileName, mimeType, data }) => {
+  const blob = Utilities.newBlob(Utilities.base64Decode(data), mimeType, fileName);
+  const folderId = prop('UPLOAD_FOLDER_ID');
+  const file = (folderId ? DriveApp.getFolderById(folderId) : DriveApp.getRootFolder()).createFile(blob);
+  file.setSharing(DriveApp.Access.ANYONE_WITH_LINK, DriveApp.Permission.VIEW);
+  return { url: `https://drive.google.com/uc?export=view&id=${file.getId()}` };
+};
+
+// --- 2Chat proxy ---
+// The live chat's calls to 2Chat come through here, so the API key stays in the script's
+// properties. 2Chat's conversation and message fields are the ones the dashboard uses
+// (TCConversation and TCMessage in types.ts).
+
+const withPlus = number => (String(number).startsWith('+') ? String(number) : `+${number}`);
+
+const callTwoChat = (method, path, body) => {
+  const apiKey = prop('TWOCHAT_API_KEY');
+  if (!apiKey) throw new Error('TWOCHAT_API_KEY is not set in the script properties.');
+  const response = UrlFetchApp.fetch(`${TWOCHAT_API_URL}${path}`, {
+    method,
+    contentType: 'application/json',
+    headers: { 'X-User-API-Key': apiKey },
+    payload: body ? JSON.stringify(body) : undefined,
+    muteHttpExceptions: true,
+  });
+  const result = JSON.parse(response.getContentText() || '{}');
+  if (response.getResponseCode() >= 400 || result.success === false) {
+    throw new Error(`2Chat ${path} failed: ${result.message || result.error || `HTTP ${response.getResponseCode()}`}`);
+  }
+  return result;
+};
+
+const twoChat = (subAction, payload, fromNumber) => {
+  const from = encodeURIComponent(withPlus(fromNumber || prop('WHATSAPP_NUMBER')));
+  if (subAction === 'fetchConversations') {
+    const result = callTwoChat('get', `/open/whatsapp/conversations/${from}`);
+    return { conversations: result.conversations || result.data || [] };
+  }
+  if (subAction === 'fetchMessages') {
+    const result = callTwoChat('get', `/open/whatsapp/messages/${from}/${encodeURIComponent(withPlus(payload.conversationId))}`);
+    return { messages: result.messages || result.data || [] };
+  }
+  if (subAction === 'sendMessage') {
+    const result = callTwoChat('post', '/open/whatsapp/send-message', {
+      from_number: decodeURIComponent(from),
+      to_number: withPlus(payload.to),
+      text: payload.text,
+    });
+    notifyLater({ type: 'message' });
+    return {
+      message: { id: String(result.message_uuid || result.uuid || ''), text: payload.text, from_me: true, created_at: nowIso(), type: 'text' },
+    };
+  }
+  throw new Error(`Unknown 2Chat action "${subAction}".`);
+};
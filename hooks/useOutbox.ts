@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { OutboxSnapshot, getOutboxSnapshot, subscribeToOutbox } from '../services/outbox';
+
+/** Subscribes a component to the offline outbox: connectivity, queued entries and replay progress. */
+export const useOutbox = (): OutboxSnapshot => useSyncExternalStore(subscribeToOutbox, getOutboxSnapshot);
@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { PushStatus, getPushStatus, subscribeToPushStatus } from '../services/pushChannel';
+
+/** Subscribes a component to the push channel's connection status. */
+export const usePushStatus = (): PushStatus => useSyncExternalStore(subscribeToPushStatus, getPushStatus);
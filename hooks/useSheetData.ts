@@ -0,0 +1,37 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { SheetRow } from '../types';
+import { DataQualityIssue } from '../services/errors';
+import { getSheetSnapshot, refreshSheet, subscribeToSheet } from '../services/sheetStore';
+
+export interface SheetData<T extends SheetRow> {
+  rows: T[];
+  /** True only until the sheet has loaded for the first time. Background refreshes keep showing cached rows. */
+  loading: boolean;
+  isRefreshing: boolean;
+  /** Set when the sheet could not be loaded at all. A failed background refresh keeps the cached rows instead. */
+  error: Error | null;
+  /** Rows that do not fit the sheet's schema (see services/sheetSchemas.ts). */
+  issues: DataQualityIssue[];
+  refresh: () => Promise<T[]>;
+}
+
+/**
+ * Subscribes a component to a sheet in the shared store.
+ * Components that ask for the same sheet share one cache entry, one in-flight request and one poll.
+ */
+export const useSheetData = <T extends SheetRow>(sheetName: string): SheetData<T> => {
+  const subscribe = useCallback((onChange: () => void) => subscribeToSheet(sheetName, onChange), [sheetName]);
+  const getSnapshot = useCallback(() => getSheetSnapshot<T>(sheetName), [sheetName]);
+  const snapshot = useSyncExternalStore(subscribe, getSnapshot);
+
+  const refresh = useCallback(() => refreshSheet<T>(sheetName), [sheetName]);
+
+  return {
+    rows: snapshot.rows,
+    loading: snapshot.fetchedAt === null && !snapshot.error,
+    isRefreshing: snapshot.isFetching && snapshot.fetchedAt !== null,
+    error: snapshot.fetchedAt === null ? snapshot.error : null,
+    issues: snapshot.issues,
+    refresh,
+  };
+};
@@ -0,0 +1,187 @@
+import { randomUUID } from 'node:crypto';
+import { SheetDirectory, SheetRecord } from '../sheets.js';
+import { DEFAULT_LANGUAGE, Language, isLanguage } from './language.js';
+import { AgentSettings } from './settings.js';
+
+/**
+ * The agent's memory of each conversation, kept in the station's AgentMessages sheet:
+ * one row per listener message and agent reply, grouped into sessions. A session ends
+ * when the conversation goes quiet for the station's session timeout, or when an admin
+ * ends it (an 'end' row). Its recent turns are sent back to the model; older sessions
+ * stay in the sheet for the listener's history.
+ *
+ * Each listener row also records the language the turn was answered in (see
+ * language.ts); a session's language is that of its latest turn.
+ *
+ * Turns for one conversation are handled one at a time, so a listener who sends two
+ * messages quickly gets two replies in order rather than two answers to half a chat.
+ */
+
+export interface AgentMessage {
+  timestamp: string;
+  role: 'listener' | 'agent' | 'end';
+  text: string;
+  /** The tools an agent reply called, as returned by runAgentTurn. */
+  actions: unknown[];
+}
+
+export interface AgentSession {
+  conversationId: string;
+  sessionId: string;
+  startedAt: string;
+  lastActive: string;
+  ended: boolean;
+  /** The language the agent is speaking with the listener. */
+  language: Language;
+  messages: AgentMessage[];
+}
+
+const toMessage = (row: SheetRecord): AgentMessage => {
+  let actions: unknown[] = [];
+  try {
+    actions = row.Actions ? JSON.parse(String(row.Actions)) : [];
+  } catch {
+    // A hand-edited cell; the text is what matters.
+  }
+  const role = row.Role === 'agent' || row.Role === 'end' ? row.Role : 'listener';
+  return { timestamp: String(row.Timestamp ?? ''), role, text: String(row.Text ?? ''), actions };
+};
+
+/** Groups AgentMessages rows into sessions, oldest first. */
+const groupSessions = (rows: SheetRecord[], conversationId?: string): AgentSession[] => {
+  const sessions = new Map<string, AgentSession>();
+  for (const row of rows) {
+    const conversation = String(row.Conversation ?? '');
+    if (conversationId !== undefined && conversation !== conversationId) continue;
+    const sessionId = String(row.Session ?? '');
+    const message = toMessage(row);
+    let session = sessions.get(sessionId);
+    if (!session) {
+      session = { conversationId: conversation, sessionId, startedAt: message.timestamp, lastActive: message.timestamp, ended: false, language: DEFAULT_LANGUAGE, messages: [] };
+      sessions.set(sessionId, session);
+    }
+    if (isLanguage(row.Language)) session.language = row.Language;
+    if (message.role === 'end') session.ended = true;
+    else session.messages.push(message);
+    session.lastActive = message.timestamp;
+  }
+  return Array.from(sessions.values());
+};
+
+const isLive = (session: AgentSession | null, settings: AgentSettings, now = Date.now()): session is AgentSession =>
+  !!session && !session.ended && now - Date.parse(session.lastActive) <= settings.sessionTimeoutMinutes * 60_000;
+
+export const createAgentSessionStore = (sheets: SheetDirectory) => {
+  // Each conversation's latest session, read from the sheet the first time it is needed.
+  const latest = new Map<string, AgentSession | null>();
+  const queues = new Map<string, Promise<unknown>>();
+  const key = (station: string, conversationId: string) => `${station}:${conversationId}`;
+
+  const latestSession = async (station: string, conversationId: string): Promise<AgentSession | null> => {
+    const id = key(station, conversationId);
+    if (!latest.has(id)) {
+      const sessions = groupSessions(await sheets(station).read('agentMessages'), conversationId);
+      latest.set(id, sessions[sessions.length - 1] ?? null);
+    }
+    return latest.get(id) ?? null;
+  };
+
+  const appendRow = (station: string, session: AgentSession, message: AgentMessage) =>
+    sheets(station).append('agentMessages', {
+      Timestamp: message.timestamp,
+      Conversation: session.conversationId,
+      Session: session.sessionId,
+      Role: message.role,
+      Text: message.text,
+      Actions: message.actions.length > 0 ? JSON.stringify(message.actions) : '',
+      Language: message.role === 'listener' ? session.language : '',
+    });
+
+  return {
+    /** The session still in progress, or null when the conversation has gone quiet. */
+    async current(station: string, conversationId: string, settings: AgentSettings): Promise<AgentSession | null> {
+      const session = await latestSession(station, conversationId);
+      return isLive(session, settings) ? session : null;
+    },
+
+    /**
+     * The language of the conversation's latest session, even one that has ended, or
+     * null for a listener the agent has not spoken with. Used for the few messages
+     * sent outside a session, such as the reply to STOP.
+     */
+    async language(station: string, conversationId: string): Promise<Language | null> {
+      return (await latestSession(station, conversationId))?.language ?? null;
+    },
+
+    /** The session's last turns as Gemini contents, for the model. */
+    history(session: AgentSession | null, settings: AgentSettings): unknown[] {
+      return (session?.messages ?? []).slice(-settings.maxHistoryTurns).map(message => ({
+        role: message.role === 'agent' ? 'model' : 'user',
+        parts: [{ text: message.text }],
+      }));
+    },
+
+    /** Saves a listener's message and the agent's reply, given in `language`, in the current session or a new one. */
+    async record(
+      station: string,
+      conversationId: string,
+      settings: AgentSettings,
+      text: string,
+      reply: string,
+      actions: unknown[],
+      language: Language
+    ): Promise<AgentSession> {
+      const now = new Date().toISOString();
+      const current = await this.current(station, conversationId, settings);
+      const session: AgentSession = current
+        ? { ...current, language, messages: [...current.messages] }
+        : { conversationId, sessionId: randomUUID(), startedAt: now, lastActive: now, ended: false, language, messages: [] };
+      const turns: AgentMessage[] = [
+        { timestamp: now, role: 'listener', text, actions: [] },
+        { timestamp: now, role: 'agent', text: reply, actions },
+      ];
+      for (const message of turns) await appendRow(station, session, message);
+      session.messages.push(...turns);
+      session.lastActive = now;
+      latest.set(key(station, conversationId), session);
+      return session;
+    },
+
+    /** Ends the conversation's session, so its next message starts afresh. Returns whether one was in progress. */
+    async end(station: string, conversationId: string, settings: AgentSettings): Promise<boolean> {
+      const current = await this.current(station, conversationId, settings);
+      if (!current) return false;
+      const now = new Date().toISOString();
+      await appendRow(station, current, { timestamp: now, role: 'end', text: '', actions: [] });
+      latest.set(key(station, conversationId), { ...current, ended: true, lastActive: now });
+      return true;
+    },
+
+    /** Sessions still in progress at the station, most recently active first. */
+    async active(station: string, settings: AgentSettings): Promise<AgentSession[]> {
+      const byConversation = new Map<string, AgentSession>();
+      groupSessions(await sheets(station).read('agentMessages')).forEach(session => byConversation.set(session.conversationId, session));
+      return Array.from(byConversation.values())
+        .filter(session => isLive(session, settings))
+        .sort((a, b) => b.lastActive.localeCompare(a.lastActive));
+    },
+
+    /** Every session with a listener, newest first. */
+    async sessions(station: string, conversationId: string): Promise<AgentSession[]> {
+      return groupSessions(await sheets(station).read('agentMessages'), conversationId).reverse();
+    },
+
+    /** Runs `task` after any earlier task for the same conversation has finished. */
+    serialize<T>(station: string, conversationId: string, task: () => Promise<T>): Promise<T> {
+      const id = key(station, conversationId);
+      const next = (queues.get(id) ?? Promise.resolve()).catch(() => undefined).then(task);
+      queues.set(id, next);
+      next.finally(() => {
+        if (queues.get(id) === next) queues.delete(id);
+      }).catch(() => undefined);
+      return next;
+    },
+  };
+};
+
+export type AgentSessionStore = ReturnType<typeof createAgentSessionStore>;
@@ -0,0 +1,150 @@
+import { ModelClient } from '../ai/models.js';
+import { Language } from './language.js';
+import { AgentInput, AgentTurn, FALLBACK_REPLY, runAgentTurn } from './loop.js';
+import { ToolContext, executeTool } from './tools.js';
+
+/**
+ * Checks on either side of an agent turn. Before: a message with abuse or profanity
+ * goes straight to a DJ through forward_to_dj without reaching the model, and ID
+ * numbers, card and account numbers and e-mail addresses are replaced with a
+ * placeholder so Gemini never sees them. After: the reply is checked the same way,
+ * in case the model repeats something it should not.
+ *
+ * Opt-outs (STOP and START) are handled by the webhook before any of this; see
+ * optOuts.ts.
+ */
+
+// --- Opt-out keywords ---
+
+// Not 'cancel': on its own it is as likely to be about a song request as about the messages.
+const OPT_OUT_KEYWORDS = new Set(['stop', 'unsubscribe', 'stop all', 'stopall', 'opt out']);
+const OPT_IN_KEYWORDS = new Set(['start', 'unstop', 'subscribe', 'opt in']);
+
+/** 'stop' or 'start' when the whole message is an opt-out or opt-in keyword, in any case and with any punctuation. */
+export const optKeyword = (text: string): 'stop' | 'start' | null => {
+  const words = text.toLowerCase().replace(/[^a-z\s]/g, ' ').replace(/\s+/g, ' ').trim();
+  if (OPT_OUT_KEYWORDS.has(words)) return 'stop';
+  if (OPT_IN_KEYWORDS.has(words)) return 'start';
+  return null;
+};
+
+// --- Personal information ---
+
+const passesLuhn = (digits: string) => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+// South African ID numbers start with a date of birth, YYMMDD, and end with a Luhn check digit.
+const isIdNumber = (digits: string) => {
+  if (digits.length !== 13 || !passesLuhn(digits)) return false;
+  const month = Number(digits.slice(2, 4));
+  const day = Number(digits.slice(4, 6));
+  return month >= 1 && month <= 12 && day >= 1 && day <= 31;
+};
+
+// 13 to 19 digits, allowing the spaces and dashes people type between groups.
+const LONG_NUMBER = /\b\d(?:[ -]?\d){12,18}\b/g;
+const EMAIL = /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g;
+const ACCOUNT_NUMBER = /\b(account|acc|acct)(\s*(number|no\.?|nr\.?|#))?\s*:?\s*\d[\d -]{5,}\d/gi;
+
+export interface Redaction {
+  text: string;
+  /** What was removed, e.g. ['ID number'], for the staff who read the conversation. */
+  removed: string[];
+}
+
+/** Replaces personal information in `text` with placeholders such as "[ID number]". */
+export const redactPersonalInformation = (text: string): Redaction => {
+  const removed: string[] = [];
+  const replace = (label: string) => {
+    removed.push(label);
+    return `[${label}]`;
+  };
+  const redacted = text
+    .replace(LONG_NUMBER, match => {
+      const digits = match.replace(/\D/g, '');
+      if (isIdNumber(digits)) return replace('ID number');
+      if (passesLuhn(digits)) return replace('card number');
+      return match;
+    })
+    .replace(ACCOUNT_NUMBER, match => `${match.match(/^[a-z]+/i)![0]} ${replace('account number')}`)
+    .replace(EMAIL, () => replace('e-mail address'));
+  return { text: redacted, removed };
+};
+
+// --- Abuse ---
+
+// Kept short and unambiguous; stations add their own words, in any language, with AGENT_BLOCKED_WORDS.
+const BLOCKED_WORDS = ['fuck', 'fucking', 'fucker', 'motherfucker', 'shit', 'bitch', 'bastard', 'cunt', 'asshole', 'dickhead', 'wanker', 'poes'];
+const THREATS = [/\b(i'?ll|i will|i'?m going to|gonna)\s+(kill|hurt|beat)\s+(you|u)\b/i, /\bkill\s+yourself\b/i];
+
+// Undo the usual disguises (sh1t, f*ck, fuuuck) and fold repeated letters, in the words too.
+const normalise = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[@4]/g, 'a')
+    .replace(/3/g, 'e')
+    .replace(/1/g, 'i')
+    .replace(/0/g, 'o')
+    .replace(/[$5]/g, 's')
+    .replace(/\*/g, 'u')
+    .replace(/([a-z])\1+/g, '$1');
+
+export interface Guardrails {
+  /** The abusive word or threat found in `text`, or null when there is none. */
+  findAbuse(text: string): string | null;
+}
+
+export const createGuardrails = (extraBlockedWords: string[] = []): Guardrails => {
+  const words = [...BLOCKED_WORDS, ...extraBlockedWords].map(word => normalise(word.trim())).filter(Boolean);
+  const pattern = new RegExp(`\\b(${words.map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})\\b`);
+  return {
+    findAbuse(text) {
+      const word = normalise(text).match(pattern);
+      if (word) return `"${word[0]}"`;
+      return THREATS.some(threat => threat.test(text)) ? 'a threat' : null;
+    },
+  };
+};
+
+// --- The guarded turn ---
+
+export interface GuardedTurn extends AgentTurn {
+  /** The listener's message as the model saw it and as it is kept, without personal information. */
+  message: string;
+  /** Personal information taken out of the message and the reply. */
+  removed: string[];
+  /** True when the message went to a DJ without the model seeing it. */
+  escalated: boolean;
+}
+
+const ESCALATED_REPLY: Record<Language, string> = {
+  en: 'Thanks for your message. It has been passed to one of our team, who will get back to you.',
+  af: 'Dankie vir jou boodskap. Dit is aan een van ons span gestuur, wat jou sal terugkontak.',
+  xh: 'Enkosi ngomyalezo wakho. Unikezelwe komnye weqela lethu, oza kuqhagamshelana nawe.',
+};
+
+/** Runs an agent turn with the checks above around it. */
+export const runGuardedTurn = async (model: ModelClient, input: AgentInput, context: ToolContext, guardrails: Guardrails): Promise<GuardedTurn> => {
+  const incoming = redactPersonalInformation(input.message);
+  const abuse = guardrails.findAbuse(input.message);
+  if (abuse) {
+    const action = await executeTool({ name: 'forward_to_dj', args: { reason: `The listener's message was flagged as abusive (${abuse}).` } }, context);
+    return { reply: ESCALATED_REPLY[input.language], actions: [action], promptTokens: 0, outputTokens: 0, message: incoming.text, removed: incoming.removed, escalated: true };
+  }
+
+  const turn = await runAgentTurn(model, { ...input, message: incoming.text }, context);
+  const outgoing = redactPersonalInformation(turn.reply);
+  // A reply that fails the check is not sent; the listener gets the usual holding message instead.
+  const reply = guardrails.findAbuse(outgoing.text) ? FALLBACK_REPLY[input.language] : outgoing.text;
+  return { ...turn, reply, message: incoming.text, removed: [...incoming.removed, ...outgoing.removed], escalated: false };
+};
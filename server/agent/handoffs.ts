@@ -0,0 +1,42 @@
+/**
+ * Conversations the agent has handed to a person with forward_to_dj. The live chat
+ * shows them flagged until a DJ marks them handled. Kept in memory per station.
+ */
+
+export interface Handoff {
+  conversationId: string;
+  reason: string;
+  flaggedAt: string;
+}
+
+export const createHandoffStore = () => {
+  const byStation = new Map<string, Map<string, Handoff>>();
+  const forStation = (station: string) => {
+    const handoffs = byStation.get(station) ?? new Map<string, Handoff>();
+    byStation.set(station, handoffs);
+    return handoffs;
+  };
+
+  return {
+    /** Flags a conversation. A second flag before it is handled keeps the first time and adds the reason. */
+    flag(station: string, conversationId: string, reason: string): Handoff {
+      const existing = forStation(station).get(conversationId);
+      const handoff = existing
+        ? { ...existing, reason: `${existing.reason}; ${reason}` }
+        : { conversationId, reason, flaggedAt: new Date().toISOString() };
+      forStation(station).set(conversationId, handoff);
+      return handoff;
+    },
+
+    /** Returns whether the conversation was flagged. */
+    resolve(station: string, conversationId: string): boolean {
+      return forStation(station).delete(conversationId);
+    },
+
+    list(station: string): Handoff[] {
+      return Array.from(forStation(station).values()).sort((a, b) => a.flaggedAt.localeCompare(b.flaggedAt));
+    },
+  };
+};
+
+export type HandoffStore = ReturnType<typeof createHandoffStore>;
@@ -0,0 +1,229 @@
+import { createHash } from 'node:crypto';
+import { SheetDirectory, SheetRecord } from '../sheets.js';
+import { ModelClient } from '../ai/models.js';
+
+/**
+ * Retrieval over the station's knowledge base, so the agent's prompt carries the few
+ * entries that bear on the listener's message instead of the whole sheet.
+ *
+ * Entries are split into overlapping chunks, each led by its topic, and ranked with
+ * BM25. With embeddings switched on (KB_EMBEDDINGS), each chunk also gets a vector
+ * and the ranking blends both, which catches answers worded differently from the
+ * question. An entry scores as its best chunk. Indexes are rebuilt whenever the
+ * entries change: the sheet's rows are re-read after a notification that it changed
+ * (see POST /notify) or after a few minutes, and compared by fingerprint.
+ */
+
+export interface KnowledgeEntry {
+  id: string;
+  topic: string;
+  information: string;
+}
+
+export interface RetrievedEntry extends KnowledgeEntry {
+  score: number;
+}
+
+/** Reads knowledge base rows (from the sheet or the dashboard) as entries. Rows without text are skipped. */
+export const toKnowledgeEntries = (rows: unknown[]): KnowledgeEntry[] =>
+  rows
+    .map((row, index) => {
+      const record = (row ?? {}) as SheetRecord;
+      return { id: String(record.ID ?? index), topic: String(record.Topic ?? '').trim(), information: String(record.Information ?? '').trim() };
+    })
+    .filter(entry => entry.topic || entry.information);
+
+// --- Text ---
+
+const STOPWORDS = new Set(
+  'a an and are as at be by can do does for from have how i in is it me my of on or our so that the this to was we what when where which who why will with you your'.split(' ')
+);
+
+// Plural and -ing forms are close enough to match "shows" with "show" and "playing" with "play".
+const stem = (token: string) => {
+  if (token.length > 5 && token.endsWith('ing')) return token.slice(0, -3);
+  if (token.length > 4 && token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+};
+
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').match(/[a-z0-9]+/g) ?? [])
+    .filter(token => !STOPWORDS.has(token))
+    .map(stem);
+
+const CHUNK_WORDS = 80;
+const CHUNK_OVERLAP = 20;
+
+interface Chunk {
+  entry: KnowledgeEntry;
+  text: string;
+  terms: Map<string, number>;
+  length: number;
+}
+
+const chunkEntry = (entry: KnowledgeEntry): Chunk[] => {
+  const words = entry.information.split(/\s+/).filter(Boolean);
+  const texts: string[] = [];
+  for (let start = 0; start === 0 || start < words.length - CHUNK_OVERLAP; start += CHUNK_WORDS - CHUNK_OVERLAP) {
+    texts.push(words.slice(start, start + CHUNK_WORDS).join(' '));
+  }
+  return texts.map(body => {
+    // The topic counts twice: it is what the entry is about.
+    const tokens = [...tokenize(entry.topic), ...tokenize(entry.topic), ...tokenize(body)];
+    const terms = new Map<string, number>();
+    tokens.forEach(token => terms.set(token, (terms.get(token) ?? 0) + 1));
+    return { entry, text: `${entry.topic}\n${body}`, terms, length: tokens.length };
+  });
+};
+
+// --- Index ---
+
+const K1 = 1.2;
+const B = 0.75;
+// With embeddings, how much of an entry's score comes from BM25; the rest is vector similarity.
+const LEXICAL_WEIGHT = 0.5;
+
+const cosine = (a: number[], b: number[]) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+export interface KnowledgeIndex {
+  size: number;
+  search(query: string, topK: number, queryVector?: number[]): RetrievedEntry[];
+  /** The chunks' texts, in the order `vectors` must follow. */
+  chunkTexts: string[];
+  vectors: number[][] | null;
+}
+
+export const buildKnowledgeIndex = (entries: KnowledgeEntry[], vectors: number[][] | null = null): KnowledgeIndex => {
+  const chunks = entries.flatMap(chunkEntry);
+  const documentFrequency = new Map<string, number>();
+  chunks.forEach(chunk => chunk.terms.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1)));
+  const averageLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0) / (chunks.length || 1);
+
+  const bm25 = (chunk: Chunk, queryTerms: string[]) =>
+    queryTerms.reduce((score, term) => {
+      const tf = chunk.terms.get(term) ?? 0;
+      if (tf === 0) return score;
+      const df = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5));
+      return score + (idf * tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * chunk.length) / averageLength));
+    }, 0);
+
+  return {
+    size: entries.length,
+    chunkTexts: chunks.map(chunk => chunk.text),
+    vectors,
+    search(query, topK, queryVector) {
+      const queryTerms = Array.from(new Set(tokenize(query)));
+      const lexical = chunks.map(chunk => bm25(chunk, queryTerms));
+      const maxLexical = Math.max(0, ...lexical);
+      const useVectors = !!queryVector && vectors?.length === chunks.length;
+
+      const best = new Map<string, RetrievedEntry>();
+      chunks.forEach((chunk, i) => {
+        const score = useVectors
+          ? LEXICAL_WEIGHT * (maxLexical ? lexical[i] / maxLexical : 0) + (1 - LEXICAL_WEIGHT) * Math.max(0, cosine(queryVector!, vectors![i]))
+          : lexical[i];
+        if (score <= 0) return;
+        const current = best.get(chunk.entry.id);
+        if (!current || score > current.score) best.set(chunk.entry.id, { ...chunk.entry, score: Math.round(score * 1000) / 1000 });
+      });
+      return Array.from(best.values())
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topK);
+    },
+  };
+};
+
+// --- Per-station retriever ---
+
+const ROWS_TTL_MS = 5 * 60 * 1000;
+
+export interface RetrieverOptions {
+  sheets: SheetDirectory;
+  /** Embeds chunks and queries when set and the model can embed. */
+  model: ModelClient | null;
+  useEmbeddings: boolean;
+  topK: number;
+}
+
+const fingerprint = (entries: KnowledgeEntry[]) => createHash('sha1').update(JSON.stringify(entries)).digest('hex');
+
+export const createKnowledgeRetriever = ({ sheets, model, useEmbeddings, topK }: RetrieverOptions) => {
+  const rows = new Map<string, { entries: Promise<KnowledgeEntry[]>; readAt: number }>();
+  // One index per station and source (the sheet, or the entries the dashboard sent), rebuilt when they change.
+  const indexes = new Map<string, { fingerprint: string; index: Promise<KnowledgeIndex> }>();
+  const embed = useEmbeddings && model?.embed ? model.embed.bind(model) : null;
+
+  const sheetEntries = (station: string): Promise<KnowledgeEntry[]> => {
+    const cached = rows.get(station);
+    if (cached && Date.now() - cached.readAt < ROWS_TTL_MS) return cached.entries;
+    const entries = sheets(station).read('knowledgeBase').then(toKnowledgeEntries);
+    const cache = { entries, readAt: Date.now() };
+    // A failed read is tried again next time rather than remembered.
+    entries.catch(() => {
+      if (rows.get(station) === cache) rows.delete(station);
+    });
+    rows.set(station, cache);
+    return entries;
+  };
+
+  const build = async (entries: KnowledgeEntry[]): Promise<KnowledgeIndex> => {
+    const index = buildKnowledgeIndex(entries);
+    if (!embed || index.chunkTexts.length === 0) return index;
+    try {
+      return buildKnowledgeIndex(entries, await embed(index.chunkTexts));
+    } catch (error) {
+      console.error('Server Error (knowledge base embeddings; using BM25 alone):', error);
+      return index;
+    }
+  };
+
+  const indexFor = (key: string, entries: KnowledgeEntry[]): Promise<KnowledgeIndex> => {
+    const print = fingerprint(entries);
+    const cached = indexes.get(key);
+    if (cached?.fingerprint === print) return cached.index;
+    const index = build(entries);
+    indexes.set(key, { fingerprint: print, index });
+    return index;
+  };
+
+  return {
+    /** Whether retrieval calls the model, and so counts against the AI rate limit. */
+    usesModel: embed !== null,
+
+    /**
+     * The entries most relevant to `query`, best first. Searches `entries` when given
+     * (the dashboard's tester sends what it shows) and the station's sheet otherwise.
+     */
+    async retrieve(station: string, query: string, entries?: KnowledgeEntry[]): Promise<RetrievedEntry[]> {
+      const source = entries ?? (await sheetEntries(station));
+      const index = await indexFor(`${station}:${entries ? 'dashboard' : 'sheet'}`, source);
+      let queryVector: number[] | undefined;
+      if (embed && index.vectors) {
+        queryVector = await embed([query]).then(([vector]) => vector).catch(error => {
+          console.error('Server Error (query embedding; using BM25 alone):', error);
+          return undefined;
+        });
+      }
+      return index.search(query, topK, queryVector);
+    },
+
+    /** Forgets the station's sheet rows, so the next retrieval reads and re-indexes them. */
+    invalidate(station: string): void {
+      rows.delete(station);
+    },
+  };
+};
+
+export type KnowledgeRetriever = ReturnType<typeof createKnowledgeRetriever>;
@@ -0,0 +1,57 @@
+/**
+ * The languages the agent speaks with listeners: English, Afrikaans and isiXhosa.
+ * A conversation's language is guessed from the words of each message. A message
+ * too short to tell ("Thriller", "ok") keeps the language the session already has,
+ * so the language stays the same until the listener clearly writes in another one.
+ * The model is told to reply in it, and the fixed messages (confirmations, handoffs)
+ * are sent in it.
+ */
+
+export type Language = 'en' | 'af' | 'xh';
+
+export const LANGUAGE_NAMES: Record<Language, string> = { en: 'English', af: 'Afrikaans', xh: 'isiXhosa' };
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export const isLanguage = (value: unknown): value is Language => typeof value === 'string' && value in LANGUAGE_NAMES;
+
+// Common words of each language that are not also words of the others.
+const MARKERS: Record<Language, Set<string>> = {
+  en: new Set([
+    'the', 'and', 'please', 'play', 'song', 'for', 'you', 'your', 'can', 'i', 'me', 'want', 'would', 'like', 'thanks', 'thank',
+    'hello', 'hi', 'what', 'when', 'where', 'how', 'who', 'are', 'with', 'this', 'to', 'of', 'it', 'birthday', 'today',
+  ]),
+  af: new Set([
+    'ek', 'jy', 'julle', 'ons', 'die', 'n', 'asseblief', 'asb', 'speel', 'liedjie', 'liedjies', 'vir', 'nie', 'en', 'van', 'dankie',
+    'baie', 'goeie', 'môre', 'middag', 'aand', 'hoe', 'gaan', 'wat', 'wanneer', 'waar', 'kan', 'wil', 'graag', 'hallo',
+    'verjaarsdag', 'lekker', 'het', 'sal', 'ook', 'met', 'op', 'te', 'hierdie', 'vandag', 'naam', 'ma', 'pa',
+  ]),
+  xh: new Set([
+    'molo', 'molweni', 'enkosi', 'ndiyabulela', 'nceda', 'ndicela', 'unjani', 'ninjani', 'ndiphilile', 'ewe', 'hayi', 'kakhulu',
+    'ngoku', 'ingoma', 'umculo', 'umhlobo', 'usuku', 'mhle', 'ndifuna', 'ndingathanda', 'kwaye', 'kodwa', 'ukuba', 'nini', 'phi',
+    'njani', 'yintoni', 'andazi', 'igama', 'lam', 'lwam', 'tata', 'dlala', 'ndidlalele', 'mnandi',
+  ]),
+};
+
+// isiXhosa builds words from prefixes: "ndi-" (I), "uku-" (to), "ndiya-", "ngo-".
+const XHOSA_PREFIX = /^(ndi|ndiya|uku|ngo|kwi|kwa)[a-z]{3,}$/;
+
+/** The language `text` is written in, or null when it is too short or too mixed to tell. */
+export const detectLanguage = (text: string): Language | null => {
+  const words = text.toLowerCase().match(/[a-zêëôûîáéè']+/g) ?? [];
+  const scores: Record<Language, number> = { en: 0, af: 0, xh: 0 };
+  for (const word of words.map(word => word.replace(/^'|'$/g, ''))) {
+    for (const language of Object.keys(MARKERS) as Language[]) {
+      if (MARKERS[language].has(word)) scores[language]++;
+    }
+    if (XHOSA_PREFIX.test(word) && !MARKERS.xh.has(word)) scores.xh++;
+  }
+  const [best, second] = (Object.keys(scores) as Language[]).sort((a, b) => scores[b] - scores[a]);
+  // A single word ("hallo", "ok") is not enough to switch a conversation's language.
+  if (scores[best] < 2 || scores[best] === scores[second]) return null;
+  return best;
+};
+
+/** The language to answer `text` in: what it is written in, else the conversation's language so far. */
+export const chooseLanguage = (text: string, current: Language | null | undefined): Language =>
+  detectLanguage(text) ?? current ?? DEFAULT_LANGUAGE;
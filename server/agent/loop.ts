@@ -0,0 +1,92 @@
+import { ModelClient, ModelRequest } from '../ai/models.js';
+import { KnowledgeEntry } from './knowledge.js';
+import { LANGUAGE_NAMES, Language } from './language.js';
+import { AGENT_TOOLS, AgentAction, ToolContext, executeTool } from './tools.js';
+
+/**
+ * One turn of the WhatsApp agent: the listener's message goes to the model; while
+ * the model calls tools, they are run and their results sent back; the turn ends
+ * when the model answers in text, which is the reply to send.
+ */
+
+export interface AgentInput {
+  message: string;
+  /** Earlier turns, as Gemini contents ({ role, parts }). */
+  history: unknown[];
+  /** The knowledge base entries retrieved for the message (see knowledge.ts). */
+  knowledgeBase: KnowledgeEntry[];
+  systemPrompt: string;
+  /** The language to reply in (see language.ts). */
+  language: Language;
+}
+
+export interface AgentTurn {
+  reply: string;
+  /** Every tool call of the turn, in order, with its result. */
+  actions: AgentAction[];
+  promptTokens: number;
+  outputTokens: number;
+}
+
+// Each round is a model call; a model that keeps calling tools is cut off here.
+const MAX_TOOL_ROUNDS = 4;
+
+export const FALLBACK_REPLY: Record<Language, string> = {
+  en: 'Thanks for your message! One of our DJs will get back to you soon.',
+  af: "Dankie vir jou boodskap! Een van ons DJ's sal jou binnekort terugkontak.",
+  xh: 'Enkosi ngomyalezo wakho! Omnye wooDJ bethu uza kukuphendula kungekudala.',
+};
+
+export const buildAgentRequest = ({ knowledgeBase, systemPrompt, language }: AgentInput, contents: unknown[]): ModelRequest => ({
+  model: 'gemini-2.5-pro', // Pro is better for complex function calling
+  contents,
+  config: {
+    systemInstruction: `
+        CONTEXT:
+        1. Knowledge Base: These are the entries of the radio station's knowledge base most relevant to the user's message. Use them to answer general questions. If the answer is not in them, say you don't know.
+        ${JSON.stringify(knowledgeBase.map(entry => ({ Topic: entry.topic, Information: entry.information })), null, 2)}
+        
+        INSTRUCTIONS:
+        - Your personality is defined by the following system prompt: "${systemPrompt}"
+        - Analyze the user's message in the context of the conversation history.
+        - Your primary goal is to use one of the available tools to handle the user's request.
+        - If the user asks a general question, find the answer in the knowledge base and use the 'answer_from_knowledge_base' tool.
+        - If the user wants to request a song, collect all necessary details (ask clarifying questions if needed) and then use the 'capture_song_request' tool.
+        - If the user wants to register, collect all necessary details and use the 'register_new_user' tool.
+        - If the user asks what is on air, when a show is on, or what is on today or another day, use 'get_current_show', 'get_next_airing' or 'get_day_lineup' and answer from the result. Never guess the schedule.
+        - If you cannot handle the request or the user asks for a person, use the 'forward_to_dj' tool.
+        - Do not make up information. If a required piece of information for a tool is missing, you MUST ask the user for it before calling the tool.
+        - After a tool has run you receive its result. Reply to the user with a short, friendly message based on it; if the result has an error, follow what it says.
+        - The user writes in ${LANGUAGE_NAMES[language]}. Reply in ${LANGUAGE_NAMES[language]}, translating from the knowledge base where needed, unless the user switches language. Keep song titles, artists and names exactly as the user wrote them.
+    `,
+    tools: [{ functionDeclarations: AGENT_TOOLS }],
+  },
+});
+
+export const runAgentTurn = async (model: ModelClient, input: AgentInput, context: ToolContext): Promise<AgentTurn> => {
+  const contents: unknown[] = [...input.history, { role: 'user', parts: [{ text: input.message }] }];
+  const turn: AgentTurn = { reply: '', actions: [], promptTokens: 0, outputTokens: 0 };
+
+  for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+    const response = await model.generate(buildAgentRequest(input, contents));
+    turn.promptTokens += response.promptTokens;
+    turn.outputTokens += response.outputTokens;
+
+    if (response.functionCalls.length === 0) {
+      turn.reply = response.text.trim() || FALLBACK_REPLY[input.language];
+      return turn;
+    }
+
+    const actions: AgentAction[] = [];
+    for (const call of response.functionCalls) actions.push(await executeTool(call, context));
+    turn.actions.push(...actions);
+    contents.push(
+      { role: 'model', parts: response.parts.length > 0 ? response.parts : response.functionCalls.map(functionCall => ({ functionCall })) },
+      { role: 'user', parts: actions.map(({ name, result }) => ({ functionResponse: { name, response: result } })) }
+    );
+  }
+
+  console.warn(`Agent stopped after ${MAX_TOOL_ROUNDS} rounds of tool calls in ${context.station}/${context.conversationId}.`);
+  turn.reply = FALLBACK_REPLY[input.language];
+  return turn;
+};
@@ -0,0 +1,86 @@
+import { SheetDirectory, SheetRecord } from '../sheets.js';
+import { TwoChatClient } from '../twoChat.js';
+
+/**
+ * Listeners who replied STOP, kept in the station's AgentOptOuts sheet so the list
+ * survives restarts and the dashboard can read it too. Like the agent's other
+ * sheets it is only appended to: each STOP or START adds a row (Timestamp, Number,
+ * Action 'opt-out' or 'opt-in', Source) and a number's latest row decides.
+ */
+
+export class OptedOutError extends Error {
+  constructor(number: string) {
+    super(`${number} has opted out of WhatsApp messages from the station.`);
+  }
+}
+
+const digits = (value: unknown) => String(value ?? '').replace(/\D/g, '');
+
+/** The numbers whose latest row is an opt-out. */
+const optedOutNumbers = (rows: SheetRecord[]): Set<string> => {
+  const latest = new Map<string, boolean>();
+  rows.forEach(row => {
+    const number = digits(row.Number);
+    if (number) latest.set(number, row.Action === 'opt-out');
+  });
+  return new Set(Array.from(latest).filter(([, optedOut]) => optedOut).map(([number]) => number));
+};
+
+export const createOptOutStore = (sheets: SheetDirectory) => {
+  // Read once per station; changes through this server keep the copy current, and a
+  // notification that the sheet changed elsewhere drops it (see POST /notify).
+  const current = new Map<string, Promise<Set<string>>>();
+
+  const load = (station: string): Promise<Set<string>> => {
+    let numbers = current.get(station);
+    if (!numbers) {
+      numbers = sheets(station).read('optOuts').then(optedOutNumbers);
+      // A failed read is tried again next time rather than remembered.
+      const loading = numbers;
+      loading.catch(() => {
+        if (current.get(station) === loading) current.delete(station);
+      });
+      current.set(station, numbers);
+    }
+    return numbers;
+  };
+
+  const isOptedOut = async (station: string, number: string): Promise<boolean> => (await load(station)).has(digits(number));
+
+  return {
+    isOptedOut,
+
+    /** Records a STOP (`optedOut` true) or START for a number. `source` is who made the change. */
+    async set(station: string, number: string, optedOut: boolean, source: string): Promise<void> {
+      await sheets(station).append('optOuts', {
+        Timestamp: new Date().toISOString(),
+        Number: digits(number),
+        Action: optedOut ? 'opt-out' : 'opt-in',
+        Source: source,
+      });
+      const numbers = new Set(await load(station));
+      if (optedOut) numbers.add(digits(number));
+      else numbers.delete(digits(number));
+      current.set(station, Promise.resolve(numbers));
+    },
+
+    invalidate(station: string): void {
+      current.delete(station);
+    },
+
+    /**
+     * A 2Chat client for one station that refuses to message opted-out numbers,
+     * throwing OptedOutError instead. If the list cannot be read, nothing is sent.
+     */
+    guard(client: TwoChatClient, station: string): TwoChatClient {
+      return {
+        sendMessage: async (fromNumber, toNumber, text) => {
+          if (await isOptedOut(station, toNumber)) throw new OptedOutError(toNumber);
+          return client.sendMessage(fromNumber, toNumber, text);
+        },
+      };
+    },
+  };
+};
+
+export type OptOutStore = ReturnType<typeof createOptOutStore>;
@@ -0,0 +1,296 @@
+import { PushEvent } from '../events.js';
+import { HttpError, Route, readJsonBody, sendJson } from '../http.js';
+import { RateLimiter } from '../rateLimit.js';
+import { Role } from '../roles.js';
+import { ServerUser, SessionVerifier } from '../sessions.js';
+import { createMemorySheetClient } from '../sheets.js';
+import { UsageLedger } from '../usage.js';
+import { ModelClient } from '../ai/models.js';
+import { listField, textField } from '../ai/operations.js';
+import { MODEL_MISSING, enforceRateLimit } from '../ai/routes.js';
+import { AgentSessionStore } from './conversations.js';
+import { HandoffStore } from './handoffs.js';
+import { KnowledgeRetriever, toKnowledgeEntries } from './knowledge.js';
+import { GuardedTurn, Guardrails, redactPersonalInformation, runGuardedTurn } from './guardrails.js';
+import { chooseLanguage } from './language.js';
+import { ScheduleStore } from './schedule.js';
+import { Scenario, loadScenarios, runScenario } from './scenarios.js';
+import { AgentSettings, AgentSettingsStore, validateAgentSettings } from './settings.js';
+
+export interface AgentRouteDeps {
+  model: ModelClient | null;
+  sessions: SessionVerifier;
+  limiter: RateLimiter;
+  usage: UsageLedger;
+  handoffs: HandoffStore;
+  settings: AgentSettingsStore;
+  conversations: AgentSessionStore;
+  knowledge: KnowledgeRetriever;
+  schedule: ScheduleStore;
+  guardrails: Guardrails;
+  /** The JSON file of agent scenarios (see scenarios.ts). */
+  scenariosFile: string;
+  timeZone: string;
+  publish(station: string, event: PushEvent): void;
+}
+
+const requireRole = (user: ServerUser, roles: Role[], message: string) => {
+  if (!roles.includes(user.role)) throw new HttpError(403, message);
+};
+
+/**
+ * Tester conversations are kept apart from listeners' under this prefix, so a test
+ * can never continue a listener's live session or be mistaken for their number.
+ * The dashboard's tester (services/agentService.ts) uses the same prefix.
+ */
+const TESTER_PREFIX = 'tester:';
+
+const testerConversation = (id: string) => (id.startsWith(TESTER_PREFIX) ? id : `${TESTER_PREFIX}${id}`);
+
+/** Waits for a read or write of the station's sheets, turning a failure into a 502 the dashboard can show. */
+const fromSpreadsheet = async <T>(work: Promise<T>, what: string): Promise<T> => {
+  try {
+    return await work;
+  } catch (error) {
+    console.error(`Server Error (${what}):`, error);
+    throw new HttpError(502, `Could not reach the station spreadsheet for ${what}.`);
+  }
+};
+
+/** Reads the scenarios file on every request, so edits to it show up without a restart. */
+const readScenarios = async (file: string): Promise<Scenario[]> => {
+  try {
+    return await loadScenarios(file);
+  } catch (error) {
+    console.error(`Server Error (agent scenarios in ${file}):`, error);
+    throw new HttpError(500, `The agent scenarios could not be read: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+/**
+ * The WhatsApp agent's routes.
+ *
+ *   POST /agent/reply                { message, knowledgeBase, systemPrompt, conversationId? }
+ *                                    → { reply, actions, retrieved, language }; runs the agent's tools (see
+ *                                    tools.ts) on in-memory sheets, so nothing reaches the station's rows,
+ *                                    and continues the tester's session (see conversations.ts),
+ *                                    inside the checks in guardrails.ts. The conversation is always a
+ *                                    `tester:` one; admins only
+ *   POST /agent/retrieve             { message, knowledgeBase } → the entries the agent would be given
+ *                                    for the message, best first (see knowledge.ts); admins only
+ *   GET  /agent/handoffs             conversations waiting for a DJ
+ *   POST /agent/handoffs/resolve     { conversationId }; producers and admins
+ *   GET  /agent/settings             whether the agent answers WhatsApp by itself, and how (see settings.ts)
+ *   PUT  /agent/settings             the same, replaced; admins only
+ *   GET  /agent/settings/prompts     the prompts saved before; admins only
+ *   GET  /agent/sessions             sessions in progress
+ *   POST /agent/sessions/end         { conversationId }; admins only
+ *   GET  /agent/history?conversationId=   every session with a listener; producers and admins
+ *   GET  /agent/scenarios            the scripted conversations the agent is checked against; admins only
+ *   POST /agent/scenarios/run        { id, systemPrompt? } → how the agent did in one scenario, with the
+ *                                    station's saved prompt unless another is given; admins only
+ */
+export const createAgentRoutes = (deps: AgentRouteDeps): Route[] => [
+  {
+    method: 'POST',
+    path: '/agent/reply',
+    handler: async (req, res) => {
+      const user = await deps.sessions.verify(req);
+      requireRole(user, ['admin'], 'Only station admins can test the WhatsApp agent.');
+      const body = await readJsonBody(req);
+      const message = textField(body, 'message');
+      const knowledgeBase = toKnowledgeEntries(listField(body, 'knowledgeBase'));
+      const systemPrompt = textField(body, 'systemPrompt');
+      const conversationId = testerConversation(textField(body, 'conversationId', user.username));
+      enforceRateLimit(deps.limiter, user, res);
+      if (!deps.model) throw new HttpError(503, MODEL_MISSING);
+      const model = deps.model;
+      const settings = await fromSpreadsheet(deps.settings.get(user.station), 'the agent settings');
+
+      const turn = await deps.conversations.serialize(user.station, conversationId, async () => {
+        const session = await fromSpreadsheet(deps.conversations.current(user.station, conversationId, settings), 'the agent session');
+        const retrieved = await deps.knowledge.retrieve(user.station, redactPersonalInformation(message).text, knowledgeBase);
+        const language = chooseLanguage(message, session?.language);
+        const input = { message, history: deps.conversations.history(session, settings), knowledgeBase: retrieved, systemPrompt, language };
+        const context = {
+          station: user.station,
+          conversationId,
+          // The tester's requests and registrations go to a throwaway sheet, never the station's.
+          sheets: createMemorySheetClient(),
+          handoffs: deps.handoffs,
+          timeZone: deps.timeZone,
+          language,
+          schedule: () => deps.schedule.get(user.station),
+          notify: (event: PushEvent) => {
+            if (event.type === 'message') deps.publish(user.station, event);
+          },
+        };
+        let result: GuardedTurn;
+        try {
+          result = await runGuardedTurn(model, input, context, deps.guardrails);
+          deps.usage.record({ station: user.station, username: user.username, operation: 'agent', promptTokens: result.promptTokens, outputTokens: result.outputTokens, failed: false });
+        } catch (error) {
+          deps.usage.record({ station: user.station, username: user.username, operation: 'agent', promptTokens: 0, outputTokens: 0, failed: true });
+          console.error(`Server Error (agent reply in ${user.station}/${conversationId}):`, error);
+          throw new HttpError(502, 'The AI model could not answer. Please try again.');
+        }
+        await fromSpreadsheet(
+          deps.conversations.record(user.station, conversationId, settings, result.message, result.reply, result.actions, language),
+          'the agent session'
+        );
+        return { ...result, retrieved, language };
+      });
+      sendJson(res, 200, { status: 'success', data: { reply: turn.reply, actions: turn.actions, retrieved: turn.retrieved, language: turn.language } });
+    },
+  },
+  {
+    method: 'POST',
+    path: '/agent/retrieve',
+    handler: async (req, res) => {
+      const user = await deps.sessions.verify(req);
+      requireRole(user, ['admin'], 'Only station admins can edit the knowledge base.');
+      const body = await readJsonBody(req);
+      const message = textField(body, 'message');
+      const knowledgeBase = toKnowledgeEntries(listField(body, 'knowledgeBase'));
+      if (deps.knowledge.usesModel) enforceRateLimit(deps.limiter, user, res);
+      sendJson(res, 200, { status: 'success', data: await deps.knowledge.retrieve(user.station, message, knowledgeBase) });
+    },
+  },
+  {
+    method: 'GET',
+    path: '/agent/handoffs',
+    handler: async (req, res) => {
+      const user = await deps.sessions.verify(req);
+      sendJson(res, 200, { status: 'success', data: deps.handoffs.list(user.station) });
+    },
+  },
+  {
+    method: 'POST',
+    path: '/agent/handoffs/resolve',
+    handler: async (req, res) => {
+      const user = await deps.sessions.verify(req);
+      requireRole(user, ['producer', 'admin'], 'Only producers and admins can reply in the live chat.');
+      const conversationId = textField(await readJsonBody(req), 'conversationId');
+      const resolved = deps.handoffs.resolve(user.station, conversationId);
+      if (resolved) deps.publish(user.station, { type: 'message' });
+      sendJson(res, 200, { status: 'success', data: { resolved } });
+    },
+  },
+  {
+    method: 'GET',
+    path: '/agent/settings',
+    handler: async (req, res) => {
+      const user = await deps.sessions.verify(req);
+      sendJson(res, 200, { status: 'success', data: await fromSpreadsheet(deps.settings.get(user.station), 'the agent settings') });
+    },
+  },
+  {
+    method: 'PUT',
+    path: '/agent/settings',
+    handler: async (req, res) => {
+      const user = await deps.sessions.verify(req);
+      requireRole(user, ['admin'], 'Only station admins can configure the WhatsApp agent.');
+      const body = await readJsonBody(req);
+      const settings: AgentSettings = {
+        enabled: body?.enabled,
+        systemPrompt: body?.systemPrompt,
+        businessHours: body?.businessHours ?? null,
+        sessionTimeoutMinutes: body?.sessionTimeoutMinutes,
+        maxHistoryTurns: body?.maxHistoryTurns,
+      };
+      const problems = validateAgentSettings(settings);
+      if (problems.length > 0) throw new HttpError(400, problems.join(' '));
+      const saved = await fromSpreadsheet(deps.settings.set(user.station, settings, user.username), 'saving the agent settings');
+      sendJson(res, 200, { status: 'success', data: saved });
+    },
+  },
+  {
+    method: 'GET',
+    path: '/agent/settings/prompts',
+    handler: async (req, res) => {
+      const user = await deps.sessions.verify(req);
+      requireRole(user, ['admin'], 'Only station admins can configure the WhatsApp agent.');
+      sendJson(res, 200, { status: 'success', data: await fromSpreadsheet(deps.settings.promptVersions(user.station), 'the prompt history') });
+    },
+  },
+  {
+    method: 'GET',
+    path: '/agent/sessions',
+    handler: async (req, res) => {
+      const user = await deps.sessions.verify(req);
+      const settings = await fromSpreadsheet(deps.settings.get(user.station), 'the agent settings');
+      sendJson(res, 200, { status: 'success', data: await fromSpreadsheet(deps.conversations.active(user.station, settings), 'the agent sessions') });
+    },
+  },
+  {
+    method: 'POST',
+    path: '/agent/sessions/end',
+    handler: async (req, res) => {
+      const user = await deps.sessions.verify(req);
+      requireRole(user, ['admin'], 'Only station admins can end agent sessions.');
+      const conversationId = textField(await readJsonBody(req), 'conversationId');
+      const settings = await fromSpreadsheet(deps.settings.get(user.station), 'the agent settings');
+      const ended = await deps.conversations.serialize(user.station, conversationId, () =>
+        fromSpreadsheet(deps.conversations.end(user.station, conversationId, settings), 'ending the agent session')
+      );
+      sendJson(res, 200, { status: 'success', data: { ended } });
+    },
+  },
+  {
+    method: 'GET',
+    path: '/agent/history',
+    handler: async (req, res, url) => {
+      const user = await deps.sessions.verify(req);
+      requireRole(user, ['producer', 'admin'], 'Only producers and admins can read WhatsApp conversations.');
+      const conversationId = (url.searchParams.get('conversationId') ?? '').trim();
+      if (!conversationId) throw new HttpError(400, 'conversationId is required.');
+      sendJson(res, 200, { status: 'success', data: await fromSpreadsheet(deps.conversations.sessions(user.station, conversationId), 'the conversation history') });
+    },
+  },
+  {
+    method: 'GET',
+    path: '/agent/scenarios',
+    handler: async (req, res) => {
+      const user = await deps.sessions.verify(req);
+      requireRole(user, ['admin'], 'Only station admins can test the WhatsApp agent.');
+      sendJson(res, 200, { status: 'success', data: await readScenarios(deps.scenariosFile) });
+    },
+  },
+  {
+    method: 'POST',
+    path: '/agent/scenarios/run',
+    handler: async (req, res) => {
+      const user = await deps.sessions.verify(req);
+      requireRole(user, ['admin'], 'Only station admins can test the WhatsApp agent.');
+      const body = await readJsonBody(req);
+      const id = textField(body, 'id');
+      const scenario = (await readScenarios(deps.scenariosFile)).find(candidate => candidate.id === id);
+      if (!scenario) throw new HttpError(404, `There is no scenario "${id}".`);
+      enforceRateLimit(deps.limiter, user, res);
+      if (!deps.model) throw new HttpError(503, MODEL_MISSING);
+      const systemPrompt =
+        (typeof body?.systemPrompt === 'string' ? body.systemPrompt.trim() : '') ||
+        (await fromSpreadsheet(deps.settings.get(user.station), 'the agent settings')).systemPrompt ||
+        deps.settings.defaultPrompt(user.station);
+
+      const result = await runScenario(scenario, {
+        model: deps.model,
+        systemPrompt,
+        station: user.station,
+        timeZone: deps.timeZone,
+        guardrails: deps.guardrails,
+        retrieve: (query, entries) => deps.knowledge.retrieve(user.station, query, entries),
+        schedule: () => deps.schedule.get(user.station),
+      });
+      deps.usage.record({
+        station: user.station,
+        username: user.username,
+        operation: 'agent-scenarios',
+        promptTokens: result.promptTokens,
+        outputTokens: result.outputTokens,
+        failed: result.turns.length < scenario.messages.length,
+      });
+      sendJson(res, 200, { status: 'success', data: result });
+    },
+  },
+];
@@ -0,0 +1,218 @@
+import { readFile } from 'node:fs/promises';
+import { createMemorySheetClient } from '../sheets.js';
+import { ModelClient } from '../ai/models.js';
+import { createHandoffStore } from './handoffs.js';
+import { KnowledgeEntry, RetrievedEntry, toKnowledgeEntries } from './knowledge.js';
+import { Guardrails, runGuardedTurn } from './guardrails.js';
+import { LANGUAGE_NAMES, Language, chooseLanguage, isLanguage } from './language.js';
+import { ScheduledShow, toScheduledShows } from './schedule.js';
+import { AgentAction } from './tools.js';
+
+/**
+ * Scripted conversations for checking the agent after a prompt or tool change: a
+ * listener persona sends a fixed sequence of messages, and the tool calls the agent
+ * makes over the conversation are compared with the ones expected. Scenarios live in
+ * a JSON file (AGENT_SCENARIOS, by default fixtures/agentScenarios.json) and run
+ * from the dashboard's Admin Panel or from dev/scenarios.ts.
+ *
+ * Each run has its own in-memory sheets and handoffs, so the requests and
+ * registrations it makes never reach the station's spreadsheet.
+ */
+
+export interface ExpectedToolCall {
+  name: string;
+  /** Argument → text its value must contain (any case), or true for any non-empty value. */
+  args?: Record<string, string | true>;
+}
+
+export interface Scenario {
+  id: string;
+  name: string;
+  persona: {
+    name: string;
+    /** Used as the conversation ID, so tools fill in the phone columns as for a real listener. */
+    phone?: string;
+    description?: string;
+  };
+  messages: string[];
+  /** Searched instead of the station's knowledge base when given. */
+  knowledgeBase?: KnowledgeEntry[];
+  /** TimeSlots rows (Show, Presenter, Day(s) of Week, Start, End, Aliases) used instead of the station's schedule when given. */
+  schedule?: ScheduledShow[];
+  expect: {
+    /** Calls the agent must make, in this order; other calls may come between them. */
+    toolCalls?: ExpectedToolCall[];
+    /** Tools the agent must not call at all. */
+    forbiddenTools?: string[];
+    /** The language the conversation must be in by its last message. */
+    language?: Language;
+  };
+}
+
+export interface ScenarioTurn {
+  message: string;
+  reply: string;
+  actions: AgentAction[];
+  /** The language the message was answered in. */
+  language: Language;
+}
+
+export interface ScenarioResult {
+  id: string;
+  name: string;
+  passed: boolean;
+  /** What went wrong, one line each; empty when the scenario passed. */
+  failures: string[];
+  turns: ScenarioTurn[];
+  promptTokens: number;
+  outputTokens: number;
+}
+
+export interface ScenarioRunOptions {
+  model: ModelClient;
+  systemPrompt: string;
+  station: string;
+  timeZone: string;
+  guardrails: Guardrails;
+  /** The knowledge base entries for a message; `entries` is the scenario's own knowledge base when it has one. */
+  retrieve(query: string, entries?: KnowledgeEntry[]): Promise<RetrievedEntry[]>;
+  /** The station's schedule, for scenarios without one of their own. */
+  schedule(): Promise<ScheduledShow[]>;
+}
+
+// --- Reading scenarios ---
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const parseExpectedCall = (value: any, where: string): ExpectedToolCall => {
+  if (!isText(value?.name)) throw new Error(`${where}: every expected tool call needs a name.`);
+  const args = value.args ?? {};
+  for (const [key, expected] of Object.entries(args)) {
+    if (expected !== true && typeof expected !== 'string') throw new Error(`${where}: argument "${key}" must be text or true.`);
+  }
+  return { name: value.name, args };
+};
+
+/** Checks a scenarios file's contents, naming the scenario and field that is wrong. */
+export const parseScenarios = (value: unknown): Scenario[] => {
+  if (!Array.isArray(value)) throw new Error('The scenarios file must hold a JSON array.');
+  const ids = new Set<string>();
+  return value.map((raw: any, index) => {
+    const where = `Scenario ${isText(raw?.id) ? `"${raw.id}"` : index + 1}`;
+    if (!isText(raw?.id)) throw new Error(`${where}: id is required.`);
+    if (ids.has(raw.id)) throw new Error(`${where}: the id is used twice.`);
+    ids.add(raw.id);
+    if (!isText(raw.persona?.name)) throw new Error(`${where}: persona.name is required.`);
+    if (!Array.isArray(raw.messages) || raw.messages.length === 0 || !raw.messages.every(isText)) {
+      throw new Error(`${where}: messages must be a list of texts.`);
+    }
+    const expect = raw.expect ?? {};
+    if (expect.forbiddenTools !== undefined && !(Array.isArray(expect.forbiddenTools) && expect.forbiddenTools.every(isText))) {
+      throw new Error(`${where}: expect.forbiddenTools must be a list of tool names.`);
+    }
+    if (expect.language !== undefined && !isLanguage(expect.language)) {
+      throw new Error(`${where}: expect.language must be one of ${Object.keys(LANGUAGE_NAMES).join(', ')}.`);
+    }
+    return {
+      id: raw.id,
+      name: isText(raw.name) ? raw.name : raw.id,
+      persona: {
+        name: raw.persona.name,
+        phone: isText(raw.persona.phone) ? raw.persona.phone.replace(/\D/g, '') : undefined,
+        description: isText(raw.persona.description) ? raw.persona.description : undefined,
+      },
+      messages: raw.messages,
+      knowledgeBase: Array.isArray(raw.knowledgeBase) ? toKnowledgeEntries(raw.knowledgeBase) : undefined,
+      schedule: Array.isArray(raw.schedule) ? toScheduledShows(raw.schedule) : undefined,
+      expect: {
+        toolCalls: (expect.toolCalls ?? []).map((call: unknown, callIndex: number) => parseExpectedCall(call, `${where}, tool call ${callIndex + 1}`)),
+        forbiddenTools: expect.forbiddenTools ?? [],
+        language: expect.language,
+      },
+    };
+  });
+};
+
+export const loadScenarios = async (file: string): Promise<Scenario[]> => parseScenarios(JSON.parse(await readFile(file, 'utf8')));
+
+// --- Checking ---
+
+const describeCall = (action: AgentAction) => `${action.name}(${JSON.stringify(action.args)})${action.failed ? ' [failed]' : ''}`;
+
+/** Why `action` does not satisfy `expected`'s arguments, or null when it does. */
+const argumentMismatch = (expected: ExpectedToolCall, action: AgentAction): string | null => {
+  for (const [key, wanted] of Object.entries(expected.args ?? {})) {
+    const actual = String(action.args[key] ?? '').trim();
+    if (wanted === true && !actual) return `${key} was empty`;
+    if (wanted !== true && !actual.toLowerCase().includes(wanted.toLowerCase())) return `${key} was "${actual}", expected it to contain "${wanted}"`;
+  }
+  return null;
+};
+
+export const checkScenario = (scenario: Scenario, turns: ScenarioTurn[]): string[] => {
+  const failures: string[] = [];
+  const actions = turns.flatMap(turn => turn.actions);
+  let from = 0;
+  for (const expected of scenario.expect.toolCalls ?? []) {
+    const candidates = actions.slice(from).filter(action => action.name === expected.name);
+    const match = candidates.find(action => !action.failed && argumentMismatch(expected, action) === null);
+    if (match) {
+      from = actions.indexOf(match) + 1;
+      continue;
+    }
+    if (candidates.length === 0) {
+      const made = actions.slice(from).map(describeCall).join(', ') || 'no tools';
+      failures.push(`Expected a call to ${expected.name}, but the agent called ${made}.`);
+    } else {
+      const last = candidates[candidates.length - 1];
+      failures.push(`${expected.name} was called, but ${last.failed ? `it failed: ${JSON.stringify(last.result)}` : argumentMismatch(expected, last)}.`);
+    }
+  }
+  for (const name of scenario.expect.forbiddenTools ?? []) {
+    if (actions.some(action => action.name === name)) failures.push(`The agent called ${name}, which this scenario forbids.`);
+  }
+  const language = turns[turns.length - 1]?.language;
+  if (scenario.expect.language && language !== scenario.expect.language) {
+    failures.push(`Expected the agent to answer in ${LANGUAGE_NAMES[scenario.expect.language]}, but it answered in ${language ? LANGUAGE_NAMES[language] : 'nothing'}.`);
+  }
+  return failures;
+};
+
+// --- Running ---
+
+export const runScenario = async (scenario: Scenario, options: ScenarioRunOptions): Promise<ScenarioResult> => {
+  const context = {
+    station: options.station,
+    conversationId: scenario.persona.phone || `scenario:${scenario.id}`,
+    sheets: createMemorySheetClient(),
+    handoffs: createHandoffStore(),
+    timeZone: options.timeZone,
+    schedule: () => (scenario.schedule ? Promise.resolve(scenario.schedule) : options.schedule()),
+    notify: () => {},
+  };
+  let language: Language | null = null;
+  const result: ScenarioResult = { id: scenario.id, name: scenario.name, passed: false, failures: [], turns: [], promptTokens: 0, outputTokens: 0 };
+  const history: unknown[] = [];
+
+  for (const [index, message] of scenario.messages.entries()) {
+    // As for WhatsApp, a short follow-up is searched together with the message before it.
+    const query = index > 0 ? `${scenario.messages[index - 1]}\n${message}` : message;
+    language = chooseLanguage(message, language);
+    try {
+      const knowledgeBase = await options.retrieve(query, scenario.knowledgeBase);
+      const input = { message, history, knowledgeBase, systemPrompt: options.systemPrompt, language };
+      const turn = await runGuardedTurn(options.model, input, { ...context, language }, options.guardrails);
+      result.turns.push({ message, reply: turn.reply, actions: turn.actions, language });
+      result.promptTokens += turn.promptTokens;
+      result.outputTokens += turn.outputTokens;
+      history.push({ role: 'user', parts: [{ text: turn.message }] }, { role: 'model', parts: [{ text: turn.reply }] });
+    } catch (error) {
+      result.failures.push(`Message ${index + 1} got no reply: ${error instanceof Error ? error.message : String(error)}`);
+      return result;
+    }
+  }
+
+  result.failures = checkScenario(scenario, result.turns);
+  result.passed = result.failures.length === 0;
+  return result;
+};
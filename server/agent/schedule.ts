@@ -0,0 +1,163 @@
+import { SheetDirectory, SheetRecord } from '../sheets.js';
+
+/**
+ * The station's programme schedule, from its TimeSlots sheet, for the agent's
+ * schedule tools and for tagging the requests it captures with their show. The
+ * on-air rule is the dashboard's (services/schedule.ts): a show whose End is before
+ * its Start runs past midnight into the next day. Days are numbered as in
+ * Date.getDay(), Sunday first.
+ */
+
+export interface ScheduledShow {
+  show: string;
+  presenter: string;
+  days: number[];
+  /** Minutes since midnight. */
+  start: number;
+  end: number;
+  /** Other names listeners use for the show, from the Aliases column. */
+  aliases: string[];
+}
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// --- Reading the sheet ---
+
+const dayIndex = (name: string) => DAY_NAMES.findIndex(day => day.slice(0, 3).toLowerCase() === name.trim().slice(0, 3).toLowerCase());
+
+/** "Mon-Fri", "Saturday, Sunday" or the Apps Script's expanded "Monday, Tuesday, …". */
+const parseDays = (value: unknown): number[] => {
+  const days = new Set<number>();
+  for (const part of String(value ?? '').split(',').map(part => part.trim()).filter(Boolean)) {
+    const [from, to] = part.split('-');
+    const start = dayIndex(from);
+    const end = to === undefined ? start : dayIndex(to);
+    if (start < 0 || end < 0) continue;
+    // Ranges run in week order, so "Mon-Sun" goes through Saturday to Sunday.
+    for (let day = start; ; day = (day + 1) % 7) {
+      days.add(day);
+      if (day === end) break;
+    }
+  }
+  return Array.from(days).sort();
+};
+
+/** "14:30", "14h30", "14:30:00 GMT+2" or a Time cell as "1970-01-01T14:30:00.000Z", as the clock time written. */
+const parseTime = (value: unknown): number | null => {
+  const text = String(value ?? '').trim();
+  const timePart = /^\d{4}-\d{2}-\d{2}T/.test(text) ? text.split('T')[1] : text.split(' ')[0];
+  const match = timePart.match(/^(\d{1,2})[:h](\d{2})/);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+/** TimeSlots rows as shows, leaving out rows without a name, a day or readable times. */
+export const toScheduledShows = (rows: SheetRecord[]): ScheduledShow[] =>
+  rows.flatMap(row => {
+    const show = String(row.Show ?? '').trim();
+    const days = parseDays(row.Day || row['Day(s) of Week']);
+    const start = parseTime(row.Start);
+    const end = parseTime(row.End);
+    if (!show || days.length === 0 || start === null || end === null) return [];
+    const aliases = String(row.Aliases ?? '').split(',').map(alias => alias.trim()).filter(Boolean);
+    return [{ show, presenter: String(row.Presenter ?? '').trim(), days, start, end, aliases }];
+  });
+
+// --- Questions about the schedule ---
+
+export interface StationTime {
+  day: number;
+  minutes: number;
+}
+
+/** The day and time of day at the station. */
+export const stationTime = (timeZone: string, now = new Date()): StationTime => {
+  const parts = new Intl.DateTimeFormat('en-GB', { timeZone, weekday: 'long', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).formatToParts(now);
+  const part = (type: string) => parts.find(entry => entry.type === type)?.value ?? '';
+  return { day: DAY_NAMES.indexOf(part('weekday')), minutes: Number(part('hour')) * 60 + Number(part('minute')) };
+};
+
+export const isOnAir = (show: ScheduledShow, { day, minutes }: StationTime): boolean => {
+  if (show.end < show.start) {
+    // Overnight: from the start on a scheduled day, or before the end on the day after one.
+    return (show.days.includes(day) && minutes >= show.start) || (show.days.includes((day + 6) % 7) && minutes < show.end);
+  }
+  return show.days.includes(day) && minutes >= show.start && minutes < show.end;
+};
+
+const comparable = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && word !== 'the' && word !== 'show')
+    .join(' ');
+
+/**
+ * The show a listener means by `name`: one whose name or alias matches it, else one
+ * whose name or alias contains it or is contained in it ("breakfast" for "The Eden
+ * Breakfast"), else one presented by someone of that name.
+ */
+export const findShow = (shows: ScheduledShow[], name: string): ScheduledShow | null => {
+  const wanted = comparable(name);
+  if (!wanted) return null;
+  const names = (show: ScheduledShow) => [show.show, ...show.aliases].map(comparable).filter(Boolean);
+  return (
+    shows.find(show => names(show).includes(wanted)) ??
+    shows.find(show => names(show).some(candidate => candidate.includes(wanted) || wanted.includes(candidate))) ??
+    shows.find(show => show.presenter && comparable(show.presenter) === wanted) ??
+    null
+  );
+};
+
+/** How many days from `now` the show next starts: 0 for later today. Null for a show on no day. */
+export const daysUntilNextStart = (show: ScheduledShow, now: StationTime): number | null => {
+  for (let offset = 0; offset <= 7; offset++) {
+    if (show.days.includes((now.day + offset) % 7) && (offset > 0 || show.start > now.minutes)) return offset;
+  }
+  return null;
+};
+
+/** The shows on `day`, in running order. */
+export const lineup = (shows: ScheduledShow[], day: number): ScheduledShow[] =>
+  shows.filter(show => show.days.includes(day)).sort((a, b) => a.start - b.start);
+
+const clock = (minutes: number) => `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+/** A show as the agent's tools return it. */
+export const describeShow = (show: ScheduledShow) => ({
+  show: show.show,
+  presenter: show.presenter,
+  days: show.days.map(day => DAY_NAMES[day]).join(', '),
+  start: clock(show.start),
+  end: clock(show.end),
+});
+
+// --- The station's schedule ---
+
+export const createScheduleStore = (sheets: SheetDirectory) => {
+  // Read once per station, and again after a notification that the sheet changed (see POST /notify).
+  const current = new Map<string, Promise<ScheduledShow[]>>();
+
+  return {
+    get(station: string): Promise<ScheduledShow[]> {
+      let shows = current.get(station);
+      if (!shows) {
+        shows = sheets(station).read('schedule').then(toScheduledShows);
+        // A failed read is tried again next time rather than remembered.
+        const loading = shows;
+        loading.catch(() => {
+          if (current.get(station) === loading) current.delete(station);
+        });
+        current.set(station, shows);
+      }
+      return shows;
+    },
+
+    invalidate(station: string): void {
+      current.delete(station);
+    },
+  };
+};
+
+export type ScheduleStore = ReturnType<typeof createScheduleStore>;
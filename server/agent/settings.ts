@@ -0,0 +1,160 @@
+import { SheetDirectory, SheetRecord } from '../sheets.js';
+
+/**
+ * Per-station settings for the WhatsApp agent, edited under Admin Panel → WhatsApp
+ * Agent. Each save appends a row to the station's AgentSettings sheet and the latest
+ * row is in force, so the earlier rows double as the history of the agent's prompt.
+ */
+
+export interface BusinessHours {
+  /** Days the agent answers on: 0 is Sunday, as in Date.getDay(). */
+  days: number[];
+  /** 'HH:MM' in the station's time zone. An end before the start runs past midnight. */
+  start: string;
+  end: string;
+}
+
+export interface AgentSettings {
+  /** Whether inbound WhatsApp messages are answered by the agent. The tester works either way. */
+  enabled: boolean;
+  /** Empty uses the station's default prompt (see `defaultPrompt` below). */
+  systemPrompt: string;
+  /** When the agent answers. Outside them messages wait for a DJ in the live chat. Null is always. */
+  businessHours: BusinessHours | null;
+  /** A conversation quiet for this long starts a new session, without the earlier turns. */
+  sessionTimeoutMinutes: number;
+  /** Turns (listener and agent messages) of the session sent back to the model. */
+  maxHistoryTurns: number;
+}
+
+/** A saved prompt, for the history in the dashboard. */
+export interface PromptVersion {
+  savedAt: string;
+  savedBy: string;
+  systemPrompt: string;
+}
+
+// Used when an admin has not saved a prompt for the station yet and STATION_PROMPTS has none for it.
+export const DEFAULT_SYSTEM_PROMPT =
+  "You are a friendly assistant for a community radio station, answering listeners on WhatsApp. Help with song requests, registrations and questions from the knowledge base, and hand anything else to a DJ.";
+
+export const DEFAULT_AGENT_SETTINGS: AgentSettings = {
+  enabled: false,
+  systemPrompt: '',
+  businessHours: null,
+  sessionTimeoutMinutes: 15,
+  maxHistoryTurns: 10,
+};
+
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const isWholeNumberBetween = (value: unknown, min: number, max: number) =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+/** Checks settings sent by the dashboard. Returns a list of problems, empty when they are fine. */
+export const validateAgentSettings = (settings: AgentSettings): string[] => {
+  const problems: string[] = [];
+  if (typeof settings.enabled !== 'boolean') problems.push('enabled must be true or false.');
+  if (typeof settings.systemPrompt !== 'string') problems.push('systemPrompt must be text.');
+  const hours = settings.businessHours;
+  if (hours !== null) {
+    if (!Array.isArray(hours?.days) || hours.days.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      problems.push('Business hours need days from 0 (Sunday) to 6 (Saturday).');
+    }
+    if (!TIME.test(String(hours?.start)) || !TIME.test(String(hours?.end))) problems.push('Business hours need times like 08:00.');
+  }
+  if (!isWholeNumberBetween(settings.sessionTimeoutMinutes, 1, 7 * 24 * 60)) {
+    problems.push('The session timeout must be between 1 minute and a week.');
+  }
+  if (!isWholeNumberBetween(settings.maxHistoryTurns, 2, 50)) problems.push('The history length must be between 2 and 50 turns.');
+  return problems;
+};
+
+/** Whether `now` falls within the business hours, read on the station's clock. */
+export const isWithinBusinessHours = (hours: BusinessHours | null, timeZone: string, now = new Date()): boolean => {
+  if (!hours) return true;
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'short', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).formatToParts(now);
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+  const day = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(part('weekday'));
+  const time = `${part('hour')}:${part('minute')}`;
+  if (hours.start <= hours.end) return hours.days.includes(day) && time >= hours.start && time < hours.end;
+  // Overnight hours belong to the day they start on.
+  if (time >= hours.start) return hours.days.includes(day);
+  return time < hours.end && hours.days.includes((day + 6) % 7);
+};
+
+const toRow = (settings: AgentSettings, username: string): SheetRecord => ({
+  SavedAt: new Date().toISOString(),
+  SavedBy: username,
+  Enabled: settings.enabled ? 'Yes' : '',
+  SystemPrompt: settings.systemPrompt,
+  BusinessHours: settings.businessHours ? JSON.stringify(settings.businessHours) : '',
+  SessionTimeoutMinutes: settings.sessionTimeoutMinutes,
+  MaxHistoryTurns: settings.maxHistoryTurns,
+});
+
+// Columns added to the sheet later, or left blank by hand, fall back to the defaults.
+const fromRow = (row: SheetRecord): AgentSettings => {
+  let businessHours: BusinessHours | null = null;
+  try {
+    businessHours = row.BusinessHours ? JSON.parse(String(row.BusinessHours)) : null;
+  } catch (error) {
+    console.warn('Ignoring unreadable BusinessHours in the AgentSettings sheet.', error);
+  }
+  return {
+    enabled: row.Enabled === 'Yes' || row.Enabled === true,
+    systemPrompt: String(row.SystemPrompt ?? ''),
+    businessHours,
+    sessionTimeoutMinutes: Number(row.SessionTimeoutMinutes) || DEFAULT_AGENT_SETTINGS.sessionTimeoutMinutes,
+    maxHistoryTurns: Number(row.MaxHistoryTurns) || DEFAULT_AGENT_SETTINGS.maxHistoryTurns,
+  };
+};
+
+/** `stationPrompts` holds each station's default prompt, as set in its Station Settings in the dashboard. */
+export const createAgentSettingsStore = (sheets: SheetDirectory, stationPrompts: Record<string, string> = {}) => {
+  // The sheet is read once per station; saves through this server keep the copy current.
+  const current = new Map<string, Promise<AgentSettings>>();
+
+  return {
+    get(station: string): Promise<AgentSettings> {
+      let settings = current.get(station);
+      if (!settings) {
+        settings = sheets(station)
+          .read('agentSettings')
+          .then(rows => (rows.length > 0 ? fromRow(rows[rows.length - 1]) : DEFAULT_AGENT_SETTINGS));
+        // A failed read is tried again next time rather than remembered.
+        const loading = settings;
+        loading.catch(() => {
+          if (current.get(station) === loading) current.delete(station);
+        });
+        current.set(station, settings);
+      }
+      return settings;
+    },
+
+    async set(station: string, settings: AgentSettings, username: string): Promise<AgentSettings> {
+      await sheets(station).append('agentSettings', toRow(settings, username));
+      current.set(station, Promise.resolve(settings));
+      return settings;
+    },
+
+    /** The prompt the agent uses until an admin saves one for the station. */
+    defaultPrompt(station: string): string {
+      return stationPrompts[station] || DEFAULT_SYSTEM_PROMPT;
+    },
+
+    /** Each distinct prompt saved, newest first. */
+    async promptVersions(station: string): Promise<PromptVersion[]> {
+      const versions: PromptVersion[] = [];
+      for (const row of await sheets(station).read('agentSettings')) {
+        const systemPrompt = String(row.SystemPrompt ?? '');
+        // Saving other settings repeats the prompt; only a change makes a version.
+        if (versions.length > 0 && versions[versions.length - 1].systemPrompt === systemPrompt) continue;
+        versions.push({ savedAt: String(row.SavedAt ?? ''), savedBy: String(row.SavedBy ?? ''), systemPrompt });
+      }
+      return versions.reverse();
+    },
+  };
+};
+
+export type AgentSettingsStore = ReturnType<typeof createAgentSettingsStore>;
@@ -0,0 +1,269 @@
+import { PushEvent } from '../events.js';
+import { FunctionCall } from '../ai/models.js';
+import { SheetClient, SheetKey, SheetRecord, appendAuditEntry } from '../sheets.js';
+import { HandoffStore } from './handoffs.js';
+import { Language } from './language.js';
+import { DAY_NAMES, ScheduledShow, daysUntilNextStart, describeShow, findShow, isOnAir, lineup, stationTime } from './schedule.js';
+
+/**
+ * The WhatsApp agent's tools: what the model may call, and what each call does.
+ * Song requests and registrations become real rows, written through the station's
+ * Apps Script and recorded in the audit log like the dashboard's own writes; a
+ * handoff flags the conversation in the live chat. Each tool returns a result for
+ * the model to confirm to the listener, or `{ error }` for it to explain or ask about.
+ */
+
+export const AGENT_TOOLS = [
+  {
+    name: 'capture_song_request',
+    description: "Captures a listener's song request and dedication. Ask clarifying questions to get all required information before calling this tool.",
+    parameters: {
+      type: 'OBJECT',
+      properties: {
+        requesterName: { type: 'STRING', description: 'The name of the person making the request. You must ask for this.' },
+        songRequested: { type: 'STRING', description: 'The title and artist of the song being requested.' },
+        dedicationTo: { type: 'STRING', description: 'The name of the person the dedication is for. Optional.' },
+        occasion: { type: 'STRING', description: 'The special occasion for the request (e.g., Birthday, Anniversary). Optional.' },
+        show: { type: 'STRING', description: 'The show the listener wants the song played on, if they name one. Optional; otherwise the show on air now is used.' },
+      },
+      required: ['requesterName', 'songRequested'],
+    },
+  },
+  {
+    name: 'register_new_user',
+    description: 'Registers a new listener with the radio station. Ask clarifying questions to get all required information before calling this tool.',
+    parameters: {
+      type: 'OBJECT',
+      properties: {
+        name: { type: 'STRING', description: 'The first name of the user.' },
+        surname: { type: 'STRING', description: 'The last name of the user.' },
+        area: { type: 'STRING', description: 'The geographical area or suburb where the user lives.' },
+      },
+      required: ['name', 'surname', 'area'],
+    },
+  },
+  {
+    name: 'answer_from_knowledge_base',
+    description: "Answers a general question using the station's knowledge base.",
+    parameters: {
+      type: 'OBJECT',
+      properties: {
+        answer: { type: 'STRING', description: "The concise answer to the user's question, formulated from the knowledge base." },
+      },
+      required: ['answer'],
+    },
+  },
+  {
+    name: 'get_current_show',
+    description: "Gets the show on air right now and its presenter, or the next show when nothing is on. Use it when the user asks who or what is on air.",
+    parameters: { type: 'OBJECT', properties: {} },
+  },
+  {
+    name: 'get_next_airing',
+    description: 'Finds when a show is next on air, by its name or a nickname listeners use for it.',
+    parameters: {
+      type: 'OBJECT',
+      properties: {
+        show: { type: 'STRING', description: 'The name of the show, or of its presenter, as the user wrote it.' },
+      },
+      required: ['show'],
+    },
+  },
+  {
+    name: 'get_day_lineup',
+    description: "Lists the shows on one day, in running order. Use it when the user asks what is on today, tomorrow or on a given day.",
+    parameters: {
+      type: 'OBJECT',
+      properties: {
+        day: { type: 'STRING', description: "'today', 'tomorrow' or a day of the week, in English. Optional; defaults to today." },
+      },
+    },
+  },
+  {
+    name: 'forward_to_dj',
+    description: "Use this function when the user's query cannot be handled by other tools, if the user seems frustrated, or when they explicitly ask to speak to a human DJ.",
+    parameters: {
+      type: 'OBJECT',
+      properties: {
+        reason: { type: 'STRING', description: 'A brief summary of why the conversation is being forwarded.' },
+      },
+      required: ['reason'],
+    },
+  },
+];
+
+/** Who the audit log names for rows the agent writes. */
+export const AGENT_ACTOR = 'whatsapp-agent';
+
+export interface ToolContext {
+  station: string;
+  /** The listener's conversation: their WhatsApp number, or a tester's made-up ID. */
+  conversationId: string;
+  sheets: SheetClient;
+  handoffs: HandoffStore;
+  /** The station's time zone, for the Date and Time columns. */
+  timeZone: string;
+  /** The conversation's language, recorded on the rows the tools write. */
+  language: Language;
+  /** The station's programme schedule (see schedule.ts). */
+  schedule(): Promise<ScheduledShow[]>;
+  notify(event: PushEvent): void;
+}
+
+export interface AgentAction extends FunctionCall {
+  /** What the tool returned to the model. */
+  result: Record<string, unknown>;
+  failed: boolean;
+}
+
+type Tool = (args: Record<string, unknown>, context: ToolContext) => Promise<Record<string, unknown>>;
+
+class ToolInputError extends Error {}
+
+const arg = (args: Record<string, unknown>, name: string, required = false): string => {
+  const value = typeof args[name] === 'string' ? (args[name] as string).trim() : '';
+  if (required && !value) throw new ToolInputError(`${name} is missing. Ask the listener for it.`);
+  return value;
+};
+
+// A tester's conversation ID is not a number we can put in a phone column.
+const phoneNumber = (conversationId: string) => (/^\+?\d{9,15}$/.test(conversationId) ? conversationId.replace(/^\+/, '') : '');
+
+const stationClock = (timeZone: string) => {
+  const now = new Date();
+  return {
+    date: new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(now),
+    time: new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', second: '2-digit', hourCycle: 'h23' }).format(now),
+  };
+};
+
+const readSchedule = async (context: ToolContext): Promise<ScheduledShow[]> => {
+  try {
+    return await context.schedule();
+  } catch (error) {
+    console.error(`Server Error (schedule for ${context.station}):`, error);
+    throw new ToolInputError('The schedule cannot be read right now. Say so, and offer to pass the question to a DJ.');
+  }
+};
+
+/**
+ * The show a request is for: the one the listener named, else the one on air, else
+ * none. A schedule that cannot be read leaves the request untagged rather than lost.
+ */
+const showForRequest = async (named: string, context: ToolContext): Promise<string> => {
+  try {
+    const shows = await context.schedule();
+    const show = named ? findShow(shows, named) : shows.find(candidate => isOnAir(candidate, stationTime(context.timeZone)));
+    return show?.show ?? '';
+  } catch (error) {
+    console.error(`Server Error (tagging a request in ${context.station} with its show):`, error);
+    return '';
+  }
+};
+
+/** Appends a row and its audit entry, and tells open dashboards about it. A failed audit entry is logged, not thrown. */
+const appendRow = async (context: ToolContext, sheet: SheetKey, row: SheetRecord): Promise<SheetRecord> => {
+  const written = await context.sheets.append(sheet, row);
+  context.notify({ type: 'sheet', sheet: context.sheets.sheetName(sheet) });
+  try {
+    await appendAuditEntry(context.sheets, { username: AGENT_ACTOR, action: 'create', sheet, rowId: String(written.ID), after: written });
+    context.notify({ type: 'sheet', sheet: context.sheets.sheetName('auditLog') });
+  } catch (error) {
+    console.error(`Server Error (audit of agent write to ${context.sheets.sheetName(sheet)}):`, error);
+  }
+  return written;
+};
+
+const TOOLS: Record<string, Tool> = {
+  capture_song_request: async (args, context) => {
+    const { date, time } = stationClock(context.timeZone);
+    const named = arg(args, 'show');
+    const row = await appendRow(context, 'requests', {
+      Date: date,
+      Time: time,
+      Show: await showForRequest(named, context),
+      'Show preferrence': named,
+      'Requester Name': arg(args, 'requesterName', true),
+      Whatsapp: phoneNumber(context.conversationId),
+      'Request type': 'Song',
+      'Song requested': arg(args, 'songRequested', true),
+      'Dedication to': arg(args, 'dedicationTo'),
+      Occasion: arg(args, 'occasion'),
+      Language: context.language,
+    });
+    return { saved: true, requestId: row.ID, show: row.Show || null };
+  },
+
+  register_new_user: async (args, context) => {
+    const { date, time } = stationClock(context.timeZone);
+    const row = await appendRow(context, 'registrations', {
+      'Registration Date': date,
+      'Registration Time': time,
+      Name: arg(args, 'name', true),
+      Surname: arg(args, 'surname', true),
+      Area: arg(args, 'area', true),
+      'Contact Number': phoneNumber(context.conversationId),
+      Language: context.language,
+    });
+    return { registered: true, registrationId: row.ID };
+  },
+
+  answer_from_knowledge_base: async args => ({ answer: arg(args, 'answer', true) }),
+
+  get_current_show: async (_args, context) => {
+    const shows = await readSchedule(context);
+    const now = stationTime(context.timeZone);
+    const onAir = shows.find(show => isOnAir(show, now));
+    if (onAir) return { onAir: describeShow(onAir) };
+    // Nothing on: the show that starts soonest instead.
+    const next = shows
+      .map(show => ({ show, days: daysUntilNextStart(show, now) }))
+      .filter((entry): entry is { show: ScheduledShow; days: number } => entry.days !== null)
+      .sort((a, b) => a.days - b.days || a.show.start - b.show.start)[0];
+    return { onAir: null, next: next ? { ...describeShow(next.show), day: DAY_NAMES[(now.day + next.days) % 7] } : null };
+  },
+
+  get_next_airing: async (args, context) => {
+    const name = arg(args, 'show', true);
+    const shows = await readSchedule(context);
+    const show = findShow(shows, name);
+    if (!show) {
+      throw new ToolInputError(`There is no show called "${name}". The shows are: ${Array.from(new Set(shows.map(candidate => candidate.show))).join(', ') || 'none'}. Ask which one they mean.`);
+    }
+    const now = stationTime(context.timeZone);
+    if (isOnAir(show, now)) return { ...describeShow(show), onAirNow: true };
+    const days = daysUntilNextStart(show, now);
+    const when = days === null ? null : days === 0 ? 'today' : days === 1 ? 'tomorrow' : DAY_NAMES[(now.day + days) % 7];
+    return { ...describeShow(show), onAirNow: false, next: when };
+  },
+
+  get_day_lineup: async (args, context) => {
+    const wanted = arg(args, 'day').toLowerCase();
+    const today = stationTime(context.timeZone).day;
+    const day = !wanted || wanted === 'today' ? today : wanted === 'tomorrow' ? (today + 1) % 7 : DAY_NAMES.findIndex(name => name.toLowerCase().startsWith(wanted.slice(0, 3)));
+    if (day < 0) throw new ToolInputError(`"${wanted}" is not a day. Use 'today', 'tomorrow' or a day of the week.`);
+    return { day: DAY_NAMES[day], shows: lineup(await readSchedule(context), day).map(describeShow) };
+  },
+
+  forward_to_dj: async (args, context) => {
+    context.handoffs.flag(context.station, context.conversationId, arg(args, 'reason') || 'The listener asked for a DJ.');
+    context.notify({ type: 'message' });
+    return { forwarded: true, note: 'A DJ has been asked to reply in person.' };
+  },
+};
+
+/** Runs one tool call. Failures are returned to the model rather than thrown, so it can tell the listener. */
+export const executeTool = async (call: FunctionCall, context: ToolContext): Promise<AgentAction> => {
+  const tool = TOOLS[call.name];
+  if (!tool) return { ...call, result: { error: `There is no tool called ${call.name}.` }, failed: true };
+  try {
+    return { ...call, result: await tool(call.args, context), failed: false };
+  } catch (error) {
+    if (error instanceof ToolInputError) return { ...call, result: { error: error.message }, failed: true };
+    console.error(`Server Error (agent tool ${call.name}):`, error);
+    // Make the promise below true: a DJ sees the conversation flagged with what was lost.
+    context.handoffs.flag(context.station, context.conversationId, `The agent could not save ${call.name}: ${JSON.stringify(call.args)}`);
+    context.notify({ type: 'message' });
+    return { ...call, result: { error: 'Saving this did not work. Apologise and say a DJ will follow up.' }, failed: true };
+  }
+};
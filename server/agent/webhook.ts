@@ -0,0 +1,274 @@
+import { PushEvent } from '../events.js';
+import { Route, readJsonBody, requireQuerySecret, sendJson, stationParam } from '../http.js';
+import { RateLimiter } from '../rateLimit.js';
+import { SheetDirectory, appendAuditEntry } from '../sheets.js';
+import { TwoChatClient } from '../twoChat.js';
+import { UsageLedger } from '../usage.js';
+import { ModelClient } from '../ai/models.js';
+import { AgentSessionStore } from './conversations.js';
+import { HandoffStore } from './handoffs.js';
+import { KnowledgeRetriever } from './knowledge.js';
+import { GuardedTurn, Guardrails, optKeyword, redactPersonalInformation, runGuardedTurn } from './guardrails.js';
+import { DEFAULT_LANGUAGE, Language, chooseLanguage } from './language.js';
+import { OptOutStore, OptedOutError } from './optOuts.js';
+import { ScheduleStore } from './schedule.js';
+import { AgentSettings, AgentSettingsStore, isWithinBusinessHours } from './settings.js';
+import { AGENT_ACTOR } from './tools.js';
+
+/**
+ * The 2Chat webhook: inbound WhatsApp messages reach the agent without anyone having
+ * the dashboard open.
+ *
+ *   POST /webhooks/2chat?station=<id>&secret=<TWOCHAT_WEBHOOK_SECRET>
+ *
+ * 2Chat posts each message as it arrives. The request is answered straight away and
+ * the agent's turn runs afterwards, so 2Chat does not time out and retry while the
+ * model thinks. The agent stays quiet when it is switched off, outside its business
+ * hours, and while a DJ has yet to pick up a conversation it handed over; the message
+ * then simply waits in the live chat.
+ *
+ * STOP and START are honoured whatever the settings: the number is added to or taken
+ * off the opt-out list (see optOuts.ts), the listener gets one confirmation, and the
+ * agent sends nothing more to an opted-out number. Like turns, they are answered
+ * first and carried out afterwards, in the order each listener sent them. Every turn
+ * runs inside the checks in guardrails.ts, and is answered in the listener's language
+ * (see language.ts).
+ */
+
+export interface WebhookDeps {
+  model: ModelClient | null;
+  twoChat: TwoChatClient | null;
+  webhookSecret: string;
+  /** Station ID → its WhatsApp number in 2Chat, used when the webhook does not name it. */
+  whatsappNumbers: Record<string, string>;
+  sheets: SheetDirectory;
+  handoffs: HandoffStore;
+  settings: AgentSettingsStore;
+  conversations: AgentSessionStore;
+  knowledge: KnowledgeRetriever;
+  schedule: ScheduleStore;
+  optOuts: OptOutStore;
+  guardrails: Guardrails;
+  limiter: RateLimiter;
+  usage: UsageLedger;
+  timeZone: string;
+  publish(station: string, event: PushEvent): void;
+}
+
+interface InboundMessage {
+  id: string;
+  /** The listener's number, digits only. */
+  from: string;
+  /** The station's number, digits only, or '' when 2Chat did not send it. */
+  to: string;
+  text: string;
+}
+
+const digits = (value: unknown) => String(value ?? '').replace(/\D/g, '');
+
+/** Reads 2Chat's message payload. Null for anything that is not a text message from a listener. */
+const parseInbound = (body: any): InboundMessage | null => {
+  if (body?.sent_by && body.sent_by !== 'user') return null;
+  const text = typeof body?.message?.text === 'string' ? body.message.text.trim() : '';
+  const from = digits(body?.remote_phone_number);
+  const id = String(body?.uuid ?? body?.id ?? '');
+  if (!text || !from || !id) return null;
+  return { id, from, to: digits(body?.channel_phone_number), text };
+};
+
+const OPTED_OUT_REPLY: Record<Language, string> = {
+  en: 'You will not get any more WhatsApp messages from us. Reply START if you change your mind.',
+  af: 'Jy sal nie meer WhatsApp-boodskappe van ons kry nie. Antwoord START as jy van plan verander.',
+  xh: 'Akusayi kuphinda ufumane imiyalezo ye-WhatsApp evela kuthi. Phendula ngo-START ukuba utshintsha ingqondo.',
+};
+const OPTED_IN_REPLY: Record<Language, string> = {
+  en: 'Welcome back! You can message us again, and we will reply. Reply STOP to stop.',
+  af: 'Welkom terug! Jy kan weer vir ons boodskappe stuur, en ons sal antwoord. Antwoord STOP om te stop.',
+  xh: 'Wamkelekile kwakhona! Ungasithumelela imiyalezo kwakhona, kwaye siza kuphendula. Phendula ngo-STOP ukuyeka.',
+};
+
+// 2Chat retries deliveries it thinks failed; each message id is answered once.
+const SEEN_LIMIT = 1000;
+
+export const createWebhookRoutes = (deps: WebhookDeps): Route[] => {
+  const seen = new Set<string>();
+  // A STOP straight after a START must not be saved before it, so each number's changes wait their turn.
+  const optOutChanges = new Map<string, Promise<void>>();
+  const firstDelivery = (id: string) => {
+    if (seen.has(id)) return false;
+    seen.add(id);
+    if (seen.size > SEEN_LIMIT) seen.delete(seen.values().next().value as string);
+    return true;
+  };
+
+  /** Why the agent will not answer this message, or null when it will. */
+  const reasonToStayQuiet = (settings: AgentSettings, station: string, message: InboundMessage, stationNumber: string): string | null => {
+    if (!settings.enabled) return 'The agent is switched off.';
+    if (!isWithinBusinessHours(settings.businessHours, deps.timeZone)) return 'Outside the agent\'s business hours.';
+    if (deps.handoffs.list(station).some(handoff => handoff.conversationId === message.from)) {
+      return 'The conversation is waiting for a DJ.';
+    }
+    if (!deps.model) return 'No AI model is set up on this server.';
+    if (!deps.twoChat) return 'TWOCHAT_API_KEY is not set.';
+    if (!stationNumber) return 'The station has no WhatsApp number.';
+    return null;
+  };
+
+  const answer = async (station: string, settings: AgentSettings, message: InboundMessage, stationNumber: string) => {
+    const decision = deps.limiter.take(`${station}:whatsapp:${message.from}`);
+    if (decision.allowed === false) {
+      console.warn(`Agent not answering ${station}/${message.from}: it has reached ${decision.reason}.`);
+      return;
+    }
+    const sheets = deps.sheets(station);
+    const session = await deps.conversations.current(station, message.from, settings);
+    // A short follow-up ("and on Sundays?") is searched together with the message before it.
+    const previous = (session?.messages ?? []).filter(entry => entry.role === 'listener').pop();
+    // Embeddings send the query to Gemini, so it leaves out personal information as the turn does.
+    const text = redactPersonalInformation(message.text).text;
+    const query = previous ? `${previous.text}\n${text}` : text;
+    const language = chooseLanguage(message.text, session?.language);
+    const knowledgeBase = await deps.knowledge.retrieve(station, query).catch(error => {
+      console.error(`Server Error (knowledge base for ${station}):`, error);
+      return [];
+    });
+    const input = {
+      message: message.text,
+      history: deps.conversations.history(session, settings),
+      knowledgeBase,
+      systemPrompt: settings.systemPrompt || deps.settings.defaultPrompt(station),
+      language,
+    };
+    const context = {
+      station,
+      conversationId: message.from,
+      sheets,
+      handoffs: deps.handoffs,
+      timeZone: deps.timeZone,
+      language,
+      schedule: () => deps.schedule.get(station),
+      notify: (event: PushEvent) => deps.publish(station, event),
+    };
+
+    let turn: GuardedTurn;
+    try {
+      turn = await runGuardedTurn(deps.model!, input, context, deps.guardrails);
+      deps.usage.record({ station, username: AGENT_ACTOR, operation: 'agent', promptTokens: turn.promptTokens, outputTokens: turn.outputTokens, failed: false });
+    } catch (error) {
+      deps.usage.record({ station, username: AGENT_ACTOR, operation: 'agent', promptTokens: 0, outputTokens: 0, failed: true });
+      console.error(`Server Error (agent turn for ${station}/${message.from}):`, error);
+      deps.handoffs.flag(station, message.from, 'The agent could not answer this message.');
+      deps.publish(station, { type: 'message' });
+      return;
+    }
+
+    try {
+      await deps.optOuts.guard(deps.twoChat!, station).sendMessage(stationNumber, message.from, turn.reply);
+    } catch (error) {
+      if (error instanceof OptedOutError) {
+        console.info(`Agent reply to ${station}/${message.from} not sent: the listener opted out while it was being written.`);
+        return;
+      }
+      console.error(`Server Error (sending agent reply to ${station}/${message.from}):`, error);
+      deps.handoffs.flag(station, message.from, `The agent's reply could not be sent: "${turn.reply}"`);
+      deps.publish(station, { type: 'message' });
+      return;
+    }
+    deps.publish(station, { type: 'message' });
+    await deps.conversations.record(station, message.from, settings, turn.message, turn.reply, turn.actions, language);
+    appendAuditEntry(sheets, { username: AGENT_ACTOR, action: 'message', recipient: message.from, message: turn.reply }).catch(error =>
+      console.error(`Server Error (audit of agent message to ${message.from}):`, error)
+    );
+  };
+
+  /** Records a STOP or START and confirms it to the listener. The confirmation of a STOP is the last message they get. */
+  const changeOptOut = async (station: string, message: InboundMessage, stationNumber: string, optedOut: boolean) => {
+    const confirm = async () => {
+      if (!deps.twoChat || !stationNumber) return;
+      // "STOP" says nothing about the listener's language; the last conversation with them does.
+      const language = (await deps.conversations.language(station, message.from).catch(() => null)) ?? DEFAULT_LANGUAGE;
+      await deps.twoChat.sendMessage(stationNumber, message.from, (optedOut ? OPTED_OUT_REPLY : OPTED_IN_REPLY)[language]).catch(error =>
+        console.error(`Server Error (opt-out confirmation to ${station}/${message.from}):`, error)
+      );
+    };
+    if (optedOut) await confirm();
+    try {
+      await deps.optOuts.set(station, message.from, optedOut, 'whatsapp');
+    } catch (error) {
+      console.error(`Server Error (opt-out of ${station}/${message.from}):`, error);
+      deps.handoffs.flag(station, message.from, `The listener replied ${optedOut ? 'STOP' : 'START'}, but it could not be saved. Update the ${deps.sheets(station).sheetName('optOuts')} sheet by hand.`);
+      deps.publish(station, { type: 'message' });
+      return;
+    }
+    deps.publish(station, { type: 'sheet', sheet: deps.sheets(station).sheetName('optOuts') });
+    if (!optedOut) await confirm();
+  };
+
+  const queueOptOutChange = (station: string, message: InboundMessage, stationNumber: string, optedOut: boolean) => {
+    const key = `${station}:${message.from}`;
+    const next = (optOutChanges.get(key) ?? Promise.resolve())
+      .then(() => changeOptOut(station, message, stationNumber, optedOut))
+      .catch(error => console.error(`Server Error (opt-out of ${station}/${message.from}):`, error));
+    optOutChanges.set(key, next);
+    next.finally(() => {
+      if (optOutChanges.get(key) === next) optOutChanges.delete(key);
+    });
+  };
+
+  return [
+    {
+      method: 'POST',
+      path: '/webhooks/2chat',
+      handler: async (req, res, url) => {
+        requireQuerySecret(url, deps.webhookSecret);
+        const station = stationParam(url.searchParams.get('station'));
+        const message = parseInbound(await readJsonBody(req));
+        if (!message) {
+          sendJson(res, 200, { status: 'success', data: { answering: false, reason: 'Not a text message from a listener.' } });
+          return;
+        }
+        if (!firstDelivery(message.id)) {
+          sendJson(res, 200, { status: 'success', data: { answering: false, reason: 'Already received.' } });
+          return;
+        }
+        deps.publish(station, { type: 'message' });
+
+        const stationNumber = message.to || digits(deps.whatsappNumbers[station]);
+        const keyword = optKeyword(message.text);
+        if (keyword) {
+          const reason = keyword === 'stop' ? 'The listener opted out.' : 'The listener opted back in.';
+          sendJson(res, 200, { status: 'success', data: { answering: false, reason } });
+          queueOptOutChange(station, message, stationNumber, keyword === 'stop');
+          return;
+        }
+        const optedOut = await deps.optOuts.isOptedOut(station, message.from).catch(error => {
+          console.error(`Server Error (opt-out list for ${station}):`, error);
+          return null;
+        });
+        if (optedOut !== false) {
+          const reason = optedOut ? 'The listener has opted out.' : 'The opt-out list could not be read.';
+          sendJson(res, 200, { status: 'success', data: { answering: false, reason } });
+          return;
+        }
+
+        let settings: AgentSettings;
+        try {
+          settings = await deps.settings.get(station);
+        } catch (error) {
+          console.error(`Server Error (agent settings for ${station}):`, error);
+          sendJson(res, 200, { status: 'success', data: { answering: false, reason: 'The agent settings could not be read.' } });
+          return;
+        }
+        const reason = reasonToStayQuiet(settings, station, message, stationNumber);
+        if (reason) {
+          sendJson(res, 200, { status: 'success', data: { answering: false, reason } });
+          return;
+        }
+        deps.conversations
+          .serialize(station, message.from, () => answer(station, settings, message, stationNumber))
+          .catch(error => console.error(`Server Error (agent turn for ${station}/${message.from}):`, error));
+        sendJson(res, 202, { status: 'success', data: { answering: true } });
+      },
+    },
+  ];
+};
@@ -0,0 +1,224 @@
+import { createHash } from 'node:crypto';
+import { GoogleGenAI } from '@google/genai';
+
+/**
+ * The model behind the AI proxy. Operations build a request in the shape of
+ * Gemini's generateContent and get back the parts of the answer they use, so the
+ * real model and the mock below are interchangeable.
+ */
+
+export interface ModelRequest {
+  model: string;
+  contents: unknown;
+  config?: {
+    systemInstruction?: string;
+    tools?: Record<string, any>[];
+    responseModalities?: string[];
+    [option: string]: unknown;
+  };
+}
+
+export interface FunctionCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ModelResponse {
+  text: string;
+  functionCalls: FunctionCall[];
+  /** The model's turn as it came back, to send along with function results in the next request. */
+  parts: unknown[];
+  /** Base64 audio, for speech requests. */
+  audioData?: string;
+  /** Search results the answer is grounded on, for requests with Google Search. */
+  groundingChunks: unknown[];
+  promptTokens: number;
+  outputTokens: number;
+}
+
+export interface ModelClient {
+  readonly name: string;
+  generate(request: ModelRequest): Promise<ModelResponse>;
+  /** One embedding vector per text, for knowledge base retrieval. */
+  embed?(texts: string[]): Promise<number[][]>;
+}
+
+const EMBEDDING_MODEL = 'text-embedding-004';
+// The most texts Gemini embeds in one request.
+const EMBED_BATCH = 100;
+
+export const createGeminiModelClient = (apiKey: string): ModelClient => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    name: 'gemini',
+    async generate(request) {
+      const response = await ai.models.generateContent(request as any);
+      const candidate = response.candidates?.[0];
+      return {
+        text: response.text ?? '',
+        functionCalls: (response.functionCalls ?? []).map(call => ({ name: call.name ?? '', args: call.args ?? {} })),
+        parts: candidate?.content?.parts ?? [],
+        audioData: candidate?.content?.parts?.find(part => part.inlineData?.data)?.inlineData?.data,
+        groundingChunks: candidate?.groundingMetadata?.groundingChunks ?? [],
+        promptTokens: response.usageMetadata?.promptTokenCount ?? 0,
+        outputTokens: response.usageMetadata?.candidatesTokenCount ?? 0,
+      };
+    },
+    async embed(texts) {
+      const vectors: number[][] = [];
+      for (let start = 0; start < texts.length; start += EMBED_BATCH) {
+        const response = await ai.models.embedContent({ model: EMBEDDING_MODEL, contents: texts.slice(start, start + EMBED_BATCH) });
+        vectors.push(...(response.embeddings ?? []).map(embedding => embedding.values ?? []));
+      }
+      return vectors;
+    },
+  };
+};
+
+// --- Mock model ---
+// Deterministic answers for offline development and tests. It recognises what kind of
+// request it was sent from the request's options, not from its wording, so prompt
+// changes do not break it; only the agent looks at the listener's message, and it
+// confirms a tool's result the way the real model would, in plain text.
+
+// 0.2 s of silence as 24 kHz, 16-bit mono PCM, the format Gemini's speech model returns.
+const SILENCE = Buffer.alloc(24_000 * 2 * 0.2).toString('base64');
+
+const toTurns = (contents: unknown): any[] => (Array.isArray(contents) ? contents : [contents]);
+
+const lastUserText = (contents: unknown): string => {
+  if (typeof contents === 'string') return contents;
+  const texts = toTurns(contents).flatMap((turn: any) => (turn?.parts ?? []).map((part: any) => part?.text).filter(Boolean));
+  return texts[texts.length - 1] ?? '';
+};
+
+/** The function results in the last turn, when the request is a tool's answer coming back. */
+const lastFunctionResponses = (contents: unknown): { name: string; response: any }[] => {
+  if (typeof contents === 'string') return [];
+  const turns = toTurns(contents);
+  return (turns[turns.length - 1]?.parts ?? []).map((part: any) => part?.functionResponse).filter(Boolean);
+};
+
+const estimateTokens = (value: unknown) => Math.ceil(JSON.stringify(value ?? '').length / 4);
+
+// Words hashed into a small vector: texts sharing words come out similar, which is all the mock needs.
+const MOCK_EMBEDDING_SIZE = 64;
+const mockEmbedding = (text: string): number[] => {
+  const vector = new Array<number>(MOCK_EMBEDDING_SIZE).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+    let hash = 0;
+    for (const char of word) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    vector[hash % MOCK_EMBEDDING_SIZE] += 1;
+  }
+  return vector;
+};
+
+const mockAgentCall = (message: string): FunctionCall | null => {
+  if (/\b(dj|human|person|someone)\b/i.test(message)) return { name: 'forward_to_dj', args: { reason: 'The listener asked for a person.' } };
+  const airing = message.match(/\bwhen is (.+?) on\b/i);
+  if (airing) return { name: 'get_next_airing', args: { show: airing[1] } };
+  if (/\b(on air|on now|playing now)\b/i.test(message)) return { name: 'get_current_show', args: {} };
+  if (/\b(line-?up|on today)\b/i.test(message)) return { name: 'get_day_lineup', args: { day: 'today' } };
+  if (/\b(register|registreer|bhalisa)\b/i.test(message)) return { name: 'register_new_user', args: { name: 'Mock', surname: 'Listener', area: 'George' } };
+  if (/\b(play|song|request|speel|liedjie|ingoma|dlala|ndidlalele)\b/i.test(message)) {
+    return { name: 'capture_song_request', args: { requesterName: 'Mock Listener', songRequested: message } };
+  }
+  return null;
+};
+
+export const createMockModelClient = (): ModelClient => ({
+  name: 'mock',
+  async generate({ model, contents, config = {} }) {
+    const tools = config.tools ?? [];
+    const userText = lastUserText(contents);
+    const response: ModelResponse = {
+      text: `[mock ${model}] ${userText.trim().slice(0, 200)}`,
+      functionCalls: [],
+      parts: [],
+      groundingChunks: [],
+      promptTokens: estimateTokens(contents) + estimateTokens(config.systemInstruction),
+      outputTokens: 0,
+    };
+
+    if (config.responseModalities?.includes('AUDIO')) {
+      response.text = '';
+      response.audioData = SILENCE;
+    } else if (tools.some(tool => tool.googleSearch)) {
+      response.text = [1, 2, 3]
+        .map(n => `**Mock headline ${n}**\nA short summary of mock story ${n}. Source: https://example.com/news/${n}`)
+        .join('\n\n');
+      response.groundingChunks = [1, 2, 3].map(n => ({ web: { uri: `https://example.com/news/${n}`, title: `Mock story ${n}` } }));
+    } else if (tools.some(tool => tool.functionDeclarations)) {
+      const results = lastFunctionResponses(contents);
+      const call = results.length === 0 ? mockAgentCall(userText) : null;
+      if (results.length > 0) {
+        response.text = `[mock ${model}] Done: ${results.map(({ name, response: result }) => `${name} ${JSON.stringify(result)}`).join('; ')}`;
+      } else if (call) {
+        response.text = '';
+        response.functionCalls = [call];
+      }
+    }
+    response.parts = response.functionCalls.length > 0
+      ? response.functionCalls.map(functionCall => ({ functionCall }))
+      : [{ text: response.text }];
+    response.outputTokens = estimateTokens(response.text) + estimateTokens(response.functionCalls);
+    return response;
+  },
+  async embed(texts) {
+    return texts.map(mockEmbedding);
+  },
+});
+
+// --- Recorded model ---
+// A real model's responses, saved once and played back in the same order, so agent
+// scenarios (see agent/scenarios.ts) can be re-run offline with what Gemini said.
+// Each response is saved with a hash of the request it answered, and playback fails
+// when a request differs, so a changed prompt, tool or message cannot pass on answers
+// Gemini gave to something else.
+
+export interface RecordedResponse {
+  /** See hashModelRequest. */
+  requestHash: string;
+  response: ModelResponse;
+}
+
+/**
+ * SHA-256 of what the model was asked: the system prompt, the tools and the
+ * conversation. Tool results are reduced to the tool's name, since they carry fresh
+ * row IDs and the time of the run and so differ every time.
+ */
+export const hashModelRequest = ({ contents, config = {} }: ModelRequest): string => {
+  const conversation = typeof contents === 'string' ? contents : toTurns(contents).map((turn: any) => ({
+    ...turn,
+    parts: (turn?.parts ?? []).map((part: any) => (part?.functionResponse ? { functionResponse: { name: part.functionResponse.name } } : part)),
+  }));
+  return createHash('sha256')
+    .update(JSON.stringify({ systemInstruction: config.systemInstruction ?? '', tools: config.tools ?? [], contents: conversation }))
+    .digest('hex');
+};
+
+/** Passes requests to `model` and appends each response, with its request's hash, to `recording`. */
+export const createRecordingModelClient = (model: ModelClient, recording: RecordedResponse[]): ModelClient => ({
+  name: `${model.name} (recording)`,
+  async generate(request) {
+    const response = await model.generate(request);
+    recording.push({ requestHash: hashModelRequest(request), response });
+    return response;
+  },
+});
+
+/** Answers with the responses in `recording` in order, and fails once they run out or a request differs from the one recorded. */
+export const createReplayModelClient = (recording: RecordedResponse[]): ModelClient => {
+  let next = 0;
+  return {
+    name: 'replay',
+    async generate(request) {
+      if (next >= recording.length) throw new Error(`The recording has ${recording.length} responses and all were used; record it again.`);
+      const { requestHash, response } = recording[next++];
+      if (requestHash !== hashModelRequest(request)) {
+        throw new Error(`The recording is stale: request ${next} differs from the one recorded (prompt, tools or conversation changed); record it again.`);
+      }
+      return response;
+    },
+  };
+};
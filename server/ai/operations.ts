@@ -0,0 +1,144 @@
+import { HttpError } from '../http.js';
+import { ModelRequest, ModelResponse } from './models.js';
+
+/**
+ * The AI operations the dashboard may ask for, one per former browser-side call in
+ * services/geminiService.ts; the WhatsApp agent, which runs tools between model
+ * calls, is in agent/. The prompts, models and tools live here, so a client
+ * can only use the key for what the dashboard does. Station details the prompts need
+ * (names, news region) come with each request.
+ */
+
+export interface AiOperation<Input = any> {
+  /** Checks and extracts the request body; throws a 400 when it is malformed. */
+  parse(body: any): Input;
+  request(input: Input): ModelRequest;
+  result(response: ModelResponse): unknown;
+  /** Larger bodies than the server's default, e.g. for audio. */
+  maxBodyBytes?: number;
+}
+
+/** A required text field of a request body; `fallback` is used when it is absent. */
+export const textField = (body: any, field: string, fallback?: string): string => {
+  const value = body?.[field] ?? fallback;
+  if (typeof value !== 'string' || value.trim() === '') throw new HttpError(400, `"${field}" is required.`);
+  return value;
+};
+
+/** An optional list field of a request body. */
+export const listField = (body: any, field: string): any[] => {
+  const value = body?.[field] ?? [];
+  if (!Array.isArray(value)) throw new HttpError(400, `"${field}" must be a list.`);
+  return value;
+};
+
+const complex: AiOperation<{ prompt: string; context: any; assistantName: string; stationName: string; today: string }> = {
+  parse: body => ({
+    prompt: textField(body, 'prompt'),
+    context: body.context ?? {},
+    assistantName: textField(body, 'assistantName'),
+    stationName: textField(body, 'stationName'),
+    today: textField(body, 'today', new Date().toLocaleDateString()),
+  }),
+  request: ({ prompt, context, assistantName, stationName, today }) => ({
+    model: 'gemini-2.5-pro',
+    contents: `
+        You are ${assistantName}, an AI assistant for a DJ at ${stationName}, a radio station.
+        Your task is to answer questions based ONLY on the following data from our spreadsheets in JSON format.
+        Do not make up information. If the answer isn't in the data, say so.
+        Analyze the data to provide insights. Today's date is ${today}.
+
+        ---
+        DATA ANALYSIS RULES:
+        1.  **Request Prioritization**: When asked about priorities, use this logic:
+            - **High Priority**: 'Occasion' is 'Birthday' or 'Anniversary'.
+            - **Medium Priority**: A non-empty 'Dedication to' field that is not high priority.
+            - **Low Priority**: Standard request with no occasion or dedication.
+        2.  **Registration Analytics**: When asked about registrations per show, you MUST cross-reference the registration 'Timestamp' with the 'Start' and 'End' times from the Radio Schedule data to determine which show was on air when the user registered. You can also analyze registrations by 'Area'.
+        3.  **Popularity**: When asked about "popular" songs or "top areas", count the occurrences in the respective datasets.
+        4.  **Date Filtering**: For questions about 'today', filter data by the 'Timestamp' or 'Date' column matching today's date.
+        
+        ---
+        Here is the live station data:
+        ---
+        [RADIO SCHEDULE]
+        This is the weekly schedule. Use it to determine which show is on at a given time. Note the 'Start' and 'End' times.
+        ${JSON.stringify(context.schedule, null, 2)}
+        [/RADIO SCHEDULE]
+        ---
+        [REGISTRATIONS DATA]
+        This contains user registration information.
+        ${JSON.stringify(context.registrations, null, 2)}
+        [/REGISTRATIONS DATA]
+        ---
+        [SONG REQUESTS DATA]
+        This contains listener song requests.
+        ${JSON.stringify(context.requests, null, 2)}
+        [/SONG REQUESTS DATA]
+        ---
+        [ANNOUNCEMENTS/NEWS DATA]
+        ${JSON.stringify(context.announcements, null, 2)}
+        [/ANNOUNCEMENTS/NEWS DATA]
+        ---
+
+        Now, please answer this question from the DJ: "${prompt}"
+    `,
+    config: { thinkingConfig: { thinkingBudget: 32768 } },
+  }),
+  result: response => ({ text: response.text }),
+  // The station's sheets come along as context.
+  maxBodyBytes: 8 * 1024 * 1024,
+};
+
+const simple: AiOperation<{ prompt: string }> = {
+  parse: body => ({ prompt: textField(body, 'prompt') }),
+  request: ({ prompt }) => ({ model: 'gemini-2.5-flash', contents: prompt }),
+  result: response => ({ text: response.text }),
+};
+
+const speech: AiOperation<{ text: string; voiceName: string }> = {
+  parse: body => ({ text: textField(body, 'text'), voiceName: textField(body, 'voiceName', 'Kore') }),
+  request: input => ({
+    model: 'gemini-2.5-flash-preview-tts',
+    contents: [{ parts: [{ text: input.text }] }],
+    config: {
+      responseModalities: ['AUDIO'],
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: input.voiceName } } },
+    },
+  }),
+  result: response => {
+    if (!response.audioData) throw new Error('No audio data returned from the model.');
+    return { audio: response.audioData };
+  },
+};
+
+const transcription: AiOperation<{ audio: string; mimeType: string }> = {
+  parse: body => ({ audio: textField(body, 'audio'), mimeType: textField(body, 'mimeType') }),
+  request: ({ audio, mimeType }) => ({
+    model: 'gemini-2.5-flash',
+    contents: { parts: [{ inlineData: { mimeType, data: audio } }, { text: 'Transcribe this audio.' }] },
+  }),
+  result: response => ({ text: response.text }),
+  maxBodyBytes: 20 * 1024 * 1024,
+};
+
+const news: AiOperation<{ location: string; region: string; sources: string[] }> = {
+  parse: body => ({ location: textField(body, 'location'), region: textField(body, 'region'), sources: listField(body, 'sources').map(String) }),
+  request: ({ location, region, sources }) => {
+    let prompt = `Fetch the top 3-5 local news headlines for ${location}, ${region}. For each headline, provide a bold title and a one-or-two-sentence summary. After each summary, you MUST cite the source. To do this, add 'Source:' followed by the direct, public-facing URL of the source article (e.g., 'https://www.news24.com/article/123'). Do NOT use any redirect URLs (like those from vertexaisearch.cloud.google.com or other services). The URL must be the final destination link. Separate each news item with a double newline.`;
+    if (sources.length > 0) {
+      prompt += ` Prioritize results from the following trusted news sources if possible: ${sources.join(', ')}.`;
+    }
+    return { model: 'gemini-2.5-flash', contents: prompt, config: { tools: [{ googleSearch: {} }] } };
+  },
+  result: response => ({ summary: response.text, sources: response.groundingChunks }),
+};
+
+/** Operation name → operation; each is served at POST /ai/<name>. */
+export const AI_OPERATIONS: Record<string, AiOperation> = {
+  complex,
+  simple,
+  speech,
+  transcription,
+  news,
+};
@@ -0,0 +1,68 @@
+import { ServerResponse } from 'node:http';
+import { HttpError, Route, readJsonBody, sendJson } from '../http.js';
+import { RateLimiter } from '../rateLimit.js';
+import { ServerUser, SessionVerifier } from '../sessions.js';
+import { UsageLedger } from '../usage.js';
+import { ModelClient } from './models.js';
+import { AI_OPERATIONS } from './operations.js';
+
+export interface AiRouteDeps {
+  /** Null when no model is configured; AI requests then answer 503. */
+  model: ModelClient | null;
+  sessions: SessionVerifier;
+  limiter: RateLimiter;
+  usage: UsageLedger;
+}
+
+/** Counts a request against the user's limits, or answers 429 with Retry-After. */
+export const enforceRateLimit = (limiter: RateLimiter, user: ServerUser, res: ServerResponse): void => {
+  const decision = limiter.take(`${user.station}:${user.username}`);
+  if (decision.allowed === false) {
+    res.setHeader('Retry-After', String(decision.retryAfterSeconds));
+    throw new HttpError(429, `You have reached ${decision.reason}. Try again in ${decision.retryAfterSeconds} seconds.`);
+  }
+};
+
+export const MODEL_MISSING = 'The AI features are not set up on this server: GEMINI_API_KEY is missing.';
+
+/**
+ * The AI proxy's routes. Every request is checked in the same order: who is asking,
+ * whether the body is usable, whether they are within their limits, and only then
+ * is the model called. Each model call is recorded in the usage ledger.
+ *
+ *   POST /ai/<operation>   see operations.ts; answers { status: 'success', data }
+ *   GET  /ai/usage         the station's usage, for admins
+ */
+export const createAiRoutes = ({ model, sessions, limiter, usage }: AiRouteDeps): Route[] => [
+  ...Object.entries(AI_OPERATIONS).map(([name, operation]): Route => ({
+    method: 'POST',
+    path: `/ai/${name}`,
+    handler: async (req, res) => {
+      const user = await sessions.verify(req);
+      const input = operation.parse(await readJsonBody(req, operation.maxBodyBytes));
+      enforceRateLimit(limiter, user, res);
+      if (!model) throw new HttpError(503, MODEL_MISSING);
+
+      const request = operation.request(input);
+      try {
+        const response = await model.generate(request);
+        const data = operation.result(response);
+        usage.record({ station: user.station, username: user.username, operation: name, promptTokens: response.promptTokens, outputTokens: response.outputTokens, failed: false });
+        sendJson(res, 200, { status: 'success', data });
+      } catch (error) {
+        usage.record({ station: user.station, username: user.username, operation: name, promptTokens: 0, outputTokens: 0, failed: true });
+        console.error(`Server Error (AI ${name} with ${request.model}):`, error);
+        throw new HttpError(502, 'The AI model could not answer. Please try again.');
+      }
+    },
+  })),
+  {
+    method: 'GET',
+    path: '/ai/usage',
+    handler: async (req, res) => {
+      const user = await sessions.verify(req);
+      if (user.role !== 'admin') throw new HttpError(403, 'Only station admins can see AI usage.');
+      sendJson(res, 200, { status: 'success', data: usage.report(user.station) });
+    },
+  },
+];
@@ -0,0 +1,111 @@
+/**
+ * Server settings, read once from the environment at start-up.
+ * See the "Companion server" section of the README for how to run it.
+ */
+
+import { SheetLayout } from './sheets.js';
+
+export type ModelMode = 'gemini' | 'mock';
+
+export interface ServerConfig {
+  port: number;
+  /** The station IDs this server serves. Events and notifications for any other station are refused. */
+  stations: string[];
+  /** Shared with the Apps Script, which sends it with its POST /notify requests. */
+  relaySecret: string;
+  /** Browser origins allowed to call the server. '*' allows any. */
+  allowedOrigins: string[];
+  /** Held here so it never reaches the browser. */
+  geminiApiKey: string;
+  /** 'mock' answers every AI request with canned output, for offline development and tests. */
+  modelMode: ModelMode;
+  /** Station ID → its Apps Script web app, where dashboard sign-ins are checked. */
+  stationBackends: Record<string, string>;
+  /** Station ID → how its spreadsheet's tabs and headers differ from the default setup. Unlisted stations use the default. */
+  stationSheets: Record<string, SheetLayout>;
+  /**
+   * Development only: for stations without an Apps Script, trust the username the
+   * dashboard sends, as a presenter, instead of checking its session. Refused when
+   * NODE_ENV is production.
+   */
+  allowUnverifiedUsers: boolean;
+  /** 2Chat API, for the agent's replies to inbound messages. The URL can point at dev/fake2chat.ts. */
+  twoChatApiUrl: string;
+  twoChatApiKey: string;
+  /** Required as ?secret= on the 2Chat webhook. */
+  webhookSecret: string;
+  /** Station ID → its WhatsApp number in 2Chat, digits with country code. */
+  whatsappNumbers: Record<string, string>;
+  /** Station ID → the agent's prompt until an admin saves one, as in the station's settings in the dashboard. */
+  stationPrompts: Record<string, string>;
+  /** IANA time zone of the stations, for the dates and times the agent writes. */
+  stationTimeZone: string;
+  /** How many knowledge base entries the agent's prompt carries per message. */
+  knowledgeTopK: number;
+  /** Rank knowledge base entries with Gemini embeddings as well as keywords. */
+  knowledgeEmbeddings: boolean;
+  /** Words that send a listener's message to a DJ instead of the agent, on top of the built-in list. */
+  blockedWords: string[];
+  /** The agent scenarios the Admin Panel runs (see agent/scenarios.ts). */
+  agentScenariosFile: string;
+  /** AI requests allowed per user, per station. */
+  aiRequestsPerMinute: number;
+  aiRequestsPerDay: number;
+}
+
+/** A JSON map of station ID → value from `name`, with `edenFmValue` as Eden FM's unless the map has one. */
+const parseStationMap = (env: NodeJS.ProcessEnv, name: string, edenFmValue: string | undefined): Record<string, string> => {
+  let values: Record<string, string> = {};
+  try {
+    values = env[name] ? JSON.parse(env[name]!) : {};
+  } catch (error) {
+    console.warn(`${name} is not valid JSON; ignoring it.`, error);
+  }
+  return edenFmValue ? { 'eden-fm': edenFmValue, ...values } : values;
+};
+
+/** A JSON object from `name`, or an empty one when it is unset or invalid. */
+const parseJsonObject = <T>(env: NodeJS.ProcessEnv, name: string): Record<string, T> => {
+  try {
+    const value = env[name] ? JSON.parse(env[name]!) : {};
+    if (value && typeof value === 'object' && !Array.isArray(value)) return value;
+    console.warn(`${name} is not a JSON object; ignoring it.`);
+  } catch (error) {
+    console.warn(`${name} is not valid JSON; ignoring it.`, error);
+  }
+  return {};
+};
+
+const list = (value: string | undefined): string[] => (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): ServerConfig => {
+  const allowUnverifiedUsers = env.ALLOW_UNVERIFIED_USERS === 'true';
+  if (allowUnverifiedUsers && env.NODE_ENV === 'production') {
+    throw new Error('ALLOW_UNVERIFIED_USERS is for development only and cannot be set when NODE_ENV is production.');
+  }
+  const stationBackends = parseStationMap(env, 'STATION_BACKENDS', env.SCRIPT_URL);
+
+  return {
+    port: Number(env.PORT) || 8787,
+    stations: Array.from(new Set([...list(env.STATIONS || 'eden-fm'), ...Object.keys(stationBackends)])),
+    relaySecret: env.RELAY_SECRET ?? '',
+    allowedOrigins: list(env.ALLOWED_ORIGINS || '*'),
+    geminiApiKey: env.GEMINI_API_KEY ?? '',
+    modelMode: env.MODEL_MODE === 'mock' ? 'mock' : 'gemini',
+    stationBackends,
+    stationSheets: parseJsonObject<SheetLayout>(env, 'STATION_SHEETS'),
+    allowUnverifiedUsers,
+    twoChatApiUrl: env.TWOCHAT_API_URL || 'https://api.p.2chat.io',
+    twoChatApiKey: env.TWOCHAT_API_KEY ?? '',
+    webhookSecret: env.TWOCHAT_WEBHOOK_SECRET ?? '',
+    whatsappNumbers: parseStationMap(env, 'STATION_WHATSAPP_NUMBERS', env.WHATSAPP_NUMBER),
+    stationPrompts: parseJsonObject<string>(env, 'STATION_PROMPTS'),
+    stationTimeZone: env.STATION_TIMEZONE || 'Africa/Johannesburg',
+    knowledgeTopK: Number(env.KB_TOP_K) || 4,
+    knowledgeEmbeddings: env.KB_EMBEDDINGS === 'true',
+    blockedWords: list(env.AGENT_BLOCKED_WORDS),
+    agentScenariosFile: env.AGENT_SCENARIOS || 'fixtures/agentScenarios.json',
+    aiRequestsPerMinute: Number(env.AI_REQUESTS_PER_MINUTE) || 10,
+    aiRequestsPerDay: Number(env.AI_REQUESTS_PER_DAY) || 300,
+  };
+};
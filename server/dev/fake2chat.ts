@@ -0,0 +1,76 @@
+import { randomUUID } from 'node:crypto';
+import { createServer } from 'node:http';
+import { Route, createRouter, readJsonBody, sendJson } from '../http.js';
+
+/**
+ * A stand-in for the 2Chat API, for trying the agent's webhook pipeline locally
+ * without a WhatsApp number. Start the companion server with
+ * TWOCHAT_API_URL=http://localhost:8790, then:
+ *
+ *   POST /inbound   { from, text, to? }  delivers a message to the server's webhook, as 2Chat would
+ *   GET  /sent                           the replies the server has sent, oldest first
+ *   POST /open/whatsapp/send-message     2Chat's own endpoint, which the server calls to reply
+ *
+ * Configured by FAKE_2CHAT_PORT (default 8790), WEBHOOK_URL (default the local
+ * server's webhook for eden-fm) and TWOCHAT_WEBHOOK_SECRET.
+ */
+
+const port = Number(process.env.FAKE_2CHAT_PORT) || 8790;
+const webhookUrl = new URL(process.env.WEBHOOK_URL || 'http://localhost:8787/webhooks/2chat?station=eden-fm');
+if (process.env.TWOCHAT_WEBHOOK_SECRET) webhookUrl.searchParams.set('secret', process.env.TWOCHAT_WEBHOOK_SECRET);
+
+interface SentMessage {
+  uuid: string;
+  from_number: string;
+  to_number: string;
+  text: string;
+  sent_at: string;
+}
+
+const sent: SentMessage[] = [];
+
+const routes: Route[] = [
+  {
+    method: 'POST',
+    path: '/open/whatsapp/send-message',
+    handler: async (req, res) => {
+      if (!req.headers['x-user-api-key']) {
+        sendJson(res, 401, { success: false, message: 'Missing X-User-API-Key.' });
+        return;
+      }
+      const { from_number, to_number, text } = await readJsonBody(req);
+      const message = { uuid: randomUUID(), from_number, to_number, text, sent_at: new Date().toISOString() };
+      sent.push(message);
+      console.info(`→ ${to_number}: ${text}`);
+      sendJson(res, 200, { success: true, message_uuid: message.uuid });
+    },
+  },
+  {
+    method: 'GET',
+    path: '/sent',
+    handler: (_req, res) => sendJson(res, 200, { status: 'success', data: sent }),
+  },
+  {
+    method: 'POST',
+    path: '/inbound',
+    handler: async (req, res) => {
+      const { from, text, to = '27820000000' } = await readJsonBody(req);
+      console.info(`← ${from}: ${text}`);
+      const delivery = await fetch(webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          uuid: randomUUID(),
+          sent_by: 'user',
+          remote_phone_number: `+${String(from).replace(/\D/g, '')}`,
+          channel_phone_number: `+${String(to).replace(/\D/g, '')}`,
+          message: { text },
+          created_at: new Date().toISOString(),
+        }),
+      });
+      sendJson(res, 200, { status: 'success', data: { webhookStatus: delivery.status, webhook: await delivery.json().catch(() => null) } });
+    },
+  },
+];
+
+createServer(createRouter(routes, ['*'])).listen(port, () => console.info(`Fake 2Chat listening on port ${port}, delivering to ${webhookUrl.origin}${webhookUrl.pathname}.`));
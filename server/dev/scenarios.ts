@@ -0,0 +1,104 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { loadConfig } from '../config.js';
+import {
+  ModelClient,
+  RecordedResponse,
+  createGeminiModelClient,
+  createMockModelClient,
+  createRecordingModelClient,
+  createReplayModelClient,
+} from '../ai/models.js';
+import { buildKnowledgeIndex } from '../agent/knowledge.js';
+import { ScenarioResult, loadScenarios, runScenario } from '../agent/scenarios.js';
+import { createGuardrails } from '../agent/guardrails.js';
+import { DEFAULT_SYSTEM_PROMPT } from '../agent/settings.js';
+
+/**
+ * Runs the agent scenarios from the command line and exits with 1 if any fails:
+ *
+ *   npm run server:scenarios [-- <scenario id> ...]
+ *
+ * SCENARIO_MODEL picks the model: 'mock' (the default) runs offline; 'gemini' uses
+ * GEMINI_API_KEY and records its responses to SCENARIO_RECORDINGS (default
+ * fixtures/agentRecordings.json); 'replay' plays those recordings back offline, and
+ * fails a scenario whose requests no longer match the ones recorded.
+ * The prompt is SYSTEM_PROMPT_FILE's contents, or the default prompt. Scenarios
+ * without a knowledge base or schedule of their own get none, since no station is involved.
+ */
+
+type Recordings = Record<string, RecordedResponse[]>;
+
+const config = loadConfig();
+const mode = process.env.SCENARIO_MODEL || 'mock';
+const recordingsFile = process.env.SCENARIO_RECORDINGS || 'fixtures/agentRecordings.json';
+
+const readRecordings = async (): Promise<Recordings> => {
+  try {
+    return JSON.parse(await readFile(recordingsFile, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw error;
+  }
+};
+
+const modelFor = (scenarioId: string, recordings: Recordings): ModelClient => {
+  if (mode === 'mock') return createMockModelClient();
+  if (mode === 'replay') {
+    if (!recordings[scenarioId]) throw new Error(`${recordingsFile} has no recording of "${scenarioId}"; run it with SCENARIO_MODEL=gemini first.`);
+    return createReplayModelClient(recordings[scenarioId]);
+  }
+  if (mode === 'gemini') {
+    if (!config.geminiApiKey) throw new Error('SCENARIO_MODEL=gemini needs GEMINI_API_KEY.');
+    recordings[scenarioId] = [];
+    return createRecordingModelClient(createGeminiModelClient(config.geminiApiKey), recordings[scenarioId]);
+  }
+  throw new Error(`SCENARIO_MODEL must be mock, gemini or replay, not "${mode}".`);
+};
+
+const report = (result: ScenarioResult) => {
+  console.info(`${result.passed ? 'PASS' : 'FAIL'}  ${result.id}: ${result.name}`);
+  if (result.passed) return;
+  result.failures.forEach(failure => console.info(`      ${failure}`));
+  result.turns.forEach(turn => {
+    console.info(`      > ${turn.message}`);
+    turn.actions.forEach(action => console.info(`        [${action.name} ${JSON.stringify(action.args)}${action.failed ? ' failed' : ''}]`));
+    console.info(`      < ${turn.reply}`);
+  });
+};
+
+const main = async () => {
+  const only = process.argv.slice(2);
+  const scenarios = (await loadScenarios(config.agentScenariosFile)).filter(scenario => only.length === 0 || only.includes(scenario.id));
+  if (scenarios.length === 0) throw new Error(`No scenarios to run in ${config.agentScenariosFile}.`);
+  const systemPrompt = process.env.SYSTEM_PROMPT_FILE ? (await readFile(process.env.SYSTEM_PROMPT_FILE, 'utf8')).trim() : DEFAULT_SYSTEM_PROMPT;
+  const recordings = await readRecordings();
+  const guardrails = createGuardrails(config.blockedWords);
+
+  console.info(`Running ${scenarios.length} scenario(s) with the ${mode} model.`);
+  let passed = 0;
+  for (const scenario of scenarios) {
+    const result = await runScenario(scenario, {
+      model: modelFor(scenario.id, recordings),
+      systemPrompt,
+      station: 'scenarios',
+      timeZone: config.stationTimeZone,
+      guardrails,
+      retrieve: async (query, entries) => (entries ? buildKnowledgeIndex(entries).search(query, config.knowledgeTopK) : []),
+      schedule: async () => [],
+    });
+    report(result);
+    if (result.passed) passed++;
+  }
+
+  if (mode === 'gemini') {
+    await writeFile(recordingsFile, `${JSON.stringify(recordings, null, 2)}\n`);
+    console.info(`Recorded the model's responses in ${recordingsFile}.`);
+  }
+  console.info(`${passed} of ${scenarios.length} scenario(s) passed.`);
+  process.exitCode = passed === scenarios.length ? 0 : 1;
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,93 @@
+import { ServerResponse } from 'node:http';
+
+/**
+ * Server-Sent Events hub. Each dashboard tab holds one stream per station; a
+ * notification for a station is pushed to every stream of that station.
+ *
+ * Events only say what changed (a sheet, or that there are WhatsApp messages),
+ * never the data itself and never whose conversation it was, so a stream needs no
+ * sign-in: the dashboard refetches through its usual, authenticated path. Each station keeps its recent events so a tab that
+ * reconnects with Last-Event-ID catches up on what it missed.
+ */
+
+export type PushEvent =
+  | { type: 'sheet'; sheet: string }
+  | { type: 'message' };
+
+interface StoredEvent {
+  id: number;
+  event: PushEvent;
+}
+
+const HEARTBEAT_MS = 25_000; // Below the idle timeouts of common proxies
+const REPLAY_LIMIT = 100;
+
+export const isPushEvent = (value: any): value is PushEvent =>
+  (value?.type === 'sheet' && typeof value.sheet === 'string' && value.sheet !== '') || value?.type === 'message';
+
+/**
+ * The event as it goes out on the streams, with only the fields above: a notification
+ * may carry more (the Apps Script used to send the listener's number with a message),
+ * and anyone who knows a station's ID can listen.
+ */
+export const toPushEvent = (event: PushEvent): PushEvent =>
+  event.type === 'sheet' ? { type: 'sheet', sheet: event.sheet } : { type: 'message' };
+
+/** `stations` are the only ones with streams and replay buffers, so callers cannot grow them with made-up station IDs. */
+export const createEventHub = (stations: string[]) => {
+  const known = new Set(stations);
+  const streams = new Map<string, Set<ServerResponse>>();
+  const recent = new Map<string, StoredEvent[]>();
+  let lastId = 0;
+
+  const write = (res: ServerResponse, { id, event }: StoredEvent) => {
+    res.write(`id: ${id}\nevent: update\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  const heartbeat = setInterval(() => {
+    streams.forEach(set => set.forEach(res => res.write(': heartbeat\n\n')));
+  }, HEARTBEAT_MS);
+  heartbeat.unref();
+
+  return {
+    /** Whether the hub serves `station`. */
+    has: (station: string): boolean => known.has(station),
+
+    /** Opens a stream for a station, replaying anything newer than `lastEventId`. */
+    subscribe(station: string, res: ServerResponse, lastEventId?: number) {
+      if (!known.has(station)) throw new Error(`Unknown station "${station}".`);
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+      res.write('retry: 5000\n\n');
+      if (lastEventId !== undefined) {
+        (recent.get(station) ?? []).filter(stored => stored.id > lastEventId).forEach(stored => write(res, stored));
+      }
+      const set = streams.get(station) ?? new Set();
+      streams.set(station, set);
+      set.add(res);
+      res.on('close', () => set.delete(res));
+    },
+
+    /** Pushes an event to every stream of a station. Returns how many streams received it; none for an unknown station. */
+    publish(station: string, event: PushEvent): number {
+      if (!known.has(station)) return 0;
+      const stored = { id: ++lastId, event: toPushEvent(event) };
+      const kept = [...(recent.get(station) ?? []), stored].slice(-REPLAY_LIMIT);
+      recent.set(station, kept);
+      const set = streams.get(station) ?? new Set();
+      set.forEach(res => write(res, stored));
+      return set.size;
+    },
+
+    close() {
+      clearInterval(heartbeat);
+      streams.forEach(set => set.forEach(res => res.end()));
+      streams.clear();
+    },
+  };
+};
+
+export type EventHub = ReturnType<typeof createEventHub>;
@@ -0,0 +1,109 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { IncomingMessage, ServerResponse } from 'node:http';
+
+/** Small helpers over node:http, so the server needs no framework. */
+
+/** Thrown by route handlers to answer with a status code and a JSON error body. */
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export type RouteHandler = (req: IncomingMessage, res: ServerResponse, url: URL) => Promise<void> | void;
+
+export interface Route {
+  method: 'GET' | 'POST' | 'PUT';
+  path: string;
+  handler: RouteHandler;
+}
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown): void => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+export const readJsonBody = async <T = any>(req: IncomingMessage, maxBytes = MAX_BODY_BYTES): Promise<T> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) throw new HttpError(413, 'Request body too large.');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON.');
+  }
+};
+
+/** The token in an `Authorization: Bearer <token>` header, or ''. */
+export const bearerToken = (req: IncomingMessage): string => {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization ?? '');
+  return match ? match[1] : '';
+};
+
+// Compares digests, which are always the same length, so the time taken reveals nothing about the secret.
+const matchesSecret = (given: string | null, secret: string): boolean => {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return secret !== '' && given !== null && timingSafeEqual(digest(given), digest(secret));
+};
+
+/** Checks an `Authorization: Bearer <secret>` header. An empty secret rejects everything. */
+export const requireSecret = (req: IncomingMessage, secret: string): void => {
+  if (!matchesSecret(bearerToken(req), secret)) {
+    throw new HttpError(401, 'Missing or wrong secret.');
+  }
+};
+
+/**
+ * Checks a `?secret=` query parameter, for callers such as webhooks that cannot set
+ * headers. An empty secret rejects everything.
+ */
+export const requireQuerySecret = (url: URL, secret: string): void => {
+  if (!matchesSecret(url.searchParams.get('secret'), secret)) {
+    throw new HttpError(401, 'Missing or wrong secret.');
+  }
+};
+
+/** A station id from a query parameter or body, or a 400. */
+export const stationParam = (value: unknown): string => {
+  if (typeof value !== 'string' || !/^[a-z0-9-]+$/.test(value)) throw new HttpError(400, 'A valid station id is required.');
+  return value;
+};
+
+const applyCors = (req: IncomingMessage, res: ServerResponse, allowedOrigins: string[]) => {
+  const origin = req.headers.origin;
+  if (!origin) return;
+  if (allowedOrigins.includes('*') || allowedOrigins.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, Last-Event-ID, X-Station, X-Dashboard-User');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, OPTIONS');
+  }
+};
+
+/** Builds the request listener: CORS, routing by method and path, and JSON errors. */
+export const createRouter = (routes: Route[], allowedOrigins: string[]) =>
+  async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    applyCors(req, res, allowedOrigins);
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const route = routes.find(r => r.method === req.method && r.path === url.pathname);
+    try {
+      if (!route) throw new HttpError(404, `No route for ${req.method} ${url.pathname}.`);
+      await route.handler(req, res, url);
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      if (status === 500) console.error(`Server Error (${req.method} ${url.pathname}):`, error);
+      if (!res.headersSent) sendJson(res, status, { status: 'error', message: error instanceof Error ? error.message : String(error) });
+      else res.end();
+    }
+  };
@@ -0,0 +1,158 @@
+import { createServer } from 'node:http';
+import { loadConfig } from './config.js';
+import { createEventHub, isPushEvent } from './events.js';
+import { HttpError, Route, createRouter, readJsonBody, requireSecret, sendJson, stationParam } from './http.js';
+import { createSessionVerifier } from './sessions.js';
+import { createRateLimiter } from './rateLimit.js';
+import { createUsageLedger } from './usage.js';
+import { createGeminiModelClient, createMockModelClient } from './ai/models.js';
+import { createAiRoutes } from './ai/routes.js';
+import { SheetKey, createSheetDirectory } from './sheets.js';
+import { createHandoffStore } from './agent/handoffs.js';
+import { createKnowledgeRetriever } from './agent/knowledge.js';
+import { createGuardrails } from './agent/guardrails.js';
+import { createOptOutStore } from './agent/optOuts.js';
+import { createScheduleStore } from './agent/schedule.js';
+import { createAgentRoutes } from './agent/routes.js';
+import { createAgentSettingsStore } from './agent/settings.js';
+import { createAgentSessionStore } from './agent/conversations.js';
+import { createWebhookRoutes } from './agent/webhook.js';
+import { createTwoChatClient } from './twoChat.js';
+
+/**
+ * The dashboard's companion server. It does what the browser cannot do safely:
+ *  - it relays change notifications from the Apps Script to open dashboards as
+ *    Server-Sent Events, so new requests, registrations and WhatsApp messages show
+ *    up within seconds instead of at the next poll;
+ *  - it calls Gemini on the dashboard's behalf (see ai/), so the API key stays on
+ *    the server, with per-user rate limits and usage accounting, and runs the
+ *    WhatsApp agent and its tools (see agent/), in the dashboard's tester and on
+ *    inbound WhatsApp messages from the 2Chat webhook.
+ *
+ *   GET  /events?station=<id>   the event stream for one station
+ *   POST /notify                { station, type: 'sheet', sheet } or { station, type: 'message' },
+ *                               or { station, type: 'revoked', username } when the Apps Script has
+ *                               signed a user out everywhere (see sessions.ts), with
+ *                               `Authorization: Bearer <RELAY_SECRET>`
+ *   POST /ai/<operation>        see ai/routes.ts
+ *   /agent/...                  see agent/routes.ts
+ *   POST /webhooks/2chat        see agent/webhook.ts
+ *   GET  /health
+ */
+
+const config = loadConfig();
+const hub = createEventHub(config.stations);
+
+const model =
+  config.modelMode === 'mock' ? createMockModelClient()
+  : config.geminiApiKey ? createGeminiModelClient(config.geminiApiKey)
+  : null;
+
+const sheets = createSheetDirectory(config.stationBackends, config.stationSheets);
+const sessions = createSessionVerifier(config);
+const limiter = createRateLimiter({ perMinute: config.aiRequestsPerMinute, perDay: config.aiRequestsPerDay });
+const usage = createUsageLedger();
+const handoffs = createHandoffStore();
+const agentSettings = createAgentSettingsStore(sheets, config.stationPrompts);
+const conversations = createAgentSessionStore(sheets);
+const optOuts = createOptOutStore(sheets);
+const schedule = createScheduleStore(sheets);
+const guardrails = createGuardrails(config.blockedWords);
+const knowledge = createKnowledgeRetriever({ sheets, model, useEmbeddings: config.knowledgeEmbeddings, topK: config.knowledgeTopK });
+
+/** A station id this server serves, or a 404, so strangers cannot make it keep state for made-up stations. */
+const knownStation = (value: unknown): string => {
+  const station = stationParam(value);
+  if (!hub.has(station)) throw new HttpError(404, `This server does not serve station "${station}".`);
+  return station;
+};
+
+const routes: Route[] = [
+  {
+    method: 'GET',
+    path: '/health',
+    handler: (_req, res) => sendJson(res, 200, { status: 'success', data: { model: model?.name ?? null } }),
+  },
+  {
+    method: 'GET',
+    path: '/events',
+    handler: (req, res, url) => {
+      const station = knownStation(url.searchParams.get('station'));
+      const lastEventId = Number(req.headers['last-event-id']);
+      hub.subscribe(station, res, Number.isInteger(lastEventId) ? lastEventId : undefined);
+    },
+  },
+  {
+    method: 'POST',
+    path: '/notify',
+    handler: async (req, res) => {
+      requireSecret(req, config.relaySecret);
+      const { station, ...event } = await readJsonBody(req);
+      const stationId = knownStation(station);
+      if (event.type === 'revoked' && typeof event.username === 'string') {
+        sessions.forget(stationId, event.username);
+        sendJson(res, 200, { status: 'success', data: { delivered: 0 } });
+        return;
+      }
+      if (!isPushEvent(event)) throw new HttpError(400, 'Expected { type: "sheet", sheet }, { type: "message" } or { type: "revoked", username }.');
+      // The Apps Script names the station's own tab, which may not be the default one.
+      const changed = (sheet: SheetKey) => event.type === 'sheet' && event.sheet === sheets(stationId).sheetName(sheet);
+      if (changed('knowledgeBase')) knowledge.invalidate(stationId);
+      if (changed('optOuts')) optOuts.invalidate(stationId);
+      if (changed('schedule')) schedule.invalidate(stationId);
+      const delivered = hub.publish(stationId, event);
+      sendJson(res, 200, { status: 'success', data: { delivered } });
+    },
+  },
+  ...createAiRoutes({ model, sessions, limiter, usage }),
+  ...createAgentRoutes({
+    model,
+    sessions,
+    limiter,
+    usage,
+    handoffs,
+    settings: agentSettings,
+    conversations,
+    knowledge,
+    schedule,
+    guardrails,
+    scenariosFile: config.agentScenariosFile,
+    timeZone: config.stationTimeZone,
+    publish: hub.publish,
+  }),
+  ...createWebhookRoutes({
+    model,
+    twoChat: config.twoChatApiKey ? createTwoChatClient(config.twoChatApiUrl, config.twoChatApiKey) : null,
+    webhookSecret: config.webhookSecret,
+    whatsappNumbers: config.whatsappNumbers,
+    sheets,
+    handoffs,
+    settings: agentSettings,
+    conversations,
+    knowledge,
+    schedule,
+    optOuts,
+    guardrails,
+    limiter,
+    usage,
+    timeZone: config.stationTimeZone,
+    publish: hub.publish,
+  }),
+];
+
+if (!config.relaySecret) console.warn('RELAY_SECRET is not set: POST /notify will reject every request.');
+if (!model) console.warn('GEMINI_API_KEY is not set and MODEL_MODE is not "mock": AI requests will fail.');
+if (model?.name === 'mock') console.info('Answering AI requests with the mock model.');
+if (!config.webhookSecret) console.warn('TWOCHAT_WEBHOOK_SECRET is not set: the 2Chat webhook will reject every request.');
+if (config.webhookSecret && !config.twoChatApiKey) console.warn('TWOCHAT_API_KEY is not set: the agent cannot answer WhatsApp messages.');
+if (config.allowUnverifiedUsers) console.warn('ALLOW_UNVERIFIED_USERS is on: sign-ins are not checked. Use this for development only.');
+
+const server = createServer(createRouter(routes, config.allowedOrigins));
+server.listen(config.port, () => console.info(`Companion server listening on port ${config.port}.`));
+
+const shutdown = () => {
+  hub.close();
+  server.close(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,48 @@
+/**
+ * Per-user request limits: a sliding one-minute window against bursts, and a daily
+ * cap against a runaway loop or a shared login burning the Gemini budget.
+ * Counts live in memory and start over when the server restarts.
+ */
+
+export interface RateLimits {
+  perMinute: number;
+  perDay: number;
+}
+
+export type RateDecision = { allowed: true } | { allowed: false; retryAfterSeconds: number; reason: string };
+
+const MINUTE_MS = 60_000;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const secondsUntilTomorrow = () => {
+  const midnight = new Date();
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((midnight.getTime() - Date.now()) / 1000);
+};
+
+export const createRateLimiter = ({ perMinute, perDay }: RateLimits) => {
+  const recent = new Map<string, number[]>();
+  const daily = new Map<string, { day: string; count: number }>();
+
+  return {
+    /** Counts a request for `key` if it is within the limits. */
+    take(key: string): RateDecision {
+      const now = Date.now();
+      const window = (recent.get(key) ?? []).filter(at => now - at < MINUTE_MS);
+      const day = daily.get(key)?.day === today() ? daily.get(key)! : { day: today(), count: 0 };
+
+      if (day.count >= perDay) {
+        return { allowed: false, retryAfterSeconds: secondsUntilTomorrow(), reason: `the daily limit of ${perDay} AI requests` };
+      }
+      if (window.length >= perMinute) {
+        return { allowed: false, retryAfterSeconds: Math.ceil((window[0] + MINUTE_MS - now) / 1000), reason: `${perMinute} AI requests a minute` };
+      }
+      recent.set(key, [...window, now]);
+      daily.set(key, { day: day.day, count: day.count + 1 });
+      return { allowed: true };
+    },
+  };
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
@@ -0,0 +1,16 @@
+/**
+ * The dashboard's roles, as in services/permissions.ts, which the server cannot import.
+ * Keep the two in step: a role the dashboard grants must be the one the server checks.
+ */
+
+export type Role = 'presenter' | 'producer' | 'admin';
+
+/**
+ * Maps the Role cell of the Users sheet to a known role, as normalizeRole in
+ * services/permissions.ts does: 'dj' and anything unrecognised is a presenter.
+ */
+export const normalizeRole = (value: unknown): Role => {
+  const role = String(value ?? '').trim().toLowerCase();
+  if (role === 'admin' || role === 'producer') return role;
+  return 'presenter';
+};
@@ -0,0 +1,91 @@
+import { createHash } from 'node:crypto';
+import { IncomingMessage } from 'node:http';
+import { ServerConfig } from './config.js';
+import { HttpError, bearerToken } from './http.js';
+import { Role, normalizeRole } from './roles.js';
+
+/**
+ * Works out who is calling. The dashboard sends its session token, and the server
+ * asks the station's Apps Script whether it is still valid (its `session` action, the
+ * same one the dashboard uses). Valid sessions are remembered for a minute so every AI
+ * request does not wait on the script; the script tells the server through POST
+ * /notify when it revokes a user's sessions, and `forget` drops them straight away.
+ */
+
+export interface ServerUser {
+  station: string;
+  username: string;
+  role: Role;
+}
+
+const SESSION_CACHE_MS = 60 * 1000;
+const SCRIPT_TIMEOUT_MS = 20_000;
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+/** The session behind `token` as the Apps Script sees it, or null when it has expired or been revoked. */
+const lookUp = async (station: string, scriptUrl: string, token: string): Promise<ServerUser | null> => {
+  const response = await fetch(scriptUrl, {
+    method: 'POST',
+    redirect: 'follow',
+    headers: { 'Content-Type': 'text/plain;charset=utf-8' }, // Required by Apps Script
+    body: JSON.stringify({ action: 'session', token }),
+    signal: AbortSignal.timeout(SCRIPT_TIMEOUT_MS),
+  });
+  const body: any = await response.json().catch(() => null);
+  if (!response.ok || body?.status !== 'success') {
+    throw new Error(`Could not check the session: ${body?.message ?? `HTTP ${response.status}`}`);
+  }
+  const session = body.data;
+  return session ? { station, username: String(session.username), role: normalizeRole(session.role) } : null;
+};
+
+export const createSessionVerifier = (config: Pick<ServerConfig, 'stationBackends' | 'allowUnverifiedUsers'>) => {
+  const verified = new Map<string, { user: ServerUser; checkedAt: number }>();
+
+  return {
+    /** The signed-in user behind a request, or throws a 401. */
+    async verify(req: IncomingMessage): Promise<ServerUser> {
+      const station = String(req.headers['x-station'] ?? '');
+      if (!/^[a-z0-9-]+$/.test(station)) throw new HttpError(400, 'A valid X-Station header is required.');
+      const scriptUrl = config.stationBackends[station];
+
+      if (!scriptUrl) {
+        // Development only (config.ts refuses the flag in production), and never more than the lowest role.
+        const username = String(req.headers['x-dashboard-user'] ?? '').trim();
+        if (config.allowUnverifiedUsers && username) return { station, username, role: 'presenter' };
+        throw new HttpError(401, `Sign-ins for station "${station}" cannot be checked: it has no backend on this server.`);
+      }
+
+      const token = bearerToken(req);
+      if (!token) throw new HttpError(401, 'Sign in to use the AI features.');
+      const key = `${station}:${hashToken(token)}`;
+      const cached = verified.get(key);
+      if (cached && Date.now() - cached.checkedAt < SESSION_CACHE_MS) return cached.user;
+
+      let user: ServerUser | null;
+      try {
+        user = await lookUp(station, scriptUrl, token);
+      } catch (error) {
+        console.error(`Server Error (session check for ${station}):`, error);
+        throw new HttpError(502, 'Could not check your sign-in with the station spreadsheet.');
+      }
+      if (!user) {
+        verified.delete(key);
+        throw new HttpError(401, 'Your session has expired. Sign in again.');
+      }
+      verified.set(key, { user, checkedAt: Date.now() });
+      return user;
+    },
+
+    /** Stops trusting every session of a user, e.g. once the Apps Script has revoked them. */
+    forget(station: string, username: string): void {
+      const wanted = username.trim().toLowerCase();
+      verified.forEach(({ user }, key) => {
+        if (user.station === station && user.username.trim().toLowerCase() === wanted) verified.delete(key);
+      });
+    },
+  };
+};
+
+export type SessionVerifier = ReturnType<typeof createSessionVerifier>;
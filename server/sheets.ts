@@ -0,0 +1,186 @@
+import { randomUUID } from 'node:crypto';
+
+/**
+ * The server's access to a station's spreadsheet, through the same Apps Script web
+ * app the dashboard uses and the same `{ status, data, message }` envelope. The
+ * server only reads and appends; editing stays with the dashboard, which checks
+ * row Versions. Callers name sheets by key (e.g. 'requests') and columns by the
+ * dashboard's names (types.ts); each station's layout maps those to its own tabs and
+ * headers, as the dashboard's Station Settings do (see services/columnMapping.ts).
+ */
+
+export type SheetRecord = Record<string, unknown>;
+
+/** The tab for each kind of data in a default station setup. */
+export const DEFAULT_SHEETS = {
+  requests: 'Listeners Choice',
+  registrations: 'Registered Users',
+  knowledgeBase: 'KnowledgeBase',
+  schedule: 'TimeSlots',
+  auditLog: 'AuditLog',
+  agentSettings: 'AgentSettings',
+  agentMessages: 'AgentMessages',
+  optOuts: 'AgentOptOuts',
+} as const;
+
+export type SheetKey = keyof typeof DEFAULT_SHEETS;
+
+/**
+ * How a station's spreadsheet differs from the default setup, in the shape of its
+ * `sheets` and `columns` in the dashboard's station settings: the tab for each kind
+ * of data, and per sheet the header of each column whose header differs, e.g.
+ * `{ "columns": { "requests": { "Whatsapp": "WhatsApp Number" } } }`.
+ */
+export interface SheetLayout {
+  sheets?: Partial<Record<SheetKey, string>>;
+  columns?: Partial<Record<SheetKey, Record<string, string>>>;
+}
+
+export interface SheetClient {
+  /** The station's tab for `sheet`, as the dashboard and the Apps Script's notifications name it. */
+  sheetName(sheet: SheetKey): string;
+  read(sheet: SheetKey): Promise<SheetRecord[]>;
+  /** Appends a row, giving it an ID if it has none. Resolves with the row as written. */
+  append(sheet: SheetKey, row: SheetRecord): Promise<SheetRecord>;
+}
+
+/** A spreadsheet as it is, by tab names and headers. */
+interface Spreadsheet {
+  read(sheetName: string): Promise<SheetRecord[]>;
+  append(sheetName: string, row: SheetRecord): Promise<SheetRecord>;
+}
+
+export interface AuditEntry {
+  username: string;
+  action: 'create' | 'message';
+  sheet?: SheetKey;
+  rowId?: string;
+  after?: SheetRecord;
+  recipient?: string;
+  message?: string;
+}
+
+/** Appends an AuditLog row in the shape the dashboard's own audit entries have. */
+export const appendAuditEntry = (sheets: SheetClient, entry: AuditEntry): Promise<SheetRecord> =>
+  sheets.append('auditLog', {
+    Timestamp: new Date().toISOString(),
+    Username: entry.username,
+    Action: entry.action,
+    Sheet: entry.sheet ? sheets.sheetName(entry.sheet) : '',
+    RowId: entry.rowId ?? '',
+    RowIndex: '',
+    Before: '',
+    After: entry.after ? JSON.stringify(entry.after) : '',
+    Recipient: entry.recipient ?? '',
+    Message: entry.message ?? '',
+  });
+
+const TIMEOUT_MS = 20_000;
+
+const unwrap = async (response: Response, context: string): Promise<any> => {
+  const body: any = await response.json().catch(() => null);
+  if (!response.ok || body?.status !== 'success') {
+    throw new Error(`Apps Script ${context} failed: ${body?.message ?? `HTTP ${response.status}`}`);
+  }
+  return body.data;
+};
+
+// --- Column mapping, as in services/columnMapping.ts ---
+
+const renameKeys = (row: SheetRecord, renames: [from: string, to: string][]): SheetRecord => {
+  const result: SheetRecord = { ...row };
+  renames.forEach(([from, to]) => {
+    if (!(from in row)) return;
+    delete result[from];
+    result[to] = row[from];
+  });
+  return result;
+};
+
+/** Puts a station's layout over its spreadsheet, so callers see sheet keys and the dashboard's column names. */
+const withLayout = (spreadsheet: Spreadsheet, layout: SheetLayout): SheetClient => {
+  const sheetName = (sheet: SheetKey) => layout.sheets?.[sheet] || DEFAULT_SHEETS[sheet];
+  const columns = (sheet: SheetKey) => Object.entries(layout.columns?.[sheet] ?? {});
+  const toSheetColumns = (sheet: SheetKey, row: SheetRecord) => renameKeys(row, columns(sheet));
+  const fromSheetColumns = (sheet: SheetKey, row: SheetRecord) =>
+    renameKeys(row, columns(sheet).map(([column, header]) => [header, column]));
+
+  return {
+    sheetName,
+    read: async sheet => (await spreadsheet.read(sheetName(sheet))).map(row => fromSheetColumns(sheet, row)),
+    append: async (sheet, row) => fromSheetColumns(sheet, await spreadsheet.append(sheetName(sheet), toSheetColumns(sheet, row))),
+  };
+};
+
+const appsScriptSpreadsheet = (scriptUrl: string): Spreadsheet => ({
+  async read(sheetName) {
+    const url = new URL(scriptUrl);
+    url.searchParams.set('action', 'read');
+    url.searchParams.set('sheetName', sheetName);
+    const data = await unwrap(await fetch(url, { redirect: 'follow', signal: AbortSignal.timeout(TIMEOUT_MS) }), `read of ${sheetName}`);
+    if (!Array.isArray(data)) throw new Error(`Apps Script read of ${sheetName} did not return rows.`);
+    return data;
+  },
+
+  async append(sheetName, row) {
+    const payload = { ID: randomUUID(), ...row };
+    await unwrap(
+      await fetch(scriptUrl, {
+        method: 'POST',
+        redirect: 'follow',
+        headers: { 'Content-Type': 'text/plain;charset=utf-8' }, // Required by Apps Script
+        body: JSON.stringify({ action: 'create', sheetName, payload }),
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+      }),
+      `create in ${sheetName}`
+    );
+    return payload;
+  },
+});
+
+export const createAppsScriptSheetClient = (scriptUrl: string, layout: SheetLayout = {}): SheetClient =>
+  withLayout(appsScriptSpreadsheet(scriptUrl), layout);
+
+/** Keeps rows in memory, by tab name. */
+const memorySpreadsheet = (initial: Record<string, SheetRecord[]>): Spreadsheet => {
+  const tables = new Map(Object.entries(initial).map(([name, rows]) => [name, [...rows]]));
+  return {
+    async read(sheetName) {
+      return [...(tables.get(sheetName) ?? [])];
+    },
+    async append(sheetName, row) {
+      const payload = { ID: randomUUID(), ...row };
+      tables.set(sheetName, [...(tables.get(sheetName) ?? []), payload]);
+      return payload;
+    },
+  };
+};
+
+/**
+ * Keeps rows in memory, for stations this server has no Apps Script for (development
+ * with ALLOW_UNVERIFIED_USERS), for the dashboard's agent tester and scenarios, and
+ * for tests. Nothing reaches a real sheet.
+ */
+export const createMemorySheetClient = (initial: Record<string, SheetRecord[]> = {}, layout: SheetLayout = {}): SheetClient =>
+  withLayout(memorySpreadsheet(initial), layout);
+
+/**
+ * The sheet client for each station: its Apps Script when this server has one for
+ * it, otherwise an in-memory stand-in that lasts until the server restarts. Each
+ * uses the station's layout from `stationSheets`, or the default one.
+ */
+export const createSheetDirectory = (stationBackends: Record<string, string>, stationSheets: Record<string, SheetLayout>) => {
+  const clients = new Map<string, SheetClient>();
+  return (station: string): SheetClient => {
+    let client = clients.get(station);
+    if (!client) {
+      const scriptUrl = stationBackends[station];
+      const layout = stationSheets[station] ?? {};
+      client = scriptUrl ? createAppsScriptSheetClient(scriptUrl, layout) : createMemorySheetClient({}, layout);
+      clients.set(station, client);
+    }
+    return client;
+  };
+};
+
+export type SheetDirectory = ReturnType<typeof createSheetDirectory>;
@@ -0,0 +1,32 @@
+/**
+ * Sends WhatsApp messages through the 2Chat API, for replies the server writes itself
+ * (the agent answering inbound messages). The dashboard's live chat still sends
+ * through the Apps Script proxy in services/twoChatService.ts. The API URL can point
+ * at the fake in dev/fake2chat.ts for local testing.
+ */
+
+export interface TwoChatClient {
+  /** Sends a text message from the station's number. Resolves with 2Chat's message id. */
+  sendMessage(fromNumber: string, toNumber: string, text: string): Promise<string>;
+}
+
+const TIMEOUT_MS = 20_000;
+
+// 2Chat wants numbers with a leading +.
+const withPlus = (number: string) => (number.startsWith('+') ? number : `+${number}`);
+
+export const createTwoChatClient = (apiUrl: string, apiKey: string): TwoChatClient => ({
+  async sendMessage(fromNumber, toNumber, text) {
+    const response = await fetch(`${apiUrl.replace(/\/+$/, '')}/open/whatsapp/send-message`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-User-API-Key': apiKey },
+      body: JSON.stringify({ from_number: withPlus(fromNumber), to_number: withPlus(toNumber), text }),
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    const body: any = await response.json().catch(() => null);
+    if (!response.ok || body?.success === false) {
+      throw new Error(`2Chat send-message failed: ${body?.message ?? body?.error ?? `HTTP ${response.status}`}`);
+    }
+    return String(body?.message_uuid ?? body?.uuid ?? '');
+  },
+});
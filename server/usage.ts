@@ -0,0 +1,62 @@
+/**
+ * Usage accounting for the AI proxy: requests and tokens per station, user, day and
+ * operation, so an admin can see who is using the Gemini budget and on what.
+ * Kept in memory since the server started.
+ */
+
+export interface UsageRecord {
+  station: string;
+  username: string;
+  operation: string;
+  promptTokens: number;
+  outputTokens: number;
+  failed: boolean;
+}
+
+export interface UsageTotals {
+  requests: number;
+  failures: number;
+  promptTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageRow extends UsageTotals {
+  day: string;
+  username: string;
+  operation: string;
+}
+
+const emptyTotals = (): UsageTotals => ({ requests: 0, failures: 0, promptTokens: 0, outputTokens: 0 });
+
+export const createUsageLedger = () => {
+  // station → "day|username|operation" → totals
+  const ledger = new Map<string, Map<string, UsageTotals>>();
+  const startedAt = new Date().toISOString();
+
+  return {
+    record({ station, username, operation, promptTokens, outputTokens, failed }: UsageRecord) {
+      const rows = ledger.get(station) ?? new Map<string, UsageTotals>();
+      ledger.set(station, rows);
+      const key = [new Date().toISOString().slice(0, 10), username, operation].join('|');
+      const totals = rows.get(key) ?? emptyTotals();
+      rows.set(key, {
+        requests: totals.requests + 1,
+        failures: totals.failures + (failed ? 1 : 0),
+        promptTokens: totals.promptTokens + promptTokens,
+        outputTokens: totals.outputTokens + outputTokens,
+      });
+    },
+
+    /** One row per day, user and operation for a station, newest day first. */
+    report(station: string): { since: string; rows: UsageRow[] } {
+      const rows = Array.from(ledger.get(station) ?? new Map<string, UsageTotals>(), ([key, totals]) => {
+        const [day, username, operation] = key.split('|');
+        return { day, username, operation, ...totals };
+      });
+      rows.sort((a, b) => b.day.localeCompare(a.day) || a.username.localeCompare(b.username) || a.operation.localeCompare(b.operation));
+      return { since: startedAt, rows };
+    },
+  };
+};
+
+export type UsageLedger = ReturnType<typeof createUsageLedger>;
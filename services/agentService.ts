@@ -0,0 +1,156 @@
+import { callServer } from './companionServer';
+import { AgentAction, RetrievedEntry } from './geminiService';
+import { ListenerLanguage } from './stationConfig';
+
+/**
+ * The WhatsApp agent as it runs on the companion server: its settings, its sessions
+ * with listeners (kept in the station's AgentMessages sheet), and the conversations
+ * it has handed to a DJ. Agent turns for the tester go through getWhatsappAgentResponse
+ * in geminiService.
+ */
+
+export interface BusinessHours {
+  /** 0 is Sunday. */
+  days: number[];
+  /** 'HH:MM' on the station's clock. An end before the start runs past midnight. */
+  start: string;
+  end: string;
+}
+
+export interface AgentSettings {
+  enabled: boolean;
+  systemPrompt: string;
+  /** Null answers at any time. */
+  businessHours: BusinessHours | null;
+  /** A conversation quiet for this long starts a new session. */
+  sessionTimeoutMinutes: number;
+  /** Turns of the session the model sees. */
+  maxHistoryTurns: number;
+}
+
+export interface PromptVersion {
+  savedAt: string;
+  savedBy: string;
+  systemPrompt: string;
+}
+
+export const fetchAgentSettings = (): Promise<AgentSettings> => callServer('/agent/settings');
+
+/** Replaces the station's agent settings. Admins only. */
+export const saveAgentSettings = (settings: AgentSettings): Promise<AgentSettings> =>
+  callServer('/agent/settings', { method: 'PUT', body: JSON.stringify(settings) });
+
+/** Each distinct prompt saved for the station, newest first. Admins only. */
+export const fetchPromptVersions = (): Promise<PromptVersion[]> => callServer('/agent/settings/prompts');
+
+export interface AgentMessage {
+  timestamp: string;
+  role: 'listener' | 'agent';
+  text: string;
+  /** The tools an agent reply called. */
+  actions: AgentAction[];
+}
+
+export interface AgentSession {
+  /** The listener's number, or a tester's ID. */
+  conversationId: string;
+  sessionId: string;
+  startedAt: string;
+  lastActive: string;
+  ended: boolean;
+  /** The language the agent is speaking with the listener. */
+  language: ListenerLanguage;
+  messages: AgentMessage[];
+}
+
+/** Sessions in progress, most recently active first. */
+export const fetchActiveSessions = (): Promise<AgentSession[]> => callServer('/agent/sessions');
+
+/** Ends a conversation's session, so the agent starts afresh on its next message. Admins only. */
+export const endAgentSession = (conversationId: string): Promise<{ ended: boolean }> =>
+  callServer('/agent/sessions/end', { method: 'POST', body: JSON.stringify({ conversationId }) });
+
+/** Every session the agent has had with a listener, newest first. Producers and admins. */
+export const fetchListenerHistory = (conversationId: string): Promise<AgentSession[]> =>
+  callServer(`/agent/history?conversationId=${encodeURIComponent(conversationId)}`);
+
+/**
+ * The knowledge base entries the agent would be given for `message`, best first.
+ * `knowledgeBase` is searched as sent, so unsaved edits can be tried out. Admins only.
+ */
+export const retrieveKnowledge = (message: string, knowledgeBase: unknown[]): Promise<RetrievedEntry[]> =>
+  callServer('/agent/retrieve', { method: 'POST', body: JSON.stringify({ message, knowledgeBase }) });
+
+/** A scripted conversation the agent is checked against; see fixtures/agentScenarios.json. */
+export interface AgentScenario {
+  id: string;
+  name: string;
+  persona: { name: string; phone?: string; description?: string };
+  messages: string[];
+  expect: {
+    toolCalls?: { name: string; args?: Record<string, string | true> }[];
+    forbiddenTools?: string[];
+    language?: ListenerLanguage;
+  };
+}
+
+export interface AgentScenarioResult {
+  id: string;
+  name: string;
+  passed: boolean;
+  failures: string[];
+  turns: { message: string; reply: string; actions: AgentAction[]; language: ListenerLanguage }[];
+}
+
+export const fetchAgentScenarios = (): Promise<AgentScenario[]> => callServer('/agent/scenarios');
+
+/**
+ * Plays one scenario against the agent on the server, with the saved prompt unless
+ * `systemPrompt` is given. Its requests and registrations are not saved. Admins only.
+ */
+export const runAgentScenario = (id: string, systemPrompt?: string): Promise<AgentScenarioResult> =>
+  callServer('/agent/scenarios/run', { method: 'POST', body: JSON.stringify({ id, systemPrompt }) });
+
+/**
+ * The agent's ID for a live-chat conversation: the agent keys conversations by the
+ * listener's number as digits, while 2Chat may write it with a + or spaces.
+ */
+export const agentConversationId = (conversationId: string): string =>
+  /^\+?[\d\s-]{9,}$/.test(conversationId) ? conversationId.replace(/\D/g, '') : conversationId;
+
+/**
+ * The server keeps the tester's conversations under `tester:`, apart from listeners'
+ * (see server/agent/routes.ts), so a tester ID is never a listener's number.
+ */
+export const testerConversationId = (testerId: string): string =>
+  testerId.startsWith('tester:') ? testerId : `tester:${testerId}`;
+
+const ACTION_LABELS: Record<string, string> = {
+  capture_song_request: 'Saved a song request',
+  register_new_user: 'Registered a listener',
+  answer_from_knowledge_base: 'Answered from the knowledge base',
+  get_current_show: 'Looked up the show on air',
+  get_next_airing: 'Looked up when a show is on',
+  get_day_lineup: "Looked up the day's lineup",
+  forward_to_dj: 'Handed the conversation to a DJ',
+};
+
+/** A note for staff about what a tool call did, e.g. "Saved a song request". */
+export const describeAgentAction = (action: AgentAction): string => {
+  const label = ACTION_LABELS[action.name] ?? action.name;
+  if (action.failed) return `${label}: failed (${String(action.result.error ?? 'unknown error')})`;
+  return label;
+};
+
+/** A conversation the agent has handed to a DJ. */
+export interface AgentHandoff {
+  conversationId: string;
+  reason: string;
+  flaggedAt: string;
+}
+
+export const fetchHandoffs = (): Promise<AgentHandoff[]> => callServer('/agent/handoffs');
+
+/** Clears a conversation's handoff flag once a DJ has replied. */
+export const resolveHandoff = (conversationId: string): Promise<{ resolved: boolean }> =>
+  callServer('/agent/handoffs/resolve', { method: 'POST', body: JSON.stringify({ conversationId }) });
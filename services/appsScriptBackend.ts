@@ -0,0 +1,191 @@
+import { SheetRow } from '../types';
+import { BatchOperation, DataBackend, SheetDelta, WriteResult } from './dataBackend';
+import { BatchError, ConfigurationError, ConflictError } from './errors';
+import { READ_OPTIONS, TransportOptions, UPLOAD_OPTIONS, WRITE_OPTIONS, fetchJson, scriptFailure, withRetry } from './transport';
+
+const assertConfigured = (scriptUrl: string) => {
+  if (!scriptUrl || scriptUrl.includes('PASTE_YOUR')) {
+    throw new ConfigurationError(
+      'No Apps Script URL is configured. Set SCRIPT_URL in .env.local or the backend URL under Admin Panel → Station Settings.'
+    );
+  }
+};
+
+const toConflict = (result: any) =>
+  new ConflictError(result.message || 'The row was changed by someone else.', result.current ?? null);
+
+/**
+ * A script that predates versioning answers writes without a Version and ignores
+ * `expectedVersion`, so every conflict check would pass without a word. Its answers
+ * are refused instead, so a station still running it finds out. Deletes are only
+ * checked when they carried a Version, since rows that predate versioning have none.
+ */
+const assertVersioned = (result: any, kind: BatchOperation['kind'], sentVersion: unknown): WriteResult => {
+  if (!result?.Version && (kind !== 'delete' || sentVersion)) {
+    throw new ConfigurationError(
+      `The Apps Script answered a ${kind} without a row Version, so it is not checking for conflicting edits. ` +
+        'Deploy the latest version of the script.'
+    );
+  }
+  return result;
+};
+
+// The same fields the single-row actions send, so the script can reuse their handlers.
+const toScriptOperation = ({ kind, sheetName, row }: BatchOperation) => {
+  if (kind === 'create') return { action: 'create', sheetName, payload: row };
+  if (kind === 'update') return { action: 'update', sheetName, payload: row, id: row.ID, expectedVersion: row.Version };
+  return { action: 'delete', sheetName, payload: { rowIndex: row.rowIndex }, id: row.ID, expectedVersion: row.Version };
+};
+
+/** A POST body for the script. `action` selects the handler in doPost. */
+export interface ScriptRequest {
+  action: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Unwraps the script's `{ status, data, message }` envelope. A failure the script
+ * reports becomes a ScriptError (or a QuotaError / AuthError when that is what it
+ * describes); a stale update or delete comes back as `conflict`, with the row
+ * currently at that index; a batch that was not applied comes back as `batchFailed`.
+ */
+const unwrap = (result: any): any => {
+  if (result?.status === 'error') throw scriptFailure(result.message || 'Unknown script error.');
+  if (result?.status === 'conflict') throw toConflict(result);
+  if (result?.status === 'batchFailed') {
+    const failures = new Map<number, Error>();
+    (result.failures ?? []).forEach((failure: any) => {
+      failures.set(Number(failure.index), failure.status === 'conflict' ? toConflict(failure) : scriptFailure(failure.message || 'Failed.'));
+    });
+    throw new BatchError(failures);
+  }
+  return result?.data;
+};
+
+const callScript = async (scriptUrl: string, url: string, init: RequestInit, options: TransportOptions, context: string): Promise<any> => {
+  assertConfigured(scriptUrl);
+  try {
+    return await withRetry(async () => unwrap(await fetchJson(url, init, options.timeoutMs)), options);
+  } catch (error) {
+    console.error(`Google Sheet Service Error (${context}):`, error);
+    throw error;
+  }
+};
+
+/**
+ * Sends a POST to the Google Apps Script: sheet writes, uploads and proxy
+ * requests such as 2Chat. Writes are not retried (see transport.ts).
+ */
+export async function postToScript(scriptUrl: string, body: ScriptRequest, options: TransportOptions = WRITE_OPTIONS): Promise<any> {
+  const init: RequestInit = {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/plain;charset=utf-8' }, // Required by Apps Script
+    body: JSON.stringify(body),
+  };
+  return callScript(scriptUrl, scriptUrl, init, options, body.action);
+}
+
+/**
+ * Reads go through GET: the Apps Script handles read operations in doGet.
+ * They are idempotent, so transient failures are retried with backoff.
+ */
+async function getFromScript(scriptUrl: string, params: Record<string, string>): Promise<any> {
+  assertConfigured(scriptUrl);
+  const url = new URL(scriptUrl);
+  Object.entries(params).forEach(([key, value]) => url.searchParams.append(key, value));
+  return callScript(scriptUrl, url.toString(), { method: 'GET' }, READ_OPTIONS, `fetchData for ${params.sheetName}`);
+}
+
+/**
+ * The production backend: the unified Google Apps Script web app in front of
+ * the station spreadsheet.
+ */
+export const createAppsScriptBackend = (scriptUrl: string): DataBackend => ({
+  name: 'apps-script',
+
+  read: async <T extends SheetRow>(sheetName: string): Promise<T[]> => {
+    return getFromScript(scriptUrl, { action: 'read', sheetName }) as Promise<T[]>;
+  },
+
+  /**
+   * Delta protocol: `read` with `delta=1` answers with `{ rows, cursor, full }`.
+   * Given a `since` cursor, `rows` holds only rows created or modified after it
+   * (by their LastModified stamp); without one, every row is returned. The script
+   * sets `full: true` and returns every row when rows were deleted since the cursor.
+   * Scripts that predate the protocol ignore both parameters and return a plain
+   * array, which is treated as a full snapshot.
+   */
+  readChanges: async <T extends SheetRow>(sheetName: string, since: string | null): Promise<SheetDelta<T>> => {
+    const params: Record<string, string> = { action: 'read', sheetName, delta: '1' };
+    if (since) params.since = since;
+    const data = await getFromScript(scriptUrl, params);
+
+    if (Array.isArray(data)) {
+      return { rows: data as T[], cursor: null, full: true };
+    }
+    return {
+      rows: (data?.rows ?? []) as T[],
+      cursor: data?.cursor ?? null,
+      full: since === null || Boolean(data?.full),
+    };
+  },
+
+  /**
+   * Row identity: created rows arrive with their ID already set. A create whose ID is
+   * already in the sheet writes nothing and answers with that row's `{ rowIndex, ID,
+   * Version }`, so a replayed create is not added twice (inside a batch too). Update and delete
+   * send the row's `id`; the script finds the row by its ID column. When no row has
+   * that ID it falls back to `rowIndex`, but only if the row there has no ID yet
+   * (rows that predate IDs, which is how the backfill assigns them).
+   *
+   * Versioning protocol: the script stamps a fresh, globally unique Version on every
+   * row it creates or updates and returns `{ rowIndex, ID, Version }`. Update and delete
+   * send `expectedVersion`; if the row carries a different Version (or is gone), the
+   * script answers `{ status: 'conflict', message, current }` without writing. A delete
+   * answers with the Version of the row it deleted. Answers without a Version are
+   * refused (see assertVersioned).
+   */
+  create: async (sheetName, rowData) =>
+    assertVersioned(await postToScript(scriptUrl, { action: 'create', sheetName, payload: rowData }), 'create', undefined),
+
+  update: async (sheetName, rowData) =>
+    assertVersioned(
+      await postToScript(scriptUrl, { action: 'update', sheetName, payload: rowData, id: rowData.ID, expectedVersion: rowData.Version }),
+      'update',
+      rowData.Version
+    ),
+
+  remove: async (sheetName, { rowIndex, ID, Version }) =>
+    assertVersioned(
+      await postToScript(scriptUrl, { action: 'delete', sheetName, payload: { rowIndex }, id: ID, expectedVersion: Version }),
+      'delete',
+      Version
+    ),
+
+  /**
+   * Batch protocol: `batch` carries `operations`, each shaped like the body of the
+   * single-row action it stands for. The script takes the document lock, checks
+   * every operation (IDs, expected Versions, sheets) before writing any, applies
+   * them in order and answers `{ results }` with one `{ rowIndex, ID, Version }`
+   * per operation. If any check or write fails it restores what it had written and
+   * answers `{ status: 'batchFailed', failures: [{ index, status, message, current }] }`,
+   * where `status` is 'conflict' or 'error' as for the single-row actions. A success
+   * without a result for every operation is treated as a failure: a script that
+   * predates the action may answer that way without having written anything.
+   */
+  batch: async operations => {
+    const data = await postToScript(scriptUrl, { action: 'batch', operations: operations.map(toScriptOperation) });
+    const results = data?.results;
+    if (!Array.isArray(results) || results.length !== operations.length) {
+      throw new ConfigurationError(
+        `The Apps Script confirmed ${Array.isArray(results) ? results.length : 0} of ${operations.length} changes, so they may not have been saved. ` +
+          'It may predate batch writes: deploy the latest version of the script.'
+      );
+    }
+    return results.map((result, index) => assertVersioned(result, operations[index].kind, operations[index].row.Version));
+  },
+
+  // The script responds with `{ url: '...' }` inside its `data` envelope on success.
+  uploadFile: (fileName, mimeType, data) =>
+    postToScript(scriptUrl, { action: 'uploadFile', payload: { fileName, mimeType, data } }, UPLOAD_OPTIONS),
+});
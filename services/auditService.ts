@@ -0,0 +1,74 @@
+import { AuditAction, AuditEntry, SheetRow } from '../types';
+import { batchWrite, createRow } from './googleSheetService';
+import { getCurrentSession } from './authService';
+import { getSheetName } from './stationConfig';
+
+export const AUDIT_SHEET = getSheetName('auditLog');
+
+interface AuditDetails {
+  sheet?: string;
+  rowId?: string;
+  rowIndex?: number;
+  before?: Partial<SheetRow> | null;
+  after?: Partial<SheetRow> | null;
+  recipient?: string;
+  message?: string;
+  /** Who made the change, when it is replayed from the offline outbox after they queued it. */
+  username?: string;
+}
+
+// rowIndex is where the row lives, not part of its values, so it is recorded in its own column.
+const serialiseRow = (row: Partial<SheetRow> | null | undefined): string => {
+  if (!row) return '';
+  const { rowIndex, ...values } = row;
+  return JSON.stringify(values);
+};
+
+const buildEntry = (action: AuditAction, details: AuditDetails): Omit<AuditEntry, 'rowIndex'> => ({
+  Timestamp: new Date().toISOString(),
+  Username: details.username ?? getCurrentSession()?.username ?? 'unknown',
+  Action: action,
+  Sheet: details.sheet ?? '',
+  RowId: details.rowId ?? '',
+  RowIndex: details.rowIndex != null ? String(details.rowIndex) : '',
+  Before: serialiseRow(details.before),
+  After: serialiseRow(details.after),
+  Recipient: details.recipient ?? '',
+  Message: details.message ?? '',
+});
+
+/**
+ * Appends an entry to the audit log. The log is append-only: this module never
+ * updates or deletes audit rows.
+ *
+ * Recording happens after the audited action has succeeded, so a failure here is
+ * logged rather than thrown; the user's change is already saved.
+ */
+export const recordAudit = async (action: AuditAction, details: AuditDetails): Promise<void> => {
+  const entry = buildEntry(action, details);
+  try {
+    await createRow(AUDIT_SHEET, entry);
+  } catch (error) {
+    console.error(`Audit Service Error (${action}${details.sheet ? ` ${details.sheet}` : ''}):`, error, entry);
+  }
+};
+
+/** Records the changes of a batch write in one round trip, with the same failure handling as recordAudit. */
+export const recordAuditBatch = async (changes: [AuditAction, AuditDetails][]): Promise<void> => {
+  const rows = changes.map(([action, details]) => buildEntry(action, details));
+  try {
+    await batchWrite(rows.map(row => ({ kind: 'create', sheetName: AUDIT_SHEET, row })));
+  } catch (error) {
+    console.error(`Audit Service Error (batch of ${rows.length}):`, error, rows);
+  }
+};
+
+/** Parses the Before/After cell of an audit entry back into row values. */
+export const parseAuditRow = (cell: string | undefined): Record<string, unknown> | null => {
+  if (!cell) return null;
+  try {
+    return JSON.parse(cell);
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,351 @@
+import { AuthSession, Role, SessionRecord, UserAccount } from '../types';
+import { makeRequest } from './googleSheetService';
+import {
+  generateSalt,
+  generateTemporaryPassword,
+  generateToken,
+  hashPassword,
+  hashToken,
+  verifyPassword,
+} from './passwordHashing';
+import { normalizeRole } from './permissions';
+import { stationScopedKey } from './stationConfig';
+
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const MIN_PASSWORD_LENGTH = 8;
+
+/** What the admin screens may see about an account. Hashes never leave the provider. */
+export interface UserSummary {
+  username: string;
+  displayName: string;
+  role: Role;
+  disabled: boolean;
+  mustChangePassword: boolean;
+}
+
+export interface AuthProvider {
+  readonly name: string;
+  /** False on a fresh install, so the login screen can offer to create the first admin. */
+  hasUsers(): Promise<boolean>;
+  login(username: string, password: string): Promise<AuthSession>;
+  /** Returns the session for a token, or null if it is unknown, expired or revoked. */
+  validateSession(token: string): Promise<AuthSession | null>;
+  logout(token: string): Promise<void>;
+  /** Changes the signed-in user's password and signs them out of their other sessions. */
+  changePassword(session: AuthSession, currentPassword: string, newPassword: string): Promise<void>;
+  /**
+   * Admins only: sets a random temporary password that must be changed at next sign-in,
+   * signs the user out everywhere, and returns the password.
+   */
+  resetPassword(session: AuthSession, username: string): Promise<string>;
+  /** Admins only, except on a fresh install: then `session` is null and the account is an admin. */
+  createUser(session: AuthSession | null, username: string, displayName: string, password: string, role: Role): Promise<void>;
+  /** Admins only. */
+  listUsers(session: AuthSession): Promise<UserSummary[]>;
+}
+
+/** Where the local stand-in keeps accounts and sessions. */
+interface AuthStore {
+  readUsers(): Promise<UserAccount[]>;
+  addUser(user: Omit<UserAccount, 'rowIndex'>): Promise<void>;
+  saveUser(user: UserAccount): Promise<void>;
+  readSessions(): Promise<SessionRecord[]>;
+  addSession(session: Omit<SessionRecord, 'rowIndex'>): Promise<void>;
+  saveSession(session: SessionRecord): Promise<void>;
+}
+
+const normaliseUsername = (username: string) => username.trim().toLowerCase();
+
+const assertPasswordStrength = (password: string) => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters long.`);
+  }
+};
+
+const toSummary = (user: UserAccount): UserSummary => ({
+  username: user.Username,
+  displayName: user.DisplayName || user.Username,
+  role: normalizeRole(user.Role),
+  disabled: user.Disabled === 'Yes',
+  mustChangePassword: user.MustChangePassword === 'Yes',
+});
+
+const createAuthProvider = (name: string, store: AuthStore): AuthProvider => {
+  const findUser = async (username: string) => {
+    const wanted = normaliseUsername(username);
+    const users = await store.readUsers();
+    return users.find(u => normaliseUsername(String(u.Username ?? '')) === wanted) ?? null;
+  };
+
+  const findActiveSession = async (token: string) => {
+    const tokenHash = await hashToken(token);
+    const sessions = await store.readSessions();
+    const session = sessions.find(s => s.TokenHash === tokenHash);
+    if (!session || session.RevokedAt || new Date(session.ExpiresAt).getTime() <= Date.now()) {
+      return null;
+    }
+    return session;
+  };
+
+  const toAuthSession = (token: string, user: UserAccount, expiresAt: string): AuthSession => ({
+    token,
+    username: user.Username,
+    displayName: user.DisplayName || user.Username,
+    role: normalizeRole(user.Role),
+    expiresAt,
+    mustChangePassword: user.MustChangePassword === 'Yes',
+  });
+
+  const checkPassword = async (user: UserAccount | null, password: string) =>
+    !!user && user.Disabled !== 'Yes' && (await verifyPassword(password, user.PasswordSalt, user.PasswordHash));
+
+  const requireAdmin = async (session: AuthSession) => {
+    const user = (await findActiveSession(session.token)) && (await findUser(session.username));
+    if (!user || user.Disabled === 'Yes' || normalizeRole(user.Role) !== 'admin') {
+      throw new Error('Only station admins can manage accounts.');
+    }
+    return user;
+  };
+
+  // Revokes every active session of the user except `keepToken`'s.
+  const revokeSessions = async (username: string, keepToken: string | null) => {
+    const keepHash = keepToken ? await hashToken(keepToken) : null;
+    const revokedAt = new Date().toISOString();
+    const sessions = await store.readSessions();
+    for (const session of sessions) {
+      if (normaliseUsername(session.Username) !== normaliseUsername(username) || session.RevokedAt) continue;
+      if (session.TokenHash !== keepHash) await store.saveSession({ ...session, RevokedAt: revokedAt });
+    }
+  };
+
+  return {
+    name,
+
+    hasUsers: async () => (await store.readUsers()).length > 0,
+
+    login: async (username, password) => {
+      const user = await findUser(username);
+      if (!(await checkPassword(user, password))) {
+        // Same message for unknown users and wrong passwords, so accounts cannot be probed.
+        throw new Error('Invalid username or password.');
+      }
+      const token = generateToken();
+      const now = new Date();
+      const expiresAt = new Date(now.getTime() + SESSION_TTL_MS).toISOString();
+      await store.addSession({
+        TokenHash: await hashToken(token),
+        Username: user!.Username,
+        CreatedAt: now.toISOString(),
+        ExpiresAt: expiresAt,
+        RevokedAt: '',
+      });
+      return toAuthSession(token, user!, expiresAt);
+    },
+
+    validateSession: async token => {
+      const session = await findActiveSession(token);
+      if (!session) return null;
+      const user = await findUser(session.Username);
+      if (!user || user.Disabled === 'Yes') return null;
+      return toAuthSession(token, user, session.ExpiresAt);
+    },
+
+    logout: async token => {
+      const session = await findActiveSession(token);
+      if (session) {
+        await store.saveSession({ ...session, RevokedAt: new Date().toISOString() });
+      }
+    },
+
+    changePassword: async (session, currentPassword, newPassword) => {
+      const user = (await findActiveSession(session.token)) && (await findUser(session.username));
+      if (!(await checkPassword(user, currentPassword))) {
+        throw new Error('Current password is incorrect.');
+      }
+      assertPasswordStrength(newPassword);
+      const salt = generateSalt();
+      await store.saveUser({
+        ...user!,
+        PasswordSalt: salt,
+        PasswordHash: await hashPassword(newPassword, salt),
+        MustChangePassword: '',
+      });
+      await revokeSessions(user!.Username, session.token);
+    },
+
+    resetPassword: async (session, username) => {
+      await requireAdmin(session);
+      const user = await findUser(username);
+      if (!user) throw new Error(`No account named "${username}".`);
+      const temporaryPassword = generateTemporaryPassword();
+      const salt = generateSalt();
+      await store.saveUser({
+        ...user,
+        PasswordSalt: salt,
+        PasswordHash: await hashPassword(temporaryPassword, salt),
+        MustChangePassword: 'Yes',
+      });
+      await revokeSessions(user.Username, null);
+      return temporaryPassword;
+    },
+
+    createUser: async (session, username, displayName, password, role) => {
+      const firstAccount = (await store.readUsers()).length === 0;
+      if (!firstAccount) {
+        if (!session) throw new Error('An account already exists. Please sign in instead.');
+        await requireAdmin(session);
+      }
+      const cleanUsername = username.trim();
+      if (!cleanUsername) throw new Error('Username is required.');
+      if (await findUser(cleanUsername)) throw new Error(`The username "${cleanUsername}" is already taken.`);
+      assertPasswordStrength(password);
+      const salt = generateSalt();
+      await store.addUser({
+        Username: cleanUsername,
+        DisplayName: displayName.trim() || cleanUsername,
+        PasswordSalt: salt,
+        PasswordHash: await hashPassword(password, salt),
+        Role: firstAccount ? 'admin' : role,
+        MustChangePassword: '',
+        Disabled: '',
+      });
+    },
+
+    listUsers: async session => {
+      await requireAdmin(session);
+      return (await store.readUsers()).map(toSummary);
+    },
+  };
+};
+
+// --- Apps Script ---
+// Accounts live in the station's 'Users' sheet and sessions in its 'Sessions' sheet. Only
+// the script's account actions read and write them (see google-apps-script/Code.gs), so
+// password hashes and session tokens never reach the browser, and the script checks who
+// may change what. PBKDF2 is too slow to run in Apps Script, so the password is hashed here
+// with the account's salt and only the hash is sent.
+
+/** Calls an account action. The script's refusals ("Invalid username or password.") come back as `{ refused }`. */
+const callAccounts = async <T>(action: string, fields: Record<string, unknown> = {}): Promise<T> => {
+  const data = await makeRequest({ action, ...fields });
+  if (data?.refused) throw new Error(data.refused);
+  return data as T;
+};
+
+// Unknown usernames get a salt too, so the answer does not reveal which accounts exist.
+const hashForSignIn = async (username: string, password: string) => {
+  const { salt } = await callAccounts<{ salt: string }>('passwordSalt', { username });
+  return hashPassword(password, salt);
+};
+
+const newPasswordFields = async (password: string) => {
+  assertPasswordStrength(password);
+  const salt = generateSalt();
+  return { salt, passwordHash: await hashPassword(password, salt) };
+};
+
+export const createScriptAuthProvider = (): AuthProvider => ({
+  name: 'apps-script',
+
+  hasUsers: () => callAccounts<boolean>('hasUsers'),
+
+  login: async (username, password) =>
+    callAccounts('login', { username, passwordHash: await hashForSignIn(username, password) }),
+
+  validateSession: token => callAccounts('session', { token }),
+
+  logout: async token => {
+    await callAccounts('logout', { token });
+  },
+
+  changePassword: async (session, currentPassword, newPassword) => {
+    await callAccounts('changePassword', {
+      token: session.token,
+      currentPasswordHash: await hashForSignIn(session.username, currentPassword),
+      ...(await newPasswordFields(newPassword)),
+    });
+  },
+
+  resetPassword: async (session, username) => {
+    const temporaryPassword = generateTemporaryPassword();
+    await callAccounts('resetPassword', { token: session.token, username, ...(await newPasswordFields(temporaryPassword)) });
+    return temporaryPassword;
+  },
+
+  createUser: async (session, username, displayName, password, role) => {
+    if (!username.trim()) throw new Error('Username is required.');
+    await callAccounts('createUser', {
+      token: session?.token ?? null,
+      username,
+      displayName,
+      role,
+      ...(await newPasswordFields(password)),
+    });
+  },
+
+  listUsers: session => callAccounts('listUsers', { token: session.token }),
+});
+
+// --- Local stand-in store ---
+// Keeps accounts and sessions in localStorage for development. It seeds one
+// development account per role on first use; never select it for a live deployment.
+
+const LOCAL_AUTH_KEY = stationScopedKey('edenFmLocalAuth');
+
+const DEV_ACCOUNTS = [
+  { username: 'dj', displayName: 'Dev DJ', password: 'edenfm-dev', role: 'presenter' },
+  { username: 'producer', displayName: 'Dev Producer', password: 'edenfm-producer-dev', role: 'producer' },
+  { username: 'admin', displayName: 'Dev Admin', password: 'edenfm-admin-dev', role: 'admin' },
+];
+
+interface LocalAuthData {
+  users: UserAccount[];
+  sessions: SessionRecord[];
+}
+
+const createLocalAuthStore = (): AuthStore => {
+  let seeding: Promise<LocalAuthData> | null = null;
+
+  const save = (data: LocalAuthData) => localStorage.setItem(LOCAL_AUTH_KEY, JSON.stringify(data));
+
+  const seed = async (): Promise<LocalAuthData> => {
+    const users = await Promise.all(DEV_ACCOUNTS.map(async (account, i) => {
+      const salt = generateSalt();
+      return {
+        rowIndex: i + 2,
+        Username: account.username,
+        DisplayName: account.displayName,
+        PasswordSalt: salt,
+        PasswordHash: await hashPassword(account.password, salt),
+        Role: account.role,
+      } as UserAccount;
+    }));
+    const data = { users, sessions: [] };
+    save(data);
+    return data;
+  };
+
+  const load = async (): Promise<LocalAuthData> => {
+    const saved = localStorage.getItem(LOCAL_AUTH_KEY);
+    if (saved) return JSON.parse(saved);
+    if (!seeding) seeding = seed();
+    return seeding;
+  };
+
+  // Mirrors the sheet: rows are numbered from 2 and addressed by rowIndex.
+  const append = <T extends { rowIndex: number }>(rows: T[], row: Omit<T, 'rowIndex'>) =>
+    rows.push({ ...row, rowIndex: rows.length + 2 } as T);
+  const replace = <T extends { rowIndex: number }>(rows: T[], row: T) =>
+    rows.map(existing => (existing.rowIndex === row.rowIndex ? row : existing));
+
+  return {
+    readUsers: async () => (await load()).users,
+    addUser: async user => { const data = await load(); append(data.users, user); save(data); },
+    saveUser: async user => { const data = await load(); save({ ...data, users: replace(data.users, user) }); },
+    readSessions: async () => (await load()).sessions,
+    addSession: async session => { const data = await load(); append(data.sessions, session); save(data); },
+    saveSession: async session => { const data = await load(); save({ ...data, sessions: replace(data.sessions, session) }); },
+  };
+};
+
+export const createLocalAuthProvider = (): AuthProvider => createAuthProvider('local', createLocalAuthStore());
@@ -0,0 +1,121 @@
+import { AuthSession, Role } from '../types';
+import { AuthProvider, UserSummary, createLocalAuthProvider, createScriptAuthProvider } from './authProviders';
+import { Permission, hasPermission } from './permissions';
+import { stationScopedKey } from './stationConfig';
+
+export type { UserSummary } from './authProviders';
+
+// Each station has its own accounts, so a DJ signs in to each station separately.
+const TOKEN_STORAGE_KEY = stationScopedKey('edenFmSessionToken');
+
+/**
+ * Picks the auth provider from the AUTH_PROVIDER environment variable (see vite.config.ts).
+ * By default the Apps Script checks sign-ins against the station's Users and Sessions
+ * sheets; 'local' is a development stand-in that keeps accounts in the browser.
+ */
+const createDefaultProvider = (): AuthProvider => {
+  if (process.env.AUTH_PROVIDER === 'local') {
+    console.info('Using the local auth provider with development accounts.');
+    return createLocalAuthProvider();
+  }
+  return createScriptAuthProvider();
+};
+
+let provider: AuthProvider | null = null;
+let currentSession: AuthSession | null = null;
+
+const getProvider = (): AuthProvider => {
+  if (!provider) provider = createDefaultProvider();
+  return provider;
+};
+
+/** Swaps the auth provider at runtime, e.g. for automated tests. */
+export const setAuthProvider = (next: AuthProvider): void => {
+  provider = next;
+  currentSession = null;
+};
+
+/** The signed-in user, or null. Services use this to attribute their actions. */
+export const getCurrentSession = (): AuthSession | null => currentSession;
+
+const remember = (session: AuthSession | null) => {
+  currentSession = session;
+  if (session) {
+    localStorage.setItem(TOKEN_STORAGE_KEY, session.token);
+  } else {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+  }
+};
+
+export const login = async (username: string, password: string): Promise<AuthSession> => {
+  const session = await getProvider().login(username, password);
+  remember(session);
+  return session;
+};
+
+/**
+ * Restores the session saved by a previous login so a page reload keeps the DJ signed in.
+ * Returns null (and forgets the token) when the session has expired or been revoked.
+ */
+export const restoreSession = async (): Promise<AuthSession | null> => {
+  const token = localStorage.getItem(TOKEN_STORAGE_KEY);
+  if (!token) return null;
+  try {
+    const session = await getProvider().validateSession(token);
+    remember(session);
+    return session;
+  } catch (error) {
+    // Keep the token: the backend may just be unreachable right now.
+    console.error('Auth Service Error (restoreSession):', error);
+    return null;
+  }
+};
+
+/** Revokes the session on the backend, not just in this tab. */
+export const logout = async (): Promise<void> => {
+  const token = currentSession?.token ?? localStorage.getItem(TOKEN_STORAGE_KEY);
+  remember(null);
+  if (token) {
+    try {
+      await getProvider().logout(token);
+    } catch (error) {
+      console.error('Auth Service Error (logout):', error);
+    }
+  }
+};
+
+export const hasAnyUsers = (): Promise<boolean> => getProvider().hasUsers();
+
+/** First-run setup: creates the initial admin account and signs it in. */
+export const createFirstAdmin = async (username: string, displayName: string, password: string): Promise<AuthSession> => {
+  if (await getProvider().hasUsers()) {
+    throw new Error('An account already exists. Please sign in instead.');
+  }
+  await getProvider().createUser(null, username, displayName, password, 'admin');
+  return login(username, password);
+};
+
+/**
+ * Whether the signed-in user's role grants a permission. Components check this
+ * before rendering an action, not just before navigating to a view.
+ */
+export const can = (permission: Permission): boolean =>
+  !!currentSession && hasPermission(currentSession.role, permission);
+
+const requireSession = (): AuthSession => {
+  if (!currentSession) throw new Error('You are not signed in.');
+  return currentSession;
+};
+
+export const changePassword = async (currentPassword: string, newPassword: string): Promise<void> => {
+  const session = requireSession();
+  await getProvider().changePassword(session, currentPassword, newPassword);
+  currentSession = { ...session, mustChangePassword: false };
+};
+
+export const resetPassword = async (username: string): Promise<string> => getProvider().resetPassword(requireSession(), username);
+
+export const createUser = async (username: string, displayName: string, password: string, role: Role): Promise<void> =>
+  getProvider().createUser(requireSession(), username, displayName, password, role);
+
+export const listUsers = async (): Promise<UserSummary[]> => getProvider().listUsers(requireSession());
@@ -0,0 +1,62 @@
+import { SheetRow } from '../types';
+import { DataBackend } from './dataBackend';
+import { BatchError, ConflictError } from './errors';
+import { getColumnMapping } from './stationConfig';
+
+/**
+ * Renames columns between the dashboard's names (types.ts) and the headers in the
+ * station's spreadsheet (see StationConfig.columns). Bookkeeping columns such as
+ * rowIndex, ID and Version are never renamed.
+ */
+
+const renameKeys = <T extends Partial<SheetRow>>(row: T, renames: [from: string, to: string][]): T => {
+  const result: Record<string, any> = { ...row };
+  renames.forEach(([from, to]) => {
+    if (!(from in row)) return;
+    delete result[from];
+    result[to] = row[from];
+  });
+  return result as T;
+};
+
+/** Spreadsheet headers → dashboard names. */
+export const fromSheetColumns = <T extends Partial<SheetRow>>(sheetName: string, row: T): T =>
+  renameKeys(row, Object.entries(getColumnMapping(sheetName)).map(([column, header]) => [header, column]));
+
+/** Dashboard names → spreadsheet headers. */
+export const toSheetColumns = <T extends Partial<SheetRow>>(sheetName: string, row: T): T =>
+  renameKeys(row, Object.entries(getColumnMapping(sheetName)));
+
+/** Wraps a backend so everything above it sees the dashboard's column names. */
+export const withColumnMapping = (backend: DataBackend): DataBackend => {
+  const mapConflict = (sheetName: string, error: unknown) =>
+    error instanceof ConflictError && error.current
+      ? new ConflictError(error.message, fromSheetColumns(sheetName, error.current))
+      : error;
+  const rethrowMapped = (sheetName: string) => (error: unknown): never => {
+    throw mapConflict(sheetName, error);
+  };
+
+  return {
+    ...backend,
+    read: async <T extends SheetRow>(sheetName: string) =>
+      (await backend.read<T>(sheetName)).map(row => fromSheetColumns(sheetName, row)),
+    readChanges: backend.readChanges && (async <T extends SheetRow>(sheetName: string, since: string | null) => {
+      const delta = await backend.readChanges!<T>(sheetName, since);
+      return { ...delta, rows: delta.rows.map(row => fromSheetColumns(sheetName, row)) };
+    }),
+    create: (sheetName, rowData) => backend.create(sheetName, toSheetColumns(sheetName, rowData)),
+    update: (sheetName, rowData) =>
+      backend.update(sheetName, toSheetColumns(sheetName, rowData)).catch(rethrowMapped(sheetName)),
+    remove: (sheetName, target) => backend.remove(sheetName, target).catch(rethrowMapped(sheetName)),
+    batch: (operations) =>
+      backend
+        .batch(operations.map(op => (op.kind === 'delete' ? op : { ...op, row: toSheetColumns(op.sheetName, op.row) })))
+        .catch(error => {
+          if (!(error instanceof BatchError)) throw error;
+          const failures = new Map<number, Error>();
+          error.failures.forEach((failure, index) => failures.set(index, mapConflict(operations[index].sheetName, failure) as Error));
+          throw new BatchError(failures);
+        }),
+  };
+};
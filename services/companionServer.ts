@@ -0,0 +1,33 @@
+import { getStationConfig } from './stationConfig';
+import { getCurrentSession } from './authService';
+import { fetchJson, scriptFailure } from './transport';
+import { AuthError, QuotaError, RateLimitError, SessionExpiredError } from './errors';
+
+/**
+ * Calls to the companion server in server/, which runs the AI features and the
+ * WhatsApp agent. Requests carry the station and the dashboard session, which the
+ * server checks against the station's Sessions sheet.
+ */
+
+// Answers can take a while, especially the analyst with its thinking budget.
+const SERVER_TIMEOUT_MS = 120_000;
+
+export async function callServer<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const { serverUrl, id } = getStationConfig();
+  const session = getCurrentSession();
+  const headers: Record<string, string> = { 'Content-Type': 'application/json', 'X-Station': id };
+  if (session) {
+    headers.Authorization = `Bearer ${session.token}`;
+    headers['X-Dashboard-User'] = session.username;
+  }
+  try {
+    const result = await fetchJson(`${serverUrl.replace(/\/+$/, '')}${path}`, { ...init, headers }, SERVER_TIMEOUT_MS);
+    if (result?.status !== 'success') throw scriptFailure(result?.message || 'Unknown server error.');
+    return result.data as T;
+  } catch (error) {
+    // A 429 or 401 from our own server is about the user, not about Google or the spreadsheet.
+    if (error instanceof QuotaError) throw new RateLimitError('Too many AI requests.');
+    if (error instanceof AuthError) throw new SessionExpiredError(error.message);
+    throw error;
+  }
+}
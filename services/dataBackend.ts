@@ -0,0 +1,102 @@
+import { SheetRow } from '../types';
+
+/**
+ * The result of an incremental read. `cursor` is opaque to the client: it is
+ * whatever the backend needs to answer "what changed since then?" next time.
+ * When `full` is true, `rows` is the complete sheet (the backend could not
+ * produce a delta, e.g. because rows were deleted and every index shifted).
+ */
+export interface SheetDelta<T extends SheetRow = SheetRow> {
+  rows: T[];
+  cursor: string | null;
+  full: boolean;
+}
+
+/**
+ * Which row an update or delete is aimed at. Backends locate the row by `ID` when
+ * it is set, and only fall back to `rowIndex` for rows that predate IDs.
+ */
+export type RowTarget = Pick<SheetRow, 'rowIndex' | 'ID' | 'Version'>;
+
+/** Writes resolve with the row's address and its new Version (for a delete, the Version of the row deleted). */
+export interface WriteResult {
+  rowIndex: number;
+  ID?: string;
+  Version?: string;
+}
+
+/** One write in a batch. Operations may span sheets and are applied in order. */
+export interface BatchOperation {
+  kind: 'create' | 'update' | 'delete';
+  sheetName: string;
+  /** The row to create, the update payload, or the row to delete (see RowTarget). */
+  row: Partial<SheetRow>;
+}
+
+/**
+ * The contract every data source for the dashboard must fulfil.
+ * Components never talk to a backend directly; they go through the functions
+ * exported by googleSheetService, which delegate to the active backend.
+ */
+export interface DataBackend {
+  /** Short identifier shown in logs, e.g. 'apps-script' or 'local'. */
+  readonly name: string;
+  read<T extends SheetRow>(sheetName: string): Promise<T[]>;
+  /**
+   * Returns the rows added or changed since `since`, or the full sheet when `since` is null.
+   * Optional: backends without delta support fall back to `read`.
+   */
+  readChanges?<T extends SheetRow>(sheetName: string, since: string | null): Promise<SheetDelta<T>>;
+  /**
+   * Appends a row. Idempotent on `rowData.ID`: when a row with that ID already exists
+   * nothing is written and it resolves with that row, so a create that timed out after
+   * it was applied can be replayed from the outbox without adding the row twice.
+   */
+  create(sheetName: string, rowData: Partial<SheetRow>): Promise<WriteResult>;
+  /**
+   * Updates the row identified by `rowData` (see RowTarget). Rejects with ConflictError
+   * when the row is gone, or when `rowData.Version` is set and differs from the stored
+   * row's Version. Rows written before versioning have no Version and are not checked.
+   */
+  update(sheetName: string, rowData: SheetRow): Promise<WriteResult>;
+  /** Deletes the target row, with the same checks as `update`. */
+  remove(sheetName: string, target: RowTarget): Promise<WriteResult>;
+  /**
+   * Applies several writes atomically: either every operation is applied and the
+   * results come back in the same order, or none is and it rejects with a BatchError
+   * naming the operations that failed. Each operation gets the checks of its single-row method.
+   */
+  batch(operations: BatchOperation[]): Promise<WriteResult[]>;
+  uploadFile(fileName: string, mimeType: string, data: string): Promise<{ url: string }>;
+}
+
+export type DataBackendKind = 'apps-script' | 'local';
+
+let activeBackend: DataBackend | null = null;
+let backendFactory: (() => DataBackend) | null = null;
+
+/**
+ * Registers the factory used to lazily build the default backend.
+ * googleSheetService wires this up so the choice stays in one place.
+ */
+export const setDefaultBackendFactory = (factory: () => DataBackend): void => {
+  backendFactory = factory;
+};
+
+export const getDataBackend = (): DataBackend => {
+  if (!activeBackend) {
+    if (!backendFactory) {
+      throw new Error('No data backend has been configured.');
+    }
+    activeBackend = backendFactory();
+  }
+  return activeBackend;
+};
+
+/**
+ * Swaps the backend at runtime. Used by demos, training sessions and automated
+ * tests to point the whole dashboard at a local data set.
+ */
+export const setDataBackend = (backend: DataBackend): void => {
+  activeBackend = backend;
+};
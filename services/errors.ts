@@ -0,0 +1,156 @@
+import { SheetRow } from '../types';
+
+/**
+ * The errors the dashboard's services throw, so callers can tell "the network is
+ * down" from "Google's quota ran out" from "the script said no" and tell the user
+ * what to do about it. Anything else that reaches the UI is a bug or a plain Error
+ * from a component's own checks. describeError turns any of them into a message.
+ */
+
+/** Base class for the errors below. */
+export class AppError extends Error {
+  name = 'AppError';
+}
+
+/** The backend could not be reached, or did not answer in time. Reads are retried; writes are queued offline. */
+export class NetworkError extends AppError {
+  name = 'NetworkError';
+
+  constructor(message: string, public readonly timedOut = false) {
+    super(message);
+  }
+}
+
+/**
+ * Google refused the request because a quota ran out: too many Apps Script calls
+ * in a short time ("Service invoked too many times") or for the day.
+ */
+export class QuotaError extends AppError {
+  name = 'QuotaError';
+}
+
+/** The companion server turned down an AI request because the user has made too many recently. */
+export class RateLimitError extends AppError {
+  name = 'RateLimitError';
+}
+
+/** The backend refused access: the web app is not deployed for anonymous use, or the deployment was removed. */
+export class AuthError extends AppError {
+  name = 'AuthError';
+}
+
+/**
+ * The script failed or answered with something that is not its JSON envelope.
+ * `status` is the HTTP status when there was one; 5xx responses are usually
+ * transient and reads retry them.
+ */
+export class ScriptError extends AppError {
+  name = 'ScriptError';
+
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+  }
+}
+
+/** The companion server did not accept the dashboard session: it expired, was revoked, or cannot be checked. */
+export class SessionExpiredError extends AuthError {
+  name = 'SessionExpiredError';
+}
+
+/** The listener replied STOP to the station's WhatsApp number, so nothing may be sent to them until they reply START. */
+export class OptedOutError extends AppError {
+  name = 'OptedOutError';
+
+  constructor(public readonly number: string) {
+    super(`${number} has opted out of WhatsApp messages.`);
+  }
+}
+
+/** Raised when the dashboard cannot run because the station is not set up, e.g. no backend URL. */
+export class ConfigurationError extends AppError {
+  name = 'ConfigurationError';
+}
+
+export interface DataQualityIssue {
+  sheetName: string;
+  rowIndex: number;
+  rowId?: string;
+  column: string;
+  /** The value as it is stored in the sheet. */
+  value: unknown;
+  message: string;
+}
+
+/** Thrown before a create or update is sent when the payload does not match its sheet's schema. */
+export class ValidationError extends AppError {
+  name = 'ValidationError';
+
+  constructor(public readonly issues: DataQualityIssue[]) {
+    super(issues.map(issue => `${issue.column}: ${issue.message}`).join('; '));
+  }
+}
+
+/**
+ * Thrown by `update` and `remove` when the row no longer matches the Version the
+ * client last saw: someone else edited it, or a delete above it shifted another
+ * row into its place. `current` is the row now at that index, or null if there is none.
+ */
+export class ConflictError extends AppError {
+  name = 'ConflictError';
+
+  constructor(message: string, public readonly current: SheetRow | null) {
+    super(message);
+  }
+}
+
+/**
+ * Thrown by a batch write when any of its operations fails. The batch is atomic, so
+ * none of its operations were applied. `failures` maps the position of each failing
+ * operation to its error (e.g. a ConflictError); the others would have succeeded.
+ */
+export class BatchError extends AppError {
+  name = 'BatchError';
+
+  constructor(public readonly failures: Map<number, Error>) {
+    super(
+      `${failures.size} of the changes could not be saved, so none were: ` +
+        Array.from(failures.values()).map(error => error.message).join('; ')
+    );
+  }
+}
+
+/** Whether trying the same request again later might succeed. */
+export const isTransientError = (error: unknown): boolean =>
+  error instanceof NetworkError ||
+  error instanceof QuotaError ||
+  (error instanceof ScriptError && error.status !== undefined && error.status >= 500);
+
+/** A message for the user that says what went wrong and, where there is one, what to do next. */
+export const describeError = (error: unknown): string => {
+  if (error instanceof NetworkError) {
+    return error.timedOut
+      ? 'The station spreadsheet took too long to answer. Please try again in a moment.'
+      : 'Could not reach the station spreadsheet. Check your internet connection and try again.';
+  }
+  if (error instanceof QuotaError) {
+    return "Google's usage limit for the station spreadsheet was reached. Wait a few minutes and try again.";
+  }
+  if (error instanceof RateLimitError) {
+    return 'You have used the AI features a lot in a short time. Please wait a few minutes and try again.';
+  }
+  if (error instanceof SessionExpiredError) return 'Your sign-in could not be confirmed. Sign out and sign in again.';
+  if (error instanceof AuthError) {
+    return 'The station spreadsheet refused access. Ask an admin to check that the Apps Script is deployed for "Anyone" and that the backend URL in Station Settings is current.';
+  }
+  if (error instanceof OptedOutError) {
+    return 'This listener replied STOP and does not want WhatsApp messages from the station. They can reply START to receive them again.';
+  }
+  if (error instanceof ValidationError) return `Please fix: ${error.message}.`;
+  if (error instanceof BatchError) {
+    const reasons = new Set(Array.from(error.failures.values()).map(describeError));
+    return `None of the changes were saved. ${Array.from(reasons).join(' ')}`;
+  }
+  if (error instanceof ScriptError) return `The station spreadsheet reported an error: ${error.message}`;
+  if (error instanceof Error) return error.message;
+  return String(error);
+};
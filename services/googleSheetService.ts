@@ -1,124 +1,98 @@
 import { SheetRow } from '../types';
-
-// ====================================================================================
-// ====================================================================================
-//
-//    ACTION REQUIRED: 
-//    1. Deploy your new, unified Google Apps Script.
-//    2. Copy the Web App URL.
-//    3. Paste the URL here to connect the frontend to your backend.
-//
-// ====================================================================================
-// ====================================================================================
-const SCRIPT_URL = 'https://script.google.com/macros/s/AKfycbyAJ94P4NbnnXM48ALNHcUusZsf5GwSs8OFZ_Jx7XvllHav3q1I9YgeRdXASodV1jPi7g/exec';
-
+import {
+  BatchOperation,
+  DataBackend,
+  DataBackendKind,
+  RowTarget,
+  SheetDelta,
+  WriteResult,
+  getDataBackend,
+  setDefaultBackendFactory,
+} from './dataBackend';
+import { ScriptRequest, createAppsScriptBackend, postToScript } from './appsScriptBackend';
+import { TransportOptions } from './transport';
+import { createLocalBackend } from './localBackend';
+import { generateRowId } from './rowIds';
+import { parseSheetRows } from './sheetSchemas';
+import { withColumnMapping } from './columnMapping';
+import { getStationConfig } from './stationConfig';
+
+// The Apps Script web app URL comes from the station configuration (see stationConfig.ts):
+// SCRIPT_URL in .env.local at build time, or Admin Panel → Station Settings.
 export const getScriptUrl = (): string => {
-  return SCRIPT_URL;
+  return getStationConfig().backendUrl;
 };
 
 /**
- * A robust, unified function to make all POST requests to the Google Apps Script.
- * It handles sheet operations (create, update, delete) and proxy requests for the 2Chat API.
+ * Picks the backend from the DATA_BACKEND environment variable (see vite.config.ts).
+ * Set DATA_BACKEND=local in .env.local to run against the seeded fixtures instead
+ * of the station spreadsheet. Either way the station's column mapping is applied.
  */
-export async function makeRequest(body: object): Promise<any> {
-  if (SCRIPT_URL.includes('PASTE_YOUR')) {
-    const errorMessage = "CONFIGURATION ERROR: Please paste your new Google Apps Script URL into services/googleSheetService.ts";
-    alert(errorMessage);
-    throw new Error(errorMessage);
+const createDefaultBackend = (): DataBackend => {
+  const kind = (process.env.DATA_BACKEND || 'apps-script') as DataBackendKind;
+  if (kind === 'local') {
+    console.info('Using the local data backend. No changes will reach Google Sheets.');
+    return withColumnMapping(createLocalBackend());
   }
+  return withColumnMapping(createAppsScriptBackend(getScriptUrl()));
+};
 
-  try {
-    const response = await fetch(SCRIPT_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'text/plain;charset=utf-8', // Required by Apps Script
-      },
-      body: JSON.stringify(body),
-      redirect: 'follow', // Standard for Apps Script web apps
-    });
-
-    if (!response.ok) {
-      throw new Error(`Network response was not ok. Status: ${response.status}`);
-    }
-
-    const text = await response.text();
-    const result = JSON.parse(text);
-
-    // Check for errors returned by our script's logic
-    if (result.status === 'error') {
-      throw new Error(`Google Apps Script Error: ${result.message}`);
-    }
-    
-    // With the unified backend, the response is always wrapped in a `data` property.
-    return result.data;
+setDefaultBackendFactory(createDefaultBackend);
 
-  } catch (error) {
-    console.error(`Google Sheet Service Error:`, error);
-    // Rethrow the error so the calling component can handle it (e.g., show an error message)
-    throw error;
-  }
+/**
+ * Sends a raw action to the Google Apps Script. Sheet operations should use the
+ * functions below so they respect the active backend; this remains for
+ * script-only features such as the 2Chat proxy. Pass READ_OPTIONS (transport.ts)
+ * for actions that only read, so they are retried on transient failures.
+ */
+export async function makeRequest(body: ScriptRequest, options?: TransportOptions): Promise<any> {
+  return postToScript(getScriptUrl(), body, options);
 }
 
 // --- Sheet-Specific Functions ---
 
-/**
- * FIX: Reverted to a GET request to resolve "Invalid POST action: 'read'" error.
- * The Google Apps Script backend is configured to handle read operations via doGet,
- * so this function constructs a URL with query parameters and uses the GET method.
- */
+// Rows come back normalized to their sheet's schema (see sheetSchemas.ts).
 export const fetchData = async <T extends SheetRow>(sheetName: string): Promise<T[]> => {
-    if (SCRIPT_URL.includes('PASTE_YOUR')) {
-        const errorMessage = "CONFIGURATION ERROR: Please paste your new Google Apps Script URL into services/googleSheetService.ts";
-        alert(errorMessage);
-        throw new Error(errorMessage);
-    }
-    
-    const url = new URL(SCRIPT_URL);
-    url.searchParams.append('action', 'read');
-    url.searchParams.append('sheetName', sheetName);
-
-    try {
-        const response = await fetch(url.toString(), {
-            method: 'GET',
-            redirect: 'follow',
-        });
-
-        if (!response.ok) {
-            throw new Error(`Network response was not ok. Status: ${response.status}`);
-        }
-
-        const text = await response.text();
-        const result = JSON.parse(text);
+    return parseSheetRows<T>(sheetName, await getDataBackend().read(sheetName)).rows;
+};
 
-        if (result.status === 'error') {
-            throw new Error(`Google Apps Script Error: ${result.message}`);
-        }
-        
-        return result.data as T[];
-    } catch (error) {
-        console.error(`Google Sheet Service Error (fetchData for ${sheetName}):`, error);
-        throw error;
+/**
+ * Incremental read: returns only the rows added or changed since `since`
+ * (a cursor from a previous call), or the whole sheet when `since` is null.
+ * Falls back to a full read on backends without delta support.
+ * Rows are returned as stored; sheetStore normalizes them once merged.
+ */
+export const fetchChanges = async <T extends SheetRow>(sheetName: string, since: string | null): Promise<SheetDelta<T>> => {
+    const backend = getDataBackend();
+    if (!backend.readChanges) {
+        return { rows: await backend.read<T>(sheetName), cursor: null, full: true };
     }
+    return backend.readChanges<T>(sheetName, since);
 };
 
+// Every new row gets its permanent ID here, so it is the same whichever backend is active.
+// Payloads from views are validated by sheetStore before they get here.
 export const createRow = async (sheetName: string, rowData: Partial<SheetRow>): Promise<any> => {
-    return makeRequest({ action: 'create', sheetName, payload: rowData });
+    return getDataBackend().create(sheetName, { ...rowData, ID: rowData.ID || generateRowId() });
 };
 
 export const updateRow = async (sheetName: string, rowData: SheetRow): Promise<any> => {
-    return makeRequest({ action: 'update', sheetName, payload: rowData });
+    return getDataBackend().update(sheetName, rowData);
 };
 
-export const deleteRow = async (sheetName: string, rowIndex: number): Promise<any> => {
-    return makeRequest({ action: 'delete', sheetName, payload: { rowIndex } });
+export const deleteRow = async (sheetName: string, target: RowTarget): Promise<any> => {
+    return getDataBackend().remove(sheetName, target);
+};
+
+// Several writes in one round trip, applied all or not at all (see DataBackend.batch).
+// Created rows get their IDs here, as in createRow.
+export const batchWrite = async (operations: BatchOperation[]): Promise<WriteResult[]> => {
+    return getDataBackend().batch(operations.map(op =>
+        op.kind === 'create' ? { ...op, row: { ...op.row, ID: op.row.ID || generateRowId() } } : op
+    ));
 };
 
 // NEW: Function to handle file uploads via Apps Script
 export const uploadFile = async (fileName: string, mimeType: string, data: string): Promise<{ url: string }> => {
-    // The makeRequest function returns the `data` property of the script's response,
-    // which we expect to be an object like { url: '...' } upon success.
-    return makeRequest({
-        action: 'uploadFile',
-        payload: { fileName, mimeType, data },
-    });
-};
\ No newline at end of file
+    return getDataBackend().uploadFile(fileName, mimeType, data);
+};
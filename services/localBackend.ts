@@ -0,0 +1,260 @@
+import { SheetRow } from '../types';
+import { DataBackend, RowTarget, SheetDelta, WriteResult } from './dataBackend';
+import { BatchError, ConflictError } from './errors';
+import { stationScopedKey } from './stationConfig';
+import { publishLocalPushEvent } from './pushChannel';
+import seedData from '../fixtures/localSeed.json';
+
+type SheetTables = Record<string, Record<string, any>[]>;
+
+const STORAGE_KEY = stationScopedKey('edenFmLocalBackend');
+
+// Row 1 of every sheet holds the headers, so the first data row is row 2.
+const FIRST_DATA_ROW = 2;
+
+const cloneSeed = (): SheetTables => JSON.parse(JSON.stringify(seedData));
+
+const hasStorage = (): boolean => typeof localStorage !== 'undefined';
+
+const loadTables = (persist: boolean): SheetTables => {
+  if (persist && hasStorage()) {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      try {
+        return JSON.parse(saved);
+      } catch (error) {
+        console.warn('Local backend: ignoring corrupt saved data, reseeding.', error);
+      }
+    }
+  }
+  return cloneSeed();
+};
+
+export interface LocalBackendOptions {
+  /** Starting data keyed by sheet name. Defaults to fixtures/localSeed.json. */
+  seed?: SheetTables;
+  /** Keep edits in localStorage so a demo survives a page reload. Defaults to true. */
+  persist?: boolean;
+}
+
+/**
+ * An in-memory stand-in for the Apps Script backend, seeded from JSON fixtures.
+ * It mimics the spreadsheet closely enough for demos, DJ training and automated
+ * tests: rows carry their 1-based sheet row number, and deleting a row shifts
+ * every row below it up by one, exactly like the live sheet. Writes find rows by ID.
+ */
+export const createLocalBackend = (options: LocalBackendOptions = {}): DataBackend => {
+  const persist = options.persist ?? true;
+  const tables: SheetTables = options.seed ? JSON.parse(JSON.stringify(options.seed)) : loadTables(persist);
+
+  // Change tracking for readChanges. Every write bumps `clock`; each row remembers the
+  // clock value of its last write, and each sheet remembers its last delete.
+  // The epoch makes cursors from a previous page load fall back to a full read.
+  const epoch = Date.now().toString(36);
+  let clock = 0;
+  const rowStamps: Record<string, number[]> = {};
+  const lastDeleteStamp: Record<string, number> = {};
+
+  const getStamps = (sheetName: string) => {
+    const stamps = rowStamps[sheetName] ?? (rowStamps[sheetName] = []);
+    while (stamps.length < (tables[sheetName]?.length ?? 0)) stamps.push(0);
+    return stamps;
+  };
+
+  const parseCursor = (cursor: string | null): number | null => {
+    if (!cursor) return null;
+    const [cursorEpoch, value] = cursor.split(':');
+    const stamp = Number(value);
+    return cursorEpoch === epoch && Number.isInteger(stamp) ? stamp : null;
+  };
+
+  // While a batch runs, nothing is saved: it is saved once, after every operation has succeeded.
+  let inBatch = false;
+
+  const save = () => {
+    if (persist && !inBatch && hasStorage()) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(tables));
+    }
+  };
+
+  const getSheet = (sheetName: string) => {
+    const sheet = tables[sheetName];
+    if (!sheet) {
+      throw new Error(`Local Backend Error: Sheet "${sheetName}" not found.`);
+    }
+    return sheet;
+  };
+
+  /**
+   * Finds the target row: by ID wherever the row has moved to, otherwise by rowIndex.
+   * An ID that no row has yet may only land on a row without one; that is how the
+   * backfill gives legacy rows their IDs. A versioned target that cannot be found is a conflict.
+   */
+  const toPosition = (sheetName: string, target: RowTarget) => {
+    const sheet = getSheet(sheetName);
+    const byId = target.ID ? sheet.findIndex(row => row.ID === target.ID) : -1;
+    const atIndex = target.rowIndex - FIRST_DATA_ROW;
+    const position = byId >= 0 || (target.ID && sheet[atIndex]?.ID) ? byId : atIndex;
+    if (!Number.isInteger(position) || position < 0 || position >= sheet.length) {
+      if (target.ID || target.Version) {
+        throw new ConflictError(`Row ${target.ID ?? target.rowIndex} in "${sheetName}" no longer exists.`, null);
+      }
+      throw new Error(`Local Backend Error: Row ${target.rowIndex} does not exist in "${sheetName}".`);
+    }
+    return position;
+  };
+
+  // Strip the synthetic rowIndex so it is never stored as a column.
+  const toStoredRow = ({ rowIndex, ...columns }: Partial<SheetRow>) => columns;
+
+  // Versions must differ between rows, not just between revisions of one row, so a
+  // row shifted into a deleted row's place never matches the deleted row's Version.
+  let versionCounter = 0;
+  const nextVersion = () => `${epoch}-${(++versionCounter).toString(36)}`;
+  // Seeded fixtures have no Versions yet; stamp them so every local row is checked.
+  Object.values(tables).forEach(sheet => sheet.forEach(row => {
+    if (!row.Version) row.Version = nextVersion();
+  }));
+
+  const assertVersion = (sheetName: string, position: number, expectedVersion: string | undefined) => {
+    const stored = tables[sheetName][position];
+    if (expectedVersion && stored.Version && stored.Version !== expectedVersion) {
+      throw new ConflictError(
+        `Row ${position + FIRST_DATA_ROW} in "${sheetName}" was changed by someone else.`,
+        { ...stored, rowIndex: position + FIRST_DATA_ROW } as SheetRow
+      );
+    }
+  };
+
+  const readAll = <T extends SheetRow>(sheetName: string): T[] => {
+    // Unknown sheets read as empty, matching a freshly created tab in the spreadsheet.
+    const sheet = tables[sheetName] ?? [];
+    return sheet.map((row, position) => ({ ...row, rowIndex: position + FIRST_DATA_ROW }) as T);
+  };
+
+  // Batches are made atomic by snapshotting everything a write touches and restoring it on failure.
+  const snapshotState = () => JSON.stringify({ tables, rowStamps, lastDeleteStamp, clock });
+  const restoreState = (saved: string) => {
+    const state = JSON.parse(saved);
+    [[tables, state.tables], [rowStamps, state.rowStamps], [lastDeleteStamp, state.lastDeleteStamp]].forEach(([target, source]) => {
+      Object.keys(target).forEach(key => delete target[key]);
+      Object.assign(target, source);
+    });
+    clock = state.clock;
+  };
+
+  // Another tab saved its edits: adopt them and announce the sheets that changed, so this
+  // tab updates straight away, as it would from the push relay with the live spreadsheet.
+  if (persist && typeof window !== 'undefined') {
+    window.addEventListener('storage', event => {
+      if (event.key !== STORAGE_KEY || !event.newValue) return;
+      let saved: SheetTables;
+      try {
+        saved = JSON.parse(event.newValue);
+      } catch {
+        return;
+      }
+      Object.keys(saved).forEach(sheetName => {
+        if (JSON.stringify(saved[sheetName]) === JSON.stringify(tables[sheetName])) return;
+        tables[sheetName] = saved[sheetName];
+        rowStamps[sheetName] = [];
+        // Rows may have moved, so the next read of this sheet is a full one.
+        lastDeleteStamp[sheetName] = ++clock;
+        publishLocalPushEvent({ type: 'sheet', sheet: sheetName });
+      });
+    });
+  }
+
+  const backend: DataBackend = {
+    name: 'local',
+
+    read: async <T extends SheetRow>(sheetName: string): Promise<T[]> => readAll<T>(sheetName),
+
+    readChanges: async <T extends SheetRow>(sheetName: string, since: string | null): Promise<SheetDelta<T>> => {
+      const sinceStamp = parseCursor(since);
+      const cursor = `${epoch}:${clock}`;
+      const rows = readAll<T>(sheetName);
+
+      if (sinceStamp === null || (lastDeleteStamp[sheetName] ?? 0) > sinceStamp) {
+        return { rows, cursor, full: true };
+      }
+      const stamps = getStamps(sheetName);
+      return { rows: rows.filter((_, position) => stamps[position] > sinceStamp), cursor, full: false };
+    },
+
+    create: async (sheetName, rowData) => {
+      if (!tables[sheetName]) tables[sheetName] = [];
+      // A create replayed from the outbox after it was applied finds its row already there.
+      const existing = rowData.ID ? tables[sheetName].findIndex(row => row.ID === rowData.ID) : -1;
+      if (existing >= 0) {
+        return { rowIndex: existing + FIRST_DATA_ROW, ID: rowData.ID, Version: tables[sheetName][existing].Version };
+      }
+      const stamps = getStamps(sheetName);
+      const Version = nextVersion();
+      tables[sheetName].push({ ...toStoredRow(rowData), Version });
+      stamps.push(++clock);
+      save();
+      return { rowIndex: tables[sheetName].length - 1 + FIRST_DATA_ROW, ID: rowData.ID, Version };
+    },
+
+    update: async (sheetName, rowData) => {
+      const position = toPosition(sheetName, rowData);
+      assertVersion(sheetName, position, rowData.Version);
+      const Version = nextVersion();
+      tables[sheetName][position] = { ...tables[sheetName][position], ...toStoredRow(rowData), Version };
+      getStamps(sheetName)[position] = ++clock;
+      save();
+      return { rowIndex: position + FIRST_DATA_ROW, ID: tables[sheetName][position].ID, Version };
+    },
+
+    remove: async (sheetName, target) => {
+      const position = toPosition(sheetName, target);
+      assertVersion(sheetName, position, target.Version);
+      const { ID, Version } = tables[sheetName][position];
+      getStamps(sheetName).splice(position, 1);
+      tables[sheetName].splice(position, 1);
+      lastDeleteStamp[sheetName] = ++clock;
+      save();
+      // The Version of the row deleted, as the Apps Script answers.
+      return { rowIndex: position + FIRST_DATA_ROW, ID, Version };
+    },
+
+    batch: async operations => {
+      const saved = snapshotState();
+      const results: WriteResult[] = [];
+      const failures = new Map<number, Error>();
+      inBatch = true;
+      try {
+        for (const [position, { kind, sheetName, row }] of operations.entries()) {
+          try {
+            if (kind === 'create') results.push(await backend.create(sheetName, row));
+            else if (kind === 'update') results.push(await backend.update(sheetName, row as SheetRow));
+            else results.push(await backend.remove(sheetName, row as RowTarget));
+          } catch (error) {
+            // Keep going, so the caller learns about every operation that would fail.
+            failures.set(position, error instanceof Error ? error : new Error(String(error)));
+          }
+        }
+      } finally {
+        inBatch = false;
+      }
+      if (failures.size > 0) {
+        restoreState(saved);
+        throw new BatchError(failures);
+      }
+      save();
+      return results;
+    },
+
+    // No Drive here, so files are kept inline as data URLs.
+    uploadFile: async (_fileName, mimeType, data) => ({ url: `data:${mimeType};base64,${data}` }),
+  };
+  return backend;
+};
+
+/** Throws away local edits and restores the seeded fixtures on the next load. */
+export const resetLocalBackendData = (): void => {
+  if (hasStorage()) {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+};
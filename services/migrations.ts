@@ -0,0 +1,66 @@
+import { SheetRow } from '../types';
+import { fetchData, updateRow } from './googleSheetService';
+import { ConflictError } from './errors';
+import { recordAudit } from './auditService';
+import { refreshSheet } from './sheetStore';
+import { generateRowId } from './rowIds';
+import { getSheetName } from './stationConfig';
+
+/**
+ * Sheets whose rows the dashboard edits or refers to, and so need stable IDs. Users is
+ * not one of them: only the Apps Script's account actions write it, and they give every
+ * account an ID.
+ */
+export const ROW_ID_SHEETS = (['requests', 'registrations', 'announcements', 'schedule', 'knowledgeBase'] as const)
+  .map(key => getSheetName(key));
+
+export interface BackfillResult {
+  sheetName: string;
+  totalRows: number;
+  assigned: number;
+  /** Rows that changed while the backfill ran; running it again picks them up. */
+  skipped: number;
+  error?: string;
+}
+
+/**
+ * Gives every row without an ID a fresh UUID. Safe to run repeatedly: rows that
+ * already have an ID are left alone. Each write carries the row's Version, so a
+ * row edited or shifted mid-run is skipped rather than given the wrong ID. Each ID
+ * given is recorded in the audit log like any other edit.
+ */
+export const backfillRowIds = async (
+  sheetNames: string[] = ROW_ID_SHEETS,
+  onProgress?: (result: BackfillResult) => void
+): Promise<BackfillResult[]> => {
+  const results: BackfillResult[] = [];
+
+  for (const sheetName of sheetNames) {
+    const result: BackfillResult = { sheetName, totalRows: 0, assigned: 0, skipped: 0 };
+    try {
+      const rows = await fetchData<SheetRow>(sheetName);
+      result.totalRows = rows.length;
+      for (const row of rows.filter(r => !r.ID)) {
+        try {
+          const ID = generateRowId();
+          await updateRow(sheetName, { rowIndex: row.rowIndex, Version: row.Version, ID });
+          result.assigned++;
+          await recordAudit('update', { sheet: sheetName, rowId: ID, rowIndex: row.rowIndex, before: row, after: { ...row, ID } });
+        } catch (error) {
+          if (!(error instanceof ConflictError)) throw error;
+          result.skipped++;
+        }
+      }
+      if (result.assigned > 0) {
+        refreshSheet(sheetName).catch(error => console.error(`Migration Error (refresh ${sheetName}):`, error));
+      }
+    } catch (error) {
+      console.error(`Migration Error (backfillRowIds ${sheetName}):`, error);
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+    results.push(result);
+    onProgress?.(result);
+  }
+
+  return results;
+};
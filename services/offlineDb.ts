@@ -0,0 +1,104 @@
+/**
+ * A minimal promise wrapper around the browser's IndexedDB, used for the write
+ * outbox and the last-known sheet snapshots. Where IndexedDB is unavailable
+ * (private browsing in some browsers, Node scripts) it degrades to in-memory
+ * storage, so offline support is lost on reload but nothing else breaks.
+ */
+
+import { stationScopedKey } from './stationConfig';
+
+// One database per station, so queued writes are never replayed against another station's sheets.
+const DB_NAME = stationScopedKey('edenFmOffline');
+const DB_VERSION = 1;
+
+export const OUTBOX_STORE = 'outbox';
+export const SNAPSHOT_STORE = 'snapshots';
+
+type StoreName = typeof OUTBOX_STORE | typeof SNAPSHOT_STORE;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+const memoryStores: Record<StoreName, Map<IDBValidKey, any>> = {
+  [OUTBOX_STORE]: new Map(),
+  [SNAPSHOT_STORE]: new Map(),
+};
+let memoryOutboxKey = 0;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+          db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'sheetName' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('Offline DB: IndexedDB unavailable, falling back to memory.', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  if (!db) throw new Error('IndexedDB unavailable');
+  return requestToPromise(run(db.transaction(storeName, mode).objectStore(storeName)));
+};
+
+/** Every record in a store, in key order (so the outbox comes back oldest first). */
+export const getAllRecords = async <T>(storeName: StoreName): Promise<T[]> => {
+  if (!(await openDb())) return Array.from(memoryStores[storeName].values());
+  return withStore<T[]>(storeName, 'readonly', store => store.getAll());
+};
+
+export const getRecord = async <T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+  if (!(await openDb())) return memoryStores[storeName].get(key);
+  return withStore<T | undefined>(storeName, 'readonly', store => store.get(key));
+};
+
+/** Inserts or replaces a record. Resolves with its key (assigned for new outbox entries). */
+export const putRecord = async (storeName: StoreName, record: Record<string, any>): Promise<IDBValidKey> => {
+  if (!(await openDb())) {
+    const key = storeName === OUTBOX_STORE ? (record.id ?? ++memoryOutboxKey) : record.sheetName;
+    memoryStores[storeName].set(key, { ...record, ...(storeName === OUTBOX_STORE ? { id: key } : {}) });
+    return key;
+  }
+  return withStore<IDBValidKey>(storeName, 'readwrite', store => store.put(record));
+};
+
+export const deleteRecord = async (storeName: StoreName, key: IDBValidKey): Promise<void> => {
+  if (!(await openDb())) {
+    memoryStores[storeName].delete(key);
+    return;
+  }
+  await withStore(storeName, 'readwrite', store => store.delete(key));
+};
+
+export const clearRecords = async (storeName: StoreName): Promise<void> => {
+  if (!(await openDb())) {
+    memoryStores[storeName].clear();
+    return;
+  }
+  await withStore(storeName, 'readwrite', store => store.clear());
+};
@@ -0,0 +1,233 @@
+import { SheetRow } from '../types';
+import { BatchOperation } from './dataBackend';
+import { OUTBOX_STORE, deleteRecord, getAllRecords, putRecord } from './offlineDb';
+import { getCurrentSession } from './authService';
+import { NetworkError, QuotaError, describeError } from './errors';
+
+/**
+ * The offline write outbox.
+ *
+ * When the studio connection drops, sheet writes and WhatsApp sends are queued
+ * here (persisted in IndexedDB) instead of failing. Entries replay strictly in
+ * the order they were queued once the browser is back online; a network failure
+ * during replay backs off and retries, while a rejection from the backend (e.g. a
+ * version conflict) marks that entry failed so a person can retry or discard it.
+ *
+ * The outbox does not know how to perform writes itself: sheetStore and
+ * twoChatService register a handler for each kind of entry.
+ */
+
+export type OutboxKind = 'create' | 'update' | 'delete' | 'batch' | 'message';
+
+export interface OutboxEntry {
+  id?: number;
+  kind: OutboxKind;
+  sheetName?: string;
+  /** The row to create, the update payload, or the row to delete. */
+  row?: Partial<SheetRow>;
+  /** The writes of a batch, replayed as one atomic batch. */
+  operations?: BatchOperation[];
+  /** WhatsApp number and text, for messages. */
+  to?: string;
+  text?: string;
+  queuedAt: string;
+  /** Who made the change, so the audit log credits them rather than whoever is signed in at replay. */
+  queuedBy: string;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  /** Rejected by the backend. Failed entries are skipped until retried or discarded. */
+  failed?: boolean;
+}
+
+export interface OutboxSnapshot {
+  entries: OutboxEntry[];
+  isOnline: boolean;
+  isReplaying: boolean;
+}
+
+type Listener = () => void;
+type Handler = (entry: OutboxEntry) => Promise<unknown>;
+
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+
+const handlers: Partial<Record<OutboxKind, Handler>> = {};
+const listeners = new Set<Listener>();
+let pendingChangeListener: ((sheetName: string) => void) | null = null;
+
+let entries: OutboxEntry[] = [];
+
+// The sheets an entry writes to, so their views can re-overlay it.
+const entrySheets = (entry: OutboxEntry) => entry.operations?.map(op => op.sheetName) ?? [entry.sheetName];
+let loading: Promise<void> | null = null;
+let isReplaying = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const browserIsOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+let snapshot: OutboxSnapshot = { entries, isOnline: browserIsOnline(), isReplaying };
+
+const notify = (changedSheets: (string | undefined)[] = []) => {
+  snapshot = { entries, isOnline: browserIsOnline(), isReplaying };
+  listeners.forEach(listener => listener());
+  new Set(changedSheets).forEach(sheetName => {
+    if (sheetName && pendingChangeListener) pendingChangeListener(sheetName);
+  });
+};
+
+/**
+ * Whether an error means "could not reach the server" rather than "the server said no".
+ * The transport reports unreachable servers and timeouts as NetworkError.
+ */
+export const isNetworkError = (error: unknown): boolean =>
+  !browserIsOnline() || error instanceof NetworkError;
+
+export const isOffline = (): boolean => !browserIsOnline();
+
+export const registerOutboxHandler = (kind: OutboxKind, handler: Handler): void => {
+  handlers[kind] = handler;
+  if (loading) replayOutbox();
+};
+
+/** Called with a sheet's name whenever its queued writes change (queued, replayed or discarded). */
+export const setPendingChangeListener = (listener: (sheetName: string) => void): void => {
+  pendingChangeListener = listener;
+};
+
+const ensureLoaded = (): Promise<void> => {
+  if (!loading) {
+    loading = getAllRecords<OutboxEntry>(OUTBOX_STORE)
+      .then(saved => {
+        entries = saved;
+        notify(entries.flatMap(entrySheets));
+        if (entries.length > 0) replayOutbox();
+      })
+      .catch(error => console.error('Outbox Error (load):', error));
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => { notify(); replayOutbox(); });
+      window.addEventListener('offline', () => notify());
+    }
+  }
+  return loading;
+};
+
+export const getOutboxSnapshot = (): OutboxSnapshot => snapshot;
+
+export const subscribeToOutbox = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  ensureLoaded();
+  return () => listeners.delete(listener);
+};
+
+/** True while earlier writes are still waiting, so new ones must queue behind them to keep their order. */
+export const hasQueuedWrites = (): boolean => entries.some(e => !e.failed);
+
+/** Queued sheet writes not yet replayed, oldest first. Views overlay these on the cached rows. */
+export const getPendingWrites = (sheetName: string): BatchOperation[] =>
+  entries
+    .filter(e => !e.failed && e.kind !== 'message')
+    .flatMap(e => e.operations ?? [{ kind: e.kind as BatchOperation['kind'], sheetName: e.sheetName!, row: e.row! }])
+    .filter(op => op.sheetName === sheetName);
+
+export const enqueue = async (
+  entry: Pick<OutboxEntry, 'kind' | 'sheetName' | 'row' | 'operations' | 'to' | 'text'>
+): Promise<OutboxEntry> => {
+  await ensureLoaded();
+  const queued: OutboxEntry = {
+    ...entry,
+    queuedAt: new Date().toISOString(),
+    queuedBy: getCurrentSession()?.username ?? 'unknown',
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+  };
+  queued.id = Number(await putRecord(OUTBOX_STORE, queued));
+  entries = [...entries, queued];
+  notify(entrySheets(queued));
+  replayOutbox();
+  return queued;
+};
+
+const saveEntry = async (entry: OutboxEntry) => {
+  await putRecord(OUTBOX_STORE, entry);
+  entries = entries.map(e => (e.id === entry.id ? entry : e));
+};
+
+const removeEntry = async (entry: OutboxEntry) => {
+  if (entry.id != null) await deleteRecord(OUTBOX_STORE, entry.id);
+  entries = entries.filter(e => e.id !== entry.id);
+};
+
+const retryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_MS * 2 ** (attempts - 1), MAX_RETRY_MS) * (0.8 + Math.random() * 0.4);
+
+const scheduleRetry = () => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  const next = entries.find(e => !e.failed);
+  // Without a handler the entry waits for registerOutboxHandler rather than a timer.
+  if (!next || !handlers[next.kind] || !browserIsOnline()) return;
+  retryTimer = setTimeout(replayOutbox, Math.max(0, next.nextAttemptAt - Date.now()));
+};
+
+/**
+ * Replays queued entries in order. Stops at the first network failure so nothing
+ * overtakes an earlier write, and schedules the next attempt with exponential backoff.
+ */
+export const replayOutbox = async (): Promise<void> => {
+  if (isReplaying) return;
+  await ensureLoaded();
+  if (!browserIsOnline()) return;
+
+  isReplaying = true;
+  notify();
+  const touchedSheets: (string | undefined)[] = [];
+  try {
+    for (const entry of [...entries]) {
+      if (entry.failed) continue;
+      if (entry.nextAttemptAt > Date.now()) break;
+      const handler = handlers[entry.kind];
+      if (!handler) break;
+
+      try {
+        await handler(entry);
+        await removeEntry(entry);
+        touchedSheets.push(...entrySheets(entry));
+      } catch (error) {
+        const message = describeError(error);
+        // A quota clears by itself, like a dropped connection; anything else needs a person.
+        if (isNetworkError(error) || error instanceof QuotaError) {
+          const attempts = entry.attempts + 1;
+          await saveEntry({ ...entry, attempts, nextAttemptAt: Date.now() + retryDelay(attempts), lastError: message });
+          break;
+        }
+        console.error(`Outbox Error (replay ${entry.kind}${entry.sheetName ? ` ${entry.sheetName}` : ''}):`, error);
+        await saveEntry({ ...entry, failed: true, lastError: message });
+        touchedSheets.push(...entrySheets(entry));
+      }
+    }
+  } finally {
+    isReplaying = false;
+    notify(touchedSheets);
+    scheduleRetry();
+  }
+};
+
+/** Puts a failed entry back in the queue, in its original position. */
+export const retryEntry = async (id: number): Promise<void> => {
+  const entry = entries.find(e => e.id === id);
+  if (!entry) return;
+  await saveEntry({ ...entry, failed: false, attempts: 0, nextAttemptAt: Date.now(), lastError: undefined });
+  notify(entrySheets(entry));
+  replayOutbox();
+};
+
+/** Drops an entry without sending it. */
+export const discardEntry = async (id: number): Promise<void> => {
+  const entry = entries.find(e => e.id === id);
+  if (!entry) return;
+  await removeEntry(entry);
+  notify(entrySheets(entry));
+  scheduleRetry();
+};
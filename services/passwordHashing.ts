@@ -0,0 +1,72 @@
+// Password hashing and token helpers built on the Web Crypto API,
+// which is available both in the browser and in Node 20+.
+
+const PBKDF2_ITERATIONS = 210000;
+const SALT_BYTES = 16;
+const TOKEN_BYTES = 32;
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string): Uint8Array => {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+};
+
+const randomHex = (byteCount: number): string =>
+  toHex(crypto.getRandomValues(new Uint8Array(byteCount)));
+
+export const generateSalt = (): string => randomHex(SALT_BYTES);
+
+/** An opaque, unguessable session token. */
+export const generateToken = (): string => randomHex(TOKEN_BYTES);
+
+/**
+ * Derives a PBKDF2-SHA256 hash of the password with the given hex salt.
+ * Returns the hash as hex so it can be stored in a sheet cell.
+ */
+export const hashPassword = async (password: string, salt: string): Promise<string> => {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromHex(salt), iterations: PBKDF2_ITERATIONS },
+    keyMaterial,
+    256
+  );
+  return toHex(new Uint8Array(bits));
+};
+
+/** SHA-256 of a session token. Only the digest is stored, so a leaked Sessions sheet cannot be replayed. */
+export const hashToken = async (token: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return toHex(new Uint8Array(digest));
+};
+
+// Compares every character so the time taken does not reveal how much of the hash matched.
+export const constantTimeEquals = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return mismatch === 0;
+};
+
+export const verifyPassword = async (password: string, salt: string, expectedHash: string): Promise<boolean> =>
+  constantTimeEquals(await hashPassword(password, salt), expectedHash);
+
+/** A readable temporary password for resets, e.g. "k7rm-pq2x-9dfe". */
+export const generateTemporaryPassword = (): string => {
+  const alphabet = 'abcdefghjkmnpqrstuvwxyz23456789';
+  const bytes = crypto.getRandomValues(new Uint8Array(12));
+  const chars = Array.from(bytes, b => alphabet[b % alphabet.length]).join('');
+  return `${chars.slice(0, 4)}-${chars.slice(4, 8)}-${chars.slice(8, 12)}`;
+};
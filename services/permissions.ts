@@ -0,0 +1,102 @@
+import { Role } from '../types';
+
+/**
+ * Everything a signed-in user may be allowed to do. Views are gated by
+ * `view:*` permissions; the rest guard individual actions inside components.
+ */
+export type Permission =
+  | 'view:overview'
+  | 'view:requests'
+  | 'view:registrations'
+  | 'view:news'
+  | 'view:local-news'
+  | 'view:voice-tools'
+  | 'view:ai-analyst'
+  | 'view:admin'
+  | 'requests:manage'          // mark requests read, dismiss them
+  | 'registrations:view-pii'   // the registered users list (names, emails)
+  | 'registrations:edit'
+  | 'announcements:edit'
+  | 'shows:edit'               // TimeSlots via Show Management
+  | 'chat:reply'               // WhatsApp live chat
+  | 'agent:configure'          // WhatsApp Agent settings and knowledge base
+  | 'rows:delete'
+  | 'users:manage'
+  | 'audit:view'
+  | 'data:maintain'            // one-off migrations such as the row ID backfill
+  | 'ai:view-usage'            // AI requests and tokens per user, from the companion server
+  | 'settings:edit';           // backend URL, sheet and column mapping
+
+export const ROLES: { id: Role; label: string }[] = [
+  { id: 'presenter', label: 'Presenter' },
+  { id: 'producer', label: 'Producer' },
+  { id: 'admin', label: 'Station Admin' },
+];
+
+const PRESENTER_PERMISSIONS: Permission[] = [
+  'view:overview',
+  'view:requests',
+  'view:registrations',
+  'view:news',
+  'view:local-news',
+  'view:voice-tools',
+  'view:ai-analyst',
+  'requests:manage',
+];
+
+const PRODUCER_PERMISSIONS: Permission[] = [
+  ...PRESENTER_PERMISSIONS,
+  'view:admin',
+  'announcements:edit',
+  'shows:edit',
+  'chat:reply',
+];
+
+const ROLE_PERMISSIONS: Record<Role, ReadonlySet<Permission>> = {
+  presenter: new Set(PRESENTER_PERMISSIONS),
+  producer: new Set(PRODUCER_PERMISSIONS),
+  admin: new Set<Permission>([
+    ...PRODUCER_PERMISSIONS,
+    'registrations:view-pii',
+    'registrations:edit',
+    'agent:configure',
+    'rows:delete',
+    'users:manage',
+    'audit:view',
+    'data:maintain',
+    'ai:view-usage',
+    'settings:edit',
+  ]),
+};
+
+/**
+ * Maps the Role cell of the Users sheet to a known role. Accounts created
+ * before roles existed were 'dj', which is a presenter; anything unrecognised
+ * gets the least access. The companion server does the same in server/roles.ts.
+ */
+export const normalizeRole = (value: string | undefined): Role => {
+  const role = (value || '').trim().toLowerCase();
+  if (role === 'admin' || role === 'producer') return role;
+  return 'presenter';
+};
+
+export const hasPermission = (role: Role, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role].has(permission);
+
+/** The permission needed to open each dashboard view. */
+export const VIEW_PERMISSIONS: Record<string, Permission> = {
+  overview: 'view:overview',
+  requests: 'view:requests',
+  registrations: 'view:registrations',
+  'registrations-list': 'registrations:view-pii',
+  news: 'view:news',
+  'local-news': 'view:local-news',
+  'voice-tools': 'view:voice-tools',
+  'ai-analyst': 'view:ai-analyst',
+  admin: 'view:admin',
+};
+
+export const canOpenView = (role: Role, view: string): boolean => {
+  const permission = VIEW_PERMISSIONS[view];
+  return !!permission && hasPermission(role, permission);
+};
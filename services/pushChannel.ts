@@ -0,0 +1,136 @@
+import { getStationConfig } from './stationConfig';
+
+/**
+ * Push updates: instead of waiting for the next poll, the dashboard hears about new
+ * requests, registrations and WhatsApp messages as they arrive.
+ *
+ * Events only name what changed, never whose WhatsApp conversation it was; the sheet
+ * store and the WhatsApp view refetch it through their usual paths, so an event
+ * carries no data and needs no sign-in.
+ * Two channels deliver them:
+ *  - the relay: a Server-Sent Events stream from the companion server in server/,
+ *    which the Apps Script notifies on every change,
+ *  - the local channel: events published in this browser, used with DATA_BACKEND=local
+ *    (where no Apps Script notifies the server) so the local backend can show other tabs' edits straight away.
+ * Polling stays on as a safety net, at a slower pace while a channel is live.
+ */
+
+export type PushEvent =
+  | { type: 'sheet'; sheet: string }
+  | { type: 'message' }
+  // The channel reconnected and may have missed events; anything on screen should be refetched.
+  | { type: 'reconnected' };
+
+export type PushStatus = 'off' | 'connecting' | 'live';
+
+export interface PushChannel {
+  name: 'relay' | 'local';
+  /** Starts delivering events. Returns a function that stops it. */
+  connect(onEvent: (event: PushEvent) => void, onStatus: (status: PushStatus) => void): () => void;
+}
+
+/** Listens to the companion server's event stream for a station. EventSource reconnects by itself. */
+export const createRelayPushChannel = (serverUrl: string, stationId: string): PushChannel => ({
+  name: 'relay',
+  connect(onEvent, onStatus) {
+    const url = `${serverUrl.replace(/\/+$/, '')}/events?station=${encodeURIComponent(stationId)}`;
+    const source = new EventSource(url);
+    let hasOpened = false;
+    onStatus('connecting');
+
+    source.onopen = () => {
+      // The relay replays recent events by Last-Event-ID, but a long outage can outlast its buffer.
+      if (hasOpened) onEvent({ type: 'reconnected' });
+      hasOpened = true;
+      onStatus('live');
+    };
+    source.onerror = () => onStatus(source.readyState === EventSource.CLOSED ? 'off' : 'connecting');
+    source.addEventListener('update', message => {
+      try {
+        onEvent(JSON.parse((message as MessageEvent).data));
+      } catch (error) {
+        console.error('Push Channel Error (bad event):', error);
+      }
+    });
+    return () => source.close();
+  },
+});
+
+const localListeners = new Set<(event: PushEvent) => void>();
+
+/** Delivers events published with publishLocalPushEvent. */
+export const createLocalPushChannel = (): PushChannel => ({
+  name: 'local',
+  connect(onEvent, onStatus) {
+    localListeners.add(onEvent);
+    onStatus('live');
+    return () => {
+      localListeners.delete(onEvent);
+    };
+  },
+});
+
+/** Publishes an event on the local channel, e.g. when the local backend sees another tab's edit. */
+export const publishLocalPushEvent = (event: PushEvent): void => {
+  localListeners.forEach(listener => listener(event));
+};
+
+/** The channel for the active station, or null when there is none to listen to. */
+const chooseChannel = (): PushChannel | null => {
+  const config = getStationConfig();
+  if (process.env.DATA_BACKEND === 'local') return createLocalPushChannel();
+  if (config.serverUrl) return createRelayPushChannel(config.serverUrl, config.id);
+  return null;
+};
+
+const eventListeners = new Set<(event: PushEvent) => void>();
+const statusListeners = new Set<() => void>();
+let status: PushStatus = 'off';
+let disconnect: (() => void) | null = null;
+
+const setStatus = (next: PushStatus) => {
+  if (next === status) return;
+  status = next;
+  statusListeners.forEach(listener => listener());
+};
+
+const dispatch = (event: PushEvent) => {
+  eventListeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error(`Push Channel Error (${event.type} listener):`, error);
+    }
+  });
+};
+
+/** Connects the push channel, if the station has one. Safe to call again while connected. */
+export const startPushUpdates = (): void => {
+  if (disconnect) return;
+  const channel = chooseChannel();
+  if (!channel) return;
+  disconnect = channel.connect(dispatch, setStatus);
+};
+
+export const stopPushUpdates = (): void => {
+  disconnect?.();
+  disconnect = null;
+  setStatus('off');
+};
+
+/** Calls `listener` with every push event. Returns the unsubscribe function. */
+export const subscribeToPushEvents = (listener: (event: PushEvent) => void): (() => void) => {
+  eventListeners.add(listener);
+  return () => {
+    eventListeners.delete(listener);
+  };
+};
+
+export const getPushStatus = (): PushStatus => status;
+
+export const subscribeToPushStatus = (listener: () => void): (() => void) => {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+};
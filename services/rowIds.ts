@@ -0,0 +1,19 @@
+import { SheetRow } from '../types';
+
+/**
+ * Rows are identified by the UUID in their ID column, assigned when the row is
+ * created. `rowIndex` is only where the row sits right now: deleting a row shifts
+ * every index below it, so it must never be used to remember a row.
+ */
+
+export const generateRowId = (): string => crypto.randomUUID();
+
+/**
+ * A stable key for React lists and lookups. Rows written before IDs existed fall
+ * back to their position until the ID backfill has run over their sheet.
+ */
+export const getRowKey = (row: Pick<SheetRow, 'rowIndex' | 'ID'>): string =>
+  row.ID ? String(row.ID) : `row-${row.rowIndex}`;
+
+export const isSameRow = (a: Pick<SheetRow, 'rowIndex' | 'ID'>, b: Pick<SheetRow, 'rowIndex' | 'ID'>): boolean =>
+  getRowKey(a) === getRowKey(b);
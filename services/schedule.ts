@@ -0,0 +1,63 @@
+import { RadioShow } from '../types';
+
+/**
+ * The station's programme schedule (the TimeSlots sheet), as the dashboard uses it to
+ * link requests and registrations to the show that was on when they came in. The
+ * companion server applies the same rule for the WhatsApp agent (server/agent/schedule.ts).
+ */
+
+// Maps JS Date's getDay() index to a full day name.
+const dayFullNameMap: { [key: number]: string } = { 0: 'Sunday', 1: 'Monday', 2: 'Tuesday', 3: 'Wednesday', 4: 'Thursday', 5: 'Friday', 6: 'Saturday' };
+
+/**
+ * Determines if a show is on air at a specific date and time.
+ * Handles shows that cross midnight (e.g., 22:00 - 02:00).
+ * @param show - The RadioShow object.
+ * @param date - The Date object of the event.
+ * @returns boolean - True if the show is on air.
+ */
+export const isShowOnAir = (show: RadioShow, date: Date): boolean => {
+  // Day holds full day names, expanded from 'Day(s) of Week' by the TimeSlots schema.
+  const startTimeValue = show['Start'];
+  const endTimeValue = show['End'];
+
+  if (!show.Day || !startTimeValue || !endTimeValue) return false;
+
+  const scheduledDays = new Set(show.Day.split(',').map(day => day.trim()));
+
+  const currentDayName = dayFullNameMap[date.getDay()];
+  const previousDayName = dayFullNameMap[(date.getDay() + 6) % 7]; // The day before the event's date
+
+  const startTimeStr = String(startTimeValue);
+  const [startH, startM] = startTimeStr.split(':').map(Number);
+  if (isNaN(startH) || isNaN(startM)) return false;
+  const startTime = startH * 60 + startM;
+
+  const endTimeStr = String(endTimeValue);
+  const [endH, endM] = endTimeStr.split(':').map(Number);
+  if (isNaN(endH) || isNaN(endM)) return false;
+  const endTime = endH * 60 + endM;
+  
+  const currentTime = date.getHours() * 60 + date.getMinutes();
+
+  const crossesMidnight = endTime < startTime;
+
+  if (crossesMidnight) {
+    // For an overnight show (e.g., Fri 22:00 - Sat 02:00):
+    // Match if it's the start day (Fri) AND the time is after the start time.
+    const isAfterStartTimeOnStartDay = scheduledDays.has(currentDayName) && currentTime >= startTime;
+    // OR match if it's the day after the start day (Sat) AND the time is before the end time.
+    // We check `scheduledDays` for the *previous* day name because the schedule lists the start day.
+    const isBeforeEndTimeOnNextDay = scheduledDays.has(previousDayName) && currentTime < endTime;
+    
+    return isAfterStartTimeOnStartDay || isBeforeEndTimeOnNextDay;
+  } else {
+    // For a same-day show (e.g., Mon 09:00 - Mon 12:00):
+    // Match if it's the correct day AND the time is within the start/end bounds.
+    return scheduledDays.has(currentDayName) && currentTime >= startTime && currentTime < endTime;
+  }
+};
+
+/** The show on air at `date`, if any. */
+export const findShowOnAir = (schedule: RadioShow[], date: Date): RadioShow | undefined =>
+  schedule.find(show => isShowOnAir(show, date));
@@ -0,0 +1,263 @@
+import { SheetRow } from '../types';
+import { SheetKey, getSheetKey, getSheetName } from './stationConfig';
+import { DataQualityIssue, ValidationError } from './errors';
+
+/**
+ * Per-sheet schemas for the sheets the dashboard reads and writes.
+ *
+ * Sheet cells arrive in whatever shape Google Sheets hands them over: dates as
+ * ISO timestamps, times as "1970-01-01T14:30:00.000Z" or "14:30:00 GMT+2",
+ * phone numbers as numbers. On read every row is normalized to the shape
+ * declared in types.ts, and anything that cannot be normalized is reported as a
+ * data-quality issue (the row is kept, with the unparseable value left as it was,
+ * so nobody's request disappears and an edit never overwrites the original).
+ * On write, payloads are normalized the same way and rejected with a
+ * ValidationError when a value is malformed or a required column is empty.
+ */
+
+export type FieldType = 'text' | 'date' | 'time' | 'datetime' | 'phone' | 'email' | 'url' | 'yesNo' | 'days';
+
+export interface FieldRule {
+  type: FieldType;
+  required?: boolean;
+}
+
+export interface SheetSchema {
+  sheet: SheetKey;
+  /** Human-readable name of one row, for messages ("song request"). */
+  rowLabel: string;
+  fields: Record<string, FieldRule>;
+  /** Derives extra columns after the fields are normalized. */
+  derive?: (row: SheetRow) => SheetRow;
+}
+
+// --- Value normalizers. Each returns the canonical string, or null when the value cannot be understood. ---
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const normalizeDate = (value: string): string | null => {
+  // "2025-11-16" or "2025-11-16T00:00:00.000Z" (a Date cell serialized by Apps Script)
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:T.*)?$/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  // "16/11/2025", as typed by hand in South African sheets
+  const dmy = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (dmy) return `${dmy[3]}-${pad(Number(dmy[2]))}-${pad(Number(dmy[1]))}`;
+  return null;
+};
+
+const normalizeTime = (value: string): string | null => {
+  // A Time cell serialized as "1970-01-01T14:30:00.000Z": keep the clock time as written.
+  const timePart = /^\d{4}-\d{2}-\d{2}T/.test(value) ? value.split('T')[1] : value.split(' ')[0];
+  const match = timePart.match(/^(\d{1,2})[:h](\d{2})(?::(\d{2}))?/);
+  if (!match) return null;
+  const [, h, m, s] = match;
+  if (Number(h) > 23 || Number(m) > 59) return null;
+  return s ? `${pad(Number(h))}:${m}:${s}` : `${pad(Number(h))}:${m}`;
+};
+
+const SHORT_DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const FULL_DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+const dayIndex = (name: string) => {
+  const short = name.trim().slice(0, 3).toLowerCase();
+  return SHORT_DAYS.findIndex(day => day.toLowerCase() === short);
+};
+
+/** Expands "Mon-Wed, Fri" (or full names) to "Monday, Tuesday, Wednesday, Friday". */
+const normalizeDays = (value: string): string | null => {
+  const days = new Set<number>();
+  for (const part of value.split(',').map(p => p.trim()).filter(Boolean)) {
+    const [from, to] = part.split('-');
+    const start = dayIndex(from);
+    const end = to === undefined ? start : dayIndex(to);
+    if (start < 0 || end < 0 || end < start) return null;
+    for (let i = start; i <= end; i++) days.add(i);
+  }
+  if (days.size === 0) return null;
+  return Array.from(days).sort().map(i => FULL_DAYS[i]).join(', ');
+};
+
+const normalizers: Record<FieldType, (value: string) => string | null> = {
+  text: value => value,
+  date: normalizeDate,
+  time: normalizeTime,
+  datetime: value => (isNaN(Date.parse(value)) ? null : value),
+  phone: value => {
+    const compact = value.replace(/[\s\-()]/g, '');
+    return /^\+?\d{9,15}$/.test(compact) ? compact : null;
+  },
+  email: value => (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) ? value.toLowerCase() : null),
+  url: value => (/^https?:\/\/\S+$/.test(value) ? value : null),
+  yesNo: value => {
+    const lower = value.toLowerCase();
+    if (['yes', 'y', 'true', '1'].includes(lower)) return 'Yes';
+    if (['no', 'n', 'false', '0'].includes(lower)) return '';
+    return null;
+  },
+  days: normalizeDays,
+};
+
+const problems: Record<FieldType, string> = {
+  text: '',
+  date: 'expected a date like 2025-11-17',
+  time: 'expected a time like 14:30',
+  datetime: 'expected a date and time',
+  phone: 'expected a phone number with country code, digits only',
+  email: 'expected an email address',
+  url: 'expected a link starting with http:// or https://',
+  yesNo: 'expected Yes or blank',
+  days: 'expected days like "Mon-Fri" or "Saturday, Sunday"',
+};
+
+// --- Schemas ---
+
+const SCHEMAS: SheetSchema[] = [
+  {
+    sheet: 'requests',
+    rowLabel: 'song request',
+    fields: {
+      Date: { type: 'date', required: true },
+      Time: { type: 'time', required: true },
+      Show: { type: 'text' },
+      'Requester Name': { type: 'text', required: true },
+      Whatsapp: { type: 'phone' },
+      'Request type': { type: 'text' },
+      'Show preferrence': { type: 'text' },
+      'Song requested': { type: 'text' },
+      'Dedication to': { type: 'text' },
+      Occasion: { type: 'text' },
+      Done: { type: 'yesNo' },
+      Priority: { type: 'text' },
+      readAt: { type: 'datetime' },
+      DismissedAt: { type: 'datetime' },
+      Language: { type: 'text' },
+    },
+  },
+  {
+    sheet: 'registrations',
+    rowLabel: 'registration',
+    fields: {
+      'Registration Date': { type: 'date', required: true },
+      'Registration Time': { type: 'time' },
+      Name: { type: 'text', required: true },
+      Surname: { type: 'text' },
+      'Date of Birth': { type: 'date' },
+      Area: { type: 'text' },
+      'Contact Number': { type: 'phone' },
+      Email: { type: 'email' },
+      ReferredByCode: { type: 'text' },
+      Language: { type: 'text' },
+    },
+  },
+  {
+    sheet: 'announcements',
+    rowLabel: 'announcement',
+    fields: {
+      Date: { type: 'date', required: true },
+      Title: { type: 'text', required: true },
+      Content: { type: 'text' },
+      Category: { type: 'text' },
+      MediaURL: { type: 'url' },
+    },
+  },
+  {
+    sheet: 'schedule',
+    rowLabel: 'show',
+    fields: {
+      'Day(s) of Week': { type: 'days' },
+      Day: { type: 'days' },
+      Show: { type: 'text', required: true },
+      Presenter: { type: 'text' },
+      Start: { type: 'time', required: true },
+      End: { type: 'time', required: true },
+      Aliases: { type: 'text' },
+    },
+    // The Apps Script expands 'Day(s) of Week' into Day; rows from other sources get it here.
+    derive: row => (row.Day || !row['Day(s) of Week'] ? row : { ...row, Day: row['Day(s) of Week'] }),
+  },
+  {
+    sheet: 'knowledgeBase',
+    rowLabel: 'knowledge base entry',
+    fields: {
+      Topic: { type: 'text', required: true },
+      Information: { type: 'text', required: true },
+    },
+  },
+];
+
+/** Sheets that have a schema, in the order the data-quality report lists them. */
+export const SCHEMA_SHEETS = SCHEMAS.map(schema => getSheetName(schema.sheet));
+
+/** The dashboard's column names for a sheet, for the station settings' column mapping. */
+export const getSchemaColumns = (sheet: SheetKey): string[] =>
+  Object.keys(SCHEMAS.find(schema => schema.sheet === sheet)?.fields ?? {});
+
+export const getSheetSchema = (sheetName: string): SheetSchema | undefined => {
+  const key = getSheetKey(sheetName);
+  return SCHEMAS.find(schema => schema.sheet === key);
+};
+
+const isBlank = (value: unknown) => value == null || String(value).trim() === '';
+
+/**
+ * Normalizes the given columns of a row. With `checkRequired`, required columns
+ * must be present and non-empty; otherwise only the columns present are checked.
+ */
+const applySchema = (schema: SheetSchema, row: Partial<SheetRow>, checkRequired: boolean, previous?: Partial<SheetRow>) => {
+  const issues: DataQualityIssue[] = [];
+  const normalized: Partial<SheetRow> = { ...row };
+  const report = (column: string, value: unknown, message: string) =>
+    issues.push({ sheetName: getSheetName(schema.sheet), rowIndex: row.rowIndex ?? 0, rowId: row.ID, column, value, message });
+
+  for (const [column, rule] of Object.entries(schema.fields)) {
+    const present = column in row;
+    const value = row[column];
+    // An update may carry a malformed value it did not touch; that belongs in the report, not in the way of the edit.
+    if (previous && present && String(previous[column] ?? '') === String(value ?? '')) continue;
+    if (isBlank(value)) {
+      if (rule.required && (checkRequired || present)) report(column, value, 'required');
+      if (present) normalized[column] = '';
+      continue;
+    }
+    const result = normalizers[rule.type](String(value).trim());
+    if (result === null) report(column, value, problems[rule.type]);
+    else normalized[column] = result;
+  }
+
+  return { row: schema.derive ? schema.derive(normalized as SheetRow) : normalized, issues };
+};
+
+/**
+ * Normalizes rows read from a sheet. Sheets without a schema pass through untouched.
+ * Malformed rows are kept (with their unparseable values as they were) and listed in `issues`.
+ */
+export const parseSheetRows = <T extends SheetRow>(sheetName: string, rows: SheetRow[]): { rows: T[]; issues: DataQualityIssue[] } => {
+  const schema = getSheetSchema(sheetName);
+  if (!schema) return { rows: rows as T[], issues: [] };
+
+  const issues: DataQualityIssue[] = [];
+  const parsed = rows.map(row => {
+    const result = applySchema(schema, row, true);
+    issues.push(...result.issues);
+    return result.row as T;
+  });
+  return { rows: parsed, issues };
+};
+
+/**
+ * Normalizes a payload before it is written, or throws a ValidationError.
+ * New rows must fill every required column. Updates are checked only on the columns
+ * they carry and, when `previous` (the stored row) is given, only on those they change.
+ */
+export const validatePayload = <T extends Partial<SheetRow>>(
+  sheetName: string,
+  payload: T,
+  kind: 'create' | 'update',
+  previous?: Partial<SheetRow>
+): T => {
+  const schema = getSheetSchema(sheetName);
+  if (!schema) return payload;
+  const { row, issues } = applySchema(schema, payload, kind === 'create', previous);
+  if (issues.length > 0) throw new ValidationError(issues);
+  return row as T;
+};
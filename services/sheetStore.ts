@@ -0,0 +1,449 @@
+import { SheetRow } from '../types';
+import { fetchChanges, createRow, updateRow, deleteRow, batchWrite } from './googleSheetService';
+import { BatchOperation, SheetDelta, WriteResult } from './dataBackend';
+import { BatchError, ConflictError, DataQualityIssue } from './errors';
+import { recordAudit, recordAuditBatch } from './auditService';
+import { generateRowId, getRowKey, isSameRow } from './rowIds';
+import { parseSheetRows, validatePayload } from './sheetSchemas';
+import { SNAPSHOT_STORE, clearRecords, getRecord, putRecord } from './offlineDb';
+import {
+  OutboxEntry,
+  enqueue,
+  getPendingWrites,
+  hasQueuedWrites,
+  isNetworkError,
+  isOffline,
+  registerOutboxHandler,
+  setPendingChangeListener,
+} from './outbox';
+import { subscribeToPushEvents } from './pushChannel';
+
+/**
+ * Central client-side cache for sheet data.
+ *
+ * Every view reads sheets through this store instead of calling fetchData itself, so:
+ *  - each sheet is fetched at most once at a time (in-flight requests are shared),
+ *  - all mounted views see the same snapshot of a sheet,
+ *  - a single poll per sheet keeps the cache fresh while anything is subscribed,
+ *  - cached rows are served immediately while a background refresh runs (stale-while-revalidate),
+ *  - after the first load, refreshes download only the rows changed since the last sync cursor,
+ *  - every successful write is recorded in the audit log, with the cached row as its "before" value,
+ *  - the last rows fetched are saved in IndexedDB and served when the backend cannot be reached,
+ *  - writes made while offline go to the outbox and are overlaid on the cached rows until they replay,
+ *  - rows are normalized to their sheet's schema, and rows that do not fit are listed in `issues`,
+ *  - a push event naming a sheet (see pushChannel.ts) refetches it straight away instead of at the next poll.
+ */
+
+export interface SheetSnapshot<T extends SheetRow = SheetRow> {
+  rows: T[];
+  /** JS timestamp of the last successful fetch, or null if the sheet has never loaded. */
+  fetchedAt: number | null;
+  isFetching: boolean;
+  error: Error | null;
+  /** Values in the rows that do not fit the sheet's schema, for the data-quality report. */
+  issues: DataQualityIssue[];
+}
+
+type Listener = () => void;
+
+interface SheetEntry {
+  snapshot: SheetSnapshot;
+  /** Rows as the backend last reported them; snapshot.rows adds the queued writes and normalizes them. */
+  serverRows: SheetRow[];
+  inFlight: Promise<SheetRow[]> | null;
+  /** Sync cursor from the last fetch, sent as `since` on the next one. */
+  cursor: string | null;
+  listeners: Set<Listener>;
+  pollTimer: ReturnType<typeof setInterval> | null;
+}
+
+export const POLL_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes, matching the old per-view polls
+const STALE_AFTER_MS = 60 * 1000; // Cached data younger than this is served without revalidating
+
+const EMPTY_SNAPSHOT: SheetSnapshot = { rows: [], fetchedAt: null, isFetching: false, error: null, issues: [] };
+
+const entries = new Map<string, SheetEntry>();
+
+const getEntry = (sheetName: string): SheetEntry => {
+  let entry = entries.get(sheetName);
+  if (!entry) {
+    entry = { snapshot: EMPTY_SNAPSHOT, serverRows: [], inFlight: null, cursor: null, listeners: new Set(), pollTimer: null };
+    entries.set(sheetName, entry);
+  }
+  return entry;
+};
+
+const setSnapshot = (entry: SheetEntry, changes: Partial<SheetSnapshot>) => {
+  // Always replace the snapshot object so React sees a new reference.
+  entry.snapshot = { ...entry.snapshot, ...changes };
+  entry.listeners.forEach(listener => listener());
+};
+
+/** Overlays the sheet's queued writes, in order, on the rows from the backend. */
+const applyPendingWrites = (sheetName: string, rows: SheetRow[]): SheetRow[] =>
+  getPendingWrites(sheetName).reduce((result, { kind, row: queued }) => {
+    if (!queued) return result;
+    // Rows created while offline have no rowIndex until the backend assigns one.
+    const row = { rowIndex: 0, ...queued } as SheetRow;
+    if (kind === 'create') {
+      return result.some(r => isSameRow(r, row)) ? result : [...result, row];
+    }
+    if (kind === 'update') {
+      // Keep the backend's Version so edits queued later carry the one that is actually stored.
+      return result.map(r => (isSameRow(r, row) ? { ...r, ...queued, Version: r.Version } : r));
+    }
+    return result.filter(r => !isSameRow(r, row));
+  }, rows);
+
+const setServerRows = (sheetName: string, entry: SheetEntry, rows: SheetRow[], changes: Partial<SheetSnapshot> = {}) => {
+  entry.serverRows = rows;
+  const parsed = parseSheetRows(sheetName, applyPendingWrites(sheetName, rows));
+  setSnapshot(entry, { ...changes, rows: parsed.rows, issues: parsed.issues });
+};
+
+interface SavedSnapshot {
+  sheetName: string;
+  rows: SheetRow[];
+  cursor: string | null;
+  savedAt: number;
+}
+
+const saveSnapshot = (sheetName: string, entry: SheetEntry) => {
+  const saved: SavedSnapshot = { sheetName, rows: entry.serverRows, cursor: entry.cursor, savedAt: Date.now() };
+  putRecord(SNAPSHOT_STORE, saved).catch(error => console.error(`Sheet Store Error (save snapshot ${sheetName}):`, error));
+};
+
+/** Forgets every saved sheet, e.g. on logout, so registrations are not left on a shared studio PC. */
+export const clearSavedSnapshots = (): Promise<void> =>
+  clearRecords(SNAPSHOT_STORE).catch(error => console.error('Sheet Store Error (clear snapshots):', error));
+
+const isStale = (snapshot: SheetSnapshot) =>
+  snapshot.fetchedAt === null || Date.now() - snapshot.fetchedAt > STALE_AFTER_MS;
+
+/**
+ * Applies a delta to the cached rows: changed rows replace the cached row with the
+ * same ID, or failing that the one at the same rowIndex (a legacy row the backfill
+ * has just given an ID), new rows are appended, and a full snapshot replaces everything.
+ */
+const mergeRows = (cached: SheetRow[], delta: SheetDelta): SheetRow[] => {
+  if (delta.full) return delta.rows;
+  if (delta.rows.length === 0) return cached;
+
+  const merged = [...cached];
+  delta.rows.forEach(row => {
+    const byId = row.ID ? merged.findIndex(existing => existing.ID === row.ID) : -1;
+    const position = byId >= 0 ? byId : merged.findIndex(existing => existing.rowIndex === row.rowIndex);
+    if (position >= 0) merged[position] = row;
+    else merged.push(row);
+  });
+  return merged.sort((a, b) => a.rowIndex - b.rowIndex);
+};
+
+export const getSheetSnapshot = <T extends SheetRow>(sheetName: string): SheetSnapshot<T> =>
+  getEntry(sheetName).snapshot as SheetSnapshot<T>;
+
+/**
+ * Fetches a sheet into the cache. Concurrent callers share the same request.
+ * Resolves with the fresh rows; rejects if the fetch fails (the previous rows stay cached).
+ * If the backend is unreachable before anything has loaded, resolves with the rows saved last time instead.
+ */
+export const refreshSheet = <T extends SheetRow>(sheetName: string): Promise<T[]> => {
+  const entry = getEntry(sheetName);
+  if (entry.inFlight) return entry.inFlight as Promise<T[]>;
+
+  setSnapshot(entry, { isFetching: true });
+  // Only ask for a delta when there is something cached to apply it to.
+  const since = entry.snapshot.fetchedAt === null ? null : entry.cursor;
+  const request = fetchChanges(sheetName, since)
+    .then(delta => {
+      const rows = mergeRows(entry.serverRows, delta);
+      entry.cursor = delta.cursor;
+      setServerRows(sheetName, entry, rows, { fetchedAt: Date.now(), isFetching: false, error: null });
+      saveSnapshot(sheetName, entry);
+      return entry.snapshot.rows as T[];
+    })
+    .catch(async error => {
+      const failure = error instanceof Error ? error : new Error(String(error));
+      // Nothing loaded yet and the backend is unreachable: fall back to the rows saved last time.
+      const saved = entry.snapshot.fetchedAt === null && isNetworkError(error)
+        ? await getRecord<SavedSnapshot>(SNAPSHOT_STORE, sheetName).catch(() => undefined)
+        : undefined;
+      if (saved) {
+        entry.cursor = saved.cursor;
+        setServerRows(sheetName, entry, saved.rows, { fetchedAt: saved.savedAt, isFetching: false, error: null });
+        return entry.snapshot.rows as T[];
+      }
+      setSnapshot(entry, { isFetching: false, error: failure });
+      throw error;
+    })
+    .finally(() => {
+      entry.inFlight = null;
+    });
+
+  entry.inFlight = request;
+  return request;
+};
+
+/**
+ * Returns the cached rows when they are fresh enough, otherwise fetches them.
+ * Use this for one-off reads (e.g. building an AI prompt) rather than subscribing.
+ */
+export const readSheet = async <T extends SheetRow>(sheetName: string): Promise<T[]> => {
+  const { snapshot } = getEntry(sheetName);
+  if (!isStale(snapshot)) return snapshot.rows as T[];
+  return refreshSheet<T>(sheetName);
+};
+
+/**
+ * Subscribes to a sheet. The first subscriber triggers a load and starts the shared poll;
+ * the last one to leave stops it. Returns the unsubscribe function.
+ */
+export const subscribeToSheet = (sheetName: string, listener: Listener): (() => void) => {
+  const entry = getEntry(sheetName);
+  entry.listeners.add(listener);
+
+  if (isStale(entry.snapshot)) {
+    refreshSheet(sheetName).catch(error => console.error(`Sheet Store Error (${sheetName}):`, error));
+  }
+
+  if (!entry.pollTimer) {
+    entry.pollTimer = setInterval(() => {
+      refreshSheet(sheetName).catch(error => console.error(`Sheet Store Error (poll ${sheetName}):`, error));
+    }, POLL_INTERVAL_MS);
+  }
+
+  return () => {
+    entry.listeners.delete(listener);
+    if (entry.listeners.size === 0 && entry.pollTimer) {
+      clearInterval(entry.pollTimer);
+      entry.pollTimer = null;
+    }
+  };
+};
+
+// --- Write-through helpers ---
+// Writes go to the backend first, then the affected sheet is refetched so every view updates.
+// Updates are applied to the cache optimistically and rolled back if the backend rejects them.
+// Updates and deletes carry the cached row's Version; on a ConflictError the sheet is
+// refetched so the caller can show the user what changed.
+// While offline, or while earlier writes are still queued, writes go to the outbox instead and
+// resolve with `{ queued: true }`; the outbox replays them through the same perform* functions.
+// applySheetBatch does the same for many writes at once, applied all or not at all.
+
+/** A write result for a change that was queued rather than sent. */
+export interface QueuedWriteResult {
+  queued: true;
+  rowIndex: number;
+  ID?: string;
+}
+
+const replaceCachedRow = (sheetName: string, target: SheetRow, replace: (row: SheetRow) => SheetRow) => {
+  const entry = getEntry(sheetName);
+  setServerRows(sheetName, entry, entry.serverRows.map(row => (isSameRow(row, target) ? replace(row) : row)));
+};
+
+const refreshAfterWrite = (sheetName: string) => {
+  // A fetch that started before the write may not include it, so queue a fresh one behind it.
+  const { inFlight } = getEntry(sheetName);
+  const settled = inFlight ? inFlight.then(() => undefined, () => undefined) : Promise.resolve();
+  settled
+    .then(() => refreshSheet(sheetName))
+    .catch(error => console.error(`Sheet Store Error (refresh ${sheetName}):`, error));
+};
+
+const shouldQueue = () => isOffline() || hasQueuedWrites();
+
+const queueWrite = async (kind: OutboxEntry['kind'], sheetName: string, row: Partial<SheetRow>): Promise<QueuedWriteResult> => {
+  await enqueue({ kind, sheetName, row });
+  return { queued: true, rowIndex: row.rowIndex ?? 0, ID: row.ID };
+};
+
+// Queued updates and deletes all carry the Version the row had when they were queued. Once
+// the first of them replays the row has a new Version, so later ones are sent with that instead.
+const replayedVersions = new Map<string, string>();
+const replayedVersionKey = (row: Partial<SheetRow>) => `${getRowKey({ rowIndex: 0, ...row })}:${row.Version}`;
+const currentVersion = (row: Partial<SheetRow>) => replayedVersions.get(replayedVersionKey(row)) ?? row.Version;
+
+const performCreate = async (sheetName: string, row: Partial<SheetRow>, username?: string) => {
+  const result = await createRow(sheetName, row);
+  refreshAfterWrite(sheetName);
+  recordAudit('create', { sheet: sheetName, rowId: row.ID, rowIndex: result?.rowIndex, after: row, username });
+  return result;
+};
+
+const performUpdate = async (sheetName: string, rowData: SheetRow, previous: SheetRow | undefined, username?: string) => {
+  const result = await updateRow(sheetName, rowData);
+  // Adopt the new Version right away so a quick second edit is not rejected as stale.
+  if (result?.Version) replaceCachedRow(sheetName, rowData, row => ({ ...row, Version: result.Version }));
+  refreshAfterWrite(sheetName);
+  recordAudit('update', { sheet: sheetName, rowId: rowData.ID, rowIndex: rowData.rowIndex, before: previous, after: { ...previous, ...rowData }, username });
+  return result;
+};
+
+const performDelete = async (sheetName: string, previous: SheetRow, username?: string) => {
+  const result = await deleteRow(sheetName, { rowIndex: previous.rowIndex, ID: previous.ID, Version: previous.Version });
+  refreshAfterWrite(sheetName);
+  recordAudit('delete', { sheet: sheetName, rowId: previous.ID, rowIndex: previous.rowIndex, before: previous, username });
+  return result;
+};
+
+const findServerRow = (sheetName: string, target: Partial<SheetRow>) =>
+  getEntry(sheetName).serverRows.find(row => isSameRow(row, target as SheetRow));
+
+const performBatch = async (operations: BatchOperation[], username?: string): Promise<WriteResult[]> => {
+  const previous = operations.map(op => (op.kind === 'create' ? undefined : findServerRow(op.sheetName, op.row)));
+  operations.forEach((op, i) => {
+    const before = previous[i];
+    if (op.kind === 'update' && before) replaceCachedRow(op.sheetName, before, row => ({ ...row, ...op.row }));
+  });
+  const sheets = new Set(operations.map(op => op.sheetName));
+
+  let results: WriteResult[];
+  try {
+    results = await batchWrite(operations);
+  } catch (error) {
+    operations.forEach((op, i) => {
+      const before = previous[i];
+      if (op.kind === 'update' && before) replaceCachedRow(op.sheetName, before, () => before);
+    });
+    throw error;
+  }
+
+  operations.forEach((op, i) => {
+    const before = previous[i];
+    if (op.kind === 'update' && before && results[i]?.Version) {
+      replaceCachedRow(op.sheetName, before, row => ({ ...row, Version: results[i].Version }));
+    }
+  });
+  sheets.forEach(refreshAfterWrite);
+  recordAuditBatch(operations.map((op, i) => [op.kind, {
+    sheet: op.sheetName,
+    rowId: op.row.ID ?? results[i]?.ID,
+    rowIndex: results[i]?.rowIndex,
+    before: previous[i] ?? (op.kind === 'delete' ? op.row : undefined),
+    after: op.kind === 'delete' ? undefined : { ...previous[i], ...op.row },
+    username,
+  }]));
+  return results;
+};
+
+registerOutboxHandler('create', ({ sheetName, row, queuedBy }) => performCreate(sheetName!, row!, queuedBy));
+
+registerOutboxHandler('update', async ({ sheetName, row, queuedBy }) => {
+  const rowData = { ...row, Version: currentVersion(row!) } as SheetRow;
+  const result = await performUpdate(sheetName!, rowData, findServerRow(sheetName!, rowData), queuedBy);
+  if (result?.Version) replayedVersions.set(replayedVersionKey(row!), result.Version);
+  return result;
+});
+
+registerOutboxHandler('batch', async ({ operations, queuedBy }) => {
+  const replayed = operations!.map(op => (op.kind === 'create' ? op : { ...op, row: { ...op.row, Version: currentVersion(op.row) } }));
+  const results = await performBatch(replayed, queuedBy);
+  operations!.forEach((op, i) => {
+    if (op.kind === 'update' && results[i]?.Version) replayedVersions.set(replayedVersionKey(op.row), results[i].Version!);
+  });
+  return results;
+});
+
+registerOutboxHandler('delete', ({ sheetName, row, queuedBy }) => {
+  const target = { ...row, Version: currentVersion(row!) } as SheetRow;
+  return performDelete(sheetName!, findServerRow(sheetName!, target) ?? target, queuedBy);
+});
+
+setPendingChangeListener(sheetName => {
+  const entry = entries.get(sheetName);
+  if (!entry) return;
+  setServerRows(sheetName, entry, entry.serverRows);
+  if (!isOffline()) refreshAfterWrite(sheetName);
+});
+
+// A change announced by the push channel is fetched now; sheets that have never loaded wait until they are needed.
+subscribeToPushEvents(event => {
+  if (event.type === 'message') return;
+  const sheets = event.type === 'sheet' ? [event.sheet] : Array.from(entries.keys());
+  sheets.forEach(sheetName => {
+    if (entries.get(sheetName)?.snapshot.fetchedAt != null) refreshAfterWrite(sheetName);
+  });
+});
+
+// Payloads are validated up front so a malformed one is rejected now rather than failing in the outbox later.
+// The ID is fixed before the first attempt, so if a create that timed out was applied after all,
+// its replay finds the row by that ID and is not added twice (see DataBackend.create).
+export const createSheetRow = async (sheetName: string, rowData: Partial<SheetRow>): Promise<any> => {
+  const row = validatePayload(sheetName, { ...rowData, ID: rowData.ID || generateRowId() }, 'create');
+  if (shouldQueue()) return queueWrite('create', sheetName, row);
+  try {
+    return await performCreate(sheetName, row);
+  } catch (error) {
+    if (isNetworkError(error)) return queueWrite('create', sheetName, row);
+    throw error;
+  }
+};
+
+export const updateSheetRow = async (sheetName: string, payload: SheetRow): Promise<any> => {
+  const rowData = validatePayload(sheetName, payload, 'update', findServerRow(sheetName, payload));
+  if (shouldQueue()) return queueWrite('update', sheetName, rowData);
+  const previous = findServerRow(sheetName, rowData);
+  if (previous) replaceCachedRow(sheetName, rowData, row => ({ ...row, ...rowData }));
+
+  try {
+    return await performUpdate(sheetName, rowData, previous);
+  } catch (error) {
+    if (previous) replaceCachedRow(sheetName, rowData, () => previous);
+    if (isNetworkError(error)) return queueWrite('update', sheetName, rowData);
+    if (error instanceof ConflictError) refreshAfterWrite(sheetName);
+    throw error;
+  }
+};
+
+/** Deletes a row. Pass the row itself (as cached), so the backend can find it by ID. */
+export const deleteSheetRow = async (sheetName: string, target: SheetRow): Promise<any> => {
+  const previous = getEntry(sheetName).snapshot.rows.find(row => isSameRow(row, target)) ?? target;
+  if (shouldQueue()) return queueWrite('delete', sheetName, previous);
+  try {
+    return await performDelete(sheetName, previous);
+  } catch (error) {
+    if (isNetworkError(error)) return queueWrite('delete', sheetName, previous);
+    if (error instanceof ConflictError) refreshAfterWrite(sheetName);
+    throw error;
+  }
+};
+
+/**
+ * Applies several creates, updates and deletes, across any sheets, in one round trip:
+ * either all of them are saved or none is. Rows to delete are passed as cached.
+ * Rejects with a BatchError naming each operation that failed, including any whose
+ * payload does not fit its sheet's schema (those are caught before anything is sent).
+ */
+export const applySheetBatch = async (operations: BatchOperation[]): Promise<WriteResult[] | QueuedWriteResult[]> => {
+  const failures = new Map<number, Error>();
+  const prepared = operations.map((op, i) => {
+    try {
+      if (op.kind === 'create') {
+        return { ...op, row: validatePayload(op.sheetName, { ...op.row, ID: op.row.ID || generateRowId() }, 'create') };
+      }
+      if (op.kind === 'update') {
+        return { ...op, row: validatePayload(op.sheetName, op.row, 'update', findServerRow(op.sheetName, op.row)) };
+      }
+      const cached = getEntry(op.sheetName).snapshot.rows.find(row => isSameRow(row, op.row as SheetRow));
+      return { ...op, row: cached ?? op.row };
+    } catch (error) {
+      failures.set(i, error as Error);
+      return op;
+    }
+  });
+  if (failures.size > 0) throw new BatchError(failures);
+
+  const queueBatch = async (): Promise<QueuedWriteResult[]> => {
+    await enqueue({ kind: 'batch', operations: prepared });
+    return prepared.map(({ row }) => ({ queued: true, rowIndex: row.rowIndex ?? 0, ID: row.ID }));
+  };
+  if (shouldQueue()) return queueBatch();
+  try {
+    return await performBatch(prepared);
+  } catch (error) {
+    if (isNetworkError(error)) return queueBatch();
+    if (error instanceof BatchError) new Set(prepared.map(op => op.sheetName)).forEach(refreshAfterWrite);
+    throw error;
+  }
+};
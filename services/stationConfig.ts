@@ -0,0 +1,290 @@
+/**
+ * Station configuration. The dashboard can serve several community stations; each
+ * has its own backend and spreadsheet, branding, AI assistant persona, news region
+ * and WhatsApp number. Everything else in the dashboard refers to sheets by a
+ * SheetKey, to columns by the names in types.ts and to the station through
+ * getStationConfig(); this module translates those to the active station.
+ *
+ * Stations come from the built-in list (Eden FM, plus any in the STATIONS build
+ * variable) and from stations added or edited under Admin Panel → Station Settings,
+ * which are kept in this browser. Switching station reloads the dashboard, since the
+ * data backend, sheet caches and offline outbox are all built for one station at start-up.
+ */
+
+import { ConfigurationError } from './errors';
+
+export type SheetKey =
+  | 'requests'
+  | 'registrations'
+  | 'announcements'
+  | 'schedule'
+  | 'knowledgeBase'
+  | 'auditLog'
+  | 'optOuts';
+
+/** The languages the WhatsApp agent speaks with listeners, as recorded in the Language column. */
+export type ListenerLanguage = 'en' | 'af' | 'xh';
+
+export interface StationConfig {
+  /** Stable identifier, used to keep each station's sessions and offline data apart. */
+  id: string;
+  stationName: string;
+  /** Logo image URL. Empty uses the built-in logo for Eden FM and the station name elsewhere. */
+  logoUrl: string;
+  /** What the AI assistants call themselves, e.g. "Eden FM Buddy". */
+  assistantName: string;
+  /** The WhatsApp Agent's default system prompt. */
+  agentPrompt: string;
+  /**
+   * Sent to a listener when their request is seen on air.
+   * {name}, {song} and {station} are replaced with the request's values.
+   */
+  autoReplyTemplate: string;
+  /**
+   * The auto-reply in the listener's language, for requests the WhatsApp agent took in
+   * Afrikaans or isiXhosa. A language left empty gets autoReplyTemplate.
+   */
+  autoReplyTemplates: Partial<Record<ListenerLanguage, string>>;
+  /** The station's WhatsApp number in 2Chat (digits, with country code), used to send and read messages. */
+  whatsappNumber: string;
+  news: {
+    /** Appended to every news search, e.g. "Western Cape, South Africa". */
+    region: string;
+    /** Towns offered in Local News. */
+    locations: string[];
+  };
+  /** URL of the deployed Apps Script web app. */
+  backendUrl: string;
+  /**
+   * The companion server in server/, which runs the AI features and pushes live updates.
+   * A path such as '/api' means the dashboard's own address.
+   */
+  serverUrl: string;
+  /** The spreadsheet tab that holds each kind of data. */
+  sheets: Record<SheetKey, string>;
+  /**
+   * Per sheet, the spreadsheet header for each dashboard column whose header differs,
+   * e.g. `{ requests: { Whatsapp: 'WhatsApp Number' } }`. Unlisted columns keep their names.
+   */
+  columns: Partial<Record<SheetKey, Record<string, string>>>;
+}
+
+export const SHEET_LABELS: Record<SheetKey, string> = {
+  requests: 'Song requests',
+  registrations: 'Registered listeners',
+  announcements: 'Announcements',
+  schedule: 'Show schedule',
+  knowledgeBase: 'WhatsApp Agent knowledge base',
+  auditLog: 'Audit log',
+  optOuts: 'WhatsApp opt-outs',
+};
+
+export const LISTENER_LANGUAGES: Record<ListenerLanguage, string> = {
+  en: 'English',
+  af: 'Afrikaans',
+  xh: 'isiXhosa',
+};
+
+export const DEFAULT_STATION_ID = 'eden-fm';
+
+export const DEFAULT_STATION_CONFIG: StationConfig = {
+  id: DEFAULT_STATION_ID,
+  stationName: 'Eden FM',
+  logoUrl: '',
+  assistantName: 'Eden FM Buddy',
+  agentPrompt:
+    'You are Eden FM Buddy, a friendly and helpful AI assistant for our listeners on WhatsApp. Your goal is to assist with song requests, user registrations, and answer questions based on your knowledge base. Be conversational and engaging. If you cannot handle a request, politely inform the user that you will forward their message to a human DJ.',
+  autoReplyTemplate:
+    'Hi {name}! Your song request for "{song}" has been seen by the DJ at {station}. Thanks for tuning in!',
+  autoReplyTemplates: {
+    af: 'Hallo {name}! Die DJ by {station} het jou versoek vir "{song}" gesien. Dankie dat jy inskakel!',
+    xh: 'Molo {name}! Isicelo sakho sengoma ethi "{song}" sibonwe yiDJ ku-{station}. Enkosi ngokumamela!',
+  },
+  whatsappNumber: '',
+  news: {
+    region: 'Western Cape, South Africa',
+    locations: [
+      'Eden District',
+      'George',
+      'Mossel Bay',
+      'Oudtshoorn',
+      'Knysna',
+      'Riversdale',
+      'Sedgefield',
+      'Ladismith',
+      'De Rust',
+      'Plettenberg Bay',
+      'Uniondale',
+    ],
+  },
+  backendUrl:
+    process.env.SCRIPT_URL ||
+    'https://script.google.com/macros/s/AKfycbyAJ94P4NbnnXM48ALNHcUusZsf5GwSs8OFZ_Jx7XvllHav3q1I9YgeRdXASodV1jPi7g/exec',
+  serverUrl: process.env.SERVER_URL || '/api',
+  sheets: {
+    requests: 'Listeners Choice',
+    registrations: 'Registered Users',
+    announcements: 'Announcements',
+    schedule: 'TimeSlots',
+    knowledgeBase: 'KnowledgeBase',
+    auditLog: 'AuditLog',
+    optOuts: 'AgentOptOuts',
+  },
+  columns: {},
+};
+
+const STATIONS_STORAGE_KEY = 'edenFmStations';
+const ACTIVE_STATION_STORAGE_KEY = 'edenFmActiveStation';
+// Settings saved by the single-station version of this module, adopted as Eden FM's.
+const LEGACY_STORAGE_KEY = 'edenFmStationConfig';
+
+const hasStorage = () => typeof localStorage !== 'undefined';
+
+// Saved stations are merged over the defaults, so settings added in later versions get their default values.
+const withDefaults = (saved: Partial<StationConfig>): StationConfig => ({
+  ...DEFAULT_STATION_CONFIG,
+  ...saved,
+  id: saved.id || DEFAULT_STATION_ID,
+  sheets: { ...DEFAULT_STATION_CONFIG.sheets, ...saved.sheets },
+  autoReplyTemplates: { ...DEFAULT_STATION_CONFIG.autoReplyTemplates, ...saved.autoReplyTemplates },
+  columns: { ...saved.columns },
+  news: { ...DEFAULT_STATION_CONFIG.news, ...saved.news },
+});
+
+const readJson = <T>(key: string): T | null => {
+  if (!hasStorage()) return null;
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : null;
+  } catch (error) {
+    console.warn(`Station Config: ignoring corrupt saved settings (${key}).`, error);
+    return null;
+  }
+};
+
+/** Stations built into this deployment: Eden FM, plus any listed as JSON in the STATIONS build variable. */
+const builtInStations = (): StationConfig[] => {
+  let extra: Partial<StationConfig>[] = [];
+  try {
+    extra = process.env.STATIONS ? JSON.parse(process.env.STATIONS) : [];
+  } catch (error) {
+    console.warn('Station Config: STATIONS is not valid JSON.', error);
+  }
+  return [DEFAULT_STATION_CONFIG, ...extra.filter(station => station.id).map(withDefaults)];
+};
+
+const loadSavedStations = (): Partial<StationConfig>[] => {
+  const saved = readJson<Partial<StationConfig>[]>(STATIONS_STORAGE_KEY);
+  if (saved) return saved;
+  const legacy = readJson<Partial<StationConfig>>(LEGACY_STORAGE_KEY);
+  return legacy ? [{ ...legacy, id: DEFAULT_STATION_ID }] : [];
+};
+
+const loadStations = (): StationConfig[] => {
+  const stations = builtInStations();
+  loadSavedStations().forEach(saved => {
+    const index = stations.findIndex(station => station.id === saved.id);
+    const base = index >= 0 ? stations[index] : DEFAULT_STATION_CONFIG;
+    const merged = withDefaults({ ...base, ...saved, sheets: { ...base.sheets, ...saved.sheets } });
+    if (index >= 0) stations[index] = merged;
+    else stations.push(merged);
+  });
+  return stations;
+};
+
+const stations = loadStations();
+const activeStationId = hasStorage() ? localStorage.getItem(ACTIVE_STATION_STORAGE_KEY) : null;
+const activeConfig: StationConfig = stations.find(station => station.id === activeStationId) ?? stations[0];
+
+export const getStationConfig = (): StationConfig => activeConfig;
+
+/** Every station this browser knows about, built-in ones first. */
+export const listStations = (): StationConfig[] => stations;
+
+/** A station's settings as built into this deployment, before this browser's changes. */
+export const getBuiltInStation = (id: string): StationConfig | undefined =>
+  builtInStations().find(station => station.id === id);
+
+/**
+ * A localStorage key or database name for the active station. Eden FM keeps the
+ * unscoped name so data saved before stations existed is still found.
+ */
+export const stationScopedKey = (base: string): string =>
+  activeConfig.id === DEFAULT_STATION_ID ? base : `${base}:${activeConfig.id}`;
+
+/** Fills the {placeholders} in a station template such as the auto-reply. */
+export const fillTemplate = (template: string, values: Record<string, string>): string =>
+  template.replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match);
+
+/** The auto-reply template for a listener whose request recorded `language` (a Language cell, often empty). */
+export const autoReplyTemplateFor = (language: unknown): string => {
+  const translated = typeof language === 'string' && language in LISTENER_LANGUAGES ? activeConfig.autoReplyTemplates[language as ListenerLanguage] : '';
+  return translated?.trim() ? translated : activeConfig.autoReplyTemplate;
+};
+
+/** A Language cell as a name: "Afrikaans" for "af", the cell itself for a code we do not know. */
+export const languageName = (language: string): string => LISTENER_LANGUAGES[language as ListenerLanguage] ?? language;
+
+/** Makes the given station active. Callers reload the page for it to take effect. */
+export const switchStation = (id: string): void => {
+  if (!stations.some(station => station.id === id)) throw new ConfigurationError(`Unknown station "${id}".`);
+  if (hasStorage()) localStorage.setItem(ACTIVE_STATION_STORAGE_KEY, id);
+};
+
+/** The spreadsheet tab for a kind of data. */
+export const getSheetName = (key: SheetKey): string => activeConfig.sheets[key];
+
+/** The reverse of getSheetName, for code that is handed a tab name (e.g. the data backend). */
+export const getSheetKey = (sheetName: string): SheetKey | undefined =>
+  (Object.keys(activeConfig.sheets) as SheetKey[]).find(key => activeConfig.sheets[key] === sheetName);
+
+/** Dashboard column name → spreadsheet header, for the columns this station renames. */
+export const getColumnMapping = (sheetName: string): Record<string, string> => {
+  const key = getSheetKey(sheetName);
+  const mapping = (key && activeConfig.columns[key]) || {};
+  return Object.fromEntries(Object.entries(mapping).filter(([column, header]) => header && header !== column));
+};
+
+/** Checks a configuration before it is saved. Returns a list of problems, empty when it is fine. */
+export const validateStationConfig = (config: StationConfig): string[] => {
+  const problems: string[] = [];
+  if (!/^[a-z0-9-]+$/.test(config.id)) problems.push('The station ID may only contain lowercase letters, digits and dashes.');
+  if (!config.stationName.trim()) problems.push('The station needs a name.');
+  if (!/^https:\/\/\S+$/.test(config.backendUrl.trim())) problems.push('The backend URL must start with https://.');
+  if (!/^(https?:\/\/|\/)\S*$/.test(config.serverUrl.trim())) problems.push('The companion server URL must start with https://, http:// or /.');
+
+  const names = Object.values(config.sheets).map(name => name.trim());
+  if (names.some(name => !name)) problems.push('Every sheet needs a name.');
+  if (new Set(names).size !== names.length) problems.push('Two kinds of data cannot share one sheet.');
+
+  Object.entries(config.columns).forEach(([key, mapping]) => {
+    const headers = Object.values(mapping ?? {}).filter(Boolean);
+    if (new Set(headers).size !== headers.length) {
+      problems.push(`${SHEET_LABELS[key as SheetKey]}: two columns are mapped to the same header.`);
+    }
+  });
+  if (config.whatsappNumber && !/^\d{9,15}$/.test(config.whatsappNumber)) {
+    problems.push('The WhatsApp number must be digits only, with the country code.');
+  }
+  if (config.news.locations.length === 0) problems.push('Local News needs at least one town.');
+  return problems;
+};
+
+const saveStations = (saved: Partial<StationConfig>[]) => {
+  if (!hasStorage()) throw new ConfigurationError('Settings cannot be saved in this browser.');
+  localStorage.setItem(STATIONS_STORAGE_KEY, JSON.stringify(saved));
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+/** Adds a station, or replaces the saved settings of an existing one, in this browser. Takes effect on the next load. */
+export const saveStationConfig = (config: StationConfig): void => {
+  saveStations([...loadSavedStations().filter(station => station.id !== config.id), config]);
+};
+
+/**
+ * Forgets this browser's settings for a station: a built-in station goes back to its
+ * built-in settings, an added one is removed. Takes effect on the next load.
+ */
+export const resetStationConfig = (id: string): void => {
+  saveStations(loadSavedStations().filter(station => station.id !== id));
+};
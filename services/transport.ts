@@ -0,0 +1,94 @@
+import { AuthError, NetworkError, QuotaError, ScriptError, isTransientError } from './errors';
+
+/**
+ * The one place the dashboard talks HTTP to the Apps Script. Every request gets a
+ * timeout and its failures are sorted into the typed errors in errors.ts; reads can
+ * also be retried with exponential backoff, since Apps Script regularly answers with
+ * a passing 5xx or an HTML quota page. Writes are never retried here: a write that
+ * timed out may still have been applied, so it goes to the offline outbox instead.
+ * A replayed create is not added twice because the backend recognises its row ID
+ * (see DataBackend.create); a replayed update or delete of a row it already changed
+ * fails its Version check and is shown as a conflict rather than applied again.
+ */
+
+export interface TransportOptions {
+  /** Abort the request after this long. */
+  timeoutMs?: number;
+  /** Attempts in total, including the first. Only transient failures are retried. */
+  attempts?: number;
+  /** Delay before the first retry; doubled (plus jitter) before each further one. */
+  backoffMs?: number;
+}
+
+export const READ_OPTIONS: TransportOptions = { timeoutMs: 20_000, attempts: 3, backoffMs: 500 };
+export const WRITE_OPTIONS: TransportOptions = { timeoutMs: 30_000, attempts: 1 };
+// Uploads carry a whole file and Drive can be slow to accept it.
+export const UPLOAD_OPTIONS: TransportOptions = { timeoutMs: 90_000, attempts: 1 };
+
+// Quotas are per minute, so give them longer to clear than a passing 5xx.
+const QUOTA_BACKOFF_FACTOR = 4;
+
+// Apps Script answers some failures with an HTML page instead of JSON.
+const QUOTA_PAGE = /too many times|quota|rate limit|exceeded maximum/i;
+const SIGN_IN_PAGE = /accounts\.google\.com|ServiceLogin|you need access/i;
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * The error for a failure the script reported itself, or for a non-JSON page.
+ * Quota and permission failures are recognised by their wording.
+ */
+export const scriptFailure = (message: string, status?: number): Error => {
+  if (QUOTA_PAGE.test(message)) return new QuotaError('Apps Script quota exceeded.');
+  if (SIGN_IN_PAGE.test(message)) return new AuthError('Apps Script asked for a Google sign-in.');
+  return new ScriptError(message, status);
+};
+
+const parseBody = (text: string, status: number): any => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    const failure = scriptFailure(text, status >= 500 ? status : undefined);
+    throw failure instanceof ScriptError
+      ? new ScriptError('The script answered with something other than JSON.', failure.status)
+      : failure;
+  }
+};
+
+/** Fetches `url` once and returns its parsed JSON body, or throws one of the errors in errors.ts. */
+export const fetchJson = async (url: string, init: RequestInit, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<any> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  let response: Response;
+  let text: string;
+  try {
+    response = await fetch(url, { ...init, redirect: 'follow', signal: controller.signal });
+    text = await response.text();
+  } catch (error) {
+    if (controller.signal.aborted) throw new NetworkError(`No answer within ${timeoutMs / 1000}s.`, true);
+    // fetch rejects with a TypeError when the network is down or the request is blocked.
+    throw new NetworkError(error instanceof Error ? error.message : String(error));
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (response.status === 429) throw new QuotaError('Too many requests.');
+  if (response.status === 401 || response.status === 403) throw new AuthError(`Access denied (HTTP ${response.status}).`);
+  if (!response.ok) throw new ScriptError(`HTTP ${response.status}.`, response.status);
+  return parseBody(text, response.status);
+};
+
+/** Runs `attempt` up to `attempts` times, backing off between transient failures. */
+export const withRetry = async <T>(attempt: () => Promise<T>, { attempts = 1, backoffMs = 500 }: TransportOptions = {}): Promise<T> => {
+  for (let tried = 1; ; tried++) {
+    try {
+      return await attempt();
+    } catch (error) {
+      if (tried >= attempts || !isTransientError(error)) throw error;
+      const delay = backoffMs * 2 ** (tried - 1) * (error instanceof QuotaError ? QUOTA_BACKOFF_FACTOR : 1);
+      await wait(delay + Math.random() * backoffMs);
+    }
+  }
+};
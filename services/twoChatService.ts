@@ -1,17 +1,24 @@
-import { TCConversation, TCMessage } from '../types';
+import { SheetRow, TCConversation, TCMessage } from '../types';
 import { makeRequest } from './googleSheetService';
+import { READ_OPTIONS, TransportOptions } from './transport';
+import { recordAudit } from './auditService';
+import { enqueue, hasQueuedWrites, isNetworkError, isOffline, registerOutboxHandler } from './outbox';
+import { getSheetName, getStationConfig } from './stationConfig';
+import { OptedOutError } from './errors';
+import { getSheetSnapshot, refreshSheet } from './sheetStore';
 
-async function makeTwoChatRequest<T>(subAction: string, payload?: any): Promise<T> {
+async function makeTwoChatRequest<T>(subAction: string, payload?: any, options?: TransportOptions): Promise<T> {
   const requestBody = {
     action: '2chat', // Tells our Apps Script to use the proxy handler
     subAction,       // The specific 2Chat function to call
     payload,         // Any data needed, e.g., conversationId or message content
+    // The station's own WhatsApp number; empty lets the Apps Script use its default device.
+    fromNumber: getStationConfig().whatsappNumber || undefined,
   };
   
-  // The central makeRequest function handles the full fetch, error handling, and JSON parsing.
-  // It will throw an error if the request fails, which will be caught by the calling function.
+  // makeRequest handles the fetch, timeout and JSON parsing, and throws a typed error (see errors.ts) on failure.
   try {
-    return await makeRequest(requestBody);
+    return await makeRequest(requestBody, options);
   } catch (error) {
     console.error(`2Chat Service Error (via proxy for ${subAction}):`, error);
     throw error;
@@ -19,20 +26,74 @@ async function makeTwoChatRequest<T>(subAction: string, payload?: any): Promise<
 }
 
 export const fetchConversations = async (): Promise<TCConversation[]> => {
-    const response = await makeTwoChatRequest<{ conversations: TCConversation[] }>('fetchConversations');
+    const response = await makeTwoChatRequest<{ conversations: TCConversation[] }>('fetchConversations', undefined, READ_OPTIONS);
     return Array.isArray(response?.conversations) ? response.conversations : [];
 };
 
 export const fetchMessages = async (conversationId: string): Promise<TCMessage[]> => {
-    const response = await makeTwoChatRequest<{ messages: TCMessage[] }>('fetchMessages', { conversationId });
+    const response = await makeTwoChatRequest<{ messages: TCMessage[] }>('fetchMessages', { conversationId }, READ_OPTIONS);
     return Array.isArray(response?.messages) ? response.messages : [];
 };
 
-export const sendMessage = async (to: string, text: string): Promise<TCMessage> => {
+const digits = (value: unknown) => String(value ?? '').replace(/\D/g, '');
+
+/**
+ * The numbers that have replied STOP, from the opt-out sheet the companion server
+ * keeps: each STOP or START is a row, and a number's latest row decides.
+ */
+export const optedOutNumbers = (rows: SheetRow[]): Set<string> => {
+    const latest = new Map<string, boolean>();
+    rows.forEach(row => {
+        const number = digits(row.Number);
+        if (number) latest.set(number, row.Action === 'opt-out');
+    });
+    return new Set(Array.from(latest).filter(([, optedOut]) => optedOut).map(([number]) => number));
+};
+
+// Read fresh before each send, since a STOP may have arrived moments ago; the cached rows do if the read fails.
+const assertNotOptedOut = async (to: string) => {
+    const sheetName = getSheetName('optOuts');
+    const rows = await refreshSheet(sheetName).catch(error => {
+        console.error('2Chat Service Error (opt-out list):', error);
+        return getSheetSnapshot(sheetName).rows;
+    });
+    if (optedOutNumbers(rows).has(digits(to))) throw new OptedOutError(to);
+};
+
+const QUEUED_MESSAGE_PREFIX = 'queued-';
+
+const performSend = async (to: string, text: string, username?: string): Promise<TCMessage> => {
+    await assertNotOptedOut(to);
     const payload = { to, text };
     const response = await makeTwoChatRequest<{ message: TCMessage }>('sendMessage', payload);
     if (!response?.message?.id) {
         throw new Error("Failed to send message: Invalid response from API.");
     }
+    recordAudit('message', { recipient: to, message: text, username });
     return response.message;
+};
+
+registerOutboxHandler('message', ({ to, text, queuedBy }) => performSend(to!, text!, queuedBy));
+
+// A stand-in for a message that is waiting in the outbox, so the chat can show it straight away.
+const queueMessage = async (to: string, text: string): Promise<TCMessage> => {
+    const entry = await enqueue({ kind: 'message', to, text });
+    return { id: `${QUEUED_MESSAGE_PREFIX}${entry.id}`, text, from_me: true, created_at: entry.queuedAt, type: 'text' };
+};
+
+/** True for the placeholder sendMessage returns when the message was queued rather than sent. */
+export const isQueuedMessage = (message: TCMessage): boolean => message.id.startsWith(QUEUED_MESSAGE_PREFIX);
+
+/**
+ * Sends a WhatsApp message. While offline (or while earlier writes are still queued)
+ * the message goes to the outbox and is sent when the connection returns.
+ */
+export const sendMessage = async (to: string, text: string): Promise<TCMessage> => {
+    if (isOffline() || hasQueuedWrites()) return queueMessage(to, text);
+    try {
+        return await performSend(to, text);
+    } catch (error) {
+        if (isNetworkError(error)) return queueMessage(to, text);
+        throw error;
+    }
 };
\ No newline at end of file
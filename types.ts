@@ -1,9 +1,13 @@
 export interface SheetRow {
-  rowIndex: number;
+  rowIndex: number; // current position in the sheet; shifts when rows above are deleted
+  // NEW: Persistent UUID assigned on create (see services/rowIds.ts). Use this, not rowIndex, to refer to a row.
+  ID?: string;
+  // NEW: Opaque revision stamped by the backend on every write. Sent back with
+  // updates and deletes so a stale write is rejected instead of landing on the wrong row.
+  Version?: string;
   [key: string]: any;
 }
 
-// UPDATE: Added isRead property for local state management
 export interface SongRequest extends SheetRow {
   Date: string;
   Time: string;
@@ -15,9 +19,11 @@ export interface SongRequest extends SheetRow {
   'Song requested': string;
   'Dedication to': string;
   Occasion: string;
-  Done: string;
+  Done: string; // 'Yes' once the request has been read on air
   Priority: string;
   readAt?: string; // ISO timestamp for when the request was marked as read
+  DismissedAt?: string; // ISO timestamp for when the request was dismissed from the list
+  Language?: string; // 'en', 'af' or 'xh' for requests the WhatsApp agent took; empty otherwise
 }
 
 export interface Registration extends SheetRow {
@@ -31,6 +37,7 @@ export interface Registration extends SheetRow {
   'Contact Number': string;
   Email: string;
   ReferredByCode: string;
+  Language?: string; // as on SongRequest
 }
 
 export interface NewsItem extends SheetRow {
@@ -97,18 +104,6 @@ export interface KnowledgeBaseItem extends SheetRow {
   Information: string;
 }
 
-// NEW: For passing conversation history to the agent
-export interface GeminiChatTurn {
-    role: 'user' | 'model';
-    parts: { text: string }[];
-}
-
-// NEW: For managing WhatsApp Agent's conversation sessions
-export interface AgentSession {
-  history: GeminiChatTurn[];
-  lastActive: number; // JS timestamp (Date.now())
-}
-
 // NEW: For Google Search grounded news results
 export interface GroundingChunk {
   web?: {
@@ -127,4 +122,53 @@ export interface DataTableColumn<T extends SheetRow> {
   key: keyof T;
   label: string;
   inputType?: 'text' | 'daysOfWeek';
-}
\ No newline at end of file
+}
+
+// NEW: Staff roles, from least to most access. Permissions per role live in services/permissions.ts.
+export type Role = 'presenter' | 'producer' | 'admin';
+
+// NEW: Dashboard user accounts, stored in the 'Users' sheet (or the local auth store in development)
+export interface UserAccount extends SheetRow {
+  Username: string;
+  DisplayName: string;
+  PasswordHash: string;
+  PasswordSalt: string;
+  Role: string; // 'presenter', 'producer' or 'admin'
+  MustChangePassword?: string; // 'Yes' after an admin reset, until the user picks a new password
+  Disabled?: string; // 'Yes' blocks sign-in without deleting the account
+}
+
+// NEW: Server-side record of a signed-in session, stored in the 'Sessions' sheet
+export interface SessionRecord extends SheetRow {
+  TokenHash: string; // SHA-256 of the session token; the token itself never leaves the browser
+  Username: string;
+  CreatedAt: string;
+  ExpiresAt: string;
+  RevokedAt?: string;
+}
+
+// NEW: The signed-in user as seen by the UI
+export interface AuthSession {
+  token: string;
+  username: string;
+  displayName: string;
+  role: Role;
+  expiresAt: string;
+  mustChangePassword: boolean;
+}
+
+// NEW: One append-only entry in the 'AuditLog' sheet
+export type AuditAction = 'create' | 'update' | 'delete' | 'message';
+
+export interface AuditEntry extends SheetRow {
+  Timestamp: string;
+  Username: string;
+  Action: AuditAction;
+  Sheet: string; // empty for WhatsApp messages
+  RowId: string; // ID of the row the change applied to; empty for messages
+  RowIndex: string; // where that row was at the time
+  Before: string; // JSON of the row before an update or delete
+  After: string; // JSON of the row after a create or update
+  Recipient: string; // WhatsApp number for messages
+  Message: string;
+}
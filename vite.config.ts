@@ -8,11 +8,21 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The companion server (npm run server), at the default SERVER_URL of /api.
+        proxy: {
+          '/api': {
+            target: 'http://localhost:8787',
+            rewrite: url => url.replace(/^\/api/, ''),
+          },
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.DATA_BACKEND': JSON.stringify(env.DATA_BACKEND),
+        'process.env.AUTH_PROVIDER': JSON.stringify(env.AUTH_PROVIDER),
+        'process.env.SCRIPT_URL': JSON.stringify(env.SCRIPT_URL),
+        'process.env.STATIONS': JSON.stringify(env.STATIONS),
+        'process.env.SERVER_URL': JSON.stringify(env.SERVER_URL)
       },
       resolve: {
         alias: {